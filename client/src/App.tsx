@@ -12,6 +12,7 @@ import AuthPage from "@/pages/AuthPage";
 import CustomerDashboard from "@/pages/CustomerDashboard";
 import DriverDashboard from "@/pages/DriverDashboard";
 import RideInProgress from "@/pages/RideInProgress";
+import DeliveryTracking from "@/pages/DeliveryTracking";
 import NotFound from "@/pages/not-found";
 
 function AuthenticatedRoutes() {
@@ -50,6 +51,8 @@ function App() {
               <RideProvider>
                 <Switch>
                   <Route path="/auth" component={AuthPage} />
+                  {/* Parcel recipients follow their delivery without an account */}
+                  <Route path="/delivery/:token" component={DeliveryTracking} />
                   <Route component={AuthenticatedRoutes} />
                 </Switch>
               </RideProvider>
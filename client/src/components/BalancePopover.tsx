@@ -0,0 +1,101 @@
+import { useEffect, useState } from "react";
+import type { LedgerPostingType, UserTransaction } from "@shared/schema";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Spinner } from "./Spinner";
+import { useAuth } from "@/context/AuthContext";
+import { api } from "@/lib/api";
+import { cn } from "@/lib/utils";
+
+// How often the balance is re-read; rides settle on the server without telling this component
+const BALANCE_REFRESH_MS = 15000;
+
+const transactionLabels: Record<LedgerPostingType, string> = {
+  deposit: "Deposit",
+  stake_lock: "Stake locked",
+  fare_release: "Fare received",
+  platform_fee: "Platform fee",
+  stake_refund: "Stake refunded",
+  tip: "Tip",
+  cancellation_fee: "Cancellation fee",
+  withdrawal: "Paid to wallet",
+};
+
+function formatAmount(amount: number): string {
+  return `${amount < 0 ? "-" : "+"}$${Math.abs(amount).toFixed(2)}`;
+}
+
+// The header balance; opens onto the postings that make it up
+export function BalancePopover() {
+  const { user, refreshUser } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [transactions, setTransactions] = useState<UserTransaction[] | null>(null);
+
+  useEffect(() => {
+    const interval = setInterval(() => {
+      refreshUser().catch((error) => console.error("Failed to refresh balance:", error));
+    }, BALANCE_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [refreshUser]);
+
+  useEffect(() => {
+    if (!open || !user) return;
+    let cancelled = false;
+    api.getTransactions(user.id)
+      .then((result) => {
+        if (!cancelled) setTransactions(result);
+      })
+      .catch((error) => console.error("Failed to load transactions:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, user?.id, user?.balance]);
+
+  if (!user) return null;
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="hidden sm:flex items-center gap-2 rounded-lg bg-muted px-3 py-1.5 hover-elevate"
+          data-testid="button-balance"
+        >
+          <span className="text-sm text-muted-foreground">Balance:</span>
+          <span className="font-mono font-semibold" data-testid="text-balance">${user.balance.toFixed(2)}</span>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="px-4 py-3 border-b text-sm font-medium">Recent transactions</div>
+        <div className="max-h-80 overflow-y-auto">
+          {!transactions ? (
+            <div className="flex justify-center py-6">
+              <Spinner size="sm" />
+            </div>
+          ) : transactions.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-muted-foreground">No transactions yet</p>
+          ) : (
+            transactions.map((transaction) => (
+              <div
+                key={transaction.id}
+                className="flex items-center justify-between gap-2 px-4 py-2 border-b last:border-b-0"
+                data-testid={`transaction-${transaction.id}`}
+              >
+                <div>
+                  <p className="text-sm">{transactionLabels[transaction.type]}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(transaction.createdAt).toLocaleString([], { dateStyle: "short", timeStyle: "short" })}
+                  </p>
+                </div>
+                <span
+                  className={cn("font-mono text-sm", transaction.amount > 0 ? "text-emerald-600" : "text-muted-foreground")}
+                >
+                  {formatAmount(transaction.amount)}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
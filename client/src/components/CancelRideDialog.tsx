@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+import { Info } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Spinner } from "./Spinner";
+import { api } from "@/lib/api";
+import {
+  cancellationReasonsByRole,
+  type Cancellation,
+  type CancellationReason,
+  type UserRole,
+} from "@shared/schema";
+
+export const cancellationReasonLabels: Record<CancellationReason, string> = {
+  changed_plans: "My plans changed",
+  long_wait: "The wait is too long",
+  wrong_pickup: "Wrong pickup location",
+  driver_no_show: "Driver didn't show up",
+  customer_no_show: "Customer didn't show up",
+  unsafe_pickup: "Pickup isn't safe",
+  vehicle_issue: "Problem with my vehicle",
+  other: "Something else",
+};
+
+// One line on what the cancellation costs, from the side of whoever is cancelling
+function describeTerms(terms: Cancellation, role: UserRole): string {
+  if (role === "customer") {
+    if (terms.fee === 0) return `Free: your stake of $${terms.refund.toFixed(2)} is refunded in full.`;
+    return `A $${terms.fee.toFixed(2)} fee goes to the driver from your stake; $${terms.refund.toFixed(2)} is refunded.`;
+  }
+  if (terms.fee > 0) return `The customer is charged $${terms.fee.toFixed(2)} for the wasted trip, paid to you.`;
+  if (terms.atFault === "driver") return `The customer is refunded in full and your reputation drops by ${terms.reputationPenalty}.`;
+  return "The customer is refunded in full.";
+}
+
+interface CancelRideDialogProps {
+  rideId: string | null;
+  role: UserRole;
+  onClose: () => void;
+  onCancelled: () => void;
+}
+
+// Asks why the ride is being cancelled and shows what the policy will charge before confirming
+export function CancelRideDialog({ rideId, role, onClose, onCancelled }: CancelRideDialogProps) {
+  const reasons = cancellationReasonsByRole[role];
+  const [reason, setReason] = useState<CancellationReason>(reasons[0]);
+  const [note, setNote] = useState("");
+  const [terms, setTerms] = useState<Cancellation | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isCancelling, setIsCancelling] = useState(false);
+
+  // Fees depend on the reason (no-shows) and on how far the ride has got, so re-price on every change
+  useEffect(() => {
+    if (!rideId) return;
+    let cancelled = false;
+    setTerms(null);
+    setError(null);
+    api.getCancellationTerms(rideId, reason)
+      .then((result) => {
+        if (!cancelled) setTerms(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : "Could not price the cancellation");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [rideId, reason]);
+
+  const handleClose = () => {
+    if (isCancelling) return;
+    setReason(reasons[0]);
+    setNote("");
+    setError(null);
+    onClose();
+  };
+
+  const handleConfirm = async () => {
+    if (!rideId) return;
+    setIsCancelling(true);
+    setError(null);
+    try {
+      await api.cancelRide(rideId, { reason, note: note || undefined });
+      setReason(reasons[0]);
+      setNote("");
+      onCancelled();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not cancel the ride");
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  return (
+    <Dialog open={rideId !== null} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-md" data-testid="cancel-ride-dialog">
+        <DialogHeader>
+          <DialogTitle>Cancel {role === "driver" ? "Pickup" : "Ride"}</DialogTitle>
+          <DialogDescription>Why are you cancelling?</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="grid grid-cols-1 gap-2">
+            {reasons.map((option) => (
+              <Button
+                key={option}
+                type="button"
+                variant={reason === option ? "default" : "outline"}
+                onClick={() => setReason(option)}
+                className="justify-start"
+                data-testid={`button-reason-${option}`}
+              >
+                {cancellationReasonLabels[option]}
+              </Button>
+            ))}
+          </div>
+
+          <Textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Anything to add? (optional)"
+            maxLength={200}
+            className="h-20 resize-none"
+            data-testid="input-cancel-note"
+          />
+
+          <div className="flex items-start gap-2 p-3 rounded-lg bg-muted/50 text-sm" data-testid="text-cancellation-terms">
+            <Info className="h-4 w-4 mt-0.5 flex-shrink-0 text-muted-foreground" />
+            {terms ? <p>{describeTerms(terms, role)}</p> : <Spinner size="sm" />}
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose} disabled={isCancelling} data-testid="button-keep-ride">
+            Keep {role === "driver" ? "Pickup" : "Ride"}
+          </Button>
+          <Button
+            variant="destructive"
+            onClick={handleConfirm}
+            disabled={isCancelling || !terms}
+            className="min-w-[100px]"
+            data-testid="button-confirm-cancel"
+          >
+            {isCancelling ? <Spinner size="sm" /> : "Cancel"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,58 @@
+import type { TripFare } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+interface FareBreakdownProps {
+  fare: TripFare;
+  // Live fare while the ride is still going, final fare otherwise
+  isFinal?: boolean;
+  className?: string;
+}
+
+export function FareBreakdown({ fare, isFinal = false, className }: FareBreakdownProps) {
+  const subtotal = fare.baseFare + fare.distanceFare + fare.timeFare;
+
+  return (
+    <div className={cn("space-y-1.5 text-sm", className)} data-testid="fare-breakdown">
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Base fare</span>
+        <span className="font-mono">${fare.baseFare.toFixed(2)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Distance ({fare.distanceKm.toFixed(1)} km)</span>
+        <span className="font-mono">${fare.distanceFare.toFixed(2)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-muted-foreground">Time ({fare.durationMinutes} min)</span>
+        <span className="font-mono">${fare.timeFare.toFixed(2)}</span>
+      </div>
+      {fare.surgeMultiplier > 1 && (
+        <div className="flex justify-between text-orange-600">
+          <span>Surge ({fare.surgeMultiplier.toFixed(1)}×)</span>
+          <span className="font-mono">+${(subtotal * (fare.surgeMultiplier - 1)).toFixed(2)}</span>
+        </div>
+      )}
+      {fare.poolDiscount > 0 && (
+        <div className="flex justify-between text-emerald-600">
+          <span>Pool discount</span>
+          <span className="font-mono">-${fare.poolDiscount.toFixed(2)}</span>
+        </div>
+      )}
+      {fare.parcelFee > 0 && (
+        <div className="flex justify-between">
+          <span className="text-muted-foreground">Parcel fee</span>
+          <span className="font-mono">${fare.parcelFee.toFixed(2)}</span>
+        </div>
+      )}
+      {fare.cappedAtStake && (
+        <p className="text-xs text-muted-foreground">Capped at the staked amount</p>
+      )}
+      {fare.source === "quote" && (
+        <p className="text-xs text-muted-foreground">Not enough GPS data, priced from the quoted route</p>
+      )}
+      <div className="flex justify-between border-t pt-1.5 font-semibold">
+        <span>{isFinal ? "Total" : "Fare so far"}</span>
+        <span className="font-mono">${fare.fare.toFixed(2)}</span>
+      </div>
+    </div>
+  );
+}
@@ -3,13 +3,17 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useAuth } from "@/context/AuthContext";
 import { useTheme } from "@/context/ThemeContext";
+import { BalancePopover } from "./BalancePopover";
+import { Identicon } from "./Identicon";
 
 export function Header() {
-  const { user, walletAddress, disconnect } = useAuth();
+  const { user, walletAddress, walletAccounts, disconnect } = useAuth();
   const { theme, toggleTheme } = useTheme();
 
   if (!user) return null;
 
+  const accountName = walletAccounts?.find((account) => account.address === walletAddress)?.name;
+
   return (
     <header className="sticky top-0 z-50 h-16 border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
       <div className="flex h-full items-center justify-between gap-4 px-4 md:px-6">
@@ -34,14 +38,16 @@ export function Header() {
           )}
 
           {/* Balance */}
-          <div className="hidden sm:flex items-center gap-2 rounded-lg bg-muted px-3 py-1.5">
-            <span className="text-sm text-muted-foreground">Balance:</span>
-            <span className="font-mono font-semibold">${user.balance.toFixed(2)}</span>
-          </div>
+          <BalancePopover />
 
           {/* Wallet Address */}
           <div className="flex items-center gap-2 rounded-lg border px-3 py-1.5">
-            <Wallet className="h-4 w-4 text-muted-foreground" />
+            {walletAddress ? (
+              <Identicon address={walletAddress} size={20} />
+            ) : (
+              <Wallet className="h-4 w-4 text-muted-foreground" />
+            )}
+            {accountName && <span className="text-sm font-medium hidden md:inline">{accountName}</span>}
             <span className="font-mono text-sm hidden sm:inline">{walletAddress}</span>
             <span className="font-mono text-sm sm:hidden">
               {walletAddress?.slice(0, 6)}...
@@ -0,0 +1,29 @@
+import { useMemo } from "react";
+import { polkadotIcon } from "@polkadot/ui-shared";
+import { cn } from "@/lib/utils";
+
+interface IdenticonProps {
+  address: string;
+  size?: number;
+  className?: string;
+}
+
+// The circle pattern Polkadot wallets draw for an address, so users can tell their accounts apart at a glance
+export function Identicon({ address, size = 32, className }: IdenticonProps) {
+  // Addresses it can't decode get a plain grey pattern
+  const circles = useMemo(() => polkadotIcon(address, { isAlternative: false }), [address]);
+
+  return (
+    <svg
+      viewBox="0 0 64 64"
+      width={size}
+      height={size}
+      className={cn("flex-shrink-0 rounded-full bg-muted", className)}
+      data-testid="img-identicon"
+    >
+      {circles.map(({ cx, cy, fill, r }, index) => (
+        <circle key={index} cx={cx} cy={cy} fill={fill} r={r} />
+      ))}
+    </svg>
+  );
+}
@@ -1,8 +1,8 @@
 import { useEffect, useRef } from "react";
-import { MapContainer, TileLayer, Marker, Polyline, useMap } from "react-leaflet";
+import { MapContainer, TileLayer, Marker, Polyline, Rectangle, Tooltip, useMap } from "react-leaflet";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
-import type { Location } from "@shared/schema";
+import type { Location, SurgeCell } from "@shared/schema";
 
 // Fix for default marker icons in React-Leaflet
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -71,6 +71,27 @@ const dropoffIcon = new L.DivIcon({
   iconAnchor: [16, 40],
 });
 
+// Numbered marker for an intermediate stop; stops already reached are greyed out
+function stopIcon(number: number, reached: boolean) {
+  const color = reached ? "bg-slate-400" : "bg-amber-500";
+  const arrow = reached ? "border-t-slate-400" : "border-t-amber-500";
+  return new L.DivIcon({
+    className: "stop-marker",
+    html: `
+      <div class="relative">
+        <div class="absolute -translate-x-1/2 -translate-y-full">
+          <div class="w-7 h-7 rounded-full ${color} flex items-center justify-center shadow-lg text-white text-xs font-bold">
+            ${number}
+          </div>
+          <div class="w-0 h-0 border-l-4 border-r-4 border-t-8 border-l-transparent border-r-transparent ${arrow} mx-auto -mt-1"></div>
+        </div>
+      </div>
+    `,
+    iconSize: [28, 36],
+    iconAnchor: [14, 36],
+  });
+}
+
 // Component to update map view
 function MapUpdater({ center, zoom }: { center?: [number, number]; zoom?: number }) {
   const map = useMap();
@@ -87,8 +108,18 @@ function MapUpdater({ center, zoom }: { center?: [number, number]; zoom?: number
 interface LiveMapProps {
   driverLocation?: Location | null;
   pickupLocation?: Location | null;
+  // Intermediate stops in visiting order, drawn with numbered markers
+  stops?: Location[];
+  // How many of the stops have been reached
+  stopsReached?: number;
   dropoffLocation?: Location | null;
   showRoute?: boolean;
+  // Road route geometry to draw instead of straight lines between the markers
+  routePath?: Location[];
+  // Surging areas to shade (driver view)
+  surgeCells?: SurgeCell[];
+  // Path actually driven, e.g. during a trip replay
+  trace?: Location[];
   className?: string;
   interactive?: boolean;
   onLocationSelect?: (location: Location) => void;
@@ -97,8 +128,13 @@ interface LiveMapProps {
 export function LiveMap({
   driverLocation,
   pickupLocation,
+  stops = [],
+  stopsReached = 0,
   dropoffLocation,
   showRoute = false,
+  routePath,
+  surgeCells = [],
+  trace = [],
   className = "",
   interactive = false,
   onLocationSelect,
@@ -114,13 +150,17 @@ export function LiveMap({
     return [37.7749, -122.4194];
   };
 
-  // Calculate route points
+  // Calculate route points, as the crow flies until the road route is known
   const routePoints: [number, number][] = [];
-  if (showRoute) {
+  if (showRoute && routePath && routePath.length >= 2) {
+    routePath.forEach((point) => routePoints.push([point.lat, point.lng]));
+  } else if (showRoute) {
     if (pickupLocation) routePoints.push([pickupLocation.lat, pickupLocation.lng]);
     if (driverLocation) routePoints.push([driverLocation.lat, driverLocation.lng]);
+    stops.slice(stopsReached).forEach((stop) => routePoints.push([stop.lat, stop.lng]));
     if (dropoffLocation) routePoints.push([dropoffLocation.lat, dropoffLocation.lng]);
   }
+  const isRoadRoute = !!routePath && routePath.length >= 2;
 
   return (
     <div className={`relative rounded-xl overflow-hidden ${className}`} data-testid="live-map">
@@ -140,6 +180,35 @@ export function LiveMap({
         
         <MapUpdater center={getCenter()} />
 
+        {/* Surge Overlay */}
+        {surgeCells.map((surge) => (
+          <Rectangle
+            key={surge.cell}
+            bounds={[[surge.bounds.south, surge.bounds.west], [surge.bounds.north, surge.bounds.east]]}
+            pathOptions={{
+              color: "hsl(25, 95%, 53%)",
+              weight: 1,
+              fillOpacity: Math.min(0.5, 0.15 * surge.multiplier),
+            }}
+          >
+            <Tooltip direction="center" permanent>
+              {surge.multiplier.toFixed(1)}×
+            </Tooltip>
+          </Rectangle>
+        ))}
+
+        {/* Driven Path */}
+        {trace.length >= 2 && (
+          <Polyline
+            positions={trace.map((point): [number, number] => [point.lat, point.lng])}
+            pathOptions={{
+              color: "hsl(320, 85%, 50%)",
+              weight: 4,
+              opacity: 0.8,
+            }}
+          />
+        )}
+
         {/* Driver Marker */}
         {driverLocation && (
           <Marker
@@ -156,6 +225,15 @@ export function LiveMap({
           />
         )}
 
+        {/* Stop Markers */}
+        {stops.map((stop, index) => (
+          <Marker
+            key={`${index}-${stop.lat},${stop.lng}`}
+            position={[stop.lat, stop.lng]}
+            icon={stopIcon(index + 1, index < stopsReached)}
+          />
+        ))}
+
         {/* Dropoff Marker */}
         {dropoffLocation && (
           <Marker
@@ -172,7 +250,7 @@ export function LiveMap({
               color: "hsl(320, 85%, 50%)",
               weight: 4,
               opacity: 0.8,
-              dashArray: "10, 10",
+              dashArray: isRoadRoute ? undefined : "10, 10",
             }}
           />
         )}
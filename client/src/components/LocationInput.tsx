@@ -17,13 +17,19 @@ const sampleLocations: { name: string; location: Location }[] = [
   { name: "Mission District", location: { lat: 37.7599, lng: -122.4148, address: "Mission District, SF" } },
 ];
 
+const markerColors = {
+  pickup: "text-emerald-500",
+  stop: "text-amber-500",
+  dropoff: "text-blue-500",
+};
+
 interface LocationInputProps {
   label: string;
   value: Location | null;
   onChange: (location: Location | null) => void;
   placeholder?: string;
   className?: string;
-  type?: "pickup" | "dropoff";
+  type?: "pickup" | "stop" | "dropoff";
 }
 
 export function LocationInput({
@@ -95,7 +101,7 @@ export function LocationInput({
           <MapPin
             className={cn(
               "absolute left-3 top-1/3 -translate-y-1/2 h-4 w-4",
-              type === "pickup" ? "text-emerald-500" : "text-blue-500"
+              markerColors[type]
             )}
           />
           <Input
@@ -133,7 +139,7 @@ export function LocationInput({
                 <MapPin
                   className={cn(
                     "h-4 w-4 flex-shrink-0",
-                    type === "pickup" ? "text-emerald-500" : "text-blue-500"
+                    markerColors[type]
                   )}
                 />
                 <div>
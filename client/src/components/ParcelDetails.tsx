@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { Package, Phone, Link2 } from "lucide-react";
+import type { Contact, Parcel, ParcelSummary, PackageSize } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { cn } from "@/lib/utils";
+
+export const packageSizeLabels: Record<PackageSize, string> = {
+  small: "Small",
+  medium: "Medium",
+  large: "Large",
+};
+
+// Size and weight of a parcel at a glance, for ride cards
+export function ParcelBadge({ parcel }: { parcel: ParcelSummary | null }) {
+  if (!parcel) return null;
+  return (
+    <Badge variant="outline" className="gap-1 border-amber-500/20 bg-amber-500/10 text-amber-600" data-testid="badge-parcel">
+      <Package className="h-3 w-3" />
+      {packageSizeLabels[parcel.size]} parcel · {parcel.weightKg} kg
+    </Badge>
+  );
+}
+
+function ContactLine({ label, contact }: { label: string; contact: Contact }) {
+  return (
+    <div className="flex items-center justify-between gap-2 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="font-medium text-right">
+        {contact.name}
+        <a href={`tel:${contact.phone}`} className="ml-2 inline-flex items-center gap-1 text-primary">
+          <Phone className="h-3 w-3" />
+          {contact.phone}
+        </a>
+      </span>
+    </div>
+  );
+}
+
+interface ParcelDetailsProps {
+  parcel: Parcel;
+  className?: string;
+}
+
+// Package and contacts for the driver carrying it and the customer who sent it
+export function ParcelDetails({ parcel, className }: ParcelDetailsProps) {
+  return (
+    <div className={cn("p-4 rounded-xl border border-amber-500/20 bg-amber-500/5 space-y-2", className)} data-testid="parcel-details">
+      <div className="flex items-center gap-2 font-medium">
+        <Package className="h-4 w-4 text-amber-600" />
+        {packageSizeLabels[parcel.size]} parcel · {parcel.weightKg} kg
+      </div>
+      <ContactLine label="Sender" contact={parcel.sender} />
+      <ContactLine label="Recipient" contact={parcel.recipient} />
+      {parcel.handlingNotes && (
+        <p className="text-sm text-muted-foreground break-words" data-testid="text-handling-notes">
+          {parcel.handlingNotes}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Copies the recipient's tracking link, where they follow the parcel; their PIN for the driver comes by text
+export function RecipientLinkButton({ rideId }: { rideId: string }) {
+  const [isCopying, setIsCopying] = useState(false);
+
+  const copyLink = async () => {
+    setIsCopying(true);
+    try {
+      const { token } = await api.getRecipientLink(rideId);
+      await navigator.clipboard.writeText(`${window.location.origin}/delivery/${token}`);
+      toast({ title: "Tracking link copied", description: "Send it to the recipient; their PIN for the driver is texted to their phone" });
+    } catch (error) {
+      console.error("Failed to copy tracking link:", error);
+      toast({ title: "Could not copy the tracking link", variant: "destructive" });
+    } finally {
+      setIsCopying(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" onClick={copyLink} disabled={isCopying} className="w-full" data-testid="button-copy-recipient-link">
+      <Link2 className="h-4 w-4 mr-2" />
+      Copy recipient tracking link
+    </Button>
+  );
+}
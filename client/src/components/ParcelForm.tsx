@@ -0,0 +1,140 @@
+import { Package } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { packageSizeLabels } from "@/components/ParcelDetails";
+import { packageSizes, PACKAGE_WEIGHT_LIMITS_KG, parcelSchema, type PackageSize, type Parcel } from "@shared/schema";
+
+// Parcel fields as typed, before they make a valid parcel
+export interface ParcelDraft {
+  size: PackageSize;
+  weightKg: string;
+  senderName: string;
+  senderPhone: string;
+  recipientName: string;
+  recipientPhone: string;
+  handlingNotes: string;
+}
+
+export function emptyParcelDraft(senderName = ""): ParcelDraft {
+  return {
+    size: "small",
+    weightKg: "",
+    senderName,
+    senderPhone: "",
+    recipientName: "",
+    recipientPhone: "",
+    handlingNotes: "",
+  };
+}
+
+// The parcel the draft describes, or null while it is incomplete or invalid
+export function parseParcelDraft(draft: ParcelDraft): Parcel | null {
+  const parsed = parcelSchema.safeParse({
+    size: draft.size,
+    weightKg: Number(draft.weightKg),
+    sender: { name: draft.senderName, phone: draft.senderPhone },
+    recipient: { name: draft.recipientName, phone: draft.recipientPhone },
+    handlingNotes: draft.handlingNotes,
+  });
+  return parsed.success ? parsed.data : null;
+}
+
+interface ParcelFormProps {
+  value: ParcelDraft;
+  onChange: (draft: ParcelDraft) => void;
+}
+
+export function ParcelForm({ value, onChange }: ParcelFormProps) {
+  const update = (changes: Partial<ParcelDraft>) => onChange({ ...value, ...changes });
+  const weight = Number(value.weightKg);
+  const isTooHeavy = value.weightKg !== "" && weight > PACKAGE_WEIGHT_LIMITS_KG[value.size];
+
+  return (
+    <div className="space-y-4" data-testid="parcel-form">
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Package Size</label>
+        <div className="flex gap-2">
+          {packageSizes.map((size) => (
+            <Button
+              key={size}
+              type="button"
+              variant={value.size === size ? "default" : "outline"}
+              onClick={() => update({ size })}
+              className="flex-1 flex-col h-auto py-2"
+              data-testid={`button-package-${size}`}
+            >
+              <span>{packageSizeLabels[size]}</span>
+              <span className="text-xs opacity-80">up to {PACKAGE_WEIGHT_LIMITS_KG[size]} kg</span>
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium">Weight (kg)</label>
+        <Input
+          type="number"
+          min={0}
+          step={0.1}
+          value={value.weightKg}
+          onChange={(e) => update({ weightKg: e.target.value })}
+          placeholder="e.g. 2.5"
+          data-testid="input-parcel-weight"
+        />
+        {isTooHeavy && (
+          <p className="text-sm text-destructive">Too heavy for a {value.size} package; pick a larger size</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="col-span-2 text-sm font-medium">Sender</div>
+        <Input
+          value={value.senderName}
+          onChange={(e) => update({ senderName: e.target.value })}
+          placeholder="Name"
+          data-testid="input-sender-name"
+        />
+        <Input
+          type="tel"
+          value={value.senderPhone}
+          onChange={(e) => update({ senderPhone: e.target.value })}
+          placeholder="Phone"
+          data-testid="input-sender-phone"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="col-span-2 text-sm font-medium">Recipient</div>
+        <Input
+          value={value.recipientName}
+          onChange={(e) => update({ recipientName: e.target.value })}
+          placeholder="Name"
+          data-testid="input-recipient-name"
+        />
+        <Input
+          type="tel"
+          value={value.recipientPhone}
+          onChange={(e) => update({ recipientPhone: e.target.value })}
+          placeholder="Phone"
+          data-testid="input-recipient-phone"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium flex items-center gap-2">
+          <Package className="h-4 w-4" />
+          Handling Notes
+        </label>
+        <Textarea
+          value={value.handlingNotes}
+          onChange={(e) => update({ handlingNotes: e.target.value })}
+          placeholder="Fragile, keep upright, leave with the concierge..."
+          maxLength={500}
+          rows={2}
+          data-testid="input-handling-notes"
+        />
+      </div>
+    </div>
+  );
+}
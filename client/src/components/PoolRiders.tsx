@@ -0,0 +1,57 @@
+import { Users } from "lucide-react";
+import type { PoolRider } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+
+interface PoolRidersProps {
+  riders: PoolRider[];
+  // Ride the driver is heading to now
+  currentRideId: string;
+  className?: string;
+}
+
+// Everyone sharing the driver's car, with where each of them gets in and out
+export function PoolRiders({ riders, currentRideId, className }: PoolRidersProps) {
+  if (riders.length < 2) return null;
+
+  const seatsTaken = riders.reduce((seats, rider) => seats + rider.seats, 0);
+
+  return (
+    <div className={cn("space-y-2", className)} data-testid="pool-riders">
+      <div className="flex items-center justify-between text-xs font-medium text-emerald-600">
+        <span className="flex items-center gap-1">
+          <Users className="h-3 w-3" />
+          POOL
+        </span>
+        <span data-testid="text-pool-seats">{seatsTaken} seats taken</span>
+      </div>
+      {riders.map((rider) => {
+        const isCurrent = rider.rideId === currentRideId;
+        const isWaiting = rider.status === "accepted";
+        return (
+          <div
+            key={rider.rideId}
+            className={cn(
+              "p-3 rounded-xl border space-y-1",
+              isCurrent ? "bg-emerald-500/10 border-emerald-500/40" : "bg-muted/30 border-border",
+            )}
+            data-testid={`pool-rider-${rider.rideId}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">
+                {rider.customerName}
+                <span className="text-muted-foreground font-normal"> · {rider.seats} seat{rider.seats === 1 ? "" : "s"}</span>
+              </span>
+              <Badge variant="outline" className={isWaiting ? "text-amber-600" : "text-emerald-600"}>
+                {isWaiting ? "Waiting for pickup" : "On board"}
+              </Badge>
+            </div>
+            <p className="text-sm text-muted-foreground break-words">
+              {isWaiting ? `Pick up at ${rider.pickup.address}` : `Drop off at ${rider.dropoff.address}`}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,280 @@
+import { useEffect, useRef, useState } from "react";
+import { Camera, CheckCircle, Eraser, KeyRound, PenLine, ShieldCheck } from "lucide-react";
+import type { PodArtifactType, ProofOfDelivery, Ride } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Spinner } from "@/components/Spinner";
+import { toast } from "@/hooks/use-toast";
+import { api } from "@/lib/api";
+import { cn } from "@/lib/utils";
+
+const artifactLabels: Record<PodArtifactType, string> = {
+  photo: "Photo",
+  signature: "Signature",
+};
+
+function formatCapturedAt(timestamp: string): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+}
+
+interface SignaturePadProps {
+  onChange: (signature: Blob | null) => void;
+  disabled?: boolean;
+}
+
+// Canvas the recipient signs on with a finger or mouse; hands back a PNG after every stroke
+function SignaturePad({ onChange, disabled }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDrawing = useRef(false);
+
+  const pointAt = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * (canvas.width / rect.width),
+      y: (event.clientY - rect.top) * (canvas.height / rect.height),
+    };
+  };
+
+  const startStroke = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (disabled) return;
+    const context = canvasRef.current!.getContext("2d")!;
+    const { x, y } = pointAt(event);
+    context.lineWidth = 2.5;
+    context.lineCap = "round";
+    context.strokeStyle = "#111827";
+    context.beginPath();
+    context.moveTo(x, y);
+    canvasRef.current!.setPointerCapture(event.pointerId);
+    isDrawing.current = true;
+  };
+
+  const continueStroke = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawing.current) return;
+    const context = canvasRef.current!.getContext("2d")!;
+    const { x, y } = pointAt(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const endStroke = () => {
+    if (!isDrawing.current) return;
+    isDrawing.current = false;
+    canvasRef.current!.toBlob((blob) => onChange(blob), "image/png");
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current!;
+    canvas.getContext("2d")!.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-1">
+      <canvas
+        ref={canvasRef}
+        width={480}
+        height={160}
+        onPointerDown={startStroke}
+        onPointerMove={continueStroke}
+        onPointerUp={endStroke}
+        onPointerLeave={endStroke}
+        className="w-full h-28 rounded-lg border border-dashed border-border bg-white touch-none"
+        data-testid="canvas-signature"
+      />
+      <Button type="button" variant="ghost" size="sm" onClick={clear} disabled={disabled} className="h-7 px-2 text-xs">
+        <Eraser className="h-3.5 w-3.5 mr-1" />
+        Clear
+      </Button>
+    </div>
+  );
+}
+
+interface ProofOfDeliveryFormProps {
+  ride: Ride;
+  onComplete: (deliveryPin: string) => void;
+  isCompleting: boolean;
+  error: string | null;
+}
+
+/**
+ * What the driver fills in at the dropoff: the recipient's PIN completes the delivery,
+ * a photo and signature are optional extra proof and are uploaded as soon as they are taken.
+ */
+export function ProofOfDeliveryForm({ ride, onComplete, isCompleting, error }: ProofOfDeliveryFormProps) {
+  const [pin, setPin] = useState("");
+  const [signature, setSignature] = useState<Blob | null>(null);
+  const [uploading, setUploading] = useState<PodArtifactType | null>(null);
+  const proof = ride.proofOfDelivery;
+
+  const upload = async (artifact: PodArtifactType, file: Blob) => {
+    setUploading(artifact);
+    try {
+      // The saved artifact comes back to both parties over the ride socket
+      await api.uploadProofOfDelivery(ride.id, artifact, file);
+      if (artifact === "signature") setSignature(null);
+    } catch (err) {
+      toast({
+        title: `Could not save the ${artifactLabels[artifact].toLowerCase()}`,
+        description: err instanceof Error ? err.message : undefined,
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const handlePhoto = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) upload("photo", file);
+  };
+
+  return (
+    <div className="space-y-4" data-testid="proof-of-delivery-form">
+      <div className="space-y-2">
+        <label className="text-sm font-medium flex items-center gap-2">
+          <Camera className="h-4 w-4" />
+          Photo of the parcel
+          {proof?.photo && <CheckCircle className="h-4 w-4 text-emerald-500" data-testid="icon-photo-saved" />}
+        </label>
+        <Input
+          type="file"
+          accept="image/jpeg,image/png,image/webp"
+          capture="environment"
+          onChange={handlePhoto}
+          disabled={uploading !== null}
+          data-testid="input-pod-photo"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium flex items-center gap-2">
+          <PenLine className="h-4 w-4" />
+          Recipient's signature
+          {proof?.signature && <CheckCircle className="h-4 w-4 text-emerald-500" data-testid="icon-signature-saved" />}
+        </label>
+        <SignaturePad onChange={setSignature} disabled={uploading !== null} />
+        {signature && (
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => upload("signature", signature)}
+            disabled={uploading !== null}
+            data-testid="button-save-signature"
+          >
+            {uploading === "signature" ? <Spinner size="sm" /> : "Save signature"}
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-sm font-medium flex items-center gap-2">
+          <KeyRound className="h-4 w-4" />
+          Delivery PIN
+        </label>
+        <Input
+          inputMode="numeric"
+          maxLength={6}
+          value={pin}
+          onChange={(e) => setPin(e.target.value.replace(/\D/g, ""))}
+          placeholder="6-digit PIN from the recipient"
+          className="font-mono tracking-widest"
+          data-testid="input-delivery-pin"
+        />
+        {error && <p className="text-sm text-destructive" data-testid="text-pin-error">{error}</p>}
+      </div>
+
+      <Button
+        onClick={() => onComplete(pin)}
+        disabled={pin.length !== 6 || isCompleting || uploading !== null}
+        className="w-full h-14 text-lg font-semibold bg-gradient-to-r from-emerald-500 to-emerald-600"
+        data-testid="button-complete-delivery"
+      >
+        {isCompleting ? (
+          <Spinner size="sm" className="border-white border-t-transparent" />
+        ) : (
+          <>
+            <CheckCircle className="h-5 w-5 mr-2" />
+            Complete Delivery
+          </>
+        )}
+      </Button>
+    </div>
+  );
+}
+
+interface ArtifactImageProps {
+  rideId: string;
+  artifact: PodArtifactType;
+  // Changes when the driver retakes it, so the new file is fetched
+  capturedAt: string;
+}
+
+// Image of one stored artifact; fetched with the session token, so it goes through a blob URL
+function ArtifactImage({ rideId, artifact, capturedAt }: ArtifactImageProps) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    api.getProofOfDelivery(rideId, artifact)
+      .then((blob) => {
+        if (cancelled) return;
+        objectUrl = URL.createObjectURL(blob);
+        setUrl(objectUrl);
+      })
+      .catch((error) => console.error(`Failed to load ${artifact}:`, error));
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [rideId, artifact, capturedAt]);
+
+  if (!url) return <div className="h-16 w-24 rounded-md bg-muted animate-pulse" />;
+  return (
+    <a href={url} target="_blank" rel="noreferrer">
+      <img
+        src={url}
+        alt={artifactLabels[artifact]}
+        className={cn("h-16 w-24 rounded-md border border-border object-cover", artifact === "signature" && "bg-white object-contain")}
+        data-testid={`img-pod-${artifact}`}
+      />
+    </a>
+  );
+}
+
+interface ProofOfDeliveryViewProps {
+  rideId: string;
+  proof: ProofOfDelivery;
+  className?: string;
+}
+
+// Evidence a parcel was handed over, for the ride history and for settling disputes
+export function ProofOfDeliveryView({ rideId, proof, className }: ProofOfDeliveryViewProps) {
+  const artifacts = (["photo", "signature"] as const).filter((artifact) => proof[artifact]);
+
+  return (
+    <div className={cn("space-y-2", className)} data-testid="proof-of-delivery">
+      <div className="flex items-center gap-1 text-xs font-medium text-emerald-600">
+        <ShieldCheck className="h-3.5 w-3.5" />
+        {proof.pinVerifiedAt
+          ? `PIN verified at ${formatCapturedAt(proof.pinVerifiedAt)}`
+          : "Not confirmed with a PIN"}
+      </div>
+      {artifacts.length > 0 && (
+        <div className="flex gap-2">
+          {artifacts.map((artifact) => (
+            <div key={artifact} className="space-y-0.5">
+              <ArtifactImage rideId={rideId} artifact={artifact} capturedAt={proof[artifact]!.capturedAt} />
+              <p className="text-[10px] text-muted-foreground">
+                {artifactLabels[artifact]} · {formatCapturedAt(proof[artifact]!.capturedAt)}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -12,12 +12,17 @@ import { Textarea } from "@/components/ui/textarea";
 import { StarRating } from "./StarRating";
 import { Spinner } from "./Spinner";
 
+// Tip amounts offered to customers rating their driver
+const TIP_OPTIONS = [0, 1, 2, 5];
+
 interface RatingPopupProps {
   open: boolean;
   onClose: () => void;
-  onSubmit: (rating: number, feedback: string) => Promise<void>;
+  // tip is 0 unless allowTip is set and the customer picked one
+  onSubmit: (rating: number, feedback: string, tip: number) => Promise<void>;
   targetName: string;
   targetRole: "driver" | "customer";
+  allowTip?: boolean;
 }
 
 export function RatingPopup({
@@ -26,15 +31,17 @@ export function RatingPopup({
   onSubmit,
   targetName,
   targetRole,
+  allowTip = false,
 }: RatingPopupProps) {
   const [rating, setRating] = useState(5);
   const [feedback, setFeedback] = useState("");
+  const [tip, setTip] = useState(0);
   const [isSubmitting, setIsSubmitting] = useState(false);
 
   const handleSubmit = async () => {
     setIsSubmitting(true);
     try {
-      await onSubmit(rating, feedback);
+      await onSubmit(rating, feedback, tip);
       onClose();
     } catch (error) {
       console.error("Failed to submit rating:", error);
@@ -47,6 +54,7 @@ export function RatingPopup({
     if (!isSubmitting) {
       setRating(5);
       setFeedback("");
+      setTip(0);
       onClose();
     }
   };
@@ -92,6 +100,25 @@ export function RatingPopup({
               data-testid="input-feedback"
             />
           </div>
+
+          {allowTip && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Add a tip</label>
+              <div className="grid grid-cols-4 gap-2">
+                {TIP_OPTIONS.map((amount) => (
+                  <Button
+                    key={amount}
+                    type="button"
+                    variant={tip === amount ? "default" : "outline"}
+                    onClick={() => setTip(amount)}
+                    data-testid={`button-tip-${amount}`}
+                  >
+                    {amount === 0 ? "None" : `$${amount}`}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         <DialogFooter>
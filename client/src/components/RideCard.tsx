@@ -1,12 +1,20 @@
-import { MapPin, Clock, DollarSign, Navigation, User } from "lucide-react";
+import { useEffect, useState } from "react";
+import { MapPin, Clock, DollarSign, Navigation, User, Route, CalendarClock, Users } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { StarRating } from "./StarRating";
-import type { Ride, AvailableRide, RideStatus } from "@shared/schema";
+import { TraceReplay } from "./TraceReplay";
+import type { Ride, AvailableRide, UpcomingRide, RideOffer, RideStatus, RideType } from "@shared/schema";
+import { ParcelBadge } from "./ParcelDetails";
+import { ProofOfDeliveryView } from "./ProofOfDelivery";
+import { cancellationReasonLabels } from "./CancelRideDialog";
 import { cn } from "@/lib/utils";
 
 const statusConfig: Record<RideStatus, { label: string; className: string }> = {
+  pending_stake: { label: "Staking", className: "bg-muted text-muted-foreground border-muted" },
+  staking: { label: "Staking", className: "bg-muted text-muted-foreground border-muted" },
+  scheduled: { label: "Scheduled", className: "bg-violet-500/10 text-violet-600 border-violet-500/20" },
   waiting: { label: "Waiting", className: "bg-amber-500/10 text-amber-600 border-amber-500/20" },
   accepted: { label: "Accepted", className: "bg-blue-500/10 text-blue-600 border-blue-500/20" },
   in_progress: { label: "In Progress", className: "bg-primary/10 text-primary border-primary/20" },
@@ -14,6 +22,19 @@ const statusConfig: Record<RideStatus, { label: string; className: string }> = {
   cancelled: { label: "Cancelled", className: "bg-destructive/10 text-destructive border-destructive/20" },
 };
 
+// Pickup time in the zone the ride was booked from, with the zone shown so travellers aren't misled
+export function formatPickupTime(scheduledFor: string, timeZone?: string | null): string {
+  return new Date(scheduledFor).toLocaleString([], {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+    timeZone: timeZone ?? undefined,
+    timeZoneName: "short",
+  });
+}
+
 interface RideCardProps {
   ride: Ride;
   variant?: "compact" | "full";
@@ -22,6 +43,31 @@ interface RideCardProps {
   onClick?: () => void;
 }
 
+// Marks pool rides, with the seats the customer booked
+function PoolBadge({ rideType, seats }: { rideType: RideType; seats: number }) {
+  if (rideType !== "pool") return null;
+  return (
+    <Badge variant="outline" className="gap-1 border-emerald-500/20 bg-emerald-500/10 text-emerald-600" data-testid="badge-pool">
+      <Users className="h-3 w-3" />
+      Pool · {seats} seat{seats === 1 ? "" : "s"}
+    </Badge>
+  );
+}
+
+// Line between pickup and dropoff for rides with intermediate stops
+function StopCount({ stops }: { stops: number }) {
+  if (stops === 0) return null;
+  return (
+    <div className="flex items-center gap-2 text-sm text-amber-600" data-testid="text-stop-count">
+      <div className="h-3.5 w-3.5 flex items-center justify-center flex-shrink-0">
+        <div className="h-2 w-2 rounded-full bg-amber-500" />
+      </div>
+      <span>{stops} stop{stops === 1 ? "" : "s"} along the way</span>
+    </div>
+  );
+}
+
+
 export function RideCard({
   ride,
   variant = "compact",
@@ -45,9 +91,13 @@ export function RideCard({
         <div className="flex items-start justify-between gap-4">
           <div className="flex-1 space-y-3">
             {/* Status Badge */}
-            <Badge variant="outline" className={cn("border", status.className)}>
-              {status.label}
-            </Badge>
+            <div className="flex items-center gap-2">
+              <Badge variant="outline" className={cn("border", status.className)}>
+                {status.label}
+              </Badge>
+              <PoolBadge rideType={ride.rideType} seats={ride.seats} />
+              <ParcelBadge parcel={ride.parcel} />
+            </div>
 
             {/* Locations */}
             <div className="space-y-2">
@@ -82,11 +132,17 @@ export function RideCard({
                   </span>
                 </div>
               )}
+              {ride.status === "scheduled" && ride.scheduledFor && (
+                <div className="flex items-center gap-1.5 text-sm text-muted-foreground">
+                  <CalendarClock className="h-3.5 w-3.5" />
+                  <span>{formatPickupTime(ride.scheduledFor, ride.timeZone)}</span>
+                </div>
+              )}
             </div>
           </div>
 
           {/* Actions */}
-          {showActions && ride.status === "waiting" && onCancel && (
+          {showActions && (ride.status === "waiting" || ride.status === "scheduled") && onCancel && (
             <Button
               variant="outline"
               size="sm"
@@ -132,6 +188,8 @@ export function AvailableRideCard({
           <div className="flex-1 min-w-0 space-y-2">
             <div className="flex items-center gap-2">
               <span className="font-medium">{ride.customerName}</span>
+              <PoolBadge rideType={ride.rideType} seats={ride.seats} />
+              <ParcelBadge parcel={ride.parcel} />
               <StarRating rating={ride.customerRating} size="sm" />
             </div>
 
@@ -140,15 +198,23 @@ export function AvailableRideCard({
                 <MapPin className="h-3.5 w-3.5 text-emerald-500 flex-shrink-0" />
                 <span className="truncate text-muted-foreground">{ride.pickup.address}</span>
               </div>
+              <StopCount stops={ride.stops.length} />
               <div className="flex items-center gap-2 text-sm">
                 <Navigation className="h-3.5 w-3.5 text-blue-500 flex-shrink-0" />
                 <span className="truncate text-muted-foreground">{ride.dropoff.address}</span>
               </div>
             </div>
 
+            {ride.parcel?.handlingNotes && (
+              <p className="text-sm text-amber-600 truncate" data-testid="text-handling-notes">
+                {ride.parcel.handlingNotes}
+              </p>
+            )}
+
             <div className="flex items-center gap-4 text-sm">
               <span className="font-mono font-semibold text-lg">${ride.fare.toFixed(2)}</span>
-              <span className="text-muted-foreground">{ride.distance.toFixed(1)} km</span>
+              <span className="text-muted-foreground">{ride.pickupDistance.toFixed(1)} km away</span>
+              <span className="text-muted-foreground">{ride.tripDistance.toFixed(1)} km trip</span>
             </div>
           </div>
 
@@ -167,6 +233,173 @@ export function AvailableRideCard({
   );
 }
 
+// Scheduled ride in the driver's "Upcoming" tab, reserved ahead of its pickup time
+interface UpcomingRideCardProps {
+  ride: UpcomingRide;
+  onReserve: () => void;
+  onRelease: () => void;
+  isPending?: boolean;
+}
+
+export function UpcomingRideCard({
+  ride,
+  onReserve,
+  onRelease,
+  isPending = false,
+}: UpcomingRideCardProps) {
+  return (
+    <Card
+      className={cn("hover:shadow-lg transition-shadow", ride.reserved && "border-violet-500/40")}
+      data-testid={`upcoming-ride-${ride.rideId}`}
+    >
+      <CardContent className="p-4">
+        <div className="flex items-center gap-4">
+          <div className="flex-1 min-w-0 space-y-2">
+            <div className="flex items-center gap-2 text-sm font-medium">
+              <CalendarClock className="h-4 w-4 text-violet-500 flex-shrink-0" />
+              <span>{formatPickupTime(ride.scheduledFor, ride.timeZone)}</span>
+              {ride.reserved && (
+                <Badge variant="outline" className={cn("border", statusConfig.scheduled.className)}>
+                  Reserved
+                </Badge>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <span className="font-medium">{ride.customerName}</span>
+              <PoolBadge rideType={ride.rideType} seats={ride.seats} />
+              <ParcelBadge parcel={ride.parcel} />
+              <StarRating rating={ride.customerRating} size="sm" />
+            </div>
+
+            <div className="space-y-1.5">
+              <div className="flex items-center gap-2 text-sm">
+                <MapPin className="h-3.5 w-3.5 text-emerald-500 flex-shrink-0" />
+                <span className="truncate text-muted-foreground">{ride.pickup.address}</span>
+              </div>
+              <StopCount stops={ride.stops.length} />
+              <div className="flex items-center gap-2 text-sm">
+                <Navigation className="h-3.5 w-3.5 text-blue-500 flex-shrink-0" />
+                <span className="truncate text-muted-foreground">{ride.dropoff.address}</span>
+              </div>
+            </div>
+
+            <div className="flex items-center gap-4 text-sm">
+              <span className="font-mono font-semibold text-lg">${ride.fare.toFixed(2)}</span>
+              <span className="text-muted-foreground">{ride.pickupDistance.toFixed(1)} km away</span>
+              <span className="text-muted-foreground">{ride.tripDistance.toFixed(1)} km trip</span>
+            </div>
+          </div>
+
+          {ride.reserved ? (
+            <Button
+              variant="outline"
+              onClick={onRelease}
+              disabled={isPending}
+              className="flex-shrink-0"
+              data-testid="button-release-reservation"
+            >
+              {isPending ? "Releasing..." : "Release"}
+            </Button>
+          ) : (
+            <Button
+              onClick={onReserve}
+              disabled={isPending}
+              className="flex-shrink-0"
+              data-testid="button-reserve-ride"
+            >
+              {isPending ? "Reserving..." : "Reserve"}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Exclusive dispatch offer with a countdown until it moves to the next driver
+interface RideOfferCardProps {
+  offer: RideOffer;
+  onAccept: () => void;
+  onDecline: () => void;
+  isAccepting?: boolean;
+}
+
+export function RideOfferCard({
+  offer,
+  onAccept,
+  onDecline,
+  isAccepting = false,
+}: RideOfferCardProps) {
+  const secondsLeft = () => Math.max(0, Math.ceil((new Date(offer.expiresAt).getTime() - Date.now()) / 1000));
+  const [remaining, setRemaining] = useState(secondsLeft);
+
+  useEffect(() => {
+    setRemaining(secondsLeft());
+    const interval = setInterval(() => setRemaining(secondsLeft()), 1000);
+    return () => clearInterval(interval);
+  }, [offer.expiresAt]);
+
+  return (
+    <Card className="border-primary shadow-lg" data-testid={`ride-offer-${offer.rideId}`}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="font-semibold">New ride for you</span>
+          <Badge variant="outline" className="gap-1">
+            <Clock className="h-3 w-3" />
+            {remaining}s
+          </Badge>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <span className="font-medium">{offer.customerName}</span>
+          <PoolBadge rideType={offer.rideType} seats={offer.seats} />
+          <ParcelBadge parcel={offer.parcel} />
+          <StarRating rating={offer.customerRating} size="sm" />
+        </div>
+
+        <div className="space-y-1.5">
+          <div className="flex items-center gap-2 text-sm">
+            <MapPin className="h-3.5 w-3.5 text-emerald-500 flex-shrink-0" />
+            <span className="truncate text-muted-foreground">{offer.pickup.address}</span>
+          </div>
+          <StopCount stops={offer.stops.length} />
+          <div className="flex items-center gap-2 text-sm">
+            <Navigation className="h-3.5 w-3.5 text-blue-500 flex-shrink-0" />
+            <span className="truncate text-muted-foreground">{offer.dropoff.address}</span>
+          </div>
+        </div>
+
+        <div className="flex items-center gap-4 text-sm">
+          <span className="font-mono font-semibold text-lg">${offer.fare.toFixed(2)}</span>
+          <span className="text-muted-foreground">{offer.etaMinutes} min to pickup</span>
+          <span className="text-muted-foreground">{offer.tripDistance.toFixed(1)} km trip</span>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={onDecline}
+            disabled={isAccepting}
+            className="flex-1"
+            data-testid="button-decline-offer"
+          >
+            Decline
+          </Button>
+          <Button
+            onClick={onAccept}
+            disabled={isAccepting || remaining === 0}
+            className="flex-1"
+            data-testid="button-accept-offer"
+          >
+            {isAccepting ? "Accepting..." : "Accept"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 // Compact history card
 interface RideHistoryCardProps {
   ride: Ride;
@@ -174,6 +407,7 @@ interface RideHistoryCardProps {
 
 export function RideHistoryCard({ ride }: RideHistoryCardProps) {
   const status = statusConfig[ride.status];
+  const [showReplay, setShowReplay] = useState(false);
 
   return (
     <Card className="hover:shadow-md transition-shadow" data-testid={`history-ride-${ride.id}`}>
@@ -200,15 +434,44 @@ export function RideHistoryCard({ ride }: RideHistoryCardProps) {
           </div>
         </div>
 
+        {ride.proofOfDelivery && (
+          <ProofOfDeliveryView rideId={ride.id} proof={ride.proofOfDelivery} className="mb-3" />
+        )}
+
+        {ride.cancellation && (
+          <p className="text-xs text-muted-foreground mb-3" data-testid={`text-cancellation-${ride.id}`}>
+            Cancelled by the {ride.cancellation.cancelledBy} · {cancellationReasonLabels[ride.cancellation.reason]}
+          </p>
+        )}
+
         <div className="flex items-center justify-between">
           <span className="font-mono font-semibold">
-            ${(ride.actualFare || ride.estimatedFare).toFixed(2)}
+            {/* A cancelled ride only ever cost its cancellation fee */}
+            ${(ride.cancellation ? ride.cancellation.fee : ride.actualFare || ride.estimatedFare).toFixed(2)}
           </span>
-          {ride.driverRating && (
-            <StarRating rating={ride.driverRating} size="sm" />
-          )}
+          <div className="flex items-center gap-2">
+            {ride.driverRating && (
+              <StarRating rating={ride.driverRating} size="sm" />
+            )}
+            {ride.status === "completed" && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-1 px-2 text-xs"
+                onClick={() => setShowReplay(true)}
+                data-testid={`button-replay-${ride.id}`}
+              >
+                <Route className="h-3.5 w-3.5" />
+                Replay
+              </Button>
+            )}
+          </div>
         </div>
       </CardContent>
+
+      {ride.status === "completed" && (
+        <TraceReplay ride={ride} open={showReplay} onClose={() => setShowReplay(false)} />
+      )}
     </Card>
   );
 }
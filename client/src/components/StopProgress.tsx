@@ -0,0 +1,51 @@
+import { CheckCircle } from "lucide-react";
+import type { Location } from "@shared/schema";
+import { cn } from "@/lib/utils";
+
+interface StopProgressProps {
+  stops: Location[];
+  stopsReached: number;
+  // Highlight the next stop; off until the trip has started
+  showNext?: boolean;
+  className?: string;
+}
+
+export function StopProgress({ stops, stopsReached, showNext = false, className }: StopProgressProps) {
+  if (stops.length === 0) return null;
+
+  return (
+    <div className={cn("space-y-2", className)} data-testid="stop-progress">
+      <div className="flex items-center justify-between text-xs font-medium text-amber-600">
+        <span>STOPS</span>
+        <span data-testid="text-stops-reached">{stopsReached}/{stops.length} reached</span>
+      </div>
+      {stops.map((stop, index) => {
+        const isReached = index < stopsReached;
+        const isNext = showNext && index === stopsReached;
+        return (
+          <div
+            key={index}
+            className={cn(
+              "flex items-start gap-3 p-3 rounded-xl border",
+              isNext ? "bg-amber-500/10 border-amber-500/40" : "bg-muted/30 border-border",
+              isReached && "opacity-60",
+            )}
+            data-testid={`stop-progress-${index}`}
+          >
+            {isReached ? (
+              <CheckCircle className="h-5 w-5 text-emerald-500 mt-0.5 flex-shrink-0" />
+            ) : (
+              <div className="h-5 w-5 rounded-full bg-amber-500 text-white text-xs font-bold flex items-center justify-center mt-0.5 flex-shrink-0">
+                {index + 1}
+              </div>
+            )}
+            <div className="min-w-0">
+              {isNext && <p className="text-xs text-amber-600 font-medium">NEXT STOP</p>}
+              <p className={cn("font-medium break-words", isReached && "line-through")}>{stop.address}</p>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
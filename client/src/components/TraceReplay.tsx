@@ -0,0 +1,181 @@
+import { useEffect, useMemo, useState } from "react";
+import { Pause, Play, RotateCcw } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { LiveMap } from "./LiveMap";
+import { Spinner } from "./Spinner";
+import { api } from "@/lib/api";
+import type { Location, Ride, RideLocation } from "@shared/schema";
+
+// Replay runs this many times faster than the ride did
+const REPLAY_SPEED = 30;
+
+const TICK_MS = 100;
+
+interface TraceReplayProps {
+  ride: Ride;
+  open: boolean;
+  onClose: () => void;
+}
+
+function offsetMs(point: RideLocation, start: RideLocation): number {
+  return new Date(point.recordedAt).getTime() - new Date(start.recordedAt).getTime();
+}
+
+function formatElapsed(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+// Position along the trace at a replay time, interpolated between recorded points
+function positionAt(points: RideLocation[], elapsedMs: number): { location: Location; index: number } {
+  const start = points[0];
+  let index = 0;
+  while (index < points.length - 1 && offsetMs(points[index + 1], start) <= elapsedMs) {
+    index++;
+  }
+
+  const current = points[index];
+  const next = points[index + 1];
+  if (!next) {
+    return { location: { lat: current.lat, lng: current.lng }, index };
+  }
+
+  const span = offsetMs(next, current);
+  const t = span > 0 ? (elapsedMs - offsetMs(current, start)) / span : 0;
+  return {
+    location: {
+      lat: current.lat + (next.lat - current.lat) * t,
+      lng: current.lng + (next.lng - current.lng) * t,
+    },
+    index,
+  };
+}
+
+export function TraceReplay({ ride, open, onClose }: TraceReplayProps) {
+  const [points, setPoints] = useState<RideLocation[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  useEffect(() => {
+    if (!open || points) return;
+
+    api.getRideTrace(ride.id)
+      .then((trace) => setPoints(trace.points))
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to load trace"));
+  }, [open, ride.id, points]);
+
+  const durationMs = points && points.length > 1 ? offsetMs(points[points.length - 1], points[0]) : 0;
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const interval = setInterval(() => {
+      setElapsedMs((elapsed) => {
+        const nextElapsed = Math.min(durationMs, elapsed + TICK_MS * REPLAY_SPEED);
+        if (nextElapsed >= durationMs) setIsPlaying(false);
+        return nextElapsed;
+      });
+    }, TICK_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying, durationMs]);
+
+  const position = useMemo(
+    () => (points && points.length > 0 ? positionAt(points, elapsedMs) : null),
+    [points, elapsedMs]
+  );
+
+  const driven: Location[] = points && position
+    ? [...points.slice(0, position.index + 1), position.location]
+    : [];
+  const leg = points && position ? points[position.index].rideStatus : null;
+
+  const handlePlay = () => {
+    if (elapsedMs >= durationMs) setElapsedMs(0);
+    setIsPlaying(true);
+  };
+
+  const handleClose = () => {
+    setIsPlaying(false);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Trip Replay</DialogTitle>
+          <DialogDescription>
+            {ride.pickup.address || "Pickup"} → {ride.dropoff.address || "Dropoff"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : !points ? (
+          <div className="flex justify-center py-12">
+            <Spinner />
+          </div>
+        ) : points.length < 2 ? (
+          <p className="text-sm text-muted-foreground">No GPS trace was recorded for this ride.</p>
+        ) : (
+          <div className="space-y-4">
+            <LiveMap
+              driverLocation={position?.location}
+              pickupLocation={ride.pickup}
+              dropoffLocation={ride.dropoff}
+              trace={driven}
+              className="h-64"
+            />
+
+            <div className="flex items-center gap-3">
+              <Button
+                size="icon"
+                variant="outline"
+                onClick={isPlaying ? () => setIsPlaying(false) : handlePlay}
+                data-testid="button-replay-toggle"
+              >
+                {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              </Button>
+              <Slider
+                value={[elapsedMs]}
+                max={durationMs}
+                step={1000}
+                onValueChange={([value]) => setElapsedMs(value)}
+                data-testid="slider-replay"
+              />
+              <Button
+                size="icon"
+                variant="ghost"
+                onClick={() => {
+                  setIsPlaying(false);
+                  setElapsedMs(0);
+                }}
+                data-testid="button-replay-reset"
+              >
+                <RotateCcw className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{leg === "accepted" ? "Driving to pickup" : "On trip"}</span>
+              <span className="font-mono">
+                {formatElapsed(elapsedMs)} / {formatElapsed(durationMs)}
+              </span>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,62 @@
+import { CheckCircle, Circle, XCircle } from "lucide-react";
+import type { ChainTransaction, ChainTxStage } from "@shared/schema";
+import { Spinner } from "./Spinner";
+import { cn } from "@/lib/utils";
+
+type ProgressStage = Exclude<ChainTxStage, "failed">;
+
+const stages: { stage: ProgressStage; label: string }[] = [
+  { stage: "ready", label: "Signed and queued" },
+  { stage: "broadcast", label: "Broadcast to the network" },
+  { stage: "inBlock", label: "Included in a block" },
+  { stage: "finalized", label: "Finalized" },
+];
+
+// Index of the last stage the transaction got through; a failed one keeps what it learned on the way
+function reachedIndex(transaction: ChainTransaction | null): number {
+  if (!transaction) return -1;
+  if (transaction.stage !== "failed") return stages.findIndex(({ stage }) => stage === transaction.stage);
+  if (transaction.blockNumber !== null) return 2;
+  return transaction.txHash ? 0 : -1;
+}
+
+interface TransactionStagesProps {
+  // Null until the first stage is reported
+  transaction: ChainTransaction | null;
+  className?: string;
+}
+
+// A chain transaction's way from signing to finality, stage by stage
+export function TransactionStages({ transaction, className }: TransactionStagesProps) {
+  const reached = reachedIndex(transaction);
+  const failed = transaction?.stage === "failed";
+
+  return (
+    <div className={cn("space-y-2 text-left", className)} data-testid="transaction-stages">
+      {stages.map(({ stage, label }, index) => {
+        const isDone = index <= reached;
+        const isCurrent = index === reached + 1;
+        return (
+          <div key={stage} className="flex items-center gap-3 text-sm" data-testid={`transaction-stage-${stage}`}>
+            {isDone ? (
+              <CheckCircle className="h-4 w-4 text-emerald-500 flex-shrink-0" />
+            ) : isCurrent && failed ? (
+              <XCircle className="h-4 w-4 text-destructive flex-shrink-0" />
+            ) : isCurrent ? (
+              <Spinner size="sm" className="flex-shrink-0" />
+            ) : (
+              <Circle className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+            )}
+            <span className={cn(!isDone && !isCurrent && "text-muted-foreground")}>{label}</span>
+            {stage === "inBlock" && isDone && transaction?.blockNumber !== null && (
+              <span className="ml-auto font-mono text-xs text-muted-foreground">#{transaction?.blockNumber}</span>
+            )}
+          </div>
+        );
+      })}
+      {failed && transaction.error && (
+        <p className="text-sm text-destructive" data-testid="text-transaction-error">{transaction.error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { CheckCircle } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Identicon } from "./Identicon";
+import type { WalletAccount } from "@/lib/smartContract";
+import { cn } from "@/lib/utils";
+
+interface WalletAccountPickerProps {
+  open: boolean;
+  accounts: WalletAccount[];
+  // Account signed in with last time, listed first
+  rememberedAddress: string | null;
+  onSelect: (account: WalletAccount) => void;
+  onClose: () => void;
+}
+
+function shortAddress(address: string): string {
+  return address.length > 16 ? `${address.slice(0, 8)}...${address.slice(-6)}` : address;
+}
+
+// Every account the wallet extensions inject, to choose the one to sign in with
+export function WalletAccountPicker({ open, accounts, rememberedAddress, onSelect, onClose }: WalletAccountPickerProps) {
+  const sorted = [...accounts].sort((a, b) =>
+    Number(b.address === rememberedAddress) - Number(a.address === rememberedAddress));
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Choose an account</DialogTitle>
+          <DialogDescription>
+            You'll be asked to sign a message with it to prove it's yours.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-80 overflow-y-auto" data-testid="list-wallet-accounts">
+          {sorted.map((account) => {
+            const isRemembered = account.address === rememberedAddress;
+            return (
+              <button
+                key={`${account.source}:${account.address}`}
+                type="button"
+                onClick={() => onSelect(account)}
+                className={cn(
+                  "w-full flex items-center gap-3 p-3 rounded-xl border text-left transition-colors",
+                  "hover:border-primary/50 hover:bg-primary/5",
+                  isRemembered ? "border-primary bg-primary/5" : "border-border",
+                )}
+                data-testid={`button-wallet-account-${account.address}`}
+              >
+                <Identicon address={account.address} size={36} />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium truncate">{account.name ?? "Unnamed account"}</span>
+                    {isRemembered && (
+                      <CheckCircle className="h-4 w-4 text-primary flex-shrink-0" />
+                    )}
+                  </div>
+                  <span className="font-mono text-xs text-muted-foreground">{shortAddress(account.address)}</span>
+                </div>
+                <Badge variant="secondary" className="flex-shrink-0">{account.source}</Badge>
+              </button>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,14 +1,28 @@
-import { createContext, useContext, useState, useCallback, useEffect, type ReactNode } from "react";
-import type { User, UserRole } from "@shared/schema";
-import { api } from "@/lib/api";
+import { createContext, useContext, useState, useCallback, useEffect, useRef, type ReactNode } from "react";
+import type { UserProfile, UserRole } from "@shared/schema";
+import { api, setAuthToken } from "@/lib/api";
+import { toast } from "@/hooks/use-toast";
+import { connectWallet, selectAccount, signMessage, watchWalletAccounts, type WalletAccount } from "@/lib/smartContract";
+
+// Address last signed in with; localStorage is kept per origin, so each deployment remembers its own
+const REMEMBERED_ACCOUNT_KEY = "dropmate_wallet_account";
 
 interface AuthContextType {
   walletAddress: string | null;
+  token: string | null;
   userRole: UserRole | null;
-  user: User | null;
+  user: UserProfile | null;
   isConnected: boolean;
   isConnecting: boolean;
-  connect: (role: UserRole) => Promise<void>;
+  // Accounts the wallet extensions inject, kept current while the app is open; null until they are enabled
+  walletAccounts: WalletAccount[] | null;
+  // Account signed in with last time, offered first in the picker
+  rememberedAddress: string | null;
+  // Enable the wallet extensions and list their accounts to pick from
+  loadWalletAccounts: () => Promise<WalletAccount[]>;
+  connect: (role: UserRole, address: string) => Promise<void>;
+  // Re-read the profile, e.g. after the balance changed
+  refreshUser: () => Promise<void>;
   disconnect: () => void;
 }
 
@@ -16,9 +30,14 @@ const AuthContext = createContext<AuthContextType | null>(null);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [walletAddress, setWalletAddress] = useState<string | null>(null);
+  const [token, setToken] = useState<string | null>(null);
   const [userRole, setUserRole] = useState<UserRole | null>(null);
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<UserProfile | null>(null);
   const [isConnecting, setIsConnecting] = useState(false);
+  const [walletAccounts, setWalletAccounts] = useState<WalletAccount[] | null>(null);
+  const [rememberedAddress, setRememberedAddress] = useState<string | null>(
+    () => localStorage.getItem(REMEMBERED_ACCOUNT_KEY),
+  );
 
   // Check for stored session on mount
   useEffect(() => {
@@ -26,7 +45,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     if (stored) {
       try {
         const session = JSON.parse(stored);
+        // Sessions saved before token-based auth cannot be used any more
+        if (!session.token) throw new Error("Session has no token");
+        setAuthToken(session.token);
+        selectAccount(session.walletAddress);
         setWalletAddress(session.walletAddress);
+        setToken(session.token);
         setUserRole(session.role);
         setUser(session.user);
       } catch {
@@ -35,28 +59,44 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
-  const connect = useCallback(async (role: UserRole) => {
+  const loadWalletAccounts = useCallback(async () => {
+    const accounts = await connectWallet();
+    setWalletAccounts(accounts);
+    return accounts;
+  }, []);
+
+  const connect = useCallback(async (role: UserRole, address: string) => {
     setIsConnecting(true);
     try {
-      // Simulate wallet connection with MetaMask-style address
-      const mockAddress = `0x${Math.random().toString(16).slice(2, 10)}...${Math.random().toString(16).slice(2, 6)}`;
-      
-      // Connect to backend
-      const { user: connectedUser } = await api.connect({
-        walletAddress: mockAddress,
+      // Prove ownership of the chosen account
+      const { nonce, message } = await api.requestChallenge(address);
+      const signature = await signMessage(address, message);
+
+      // Exchange the signed challenge for a session
+      const { token: sessionToken, user: connectedUser } = await api.connect({
+        walletAddress: address,
         role,
+        nonce,
+        signature,
       });
 
-      setWalletAddress(mockAddress);
-      setUserRole(role);
+      setAuthToken(sessionToken);
+      selectAccount(address);
+      setWalletAddress(address);
+      setToken(sessionToken);
+      // An account that already has a profile keeps the role it signed up with
+      setUserRole(connectedUser.role);
       setUser(connectedUser);
 
       // Store session
       localStorage.setItem("dropmate_session", JSON.stringify({
-        walletAddress: mockAddress,
-        role,
+        walletAddress: address,
+        token: sessionToken,
+        role: connectedUser.role,
         user: connectedUser,
       }));
+      localStorage.setItem(REMEMBERED_ACCOUNT_KEY, address);
+      setRememberedAddress(address);
     } catch (error) {
       console.error("Connection failed:", error);
       throw error;
@@ -65,22 +105,102 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  const refreshUser = useCallback(async () => {
+    if (!user) return;
+    const profile = await api.getProfile(user.id);
+    setUser(profile);
+
+    const stored = localStorage.getItem("dropmate_session");
+    if (stored) {
+      localStorage.setItem("dropmate_session", JSON.stringify({ ...JSON.parse(stored), user: profile }));
+    }
+  }, [user?.id]);
+
   const disconnect = useCallback(() => {
+    api.logout().catch((error) => console.error("Logout failed:", error));
+    setAuthToken(null);
+    selectAccount(null);
     setWalletAddress(null);
+    setToken(null);
     setUserRole(null);
     setUser(null);
     localStorage.removeItem("dropmate_session");
   }, []);
 
+  // A restored session watches the extensions too, so it notices its account going away
+  const isWalletEnabled = walletAccounts !== null;
+  useEffect(() => {
+    if (walletAddress && !isWalletEnabled) {
+      loadWalletAccounts().catch((error) => console.error("Wallet extension unavailable:", error));
+    }
+  }, [walletAddress, isWalletEnabled, loadWalletAccounts]);
+
+  useEffect(() => {
+    if (!isWalletEnabled) return;
+    let stopped = false;
+    let unsubscribe: (() => void) | null = null;
+    watchWalletAccounts(setWalletAccounts)
+      .then((unsub) => {
+        if (stopped) unsub();
+        else unsubscribe = unsub;
+      })
+      .catch((error) => console.error("Failed to watch wallet accounts:", error));
+    return () => {
+      stopped = true;
+      unsubscribe?.();
+    };
+  }, [isWalletEnabled]);
+
+  // Accounts injected before the latest change, to tell which one was just selected in the extension
+  const previousAccountsRef = useRef<WalletAccount[] | null>(null);
+
+  // The session's account was removed from the extension, or the site lost access to it
+  useEffect(() => {
+    const previousAccounts = previousAccountsRef.current;
+    previousAccountsRef.current = walletAccounts;
+    if (!walletAddress || !walletAccounts || !userRole) return;
+    if (walletAccounts.some((account) => account.address === walletAddress)) return;
+
+    // Extensions that share one account at a time swap the newly selected account in for the old one
+    const selected = previousAccounts && walletAccounts.find(
+      (account) => !previousAccounts.some((known) => known.address === account.address),
+    );
+    disconnect();
+    if (selected) {
+      connect(userRole, selected.address)
+        .then(() => toast({
+          title: "Switched account",
+          description: `Signed in with ${selected.name ?? selected.address}, the account selected in your wallet.`,
+        }))
+        .catch(() => toast({
+          title: "Signed out",
+          description: "Sign in with the account selected in your wallet to continue.",
+        }));
+      return;
+    }
+
+    toast({
+      title: "Signed out",
+      description: walletAccounts.length > 0
+        ? "The account you signed in with is no longer available in your wallet. Choose another to continue."
+        : "Your wallet no longer shares any accounts with DropMate.",
+    });
+  }, [walletAccounts, walletAddress, userRole, connect, disconnect]);
+
   return (
     <AuthContext.Provider
       value={{
         walletAddress,
+        token,
         userRole,
         user,
         isConnected: !!walletAddress && !!user,
         isConnecting,
+        walletAccounts,
+        rememberedAddress,
+        loadWalletAccounts,
         connect,
+        refreshUser,
         disconnect,
       }}
     >
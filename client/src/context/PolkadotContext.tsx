@@ -1,34 +1,26 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import {
   initializePolkadot,
-  connectWallet,
   stakeForRide,
-  confirmDelivery,
   disconnectPolkadot,
+  type StakeResult,
 } from '@/lib/smartContract';
+import type { TxProgress } from '@shared/transactionTracker';
 
 interface PolkadotContextType {
   isInitialized: boolean;
-  isConnected: boolean;
-  account: string | null;
   createOrderOnChain: (
     rideId: string,
     amount: number,
-    customerAddress: string
-  ) => Promise<{ transactionHash: string; stakedAmount: number }>;
-  confirmDeliveryOnChain: (
-    rideId: string,
-    customerAddress: string
-  ) => Promise<{ transactionHash: string }>;
-  connectWalletExtension: () => Promise<string>;
+    customerAddress: string,
+    onProgress?: (progress: TxProgress) => void
+  ) => Promise<StakeResult>;
 }
 
 const PolkadotContext = createContext<PolkadotContextType | undefined>(undefined);
 
 export const PolkadotProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [isInitialized, setIsInitialized] = useState(false);
-  const [isConnected, setIsConnected] = useState(false);
-  const [account, setAccount] = useState<string | null>(null);
 
   useEffect(() => {
     const init = async () => {
@@ -47,54 +39,25 @@ export const PolkadotProvider: React.FC<{ children: React.ReactNode }> = ({ chil
     };
   }, []);
 
-  const connectWalletExtension = async () => {
-    try {
-      const addr = await connectWallet();
-      setAccount(addr);
-      setIsConnected(true);
-      return addr;
-    } catch (error) {
-      console.error('Wallet connection failed:', error);
-      throw error;
-    }
-  };
-
   const createOrderOnChain = async (
     rideId: string,
     amount: number,
-    customerAddress: string
+    customerAddress: string,
+    onProgress?: (progress: TxProgress) => void
   ) => {
     try {
-      const result = await stakeForRide(rideId, amount, customerAddress);
-      return {
-        transactionHash: result.transactionHash,
-        stakedAmount: result.stakedAmount,
-      };
+      return await stakeForRide(rideId, amount, customerAddress, onProgress);
     } catch (error) {
       console.error('Create order failed:', error);
       throw error;
     }
   };
 
-  const confirmDeliveryOnChain = async (rideId: string, customerAddress: string) => {
-    try {
-      const result = await confirmDelivery(rideId, customerAddress);
-      return { transactionHash: result.transactionHash };
-    } catch (error) {
-      console.error('Confirm delivery failed:', error);
-      throw error;
-    }
-  };
-
   return (
     <PolkadotContext.Provider
       value={{
         isInitialized,
-        isConnected,
-        account,
         createOrderOnChain,
-        confirmDeliveryOnChain,
-        connectWalletExtension,
       }}
     >
       {children}
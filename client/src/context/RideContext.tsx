@@ -1,17 +1,31 @@
 import { createContext, useContext, useState, useCallback, useEffect, useRef, type ReactNode } from "react";
-import type { Ride, RideWithDetails, AvailableRide, Location, LocationUpdate } from "@shared/schema";
+import type { Ride, RideWithDetails, AvailableRide, UpcomingRide, RideOffer, SurgeCell, Location, LocationUpdate, EscrowTransactionUpdate } from "@shared/schema";
 import { api } from "@/lib/api";
+import { toast } from "@/hooks/use-toast";
 import { useAuth } from "./AuthContext";
 
 interface RideContextType {
   activeRide: RideWithDetails | null;
   availableRides: AvailableRide[];
+  rideOffer: RideOffer | null;
+  surgeCells: SurgeCell[];
+  // Driver's own position while idle (browser geolocation, or the default)
+  driverLocation: Location;
   rideHistory: Ride[];
+  // Customer's booked rides that haven't been released to drivers yet
+  scheduledRides: Ride[];
+  // Driver's "Upcoming" feed: open scheduled rides nearby and the driver's reservations
+  upcomingRides: UpcomingRide[];
   isLoading: boolean;
   currentLocation: Location | null;
+  // Latest progress of an escrow contract call for one of the customer's rides
+  escrowTransaction: EscrowTransactionUpdate | null;
   refreshAvailableRides: () => Promise<void>;
+  declineRideOffer: () => Promise<void>;
   refreshActiveRide: () => Promise<void>;
   refreshHistory: () => Promise<void>;
+  refreshScheduledRides: () => Promise<void>;
+  refreshUpcomingRides: () => Promise<void>;
   setActiveRide: (ride: RideWithDetails | null) => void;
   subscribeToRide: (rideId: string) => void;
   unsubscribeFromRide: () => void;
@@ -20,28 +34,43 @@ interface RideContextType {
 
 const RideContext = createContext<RideContextType | null>(null);
 
+// Used for the nearby-rides search until the browser reports a position (San Francisco)
+const DEFAULT_DRIVER_POSITION: Location = { lat: 37.7749, lng: -122.4194 };
+
 export function RideProvider({ children }: { children: ReactNode }) {
-  const { user, isConnected } = useAuth();
+  const { user, token, isConnected } = useAuth();
   const [activeRide, setActiveRide] = useState<RideWithDetails | null>(null);
   const [availableRides, setAvailableRides] = useState<AvailableRide[]>([]);
+  const [rideOffer, setRideOffer] = useState<RideOffer | null>(null);
+  const [surgeCells, setSurgeCells] = useState<SurgeCell[]>([]);
   const [rideHistory, setRideHistory] = useState<Ride[]>([]);
+  const [scheduledRides, setScheduledRides] = useState<Ride[]>([]);
+  const [upcomingRides, setUpcomingRides] = useState<UpcomingRide[]>([]);
+  // Last scheduled ride the server released, so the active ride can be picked up
+  const [releasedRideId, setReleasedRideId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [currentLocation, setCurrentLocation] = useState<Location | null>(null);
+  const [escrowTransaction, setEscrowTransaction] = useState<EscrowTransactionUpdate | null>(null);
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
+  const driverPositionRef = useRef<Location>(DEFAULT_DRIVER_POSITION);
+  const [driverLocation, setDriverLocation] = useState<Location>(DEFAULT_DRIVER_POSITION);
 
   // WebSocket connection
   const connectWebSocket = useCallback(() => {
     if (wsRef.current?.readyState === WebSocket.OPEN) return;
 
     const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
-    const wsUrl = `${protocol}//${window.location.host}/ws`;
+    const wsUrl = `${protocol}//${window.location.host}/ws?token=${encodeURIComponent(token || "")}`;
     
     try {
       const socket = new WebSocket(wsUrl);
       
       socket.onopen = () => {
         console.log("WebSocket connected");
+        if (user?.role === "driver") {
+          socket.send(JSON.stringify({ type: "driver_location", data: driverPositionRef.current }));
+        }
       };
 
       socket.onmessage = (event) => {
@@ -55,6 +84,19 @@ export function RideProvider({ children }: { children: ReactNode }) {
             });
           } else if (message.type === "ride_status" && message.data) {
             setActiveRide(prev => prev ? { ...prev, ...message.data } : null);
+          } else if (message.type === "ride_offer" && message.data) {
+            setRideOffer(message.data);
+          } else if (message.type === "ride_offer_revoked") {
+            setRideOffer(prev => prev?.rideId === message.rideId ? null : prev);
+          } else if (message.type === "ride_reminder" && message.data) {
+            toast({
+              title: "Upcoming ride",
+              description: `Pickup at ${message.data.localTime} from ${message.data.pickup.address || "the pickup point"}`,
+            });
+          } else if (message.type === "ride_released" && message.data) {
+            setReleasedRideId(message.data.id);
+          } else if (message.type === "escrow_transaction" && message.data) {
+            setEscrowTransaction(message.data);
           }
         } catch (e) {
           console.error("Failed to parse WebSocket message:", e);
@@ -77,7 +119,7 @@ export function RideProvider({ children }: { children: ReactNode }) {
     } catch (error) {
       console.error("Failed to connect WebSocket:", error);
     }
-  }, []);
+  }, [token, user?.role]);
 
   // Initialize WebSocket when connected
   useEffect(() => {
@@ -126,8 +168,12 @@ export function RideProvider({ children }: { children: ReactNode }) {
     if (!user) return;
     setIsLoading(true);
     try {
-      const rides = await api.getAvailableRides();
+      const [rides, surge] = await Promise.all([
+        api.getAvailableRides(driverPositionRef.current),
+        api.getSurgeArea(driverPositionRef.current),
+      ]);
       setAvailableRides(rides);
+      setSurgeCells(surge);
     } catch (error) {
       console.error("Failed to fetch available rides:", error);
     } finally {
@@ -135,11 +181,21 @@ export function RideProvider({ children }: { children: ReactNode }) {
     }
   }, [user]);
 
+  const declineRideOffer = useCallback(async () => {
+    if (!rideOffer) return;
+    setRideOffer(null);
+    try {
+      await api.declineRide(rideOffer.rideId);
+    } catch (error) {
+      console.error("Failed to decline ride offer:", error);
+    }
+  }, [rideOffer]);
+
   const refreshActiveRide = useCallback(async () => {
     if (!user) return;
     setIsLoading(true);
     try {
-      const ride = await api.getActiveRide(user.id);
+      const ride = await api.getActiveRide();
       setActiveRide(ride);
       if (ride) {
         subscribeToRide(ride.id);
@@ -154,14 +210,62 @@ export function RideProvider({ children }: { children: ReactNode }) {
   const refreshHistory = useCallback(async () => {
     if (!user) return;
     try {
-      const history = await api.getRideHistory(user.id);
+      const history = await api.getRideHistory();
       setRideHistory(history);
     } catch (error) {
       console.error("Failed to fetch ride history:", error);
     }
   }, [user]);
 
+  const refreshScheduledRides = useCallback(async () => {
+    if (user?.role !== "customer") return;
+    try {
+      setScheduledRides(await api.getScheduledRides());
+    } catch (error) {
+      console.error("Failed to fetch scheduled rides:", error);
+    }
+  }, [user]);
+
+  const refreshUpcomingRides = useCallback(async () => {
+    if (user?.role !== "driver") return;
+    try {
+      setUpcomingRides(await api.getUpcomingRides(driverPositionRef.current));
+    } catch (error) {
+      console.error("Failed to fetch upcoming rides:", error);
+    }
+  }, [user]);
+
+  // A released booking becomes the active ride (the reserved driver's, or one waiting for a driver)
+  useEffect(() => {
+    if (!releasedRideId) return;
+    refreshActiveRide();
+    refreshScheduledRides();
+    refreshUpcomingRides();
+  }, [releasedRideId, refreshActiveRide, refreshScheduledRides, refreshUpcomingRides]);
+
   // Auto-refresh available rides for drivers
+  // Track the driver's position so the ride feed only shows nearby pickups
+  useEffect(() => {
+    if (user?.role !== "driver" || !navigator.geolocation) return;
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        driverPositionRef.current = {
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+        };
+        setDriverLocation(driverPositionRef.current);
+        // Keep the dispatcher's view of this driver current
+        if (wsRef.current?.readyState === WebSocket.OPEN) {
+          wsRef.current.send(JSON.stringify({ type: "driver_location", data: driverPositionRef.current }));
+        }
+      },
+      (error) => console.warn("Geolocation unavailable, using default position:", error.message),
+      { enableHighAccuracy: false, maximumAge: 30000 },
+    );
+    return () => navigator.geolocation.clearWatch(watchId);
+  }, [user?.role]);
+
   useEffect(() => {
     if (user?.role === "driver" && !activeRide) {
       refreshAvailableRides();
@@ -170,25 +274,42 @@ export function RideProvider({ children }: { children: ReactNode }) {
     }
   }, [user?.role, activeRide, refreshAvailableRides]);
 
+  // An offer is moot once the driver has a ride, unless it's a pool with seats to fill
+  useEffect(() => {
+    if (activeRide && !activeRide.poolId) {
+      setRideOffer(null);
+    }
+  }, [activeRide]);
+
   // Fetch active ride and history on mount
   useEffect(() => {
     if (user) {
       refreshActiveRide();
       refreshHistory();
+      refreshScheduledRides();
     }
-  }, [user, refreshActiveRide, refreshHistory]);
+  }, [user, refreshActiveRide, refreshHistory, refreshScheduledRides]);
 
   return (
     <RideContext.Provider
       value={{
         activeRide,
         availableRides,
+        rideOffer,
+        surgeCells,
+        driverLocation,
         rideHistory,
+        scheduledRides,
+        upcomingRides,
         isLoading,
         currentLocation,
+        escrowTransaction,
         refreshAvailableRides,
+        declineRideOffer,
         refreshActiveRide,
         refreshHistory,
+        refreshScheduledRides,
+        refreshUpcomingRides,
         setActiveRide,
         subscribeToRide,
         unsubscribeFromRide,
@@ -1,11 +1,182 @@
 import { useEffect, useRef, useCallback } from "react";
 import type { Location, LocationUpdate } from "@shared/schema";
+import { bearing, haversineKm } from "@shared/geo";
+
+// Cruising speed on route segments that come without one
+const DEFAULT_SEGMENT_SPEED_KMH = 30;
+
+// Each segment is driven at 70-105% of its road speed
+const MIN_SPEED_FACTOR = 0.7;
+const MAX_SPEED_FACTOR = 1.05;
+
+// A route vertex where the road turns by more than this counts as an intersection
+const INTERSECTION_TURN_DEGREES = 30;
+
+// Chance of stopping at an intersection, and for how long (simulated seconds)
+const INTERSECTION_STOP_PROBABILITY = 0.5;
+const MIN_STOP_SECONDS = 5;
+const MAX_STOP_SECONDS = 30;
+
+// Simulated GPS noise on route mode positions, in degrees (about 2m)
+const ROUTE_GPS_NOISE = 0.00002;
+
+// Polyline to drive along, e.g. a leg from /api/directions
+export interface SimulatedRoute {
+  path: Location[];
+  // Road speed per segment; segments without one use a default cruising speed
+  speedsKmh?: number[];
+}
+
+interface RouteRun {
+  path: Location[];
+  speedsKmh: number[];
+  // Segment being driven: path[segment] to path[segment + 1]
+  segment: number;
+  segmentKm: number;
+  segmentSpeedKmh: number;
+  // Simulated seconds left waiting at an intersection
+  stoppedFor: number;
+}
+
+interface RouteStep {
+  location: Location;
+  speedKmh: number;
+  heading: number;
+  arrived: boolean;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function turnAngle(run: RouteRun, vertex: number): number {
+  if (vertex <= 0 || vertex >= run.path.length - 1) return 0;
+  const incoming = bearing(run.path[vertex - 1], run.path[vertex]);
+  const outgoing = bearing(run.path[vertex], run.path[vertex + 1]);
+  const turn = Math.abs(outgoing - incoming) % 360;
+  return turn > 180 ? 360 - turn : turn;
+}
+
+function randomBetween(min: number, max: number): number {
+  return min + Math.random() * (max - min);
+}
+
+// Start driving a segment: pick its speed, and maybe wait at the intersection it starts from
+function enterSegment(run: RouteRun, segment: number) {
+  run.segment = segment;
+  run.segmentKm = 0;
+  const roadSpeed = run.speedsKmh[segment] ?? DEFAULT_SEGMENT_SPEED_KMH;
+  run.segmentSpeedKmh = roadSpeed * randomBetween(MIN_SPEED_FACTOR, MAX_SPEED_FACTOR);
+
+  if (turnAngle(run, segment) > INTERSECTION_TURN_DEGREES && Math.random() < INTERSECTION_STOP_PROBABILITY) {
+    run.stoppedFor = randomBetween(MIN_STOP_SECONDS, MAX_STOP_SECONDS);
+  }
+}
+
+// Point on the segment closest to a location, as a fraction along it (flat-earth approximation)
+function projectOntoSegment(point: Location, a: Location, b: Location): number {
+  const scale = Math.cos(toRadians(point.lat));
+  const dx = (b.lng - a.lng) * scale;
+  const dy = b.lat - a.lat;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return 0;
+  const t = (((point.lng - a.lng) * scale) * dx + (point.lat - a.lat) * dy) / lengthSquared;
+  return Math.min(1, Math.max(0, t));
+}
+
+function interpolate(a: Location, b: Location, t: number): Location {
+  return { lat: a.lat + (b.lat - a.lat) * t, lng: a.lng + (b.lng - a.lng) * t };
+}
+
+/**
+ * Start a run along a route from the point on it nearest to the current position,
+ * so a refreshed route picks up where the driver already is.
+ */
+function startRouteRun(route: SimulatedRoute, position: Location | null, previous: RouteRun | null): RouteRun {
+  const run: RouteRun = {
+    path: route.path,
+    speedsKmh: route.speedsKmh ?? [],
+    segment: 0,
+    segmentKm: 0,
+    segmentSpeedKmh: DEFAULT_SEGMENT_SPEED_KMH,
+    stoppedFor: previous?.stoppedFor ?? 0,
+  };
+  enterSegment(run, 0);
+  if (!position) return run;
+
+  let nearestKm = Infinity;
+  for (let segment = 0; segment < route.path.length - 1; segment++) {
+    const a = route.path[segment];
+    const b = route.path[segment + 1];
+    const t = projectOntoSegment(position, a, b);
+    const km = haversineKm(position, interpolate(a, b, t));
+    if (km < nearestKm) {
+      nearestKm = km;
+      run.segment = segment;
+      run.segmentKm = haversineKm(a, b) * t;
+    }
+  }
+  run.segmentSpeedKmh = (run.speedsKmh[run.segment] ?? DEFAULT_SEGMENT_SPEED_KMH) *
+    randomBetween(MIN_SPEED_FACTOR, MAX_SPEED_FACTOR);
+  return run;
+}
+
+/**
+ * Drive the run forward by some simulated seconds, waiting out any intersection stops.
+ */
+function advanceRouteRun(run: RouteRun, seconds: number): RouteStep {
+  const lastSegment = run.path.length - 2;
+  let remaining = seconds;
+
+  while (remaining > 0 && run.segment <= lastSegment) {
+    if (run.stoppedFor > 0) {
+      const wait = Math.min(run.stoppedFor, remaining);
+      run.stoppedFor -= wait;
+      remaining -= wait;
+      continue;
+    }
+
+    const segmentLength = haversineKm(run.path[run.segment], run.path[run.segment + 1]);
+    const secondsToEnd = ((segmentLength - run.segmentKm) / run.segmentSpeedKmh) * 3600;
+    if (secondsToEnd > remaining) {
+      run.segmentKm += (run.segmentSpeedKmh * remaining) / 3600;
+      remaining = 0;
+    } else {
+      remaining -= secondsToEnd;
+      if (run.segment === lastSegment) {
+        run.segment++;
+      } else {
+        enterSegment(run, run.segment + 1);
+      }
+    }
+  }
+
+  if (run.segment > lastSegment) {
+    const end = run.path[run.path.length - 1];
+    const heading = lastSegment >= 0 ? bearing(run.path[lastSegment], end) : 0;
+    return { location: end, speedKmh: 0, heading, arrived: true };
+  }
+
+  const a = run.path[run.segment];
+  const b = run.path[run.segment + 1];
+  const segmentLength = haversineKm(a, b);
+  return {
+    location: interpolate(a, b, segmentLength > 0 ? run.segmentKm / segmentLength : 1),
+    speedKmh: run.stoppedFor > 0 ? 0 : run.segmentSpeedKmh,
+    heading: bearing(a, b),
+    arrived: false,
+  };
+}
 
 interface UseAutoLocationProps {
   enabled: boolean;
   currentLocation: Location | null;
   targetLocation: Location | null;
-  speed?: number; // km per update cycle
+  // Follow this route instead of heading straight for the target
+  route?: SimulatedRoute | null;
+  speed?: number; // km per update cycle, straight-line mode only
+  // Simulated seconds per real second, route mode only
+  timeScale?: number;
   intervalMs?: number;
   onLocationUpdate: (location: LocationUpdate) => void;
   onArrival?: () => void;
@@ -13,14 +184,17 @@ interface UseAutoLocationProps {
 
 /**
  * Hook for automatic mock location movement
- * Simulates driver movement from current position towards target
+ * Simulates driver movement from current position towards target, either along
+ * a route (varying speed per segment and stopping at intersections) or in a straight line
  * Will be replaced with real GPS in production
  */
 export function useAutoLocation({
   enabled,
   currentLocation,
   targetLocation,
+  route = null,
   speed = 0.5, // km per update
+  timeScale = 10,
   intervalMs = 2000,
   onLocationUpdate,
   onArrival,
@@ -28,6 +202,8 @@ export function useAutoLocation({
   const intervalRef = useRef<NodeJS.Timeout | null>(null);
   const currentPosRef = useRef<Location | null>(null);
   const hasArrivedRef = useRef(false);
+  const routeRunRef = useRef<RouteRun | null>(null);
+  const isRouteMode = !!route && route.path.length >= 2;
 
   // Keep track of current position
   useEffect(() => {
@@ -36,6 +212,45 @@ export function useAutoLocation({
     }
   }, [currentLocation]);
 
+  // Pick up a new or refreshed route from the current position
+  useEffect(() => {
+    routeRunRef.current = route && route.path.length >= 2
+      ? startRouteRun(route, currentPosRef.current, routeRunRef.current)
+      : null;
+  }, [route]);
+
+  const moveAlongRoute = useCallback(() => {
+    const run = routeRunRef.current;
+    if (!run || hasArrivedRef.current) return;
+
+    const step = advanceRouteRun(run, (intervalMs / 1000) * timeScale);
+    if (step.arrived) {
+      hasArrivedRef.current = true;
+      currentPosRef.current = step.location;
+      onLocationUpdate({
+        lat: step.location.lat,
+        lng: step.location.lng,
+        timestamp: Date.now(),
+        speed: 0,
+        heading: step.heading,
+      });
+      onArrival?.();
+      return;
+    }
+
+    const lat = step.location.lat + (Math.random() - 0.5) * ROUTE_GPS_NOISE;
+    const lng = step.location.lng + (Math.random() - 0.5) * ROUTE_GPS_NOISE;
+    currentPosRef.current = { lat, lng };
+
+    onLocationUpdate({
+      lat,
+      lng,
+      timestamp: Date.now(),
+      speed: step.speedKmh,
+      heading: step.heading,
+    });
+  }, [intervalMs, timeScale, onLocationUpdate, onArrival]);
+
   const moveTowardsTarget = useCallback(() => {
     if (!currentPosRef.current || !targetLocation) return;
 
@@ -91,14 +306,15 @@ export function useAutoLocation({
   useEffect(() => {
     if (enabled && targetLocation) {
       hasArrivedRef.current = false;
+      const move = isRouteMode ? moveAlongRoute : moveTowardsTarget;
       
       // Initial update
       if (currentPosRef.current) {
-        moveTowardsTarget();
+        move();
       }
 
       // Set up interval for continuous movement
-      intervalRef.current = setInterval(moveTowardsTarget, intervalMs);
+      intervalRef.current = setInterval(move, intervalMs);
 
       return () => {
         if (intervalRef.current) {
@@ -112,7 +328,7 @@ export function useAutoLocation({
         intervalRef.current = null;
       }
     }
-  }, [enabled, targetLocation, intervalMs, moveTowardsTarget]);
+  }, [enabled, targetLocation, intervalMs, isRouteMode, moveAlongRoute, moveTowardsTarget]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -123,31 +339,3 @@ export function useAutoLocation({
     };
   }, []);
 }
-
-/**
- * Calculate ETA based on distance and average speed
- */
-export function calculateETA(
-  currentLocation: Location | null,
-  targetLocation: Location | null,
-  avgSpeedKmh: number = 30
-): { distance: number; eta: number } {
-  if (!currentLocation || !targetLocation) {
-    return { distance: 0, eta: 0 };
-  }
-
-  // Calculate distance in km (using Haversine formula simplified)
-  const latDiff = (targetLocation.lat - currentLocation.lat) * 111;
-  const lngDiff = (targetLocation.lng - currentLocation.lng) * 111 * 
-    Math.cos(currentLocation.lat * Math.PI / 180);
-  
-  const distance = Math.sqrt(latDiff * latDiff + lngDiff * lngDiff);
-  
-  // Calculate ETA in minutes
-  const eta = Math.max(1, Math.round((distance / avgSpeedKmh) * 60));
-
-  return {
-    distance: Math.round(distance * 10) / 10,
-    eta,
-  };
-}
@@ -0,0 +1,55 @@
+import { useEffect, useRef, useState } from "react";
+import type { Location, RoutePlan } from "@shared/schema";
+import { haversineKm } from "@shared/geo";
+import { api } from "@/lib/api";
+
+// Waypoint movement that makes the route worth fetching again
+const REROUTE_DISTANCE_KM = 0.1;
+
+// Minimum time between route requests while waypoints keep moving
+const REROUTE_INTERVAL_MS = 10000;
+
+function hasMoved(previous: Location[], next: Location[]): boolean {
+  return previous.length !== next.length ||
+    previous.some((point, i) => haversineKm(point, next[i]) > REROUTE_DISTANCE_KM);
+}
+
+/**
+ * Road route through the waypoints from the server routing engine.
+ * Refetched right away when the stops change, and at most every few seconds as the start moves.
+ * Returns null until the first route arrives or while any waypoint is missing.
+ */
+export function useRoute(waypoints: (Location | null | undefined)[]): RoutePlan | null {
+  const [route, setRoute] = useState<RoutePlan | null>(null);
+  const requestedRef = useRef<Location[]>([]);
+  const requestedAtRef = useRef(0);
+
+  const points = waypoints.filter((point): point is Location => !!point);
+  const isComplete = points.length === waypoints.length && points.length >= 2;
+  const key = points.map((point) => `${point.lat.toFixed(4)},${point.lng.toFixed(4)}`).join(";");
+
+  useEffect(() => {
+    if (!isComplete) {
+      requestedRef.current = [];
+      setRoute(null);
+      return;
+    }
+    if (!hasMoved(requestedRef.current, points)) return;
+
+    const fetchRoute = () => {
+      requestedRef.current = points;
+      requestedAtRef.current = Date.now();
+      api.getDirections(points)
+        .then(setRoute)
+        .catch((error) => console.error("Failed to fetch route:", error));
+    };
+
+    // Changed stops make a new route; a moving start (the driver) waits out the interval
+    const stopsChanged = hasMoved(requestedRef.current.slice(1), points.slice(1));
+    const wait = stopsChanged ? 0 : Math.max(0, requestedAtRef.current + REROUTE_INTERVAL_MS - Date.now());
+    const timeout = setTimeout(fetchRoute, wait);
+    return () => clearTimeout(timeout);
+  }, [key, isComplete]);
+
+  return route;
+}
@@ -1,16 +1,49 @@
-import type { 
-  User, 
-  Ride, 
-  RideWithDetails, 
-  AvailableRide, 
+import type {
+  UserProfile,
+  UserTransaction,
+  LedgerPosting,
+  Ride,
+  RideWithDetails,
+  RideEvent,
+  AvailableRide,
+  UpcomingRide,
+  Location,
+  AuthChallengeResponse,
   AuthConnectRequest,
   RideRequestPayload,
-  RideAcceptPayload,
-  RideCompletePayload 
+  RideStakePayload,
+  RideCompletePayload,
+  RideCancelPayload,
+  RideTipPayload,
+  Cancellation,
+  CancellationReason,
+  FareQuote,
+  FareQuoteRequest,
+  SurgeCell,
+  TripFare,
+  RideTrace,
+  RoutePlan,
+  DeliveryTracking,
+  PodArtifactType
 } from "@shared/schema";
 
 const API_BASE = "/api";
 
+// Session token from /auth/connect, sent as a bearer token on authenticated requests
+let authToken: string | null = null;
+
+export function setAuthToken(token: string | null) {
+  authToken = token;
+}
+
+export function getAuthToken(): string | null {
+  return authToken;
+}
+
+function authHeaders(headers: Record<string, string> = {}): Record<string, string> {
+  return authToken ? { ...headers, Authorization: `Bearer ${authToken}` } : headers;
+}
+
 async function handleResponse<T>(response: Response): Promise<T> {
   if (!response.ok) {
     const error = await response.json().catch(() => ({ message: "Request failed" }));
@@ -21,7 +54,16 @@ async function handleResponse<T>(response: Response): Promise<T> {
 
 export const api = {
   // Auth endpoints
-  connect: async (data: AuthConnectRequest): Promise<{ token: string; user: User }> => {
+  requestChallenge: async (walletAddress: string): Promise<AuthChallengeResponse> => {
+    const response = await fetch(`${API_BASE}/auth/challenge`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ walletAddress }),
+    });
+    return handleResponse(response);
+  },
+
+  connect: async (data: AuthConnectRequest): Promise<{ token: string; user: UserProfile }> => {
     const response = await fetch(`${API_BASE}/auth/connect`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
@@ -30,9 +72,56 @@ export const api = {
     return handleResponse(response);
   },
 
+  logout: async (): Promise<void> => {
+    const response = await fetch(`${API_BASE}/auth/logout`, {
+      method: "POST",
+      headers: authHeaders(),
+    });
+    await handleResponse(response);
+  },
+
   // User endpoints
-  getProfile: async (userId: string): Promise<User> => {
-    const response = await fetch(`${API_BASE}/user/${userId}/profile`);
+  getProfile: async (userId: string): Promise<UserProfile> => {
+    const response = await fetch(`${API_BASE}/user/${userId}/profile`, {
+      headers: authHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  getTransactions: async (userId: string): Promise<UserTransaction[]> => {
+    const response = await fetch(`${API_BASE}/users/${userId}/transactions`, {
+      headers: authHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  // Fare endpoints
+  getFareQuote: async (trip: FareQuoteRequest): Promise<FareQuote> => {
+    const response = await fetch(`${API_BASE}/fares/quote`, {
+      method: "POST",
+      headers: authHeaders({ "Content-Type": "application/json" }),
+      body: JSON.stringify(trip),
+    });
+    return handleResponse(response);
+  },
+
+  // Routing endpoints
+  getDirections: async (waypoints: Location[]): Promise<RoutePlan> => {
+    const response = await fetch(`${API_BASE}/directions`, {
+      method: "POST",
+      headers: authHeaders({ "Content-Type": "application/json" }),
+      body: JSON.stringify({ waypoints }),
+    });
+    return handleResponse(response);
+  },
+
+  // Surge endpoints
+  getSurgeArea: async (location: Location, radiusKm?: number): Promise<SurgeCell[]> => {
+    const params = new URLSearchParams({ lat: String(location.lat), lng: String(location.lng) });
+    if (radiusKm !== undefined) params.set("radiusKm", String(radiusKm));
+    const response = await fetch(`${API_BASE}/surge?${params}`, {
+      headers: authHeaders(),
+    });
     return handleResponse(response);
   },
 
@@ -40,36 +129,118 @@ export const api = {
   requestRide: async (data: RideRequestPayload): Promise<Ride> => {
     const response = await fetch(`${API_BASE}/rides/request`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: authHeaders({ "Content-Type": "application/json" }),
       body: JSON.stringify(data),
     });
     return handleResponse(response);
   },
 
-  getAvailableRides: async (): Promise<AvailableRide[]> => {
-    const response = await fetch(`${API_BASE}/rides/available`);
+  // Without a payload the server locks the stake from the customer's balance
+  stakeRide: async (rideId: string, data: RideStakePayload = {}): Promise<Ride> => {
+    const response = await fetch(`${API_BASE}/rides/${rideId}/stake`, {
+      method: "POST",
+      headers: authHeaders({ "Content-Type": "application/json" }),
+      body: JSON.stringify(data),
+    });
+    return handleResponse(response);
+  },
+
+  getAvailableRides: async (location: Location, radiusKm?: number): Promise<AvailableRide[]> => {
+    const params = new URLSearchParams({ lat: String(location.lat), lng: String(location.lng) });
+    if (radiusKm !== undefined) params.set("radiusKm", String(radiusKm));
+    const response = await fetch(`${API_BASE}/rides/available?${params}`, {
+      headers: authHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  getUpcomingRides: async (location: Location, radiusKm?: number): Promise<UpcomingRide[]> => {
+    const params = new URLSearchParams({ lat: String(location.lat), lng: String(location.lng) });
+    if (radiusKm !== undefined) params.set("radiusKm", String(radiusKm));
+    const response = await fetch(`${API_BASE}/rides/upcoming?${params}`, {
+      headers: authHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  getScheduledRides: async (): Promise<Ride[]> => {
+    const response = await fetch(`${API_BASE}/rides/scheduled`, {
+      headers: authHeaders(),
+    });
     return handleResponse(response);
   },
 
   getRide: async (rideId: string): Promise<RideWithDetails> => {
-    const response = await fetch(`${API_BASE}/rides/${rideId}`);
+    const response = await fetch(`${API_BASE}/rides/${rideId}`, {
+      headers: authHeaders(),
+    });
     return handleResponse(response);
   },
 
-  acceptRide: async (rideId: string, data: RideAcceptPayload): Promise<Ride> => {
+  getRideTimeline: async (rideId: string): Promise<RideEvent[]> => {
+    const response = await fetch(`${API_BASE}/rides/${rideId}/timeline`, {
+      headers: authHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  getRideFare: async (rideId: string): Promise<TripFare> => {
+    const response = await fetch(`${API_BASE}/rides/${rideId}/fare`, {
+      headers: authHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  getRideTrace: async (rideId: string): Promise<RideTrace> => {
+    const response = await fetch(`${API_BASE}/rides/${rideId}/trace`, {
+      headers: authHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  getRecipientLink: async (rideId: string): Promise<{ token: string }> => {
+    const response = await fetch(`${API_BASE}/rides/${rideId}/recipient-link`, {
+      headers: authHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  acceptRide: async (rideId: string): Promise<Ride> => {
     const response = await fetch(`${API_BASE}/rides/${rideId}/accept`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(data),
+      headers: authHeaders(),
     });
     return handleResponse(response);
   },
 
-  startRide: async (rideId: string, driverId: string): Promise<Ride> => {
+  reserveRide: async (rideId: string): Promise<Ride> => {
+    const response = await fetch(`${API_BASE}/rides/${rideId}/reserve`, {
+      method: "POST",
+      headers: authHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  unreserveRide: async (rideId: string): Promise<Ride> => {
+    const response = await fetch(`${API_BASE}/rides/${rideId}/unreserve`, {
+      method: "POST",
+      headers: authHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  declineRide: async (rideId: string): Promise<void> => {
+    const response = await fetch(`${API_BASE}/rides/${rideId}/decline`, {
+      method: "POST",
+      headers: authHeaders(),
+    });
+    await handleResponse(response);
+  },
+
+  startRide: async (rideId: string): Promise<Ride> => {
     const response = await fetch(`${API_BASE}/rides/${rideId}/start`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ driverId }),
+      headers: authHeaders(),
     });
     return handleResponse(response);
   },
@@ -77,29 +248,83 @@ export const api = {
   completeRide: async (rideId: string, data: RideCompletePayload): Promise<Ride> => {
     const response = await fetch(`${API_BASE}/rides/${rideId}/complete`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
+      headers: authHeaders({ "Content-Type": "application/json" }),
       body: JSON.stringify(data),
     });
     return handleResponse(response);
   },
 
-  cancelRide: async (rideId: string, userId: string): Promise<Ride> => {
+  getCancellationTerms: async (rideId: string, reason: CancellationReason): Promise<Cancellation> => {
+    const response = await fetch(`${API_BASE}/rides/${rideId}/cancellation?reason=${reason}`, {
+      headers: authHeaders(),
+    });
+    return handleResponse(response);
+  },
+
+  cancelRide: async (rideId: string, data: RideCancelPayload): Promise<Ride> => {
     const response = await fetch(`${API_BASE}/rides/${rideId}/cancel`, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ userId }),
+      headers: authHeaders({ "Content-Type": "application/json" }),
+      body: JSON.stringify(data),
+    });
+    return handleResponse(response);
+  },
+
+  tipRide: async (rideId: string, data: RideTipPayload): Promise<LedgerPosting> => {
+    const response = await fetch(`${API_BASE}/rides/${rideId}/tip`, {
+      method: "POST",
+      headers: authHeaders({ "Content-Type": "application/json" }),
+      body: JSON.stringify(data),
     });
     return handleResponse(response);
   },
 
-  getRideHistory: async (userId: string): Promise<Ride[]> => {
-    const response = await fetch(`${API_BASE}/rides/history/${userId}`);
+  getRideHistory: async (): Promise<Ride[]> => {
+    const response = await fetch(`${API_BASE}/rides/history`, {
+      headers: authHeaders(),
+    });
     return handleResponse(response);
   },
 
-  getActiveRide: async (userId: string): Promise<RideWithDetails | null> => {
-    const response = await fetch(`${API_BASE}/rides/active/${userId}`);
+  getActiveRide: async (): Promise<RideWithDetails | null> => {
+    const response = await fetch(`${API_BASE}/rides/active`, {
+      headers: authHeaders(),
+    });
     if (response.status === 404) return null;
     return handleResponse(response);
   },
+
+  // Recipient endpoints; the link token stands in for a session
+  getDeliveryTracking: async (token: string): Promise<DeliveryTracking> => {
+    const response = await fetch(`${API_BASE}/deliveries/${encodeURIComponent(token)}`);
+    return handleResponse(response);
+  },
+
+  resendDeliveryPin: async (token: string): Promise<DeliveryTracking> => {
+    const response = await fetch(`${API_BASE}/deliveries/${encodeURIComponent(token)}/pin`, { method: "POST" });
+    return handleResponse(response);
+  },
+
+  uploadProofOfDelivery: async (rideId: string, artifact: PodArtifactType, file: Blob): Promise<Ride> => {
+    const body = new FormData();
+    body.append("file", file);
+    const response = await fetch(`${API_BASE}/rides/${rideId}/proof-of-delivery/${artifact}`, {
+      method: "POST",
+      headers: authHeaders(),
+      body,
+    });
+    return handleResponse(response);
+  },
+
+  // Fetched as a blob since <img> can't send the bearer token
+  getProofOfDelivery: async (rideId: string, artifact: PodArtifactType): Promise<Blob> => {
+    const response = await fetch(`${API_BASE}/rides/${rideId}/proof-of-delivery/${artifact}`, {
+      headers: authHeaders(),
+    });
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ message: "Request failed" }));
+      throw new Error(error.message || "Request failed");
+    }
+    return response.blob();
+  },
 };
@@ -3,8 +3,10 @@
  */
 
 import { ApiPromise, WsProvider } from '@polkadot/api';
-import { web3Enable, web3Accounts, web3FromAddress } from '@polkadot/extension-dapp';
-import { ContractPromise } from '@polkadot/api-contract';
+import { web3Enable, web3Accounts, web3AccountsSubscribe, web3FromAddress } from '@polkadot/extension-dapp';
+import { stringToHex } from '@polkadot/util';
+import { RideEscrowContract, type RideEscrowEvent } from '@shared/rideEscrow';
+import type { TxProgress } from '@shared/transactionTracker';
 
 export interface ContractState {
   connected: boolean;
@@ -14,17 +16,20 @@ export interface ContractState {
   api: ApiPromise | null;
 }
 
-export interface StakeResult {
-  success: boolean;
-  transactionHash: string;
-  stakedAmount: number;
-  escrowAddress: string;
+// An account one of the wallet extensions injects
+export interface WalletAccount {
+  address: string;
+  // Name given to it in the extension, if any
+  name: string | null;
+  // Extension it comes from, e.g. "polkadot-js" or "talisman"
+  source: string;
 }
 
-export interface PaymentResult {
-  success: boolean;
+export interface StakeResult {
   transactionHash: string;
-  amountPaid: number;
+  blockHash: string;
+  blockNumber: number;
+  stakedAmount: number;
 }
 
 let contractState: ContractState = {
@@ -64,7 +69,14 @@ export async function initializePolkadot(): Promise<ContractState> {
   }
 }
 
-export async function connectWallet(): Promise<string> {
+function toWalletAccount({ address, meta }: Awaited<ReturnType<typeof web3Accounts>>[number]): WalletAccount {
+  return { address, name: meta.name ?? null, source: meta.source };
+}
+
+/**
+ * Enable the wallet extensions and list every account they inject, for the user to pick one.
+ */
+export async function connectWallet(): Promise<WalletAccount[]> {
   try {
     const extensions = await web3Enable('ride-share-app');
     if (extensions.length === 0) throw new Error('No Polkadot extension found');
@@ -72,119 +84,97 @@ export async function connectWallet(): Promise<string> {
     const accounts = await web3Accounts();
     if (accounts.length === 0) throw new Error('No accounts');
 
-    const account = accounts.address;
-    contractState.account = account;
-
-    console.log('✅ Wallet connected:', account);
-    return account;
+    console.log(`✅ Wallet connected: ${accounts.length} account(s)`);
+    return accounts.map(toWalletAccount);
   } catch (error) {
     console.error('❌ Wallet connection failed:', error);
     throw error;
   }
 }
 
-export async function stakeForRide(
-  rideId: string,
-  amount: number,
-  customerAddress: string
-): Promise<StakeResult> {
-  try {
-    if (!contractState.api || !contractState.contractAddress) {
-      throw new Error('Polkadot not initialized');
-    }
-
-    const injector = await web3FromAddress(customerAddress);
-    const contract = new ContractPromise(
-      contractState.api,
-      CONTRACT_ABI,
-      contractState.contractAddress
-    );
-
-    console.log(`🔒 Locking ${amount} for ride ${rideId}`);
+// The account the user picked to sign in with, or null once they sign out
+export function selectAccount(address: string | null): void {
+  contractState.account = address;
+}
 
-    return new Promise((resolve, reject) => {
-      contract.tx.createOrder(
-        { gasLimit: -1, value: amount.toString() },
-        rideId,
-        0,
-        0
-      )
-        .signAndSend(
-          customerAddress,
-          { signer: injector.signer },
-          ({ status, txHash }) => {
-            if (status.isFinalized) {
-              console.log(`✅ Escrow confirmed: ${txHash}`);
-              resolve({
-                success: true,
-                transactionHash: txHash.toString(),
-                stakedAmount: amount,
-                escrowAddress: 'CONTRACT_' + rideId.slice(0, 8),
-              });
-            }
-          }
-        )
-        .catch(reject);
-    });
-  } catch (error) {
-    console.error('❌ stakeForRide failed:', error);
-    throw error;
-  }
+/**
+ * Call back with the injected accounts whenever an extension adds, removes or renames one.
+ * The extensions have to be enabled by connectWallet first. Resolves the function that stops watching.
+ */
+export function watchWalletAccounts(onChange: (accounts: WalletAccount[]) => void): Promise<() => void> {
+  return web3AccountsSubscribe((accounts) => onChange(accounts.map(toWalletAccount)));
 }
 
-export async function releasePayment(
-  rideId: string,
-  driverAddress: string,
-  finalFare: number,
-  stakedAmount: number
-): Promise<PaymentResult> {
+/**
+ * Sign an arbitrary message with the extension account (used for login challenges).
+ * The extension wraps the payload in <Bytes>...</Bytes> before signing.
+ */
+export async function signMessage(address: string, message: string): Promise<string> {
   try {
-    // Backend will handle this
-    await new Promise(r => setTimeout(r, 1000));
+    const injector = await web3FromAddress(address);
+    if (!injector.signer.signRaw) {
+      throw new Error('Wallet extension cannot sign messages');
+    }
 
-    return {
-      success: true,
-      transactionHash: `0x${Math.random().toString(16).slice(2)}`,
-      amountPaid: finalFare,
-    };
+    const { signature } = await injector.signer.signRaw({
+      address,
+      data: stringToHex(message),
+      type: 'bytes',
+    });
+    return signature;
   } catch (error) {
-    console.error('❌ releasePayment failed:', error);
+    console.error('❌ signMessage failed:', error);
     throw error;
   }
 }
 
-export async function confirmDelivery(
+// How long a stake may take to be finalized before it counts as failed
+const STAKE_TIMEOUT_MS = Number(import.meta.env.VITE_ESCROW_TX_TIMEOUT_MS) || 120000;
+
+/**
+ * Stake the ride's amount into its escrow order from the customer's wallet, reporting each stage
+ * of the transaction through onProgress. Resolves once the block with the order's OrderCreated event is finalized.
+ */
+export async function stakeForRide(
   rideId: string,
-  customerAddress: string
-): Promise<{ transactionHash: string }> {
+  amount: number,
+  customerAddress: string,
+  onProgress?: (progress: TxProgress) => void
+): Promise<StakeResult> {
   try {
     if (!contractState.api || !contractState.contractAddress) {
       throw new Error('Polkadot not initialized');
     }
 
     const injector = await web3FromAddress(customerAddress);
-    const contract = new ContractPromise(
-      contractState.api,
-      CONTRACT_ABI,
-      contractState.contractAddress
-    );
+    const escrow = new RideEscrowContract(contractState.api, contractState.contractAddress);
 
-    return new Promise((resolve, reject) => {
-      contract.tx.confirmDelivery({ gasLimit: -1 }, rideId)
-        .signAndSend(
-          customerAddress,
-          { signer: injector.signer },
-          ({ status, txHash }) => {
-            if (status.isFinalized) {
-              console.log(`✅ Delivery confirmed: ${txHash}`);
-              resolve({ transactionHash: txHash.toString() });
-            }
-          }
-        )
-        .catch(reject);
+    console.log(`🔒 Locking ${amount} for ride ${rideId}`);
+
+    const tx = await escrow.tx(customerAddress, 'createOrder', escrow.toPlanck(amount), rideId, customerAddress);
+    const receipt = await escrow.send(tx, customerAddress, {
+      signer: injector.signer,
+      timeoutMs: STAKE_TIMEOUT_MS,
+      onProgress,
     });
+
+    const created = receipt.events.find(
+      (event): event is Extract<RideEscrowEvent, { name: 'OrderCreated' }> =>
+        event.name === 'OrderCreated' && event.rideId === rideId
+    );
+    if (!created) {
+      throw new Error(`No OrderCreated event for ride ${rideId} in ${receipt.txHash}`);
+    }
+
+    console.log(`✅ Escrow confirmed: ${receipt.txHash}`);
+    return {
+      transactionHash: receipt.txHash,
+      blockHash: receipt.blockHash,
+      blockNumber: receipt.blockNumber,
+      stakedAmount: escrow.fromPlanck(created.amount),
+    };
   } catch (error) {
-    console.error('❌ confirmDelivery failed:', error);
+    console.error('❌ stakeForRide failed:', error);
     throw error;
   }
 }
@@ -206,10 +196,3 @@ export function disconnectPolkadot(): void {
   };
   console.log('✅ Polkadot disconnected');
 }
-
-const CONTRACT_ABI = {
-  "version": "4",
-  "spec": { "constructors": [], "messages": [], "events": [], "docs": [] },
-  "storage": {},
-  "types": []
-};
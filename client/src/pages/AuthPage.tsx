@@ -5,21 +5,37 @@ import { Button } from "@/components/ui/button";
 import { useAuth } from "@/context/AuthContext";
 import { useTheme } from "@/context/ThemeContext";
 import { Spinner } from "@/components/Spinner";
+import { WalletAccountPicker } from "@/components/WalletAccountPicker";
+import type { WalletAccount } from "@/lib/smartContract";
 import type { UserRole } from "@shared/schema";
 import { cn } from "@/lib/utils";
 
 export default function AuthPage() {
-  const { connect, isConnecting } = useAuth();
+  const { connect, isConnecting, walletAccounts, rememberedAddress, loadWalletAccounts } = useAuth();
   const { theme, toggleTheme } = useTheme();
   const [selectedRole, setSelectedRole] = useState<UserRole | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [isPicking, setIsPicking] = useState(false);
 
+  // List the wallet's accounts to pick one from
   const handleConnect = async () => {
     if (!selectedRole) return;
 
     setError(null);
     try {
-      await connect(selectedRole);
+      await loadWalletAccounts();
+      setIsPicking(true);
+    } catch (err) {
+      setError("No wallet accounts found. Install a Polkadot wallet extension and allow DropMate to see your accounts.");
+    }
+  };
+
+  const handleSelectAccount = async (account: WalletAccount) => {
+    if (!selectedRole) return;
+
+    setIsPicking(false);
+    try {
+      await connect(selectedRole, account.address);
     } catch (err) {
       setError("Failed to connect wallet. Please try again.");
     }
@@ -180,11 +196,19 @@ export default function AuthPage() {
 
             {/* Wallet Info */}
             <p className="text-xs text-center text-muted-foreground">
-              Connect your MetaMask or Stellar wallet to continue
+              Connect a Polkadot wallet extension such as polkadot.js, Talisman or SubWallet
             </p>
           </CardContent>
         </Card>
 
+        <WalletAccountPicker
+          open={isPicking}
+          accounts={walletAccounts ?? []}
+          rememberedAddress={rememberedAddress}
+          onSelect={handleSelectAccount}
+          onClose={() => setIsPicking(false)}
+        />
+
         {/* Footer */}
         <p className="text-center text-xs text-muted-foreground">
           Powered by Stellar Network
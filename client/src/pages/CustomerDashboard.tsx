@@ -5,19 +5,26 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Header } from "@/components/Header";
 import { LiveMap } from "@/components/LiveMap";
-import { RideHistoryCard } from "@/components/RideCard";
+import { RideCard, RideHistoryCard } from "@/components/RideCard";
 import { LoadingState, Spinner } from "@/components/Spinner";
 import { StarRating } from "@/components/StarRating";
+import { StopProgress } from "@/components/StopProgress";
+import { ParcelDetails, RecipientLinkButton } from "@/components/ParcelDetails";
 import { RatingPopup } from "@/components/RatingPopup";
+import { CancelRideDialog } from "@/components/CancelRideDialog";
 import { RideRequestModal } from "./RideRequestModal";
 import { useAuth } from "@/context/AuthContext";
 import { useRide } from "@/context/RideContext";
+import { useRoute } from "@/hooks/useRoute";
 import { api } from "@/lib/api";
 import { cn } from "@/lib/utils";
 import type { RideStatus } from "@shared/schema";
 import { useLocation } from "wouter";
 
 const statusConfig: Record<RideStatus, { label: string; color: string }> = {
+  pending_stake: { label: "Locking Stake...", color: "bg-muted-foreground" },
+  staking: { label: "Locking Stake...", color: "bg-muted-foreground" },
+  scheduled: { label: "Scheduled", color: "bg-violet-500" },
   waiting: { label: "Finding Driver...", color: "bg-amber-500" },
   accepted: { label: "Driver En Route", color: "bg-blue-500" },
   in_progress: { label: "In Progress", color: "bg-primary" },
@@ -26,12 +33,13 @@ const statusConfig: Record<RideStatus, { label: string; color: string }> = {
 };
 
 export default function CustomerDashboard() {
-  const { user } = useAuth();
-  const { activeRide, rideHistory, currentLocation, refreshActiveRide, refreshHistory, setActiveRide, subscribeToRide } = useRide();
+  const { user, refreshUser } = useAuth();
+  const { activeRide, rideHistory, scheduledRides, currentLocation, refreshActiveRide, refreshHistory, refreshScheduledRides, setActiveRide, subscribeToRide } = useRide();
   const [, setLocation] = useLocation();
   const [showRequestModal, setShowRequestModal] = useState(false);
   const [showRatingPopup, setShowRatingPopup] = useState(false);
-  const [isCancelling, setIsCancelling] = useState(false);
+  // Ride whose cancel dialog is open
+  const [cancellingRideId, setCancellingRideId] = useState<string | null>(null);
   const [completedRide, setCompletedRide] = useState<typeof activeRide>(null);
 
   // Subscribe to active ride updates
@@ -56,30 +64,41 @@ export default function CustomerDashboard() {
     }
   }, [activeRide?.status, setLocation]);
 
-  const handleCancelRide = async () => {
-    if (!activeRide || !user) return;
-    setIsCancelling(true);
-    try {
-      await api.cancelRide(activeRide.id, user.id);
+  // Road route for the driver's remaining trip, or the booked route until the driver's position is known
+  const driverLocation = currentLocation || activeRide?.currentLocation;
+  const route = useRoute(
+    !activeRide || activeRide.status === "waiting"
+      ? []
+      : !driverLocation
+        ? [activeRide.pickup, ...activeRide.stops, activeRide.dropoff]
+        : activeRide.status === "accepted"
+          ? [driverLocation, activeRide.pickup, ...activeRide.stops, activeRide.dropoff]
+          : [driverLocation, ...activeRide.stops.slice(activeRide.stopsReached), activeRide.dropoff]
+  );
+
+  const handleRideCancelled = () => {
+    if (cancellingRideId === activeRide?.id) {
       setActiveRide(null);
-      refreshHistory();
-    } catch (error) {
-      console.error("Failed to cancel ride:", error);
-    } finally {
-      setIsCancelling(false);
     }
+    setCancellingRideId(null);
+    refreshScheduledRides();
+    refreshHistory();
+    refreshUser().catch((error) => console.error("Failed to refresh balance:", error));
   };
 
-  const handleRatingSubmit = async (rating: number, feedback: string) => {
+  const handleRatingSubmit = async (rating: number, feedback: string, tip: number) => {
     if (!completedRide || !user) return;
     try {
       await api.completeRide(completedRide.id, {
-        completedBy: "customer",
         rating,
         feedback,
       });
+      if (tip > 0) {
+        await api.tipRide(completedRide.id, { amount: tip });
+      }
       setActiveRide(null);
       refreshHistory();
+      refreshUser().catch((error) => console.error("Failed to refresh balance:", error));
     } catch (error) {
       console.error("Failed to submit rating:", error);
     }
@@ -96,19 +115,8 @@ export default function CustomerDashboard() {
 
   const status = activeRide ? statusConfig[activeRide.status] : null;
 
-  // Calculate estimated arrival
-  const getEstimatedArrival = () => {
-    if (!activeRide?.currentLocation || !activeRide?.pickup) return null;
-    // Simple distance calculation (would use routing API in production)
-    const distance = Math.sqrt(
-      Math.pow(activeRide.currentLocation.lat - activeRide.pickup.lat, 2) +
-      Math.pow(activeRide.currentLocation.lng - activeRide.pickup.lng, 2)
-    ) * 111; // Approximate km
-    const minutes = Math.round(distance * 3); // 3 min per km estimate
-    return minutes;
-  };
-
-  const eta = getEstimatedArrival();
+  // Driver's arrival at the pickup, from the first leg of the road route
+  const eta = driverLocation && route ? Math.max(1, Math.round(route.legs[0].durationMinutes)) : null;
 
   return (
     <div className="min-h-screen bg-background">
@@ -136,8 +144,11 @@ export default function CustomerDashboard() {
               <LiveMap
                 driverLocation={currentLocation || activeRide.currentLocation}
                 pickupLocation={activeRide.pickup}
+                stops={activeRide.stops}
+                stopsReached={activeRide.stopsReached}
                 dropoffLocation={activeRide.dropoff}
                 showRoute={activeRide.status !== "waiting"}
+                routePath={route?.path}
                 className="h-full"
               />
             </div>
@@ -200,6 +211,15 @@ export default function CustomerDashboard() {
                 </div>
               </div>
 
+              <StopProgress stops={activeRide.stops} stopsReached={activeRide.stopsReached} />
+
+              {activeRide.parcel && (
+                <div className="space-y-2">
+                  <ParcelDetails parcel={activeRide.parcel} />
+                  <RecipientLinkButton rideId={activeRide.id} />
+                </div>
+              )}
+
               {/* Fare Info */}
               <div className="flex items-center justify-between p-4 bg-muted/30 rounded-xl">
                 <div className="flex items-center gap-2">
@@ -215,19 +235,12 @@ export default function CustomerDashboard() {
               {(activeRide.status === "waiting" || activeRide.status === "accepted") && (
                 <Button
                   variant="outline"
-                  onClick={handleCancelRide}
-                  disabled={isCancelling}
+                  onClick={() => setCancellingRideId(activeRide.id)}
                   className="w-full"
                   data-testid="button-cancel-ride"
                 >
-                  {isCancelling ? (
-                    <Spinner size="sm" />
-                  ) : (
-                    <>
-                      <X className="h-4 w-4 mr-2" />
-                      Cancel Ride
-                    </>
-                  )}
+                  <X className="h-4 w-4 mr-2" />
+                  Cancel Ride
                 </Button>
               )}
             </CardContent>
@@ -254,6 +267,23 @@ export default function CustomerDashboard() {
           </div>
         )}
 
+        {/* Scheduled Rides */}
+        {scheduledRides.length > 0 && (
+          <section className="space-y-4">
+            <h2 className="text-xl font-semibold">Scheduled Rides</h2>
+            <div className="space-y-3">
+              {scheduledRides.map((ride) => (
+                <RideCard
+                  key={ride.id}
+                  ride={ride}
+                  showActions
+                  onCancel={() => setCancellingRideId(ride.id)}
+                />
+              ))}
+            </div>
+          </section>
+        )}
+
         {/* Ride History */}
         <section className="space-y-4">
           <h2 className="text-xl font-semibold">Recent Rides</h2>
@@ -284,9 +314,17 @@ export default function CustomerDashboard() {
         onSuccess={() => {
           setShowRequestModal(false);
           refreshActiveRide();
+          refreshScheduledRides();
         }}
       />
 
+      <CancelRideDialog
+        rideId={cancellingRideId}
+        role="customer"
+        onClose={() => setCancellingRideId(null)}
+        onCancelled={handleRideCancelled}
+      />
+
       {/* Rating Popup */}
       {completedRide?.driver && (
         <RatingPopup
@@ -295,6 +333,7 @@ export default function CustomerDashboard() {
           onSubmit={handleRatingSubmit}
           targetName={completedRide.driver.name}
           targetRole="driver"
+          allowTip
         />
       )}
     </div>
@@ -0,0 +1,149 @@
+import { useState, useEffect, useCallback } from "react";
+import { useParams } from "wouter";
+import { Package, MapPin, Navigation, CheckCircle, Info, KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { LiveMap } from "@/components/LiveMap";
+import { Spinner } from "@/components/Spinner";
+import { packageSizeLabels } from "@/components/ParcelDetails";
+import { api } from "@/lib/api";
+import type { DeliveryTracking as Tracking, RideStatus } from "@shared/schema";
+
+const statusLabels: Record<RideStatus, string> = {
+  pending_stake: "Being booked",
+  staking: "Being booked",
+  scheduled: "Booked",
+  waiting: "Finding a driver",
+  accepted: "Driver on the way to collect it",
+  in_progress: "On its way to you",
+  completed: "Delivered",
+  cancelled: "Cancelled",
+};
+
+// Public page behind the recipient's tracking link; no sign-in, the token in the URL is the credential
+export default function DeliveryTracking() {
+  const { token } = useParams<{ token: string }>();
+  const [tracking, setTracking] = useState<Tracking | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isResending, setIsResending] = useState(false);
+
+  const refresh = useCallback(() => {
+    api.getDeliveryTracking(token)
+      .then((result) => {
+        setTracking(result);
+        setError(null);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "Could not load the delivery"));
+  }, [token]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const resendPin = async () => {
+    setIsResending(true);
+    try {
+      setTracking(await api.resendDeliveryPin(token));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not send a new PIN");
+    } finally {
+      setIsResending(false);
+    }
+  };
+
+  // Poll until the delivery is over; the recipient has no socket session
+  const isOver = tracking?.status === "completed" || tracking?.status === "cancelled";
+  const isUnderway = tracking?.status === "accepted" || tracking?.status === "in_progress";
+  useEffect(() => {
+    if (isOver) return;
+    const interval = setInterval(refresh, 5000);
+    return () => clearInterval(interval);
+  }, [refresh, isOver]);
+
+  if (!tracking) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        {error ? (
+          <p className="text-muted-foreground" data-testid="text-delivery-error">{error}</p>
+        ) : (
+          <Spinner size="lg" />
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <Card className="w-full max-w-lg">
+        <CardContent className="p-6 space-y-4">
+          <div className="flex items-center justify-between gap-2">
+            <div className="flex items-center gap-2">
+              <Package className="h-5 w-5 text-amber-600" />
+              <h1 className="text-lg font-semibold">Parcel for {tracking.recipientName}</h1>
+            </div>
+            <Badge variant="outline" data-testid="badge-delivery-status">{statusLabels[tracking.status]}</Badge>
+          </div>
+
+          <p className="text-sm text-muted-foreground">
+            {packageSizeLabels[tracking.size]} parcel from {tracking.senderName}
+            {tracking.driverName && `, carried by ${tracking.driverName}`}
+          </p>
+
+          <div className="h-56 rounded-xl border border-border overflow-hidden">
+            <LiveMap
+              driverLocation={tracking.driverLocation}
+              pickupLocation={tracking.pickup}
+              dropoffLocation={tracking.dropoff}
+              className="h-full w-full"
+            />
+          </div>
+
+          <div className="space-y-2 text-sm">
+            <div className="flex items-start gap-2">
+              <MapPin className="h-4 w-4 text-emerald-500 mt-0.5 flex-shrink-0" />
+              <span className="break-words">{tracking.pickup.address}</span>
+            </div>
+            <div className="flex items-start gap-2">
+              <Navigation className="h-4 w-4 text-blue-500 mt-0.5 flex-shrink-0" />
+              <span className="break-words">{tracking.dropoff.address}</span>
+            </div>
+          </div>
+
+          {tracking.handlingNotes && (
+            <p className="text-sm text-muted-foreground break-words">{tracking.handlingNotes}</p>
+          )}
+
+          {tracking.status === "completed" ? (
+            <div className="flex items-center gap-2 p-4 rounded-xl bg-emerald-500/10 text-emerald-600" data-testid="text-delivered">
+              <CheckCircle className="h-5 w-5 flex-shrink-0" />
+              <span>
+                Delivered{tracking.completedAt && ` at ${new Date(tracking.completedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}`}
+              </span>
+            </div>
+          ) : isUnderway && (
+            <div className="p-4 rounded-xl border border-border bg-muted/30 text-center space-y-3">
+              <p className="text-sm text-muted-foreground flex items-center justify-center gap-2" data-testid="text-delivery-pin-sent">
+                <KeyRound className="h-4 w-4 flex-shrink-0" />
+                {tracking.pinSentTo
+                  ? `Your PIN was texted to the number ending in ${tracking.pinSentTo}. Give it to your driver when the parcel arrives`
+                  : "You'll need a PIN by text to give your driver when the parcel arrives"}
+              </p>
+              <Button variant="outline" size="sm" onClick={resendPin} disabled={isResending} data-testid="button-resend-delivery-pin">
+                Text me a new PIN
+              </Button>
+            </div>
+          )}
+
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-destructive/10 rounded-lg border border-destructive/20 text-destructive text-sm">
+              <Info className="h-4 w-4 flex-shrink-0" />
+              <p>{error}</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,23 +1,31 @@
 import { useState, useEffect, useCallback } from "react";
-import { MapPin, Navigation, Clock, DollarSign, Play, CheckCircle, RefreshCw, Shield } from "lucide-react";
+import { MapPin, Navigation, Clock, DollarSign, Play, CheckCircle, RefreshCw, Shield, CalendarClock, X } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Header } from "@/components/Header";
 import { LiveMap } from "@/components/LiveMap";
-import { AvailableRideCard, RideHistoryCard } from "@/components/RideCard";
+import { AvailableRideCard, UpcomingRideCard, RideOfferCard, RideHistoryCard } from "@/components/RideCard";
 import { LoadingState, Spinner } from "@/components/Spinner";
 import { StarRating } from "@/components/StarRating";
+import { StopProgress } from "@/components/StopProgress";
+import { PoolRiders } from "@/components/PoolRiders";
+import { ParcelDetails } from "@/components/ParcelDetails";
 import { RatingPopup } from "@/components/RatingPopup";
+import { CancelRideDialog } from "@/components/CancelRideDialog";
 import { useAuth } from "@/context/AuthContext";
 import { useRide } from "@/context/RideContext";
-import { useAutoLocation, calculateETA } from "@/hooks/useAutoLocation";
+import { useAutoLocation } from "@/hooks/useAutoLocation";
+import { useRoute } from "@/hooks/useRoute";
 import { api } from "@/lib/api";
 import { cn } from "@/lib/utils";
 import type { RideStatus, Location } from "@shared/schema";
 import { useLocation } from "wouter";
 
 const statusLabels: Record<RideStatus, string> = {
+  pending_stake: "Staking",
+  staking: "Staking",
+  scheduled: "Scheduled",
   waiting: "Waiting",
   accepted: "Navigate to Pickup",
   in_progress: "In Progress",
@@ -27,11 +35,14 @@ const statusLabels: Record<RideStatus, string> = {
 
 export default function DriverDashboard() {
   const { user } = useAuth();
-  const { activeRide, availableRides, rideHistory, isLoading, currentLocation, refreshAvailableRides, refreshActiveRide, refreshHistory, setActiveRide, subscribeToRide, sendLocationUpdate } = useRide();
+  const { activeRide, availableRides, upcomingRides, rideOffer, surgeCells, driverLocation, rideHistory, isLoading, currentLocation, refreshAvailableRides, refreshUpcomingRides, declineRideOffer, refreshActiveRide, refreshHistory, setActiveRide, subscribeToRide, sendLocationUpdate } = useRide();
   const [, setLocation] = useLocation();
-  const [activeTab, setActiveTab] = useState<"available" | "active">("available");
+  const [activeTab, setActiveTab] = useState<"available" | "upcoming" | "active">("available");
   const [isAccepting, setIsAccepting] = useState<string | null>(null);
+  const [isReserving, setIsReserving] = useState<string | null>(null);
+  const [reserveError, setReserveError] = useState<string | null>(null);
   const [isStarting, setIsStarting] = useState(false);
+  const [cancellingRideId, setCancellingRideId] = useState<string | null>(null);
   const [showRatingPopup, setShowRatingPopup] = useState(false);
   const [completedRide, setCompletedRide] = useState<typeof activeRide>(null);
   const [driverPosition, setDriverPosition] = useState<Location | null>(null);
@@ -40,15 +51,15 @@ export default function DriverDashboard() {
   // Initialize driver position when ride is accepted
   useEffect(() => {
     if (activeRide && activeRide.status === "accepted" && !driverPosition) {
-      // Start driver slightly away from pickup
+      // A driver picking up another pool rider is already on the road; otherwise start slightly away from pickup
       const offset = 0.008; // About 0.8 km away
-      setDriverPosition({
+      setDriverPosition(activeRide.currentLocation ?? {
         lat: activeRide.pickup.lat + (Math.random() - 0.5) * offset,
         lng: activeRide.pickup.lng + (Math.random() - 0.5) * offset,
       });
       setHasArrivedAtPickup(false);
     }
-  }, [activeRide?.status, activeRide?.pickup, driverPosition]);
+  }, [activeRide?.status, activeRide?.pickup, activeRide?.currentLocation, driverPosition]);
 
   // Handle location updates from auto-mover
   const handleLocationUpdate = useCallback((location: { lat: number; lng: number; timestamp: number; speed?: number }) => {
@@ -62,12 +73,18 @@ export default function DriverDashboard() {
     console.log("[Auto Location] Arrived at pickup location");
   }, []);
 
+  // Road route to the pickup and on to the dropoff; the first leg gives the ETA to pickup
+  const route = useRoute(activeRide ? [driverPosition, activeRide.pickup, ...activeRide.stops, activeRide.dropoff] : []);
+  const pickupLeg = route?.legs[0];
+  const distanceToPickup = pickupLeg ? Math.round(pickupLeg.distanceKm * 10) / 10 : 0;
+  const etaToPickup = pickupLeg ? Math.max(1, Math.round(pickupLeg.durationMinutes)) : 0;
+
   // Auto-move driver towards pickup when ride is accepted
   useAutoLocation({
-    enabled: !!activeRide && activeRide.status === "accepted" && !hasArrivedAtPickup,
+    enabled: !!activeRide && activeRide.status === "accepted" && !hasArrivedAtPickup && !!pickupLeg,
     currentLocation: driverPosition,
     targetLocation: activeRide?.pickup || null,
-    speed: 0.4, // 0.4 km per update cycle
+    route: pickupLeg,
     intervalMs: 1500,
     onLocationUpdate: handleLocationUpdate,
     onArrival: handleArrivalAtPickup,
@@ -96,18 +113,11 @@ export default function DriverDashboard() {
     }
   }, [activeRide?.status, showRatingPopup]);
 
-  // Calculate ETA to pickup
-  const { distance: distanceToPickup, eta: etaToPickup } = calculateETA(
-    driverPosition,
-    activeRide?.pickup || null,
-    30
-  );
-
   const handleAcceptRide = async (rideId: string) => {
     if (!user) return;
     setIsAccepting(rideId);
     try {
-      await api.acceptRide(rideId, { driverId: user.id });
+      await api.acceptRide(rideId);
       await refreshActiveRide();
       setActiveTab("active");
       setDriverPosition(null); // Reset to trigger new position
@@ -119,11 +129,37 @@ export default function DriverDashboard() {
     }
   };
 
+  // Bookings change slowly, so the Upcoming feed is only refreshed while it is open
+  useEffect(() => {
+    if (activeTab !== "upcoming") return;
+    refreshUpcomingRides();
+    const interval = setInterval(refreshUpcomingRides, 30000);
+    return () => clearInterval(interval);
+  }, [activeTab, refreshUpcomingRides]);
+
+  const handleReservation = async (rideId: string, reserve: boolean) => {
+    setIsReserving(rideId);
+    setReserveError(null);
+    try {
+      if (reserve) {
+        await api.reserveRide(rideId);
+      } else {
+        await api.unreserveRide(rideId);
+      }
+    } catch (error) {
+      setReserveError(error instanceof Error ? error.message : "Could not update the reservation");
+      console.error("Failed to update reservation:", error);
+    } finally {
+      setIsReserving(null);
+      refreshUpcomingRides();
+    }
+  };
+
   const handleStartRide = async () => {
     if (!activeRide || !user) return;
     setIsStarting(true);
     try {
-      await api.startRide(activeRide.id, user.id);
+      await api.startRide(activeRide.id);
       await refreshActiveRide();
     } catch (error) {
       console.error("Failed to start ride:", error);
@@ -132,11 +168,21 @@ export default function DriverDashboard() {
     }
   };
 
+  const handleRideCancelled = () => {
+    setCancellingRideId(null);
+    // A pool driver still has the other riders; anyone else is free again
+    if (!activeRide?.poolId) {
+      setDriverPosition(null);
+    }
+    refreshActiveRide();
+    refreshHistory();
+    refreshAvailableRides();
+  };
+
   const handleRatingSubmit = async (rating: number, feedback: string) => {
     if (!completedRide || !user) return;
     try {
       await api.completeRide(completedRide.id, {
-        completedBy: "driver",
         rating,
         feedback,
       });
@@ -179,6 +225,19 @@ export default function DriverDashboard() {
               </Badge>
             )}
           </Button>
+          <Button
+            variant={activeTab === "upcoming" ? "default" : "outline"}
+            onClick={() => setActiveTab("upcoming")}
+            className="flex-1"
+            data-testid="tab-upcoming-rides"
+          >
+            Upcoming
+            {upcomingRides.some((ride) => ride.reserved) && (
+              <Badge variant="secondary" className="ml-2">
+                {upcomingRides.filter((ride) => ride.reserved).length}
+              </Badge>
+            )}
+          </Button>
           <Button
             variant={activeTab === "active" ? "default" : "outline"}
             onClick={() => setActiveTab("active")}
@@ -210,6 +269,23 @@ export default function DriverDashboard() {
               </Button>
             </div>
 
+            <div className="h-48 rounded-xl border border-border overflow-hidden">
+              <LiveMap
+                driverLocation={driverLocation}
+                surgeCells={surgeCells}
+                className="h-full"
+              />
+            </div>
+
+            {rideOffer && (
+              <RideOfferCard
+                offer={rideOffer}
+                onAccept={() => handleAcceptRide(rideOffer.rideId)}
+                onDecline={declineRideOffer}
+                isAccepting={isAccepting === rideOffer.rideId}
+              />
+            )}
+
             {isLoading && availableRides.length === 0 ? (
               <LoadingState message="Finding available rides..." />
             ) : availableRides.length > 0 ? (
@@ -237,7 +313,66 @@ export default function DriverDashboard() {
           </div>
         )}
 
+        {/* Upcoming Rides Tab */}
+        {activeTab === "upcoming" && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-xl font-semibold">Scheduled Rides</h2>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={refreshUpcomingRides}
+                data-testid="button-refresh-upcoming"
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Refresh
+              </Button>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Reserved rides are assigned to you shortly before pickup.
+            </p>
+
+            {reserveError && (
+              <p className="text-sm text-destructive" data-testid="text-reserve-error">{reserveError}</p>
+            )}
+
+            {upcomingRides.length > 0 ? (
+              <div className="space-y-3">
+                {upcomingRides.map((ride) => (
+                  <UpcomingRideCard
+                    key={ride.rideId}
+                    ride={ride}
+                    onReserve={() => handleReservation(ride.rideId, true)}
+                    onRelease={() => handleReservation(ride.rideId, false)}
+                    isPending={isReserving === ride.rideId}
+                  />
+                ))}
+              </div>
+            ) : (
+              <Card>
+                <CardContent className="py-12 text-center">
+                  <CalendarClock className="h-12 w-12 mx-auto text-muted-foreground/50 mb-4" />
+                  <p className="text-muted-foreground">No scheduled rides nearby</p>
+                  <p className="text-sm text-muted-foreground">
+                    Rides booked in advance will appear here
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+
         {/* Active Ride Tab */}
+        {/* A driver with pool seats to fill can take another rider on the way */}
+        {activeTab === "active" && activeRide?.poolId && rideOffer && (
+          <RideOfferCard
+            offer={rideOffer}
+            onAccept={() => handleAcceptRide(rideOffer.rideId)}
+            onDecline={declineRideOffer}
+            isAccepting={isAccepting === rideOffer.rideId}
+          />
+        )}
+
         {activeTab === "active" && activeRide && (
           <Card className="overflow-hidden" data-testid="active-ride-card">
             {/* Status Header */}
@@ -261,8 +396,12 @@ export default function DriverDashboard() {
               <LiveMap
                 driverLocation={driverPosition || currentLocation}
                 pickupLocation={activeRide.pickup}
+                stops={activeRide.stops}
+                stopsReached={activeRide.stopsReached}
                 dropoffLocation={activeRide.dropoff}
                 showRoute
+                routePath={route?.path}
+                surgeCells={surgeCells}
                 className="h-full"
               />
               
@@ -311,6 +450,10 @@ export default function DriverDashboard() {
                 </div>
               )}
 
+              {activeRide.pool && <PoolRiders riders={activeRide.pool} currentRideId={activeRide.id} />}
+
+              {activeRide.parcel && <ParcelDetails parcel={activeRide.parcel} />}
+
               {/* Staking Info */}
               <div className="flex items-start gap-3 p-4 bg-primary/5 rounded-xl border border-primary/20">
                 <Shield className="h-5 w-5 text-primary mt-0.5" />
@@ -331,6 +474,11 @@ export default function DriverDashboard() {
                     <p className="font-medium">{activeRide.pickup.address}</p>
                   </div>
                 </div>
+                <StopProgress
+                  stops={activeRide.stops}
+                  stopsReached={activeRide.stopsReached}
+                  showNext={activeRide.status === "in_progress"}
+                />
                 <div className="flex items-start gap-3 p-4 bg-blue-500/10 rounded-xl border border-blue-500/20">
                   <Navigation className="h-5 w-5 text-blue-500 mt-0.5" />
                   <div>
@@ -368,6 +516,17 @@ export default function DriverDashboard() {
                   )}
                 </Button>
               )}
+              {activeRide.status === "accepted" && (
+                <Button
+                  variant="outline"
+                  onClick={() => setCancellingRideId(activeRide.id)}
+                  className="w-full"
+                  data-testid="button-cancel-pickup"
+                >
+                  <X className="h-4 w-4 mr-2" />
+                  Cancel Pickup
+                </Button>
+              )}
             </CardContent>
           </Card>
         )}
@@ -391,6 +550,13 @@ export default function DriverDashboard() {
         </section>
       </main>
 
+      <CancelRideDialog
+        rideId={cancellingRideId}
+        role="driver"
+        onClose={() => setCancellingRideId(null)}
+        onCancelled={handleRideCancelled}
+      />
+
       {/* Rating Popup */}
       {completedRide?.customer && (
         <RatingPopup
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
-import { MapPin, Navigation, Clock, DollarSign, CheckCircle, AlertTriangle, Phone, MessageCircle, Wallet, Shield } from "lucide-react";
+import { MapPin, Navigation, Clock, DollarSign, CheckCircle, AlertTriangle, Phone, MessageCircle, Wallet, Shield, Users } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -8,26 +8,41 @@ import { LiveMap } from "@/components/LiveMap";
 import { Spinner } from "@/components/Spinner";
 import { StarRating } from "@/components/StarRating";
 import { RatingPopup } from "@/components/RatingPopup";
+import { FareBreakdown } from "@/components/FareBreakdown";
+import { StopProgress } from "@/components/StopProgress";
+import { PoolRiders } from "@/components/PoolRiders";
+import { RideOfferCard } from "@/components/RideCard";
+import { ParcelDetails, RecipientLinkButton } from "@/components/ParcelDetails";
+import { ProofOfDeliveryForm, ProofOfDeliveryView } from "@/components/ProofOfDelivery";
 import { useAuth } from "@/context/AuthContext";
 import { useRide } from "@/context/RideContext";
-import { useAutoLocation, calculateETA } from "@/hooks/useAutoLocation";
-import { releasePayment, type PaymentResult } from "@/lib/smartContract";
+import { useAutoLocation } from "@/hooks/useAutoLocation";
+import { useRoute } from "@/hooks/useRoute";
 import { api } from "@/lib/api";
 import { useLocation } from "wouter";
 import { cn } from "@/lib/utils";
-import type { Location } from "@shared/schema";
+import type { ChainTransaction, Location, TripFare } from "@shared/schema";
+
+// What the completed ride paid, and the escrow release behind it once the chain confirmed it
+interface PaymentResult {
+  amountPaid: number;
+  receipt: ChainTransaction | null;
+}
 
 
 export default function RideInProgress() {
-  const { user } = useAuth();
-  const { activeRide, currentLocation, refreshActiveRide, refreshHistory, setActiveRide, sendLocationUpdate } = useRide();
+  const { user, refreshUser } = useAuth();
+  const { activeRide, rideOffer, currentLocation, refreshActiveRide, refreshHistory, setActiveRide, sendLocationUpdate, declineRideOffer } = useRide();
   const [, setLocation] = useLocation();
   const [isCompleting, setIsCompleting] = useState(false);
+  const [completeError, setCompleteError] = useState<string | null>(null);
   const [showRatingPopup, setShowRatingPopup] = useState(false);
   const [showPanicConfirm, setShowPanicConfirm] = useState(false);
   const [paymentResult, setPaymentResult] = useState<PaymentResult | null>(null);
   const [driverPosition, setDriverPosition] = useState<Location | null>(null);
   const [hasArrived, setHasArrived] = useState(false);
+  const [meteredFare, setMeteredFare] = useState<TripFare | null>(null);
+  const [isAcceptingOffer, setIsAcceptingOffer] = useState(false);
 
 
   // Initialize driver position
@@ -39,9 +54,13 @@ export default function RideInProgress() {
   }, [activeRide, currentLocation, driverPosition]);
 
 
-  // Determine the current target (pickup if accepted, dropoff if in_progress)
+  // Stops still ahead of the driver, in order
+  const remainingStops = activeRide ? activeRide.stops.slice(activeRide.stopsReached) : [];
+
+
+  // Determine the current target (pickup if accepted, next stop or dropoff if in_progress)
   const currentTarget = activeRide?.status === "in_progress" 
-    ? activeRide.dropoff 
+    ? remainingStops[0] ?? activeRide.dropoff 
     : activeRide?.pickup;
 
 
@@ -52,19 +71,35 @@ export default function RideInProgress() {
   }, [sendLocationUpdate]);
 
 
-  // Handle arrival at destination
+  // Handle arrival at destination; stops are ticked off by the server, which moves the target on
   const handleArrival = useCallback(() => {
+    if (remainingStops.length > 0) {
+      console.log("[Auto Location] Arrived at stop");
+      return;
+    }
     setHasArrived(true);
     console.log("[Auto Location] Arrived at destination");
-  }, []);
+  }, [remainingStops.length]);
+
+
+  // Road route from the driver through the remaining stops; the first leg gives distance and ETA
+  const route = useRoute([
+    driverPosition || currentLocation || activeRide?.currentLocation,
+    ...(activeRide?.status === "accepted" ? [activeRide.pickup] : []),
+    ...remainingStops,
+    activeRide?.dropoff,
+  ]);
+  const nextLeg = route?.legs[0];
+  const distance = nextLeg ? Math.round(nextLeg.distanceKm * 10) / 10 : 0;
+  const eta = nextLeg ? Math.max(1, Math.round(nextLeg.durationMinutes)) : 0;
 
 
   // Auto-move driver towards target (only for driver role)
   useAutoLocation({
-    enabled: !!activeRide && user?.role === "driver" && activeRide.status === "in_progress" && !hasArrived,
+    enabled: !!activeRide && user?.role === "driver" && activeRide.status === "in_progress" && !hasArrived && !!nextLeg,
     currentLocation: driverPosition,
     targetLocation: currentTarget || null,
-    speed: 0.3, // 0.3 km per update cycle
+    route: nextLeg,
     intervalMs: 1500,
     onLocationUpdate: handleLocationUpdate,
     onArrival: handleArrival,
@@ -79,77 +114,86 @@ export default function RideInProgress() {
   }, [activeRide, user?.role, setLocation]);
 
 
-  // Reset arrival state when ride starts
+  // Reset arrival state when ride starts, or when a pool driver moves on to another rider
   useEffect(() => {
     if (activeRide?.status === "in_progress") {
       setHasArrived(false);
     }
-  }, [activeRide?.status]);
+  }, [activeRide?.id, activeRide?.status]);
 
 
-  // Calculate distance and ETA
-  const { distance, eta } = calculateETA(
-    driverPosition || currentLocation || activeRide?.currentLocation || null,
-    currentTarget || null,
-    35 // Average speed km/h
-  );
+  // A pool driver whose next stop is another rider's pickup drives there from the dashboard
+  useEffect(() => {
+    if (user?.role === "driver" && activeRide?.status === "accepted") {
+      setLocation("/driver");
+    }
+  }, [activeRide?.status, user?.role, setLocation]);
 
 
-  // Calculate current fare based on distance traveled
-  const calculateCurrentFare = () => {
-    if (!activeRide) return 0;
-    if (activeRide.status !== "in_progress") return activeRide.estimatedFare;
-    
-    // Simple fare calculation based on progress
-    const totalDistance = calculateETA(activeRide.pickup, activeRide.dropoff, 35).distance;
-    const remainingDistance = distance;
-    const traveledDistance = Math.max(0, totalDistance - remainingDistance);
-    const progress = totalDistance > 0 ? traveledDistance / totalDistance : 0;
-    
-    return Math.round(activeRide.estimatedFare * Math.min(progress + 0.3, 1) * 100) / 100;
-  };
+  // The sender learns over the socket that the driver handed the parcel over
+  useEffect(() => {
+    if (activeRide?.deliveryType === "parcel" && activeRide.status === "completed") {
+      setShowRatingPopup(true);
+    }
+  }, [activeRide?.deliveryType, activeRide?.status]);
+
+
+  // The fare is metered on the server from the recorded GPS trace
+  useEffect(() => {
+    if (!activeRide || activeRide.status !== "in_progress") return;
 
+    const rideId = activeRide.id;
+    const refreshFare = () => {
+      api.getRideFare(rideId)
+        .then(setMeteredFare)
+        .catch((error) => console.error("Failed to fetch fare:", error));
+    };
+    refreshFare();
+    const interval = setInterval(refreshFare, 5000);
+    return () => clearInterval(interval);
+  }, [activeRide?.id, activeRide?.status]);
 
-  const currentFare = calculateCurrentFare();
 
+  const tripFare = activeRide?.fareBreakdown ?? meteredFare;
+  const currentFare = tripFare?.fare ?? activeRide?.estimatedFare ?? 0;
 
-  const handleCompleteRide = async () => {
+
+  const handleCompleteRide = async (deliveryPin?: string) => {
     if (!activeRide || !user) return;
     setIsCompleting(true);
+    setCompleteError(null);
     
     try {
-      // Call smart contract to release payment
-      const payment = await releasePayment(
-        activeRide.id,
-        activeRide.driver?.address || "",
-        activeRide.estimatedFare,
-        activeRide.stakedAmount
-      );
-      setPaymentResult(payment);
-
-
-      // Complete the ride in backend
-      await api.completeRide(activeRide.id, {
-        completedBy: user.role as "driver" | "customer",
+      // The server meters the final fare and releases it from the escrow contract
+      const completedRide = await api.completeRide(activeRide.id, { deliveryPin });
+      setActiveRide({ ...activeRide, ...completedRide });
+      setPaymentResult({
+        amountPaid: completedRide.actualFare ?? activeRide.estimatedFare,
+        receipt: completedRide.escrow?.released?.stage === "finalized" ? completedRide.escrow.released : null,
       });
-      
+      refreshUser().catch((error) => console.error("Failed to refresh balance:", error));
+
       setShowRatingPopup(true);
     } catch (error) {
       console.error("Failed to complete ride:", error);
+      setCompleteError(error instanceof Error ? error.message : "Could not complete the ride");
     } finally {
       setIsCompleting(false);
     }
   };
 
 
-  const handleRatingSubmit = async (rating: number, feedback: string) => {
+  const handleRatingSubmit = async (rating: number, feedback: string, tip: number) => {
     if (!activeRide || !user) return;
     try {
       await api.completeRide(activeRide.id, {
-        completedBy: user.role as "driver" | "customer",
         rating,
         feedback,
       });
+      if (tip > 0) {
+        await api.tipRide(activeRide.id, { amount: tip });
+      }
+      refreshUser().catch((error) => console.error("Failed to refresh balance:", error));
     } catch (error) {
       console.error("Failed to submit rating:", error);
     }
@@ -159,12 +203,31 @@ export default function RideInProgress() {
   const handleRatingClose = () => {
     setShowRatingPopup(false);
     setPaymentResult(null);
-    setActiveRide(null);
     refreshHistory();
+    // The rest of the pool is still in the car
+    if (user?.role === "driver" && activeRide?.poolId) {
+      refreshActiveRide();
+      return;
+    }
+    setActiveRide(null);
     setLocation(user?.role === "driver" ? "/driver" : "/");
   };
 
 
+  const handleAcceptOffer = async () => {
+    if (!rideOffer) return;
+    setIsAcceptingOffer(true);
+    try {
+      await api.acceptRide(rideOffer.rideId);
+      await refreshActiveRide();
+    } catch (error) {
+      console.error("Failed to accept ride:", error);
+    } finally {
+      setIsAcceptingOffer(false);
+    }
+  };
+
+
   const handlePanic = () => {
     alert("Emergency services have been notified!");
     setShowPanicConfirm(false);
@@ -196,18 +259,29 @@ export default function RideInProgress() {
           <LiveMap
             driverLocation={driverPosition || currentLocation || activeRide.currentLocation}
             pickupLocation={activeRide.pickup}
+            stops={activeRide.stops}
+            stopsReached={activeRide.stopsReached}
             dropoffLocation={activeRide.dropoff}
             showRoute
+            routePath={route?.path}
             className="h-full w-full"
             interactive
           />
           
           {/* Status Badge on Map */}
-          <div className="absolute top-4 left-4 z-20 pointer-events-none">
+          <div className="absolute top-4 left-4 z-20 pointer-events-none flex gap-2">
             <Badge className="bg-primary text-primary-foreground shadow-lg px-4 py-2">
               <div className="h-2 w-2 rounded-full bg-white animate-pulse mr-2" />
-              {activeRide.status === "in_progress" ? "Ride In Progress" : "Heading to Pickup"}
+              {activeRide.status !== "in_progress"
+                ? "Heading to Pickup"
+                : activeRide.deliveryType === "parcel" ? "Parcel On The Way" : "Ride In Progress"}
             </Badge>
+            {activeRide.rideType === "pool" && (
+              <Badge className="bg-emerald-500 text-white shadow-lg px-4 py-2" data-testid="badge-shared-ride">
+                <Users className="h-3 w-3 mr-2" />
+                Shared ride
+              </Badge>
+            )}
           </div>
 
           {/* Arrival notification */}
@@ -217,7 +291,11 @@ export default function RideInProgress() {
                 <CardContent className="p-4 flex items-center justify-between">
                   <div className="flex items-center gap-3">
                     <CheckCircle className="h-6 w-6" />
-                    <span className="font-semibold">You've arrived at the destination!</span>
+                    <span className="font-semibold">
+                      {activeRide.parcel
+                        ? `You've arrived! Ask ${activeRide.parcel.recipient.name} for the delivery PIN`
+                        : "You've arrived at the destination!"}
+                    </span>
                   </div>
                 </CardContent>
               </Card>
@@ -274,6 +352,17 @@ export default function RideInProgress() {
             </div>
           </div>
 
+          {/* Fare Breakdown */}
+          {tripFare && (
+            <div className="px-6 pt-4 flex-shrink-0">
+              <FareBreakdown
+                fare={tripFare}
+                isFinal={activeRide.status === "completed"}
+                className="p-4 bg-muted/50 rounded-xl border border-border"
+              />
+            </div>
+          )}
+
           {/* Staking Info */}
           <div className="px-6 pt-4 pb-2 flex-shrink-0">
             <div className="p-4 bg-primary/5 rounded-xl border border-primary/20">
@@ -293,6 +382,26 @@ export default function RideInProgress() {
 
           {/* Route Info - Scrollable */}
           <div className="px-6 py-4 flex-1 overflow-y-auto space-y-4">
+            {isDriver && activeRide.poolId && rideOffer && (
+              <RideOfferCard
+                offer={rideOffer}
+                onAccept={handleAcceptOffer}
+                onDecline={declineRideOffer}
+                isAccepting={isAcceptingOffer}
+              />
+            )}
+
+            {activeRide.parcel && <ParcelDetails parcel={activeRide.parcel} />}
+
+            {!isDriver && activeRide.proofOfDelivery && (
+              <ProofOfDeliveryView rideId={activeRide.id} proof={activeRide.proofOfDelivery} />
+            )}
+
+            {/* Riders only ever see their own trip; the driver sees everyone in the car */}
+            {isDriver && activeRide.pool && (
+              <PoolRiders riders={activeRide.pool} currentRideId={activeRide.id} />
+            )}
+
             <div className="flex items-start gap-3 p-4 bg-emerald-500/10 rounded-xl border border-emerald-500/20">
               <MapPin className="h-5 w-5 text-emerald-500 mt-0.5 flex-shrink-0" />
               <div className="min-w-0">
@@ -304,6 +413,19 @@ export default function RideInProgress() {
             <div className="flex justify-center">
               <div className="h-8 border-l-2 border-dashed border-muted-foreground/30" />
             </div>
+
+            {activeRide.stops.length > 0 && (
+              <>
+                <StopProgress
+                  stops={activeRide.stops}
+                  stopsReached={activeRide.stopsReached}
+                  showNext={activeRide.status === "in_progress"}
+                />
+                <div className="flex justify-center">
+                  <div className="h-8 border-l-2 border-dashed border-muted-foreground/30" />
+                </div>
+              </>
+            )}
             
             <div className="flex items-start gap-3 p-4 bg-blue-500/10 rounded-xl border border-blue-500/20">
               <Navigation className="h-5 w-5 text-blue-500 mt-0.5 flex-shrink-0" />
@@ -316,9 +438,25 @@ export default function RideInProgress() {
 
           {/* Action Buttons */}
           <div className="p-6 border-t space-y-3 flex-shrink-0 bg-background">
-            {isDriver ? (
+            {isDriver && activeRide.deliveryType === "parcel" ? (
+              hasArrived ? (
+                <ProofOfDeliveryForm
+                  ride={activeRide}
+                  onComplete={handleCompleteRide}
+                  isCompleting={isCompleting}
+                  error={completeError}
+                />
+              ) : (
+                <Button disabled className="w-full h-14 text-lg font-semibold bg-muted text-muted-foreground" data-testid="button-driving-to-recipient">
+                  <Clock className="h-5 w-5 mr-2" />
+                  Driving to Recipient...
+                </Button>
+              )
+            ) : activeRide.deliveryType === "parcel" ? (
+              <RecipientLinkButton rideId={activeRide.id} />
+            ) : isDriver ? (
               <Button
-                onClick={handleCompleteRide}
+                onClick={() => handleCompleteRide()}
                 disabled={isCompleting || !hasArrived}
                 className={cn(
                   "w-full h-14 text-lg font-semibold",
@@ -367,19 +505,26 @@ export default function RideInProgress() {
               </div>
               <h3 className="text-xl font-semibold">Payment Released!</h3>
               <div className="space-y-2 text-left bg-muted/50 rounded-lg p-4">
+                {activeRide.fareBreakdown && (
+                  <FareBreakdown fare={activeRide.fareBreakdown} isFinal className="pb-2 border-b" />
+                )}
                 <div className="flex justify-between text-sm">
                   <span className="text-muted-foreground">Amount Paid:</span>
                   <span className="font-mono font-semibold">${paymentResult.amountPaid.toFixed(2)}</span>
                 </div>
-                <div className="flex justify-between text-sm">
-                  <span className="text-muted-foreground">Transaction:</span>
-                  <span className="font-mono text-xs truncate max-w-[180px]">
-                    {paymentResult.transactionHash.slice(0, 20)}...
-                  </span>
-                </div>
+                {paymentResult.receipt && (
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Transaction:</span>
+                    <span className="font-mono text-xs truncate max-w-[180px]">
+                      {paymentResult.receipt.txHash?.slice(0, 20)}...
+                    </span>
+                  </div>
+                )}
               </div>
               <p className="text-sm text-muted-foreground">
-                Funds transferred from escrow to driver via smart contract
+                {paymentResult.receipt
+                  ? "Funds transferred from escrow to driver via smart contract"
+                  : "The escrow release hasn't been confirmed on chain yet"}
               </p>
               <Button 
                 onClick={() => setShowRatingPopup(true)} 
@@ -401,6 +546,7 @@ export default function RideInProgress() {
           onSubmit={handleRatingSubmit}
           targetName={otherParty.name}
           targetRole={isDriver ? "customer" : "driver"}
+          allowTip={!isDriver}
         />
       )}
 
@@ -1,5 +1,5 @@
-import { useState, useEffect } from "react";
-import { DollarSign, Shield, Info, Wallet, CheckCircle } from "lucide-react";
+import { useState, useEffect, useRef } from "react";
+import { DollarSign, Shield, Info, Wallet, CheckCircle, TrendingUp, CalendarClock, Plus, ArrowUp, ArrowDown, X, Car, Users, Package } from "lucide-react";
 import {
   Dialog,
   DialogContent,
@@ -9,13 +9,17 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { LocationInput } from "@/components/LocationInput";
 import { LiveMap } from "@/components/LiveMap";
-import { Spinner } from "@/components/Spinner";
+import { ParcelForm, emptyParcelDraft, parseParcelDraft, type ParcelDraft } from "@/components/ParcelForm";
+import { TransactionStages } from "@/components/TransactionStages";
 import { useAuth } from "@/context/AuthContext";
-import { stakeForRide, type StakeResult } from "@/lib/smartContract";
+import { useRide } from "@/context/RideContext";
+import { usePolkadot } from "@/context/PolkadotContext";
 import { api } from "@/lib/api";
-import type { Location } from "@shared/schema";
+import { MAX_RIDE_STOPS, MAX_POOL_SEATS, type Location, type FareQuote, type RideType, type DeliveryType, type ChainTransaction, type FailedStake } from "@shared/schema";
+import type { TxProgress } from "@shared/transactionTracker";
 
 
 interface RideRequestModalProps {
@@ -25,67 +29,181 @@ interface RideRequestModalProps {
 }
 
 
-type RequestStep = "input" | "staking" | "confirming" | "success";
+type RequestStep = "input" | "staking" | "success";
+
+
+// Stops keep a stable ID so their inputs survive reordering
+interface StopEntry {
+  id: number;
+  location: Location | null;
+}
+
+
+// Value for a datetime-local input, which works in the browser's local time
+function toDateTimeLocal(date: Date): string {
+  const offsetMs = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+}
+
+
+function toChainTransaction({ stage, txHash, blockNumber, error }: TxProgress): ChainTransaction {
+  return { stage, txHash, blockNumber, error, updatedAt: new Date().toISOString() };
+}
 
 
 export function RideRequestModal({ open, onClose, onSuccess }: RideRequestModalProps) {
-  const { user } = useAuth();
+  const { user, refreshUser } = useAuth();
+  const { escrowTransaction } = useRide();
+  // With the escrow contract configured, customers stake from their own wallet
+  const { isInitialized: stakesFromWallet, createOrderOnChain } = usePolkadot();
   const [pickup, setPickup] = useState<Location | null>(null);
   const [dropoff, setDropoff] = useState<Location | null>(null);
+  const [stops, setStops] = useState<StopEntry[]>([]);
+  const nextStopIdRef = useRef(0);
+  const [rideType, setRideType] = useState<RideType>("standard");
+  const [seats, setSeats] = useState(1);
+  const [deliveryType, setDeliveryType] = useState<DeliveryType>("ride");
+  const [parcelDraft, setParcelDraft] = useState<ParcelDraft>(() => emptyParcelDraft(user?.name));
   const [step, setStep] = useState<RequestStep>("input");
   const [error, setError] = useState<string | null>(null);
-  const [stakeResult, setStakeResult] = useState<StakeResult | null>(null);
+  // The server's call opening the requested ride's escrow order, as it makes its way on chain
+  const [stakeTransaction, setStakeTransaction] = useState<ChainTransaction | null>(null);
+  // The draft the stake is being locked for
+  const draftIdRef = useRef<string | null>(null);
+  // Why the wallet couldn't lock the stake, reported with the draft's cancellation
+  const failedStakeRef = useRef<FailedStake | null>(null);
+  const [quote, setQuote] = useState<FareQuote | null>(null);
+  const [isScheduled, setIsScheduled] = useState(false);
+  const [scheduledTime, setScheduledTime] = useState("");
+
+
+  const stopLocations = stops
+    .map((stop) => stop.location)
+    .filter((location): location is Location => location !== null);
+  const stopsComplete = stopLocations.length === stops.length;
+
+  const parcel = deliveryType === "parcel" ? parseParcelDraft(parcelDraft) : null;
+  const parcelComplete = deliveryType === "ride" || parcel !== null;
+  // The quote carries the parcel, so any change to it needs a new one
+  const parcelKey = JSON.stringify(parcel);
+
+
+  // Fares are priced by the server; re-quote whenever the route or the booking changes
+  useEffect(() => {
+    setQuote(null);
+    if (!pickup || !dropoff || !stopsComplete || !parcelComplete) return;
+
+    let cancelled = false;
+    api.getFareQuote({ pickup, stops: stopLocations, dropoff, rideType, seats, deliveryType, parcel })
+      .then((result) => {
+        if (!cancelled) setQuote(result);
+      })
+      .catch((err) => {
+        if (!cancelled) setError("Could not get a fare estimate. Please try again.");
+        console.error("Fare quote failed:", err);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pickup, dropoff, stops, rideType, seats, deliveryType, parcelKey]);
 
 
-  // Calculate fare based on locations
-  const calculateFare = (): number => {
-    if (!pickup || !dropoff) return 0;
-    
-    // Simple distance-based calculation
-    const distance = Math.sqrt(
-      Math.pow(pickup.lat - dropoff.lat, 2) +
-      Math.pow(pickup.lng - dropoff.lng, 2)
-    ) * 111; // Convert to approximate km
-    
-    // Base fare + per km rate
-    const baseFare = 2.5;
-    const perKmRate = 1.5;
-    return Math.round((baseFare + distance * perKmRate) * 100) / 100;
+  // Stakes locked from the balance are made by the server, which pushes their stages
+  useEffect(() => {
+    if (escrowTransaction?.rideId === draftIdRef.current && escrowTransaction?.action === "created") {
+      setStakeTransaction(escrowTransaction.transaction);
+    }
+  }, [escrowTransaction]);
+
+
+  // Pool riders go straight from pickup to dropoff, so stops are dropped when switching to pool
+  const selectRideType = (type: RideType) => {
+    setRideType(type);
+    setSeats(1);
+    if (type === "pool") setStops([]);
+  };
+
+
+  // Parcels travel on their own, never pooled
+  const selectDeliveryType = (type: DeliveryType) => {
+    setDeliveryType(type);
+    if (type === "parcel") selectRideType("standard");
+  };
+
+
+  const addStop = () => {
+    setStops((current) => [...current, { id: nextStopIdRef.current++, location: null }]);
+  };
+
+  const updateStop = (id: number, location: Location | null) => {
+    setStops((current) => current.map((stop) => (stop.id === id ? { ...stop, location } : stop)));
+  };
+
+  const removeStop = (id: number) => {
+    setStops((current) => current.filter((stop) => stop.id !== id));
+  };
+
+  const moveStop = (index: number, offset: -1 | 1) => {
+    setStops((current) => {
+      const target = index + offset;
+      if (target < 0 || target >= current.length) return current;
+      const reordered = [...current];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
   };
 
 
-  const estimatedFare = calculateFare();
-  const stakedAmount = Math.round(estimatedFare * 1.15 * 100) / 100; // 15% buffer
+  const estimatedFare = quote?.fare ?? 0;
+  const stakedAmount = quote?.stakeRequired ?? 0;
+  const canAffordStake = !user || stakesFromWallet || user.balance >= stakedAmount;
 
 
   const handleSubmit = async () => {
-    if (!pickup || !dropoff || !user) return;
+    if (!pickup || !dropoff || !user || !quote) return;
     
     setError(null);
+
+    // datetime-local values are local time; the server gets an absolute instant plus the zone for display
+    const scheduledFor = isScheduled ? new Date(scheduledTime) : null;
+    if (scheduledFor && !(scheduledFor.getTime() > Date.now())) {
+      setError("Pick a pickup time in the future.");
+      return;
+    }
     
     try {
-      // Step 1: Stake tokens via smart contract
+      // Quotes are short-lived; get a fresh one if this one ran out while the modal was open
+      const activeQuote = new Date(quote.expiresAt).getTime() > Date.now()
+        ? quote
+        : await api.getFareQuote({ pickup, stops: stopLocations, dropoff, rideType, seats, deliveryType, parcel });
+      setQuote(activeQuote);
+
+      // The ride starts as a draft, so the stake's escrow order carries the ride's own ID
+      setStakeTransaction(null);
+      failedStakeRef.current = null;
       setStep("staking");
-      const stake = await stakeForRide(
-        `ride_${Date.now()}`,
-        stakedAmount,
-        user.walletAddress || ""
-      );
-      setStakeResult(stake);
-
-
-      // Step 2: Create ride request on backend
-      setStep("confirming");
-      await api.requestRide({
-        pickup,
-        dropoff,
-        estimatedFare,
-        stakedAmount,
-        customerId: user.id,
+      const draft = await api.requestRide({
+        quoteId: activeQuote.quoteId,
+        ...(scheduledFor && {
+          scheduledFor: scheduledFor.toISOString(),
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        }),
       });
+      draftIdRef.current = draft.id;
+
+      try {
+        const ride = stakesFromWallet
+          ? await stakeFromWallet(draft.id, draft.stakedAmount)
+          : await api.stakeRide(draft.id);
+        setStakeTransaction(ride.escrow?.created ?? null);
+      } catch (err) {
+        // A draft left behind would only expire; an order already opened for it is refunded by reconciliation
+        api.cancelRide(draft.id, { reason: "other", failedStake: failedStakeRef.current ?? undefined }).catch(() => {});
+        throw err;
+      }
+      // The stake has left the balance or the wallet for the ride's escrow
+      refreshUser().catch((err) => console.error("Failed to refresh balance:", err));
 
-
-      // Step 3: Success
       setStep("success");
       
       // Auto-close after showing success
@@ -93,26 +211,58 @@ export function RideRequestModal({ open, onClose, onSuccess }: RideRequestModalP
         onSuccess();
       }, 2000);
     } catch (err) {
-      setError("Failed to request ride. Please try again.");
+      setError(err instanceof Error ? err.message : "Failed to request ride. Please try again.");
       setStep("input");
       console.error("Ride request failed:", err);
     }
   };
 
 
+  // Sign the escrow order in the wallet, then have the server check it on chain
+  const stakeFromWallet = async (rideId: string, amount: number) => {
+    let last: TxProgress | null = null;
+    let stake;
+    try {
+      stake = await createOrderOnChain(rideId, amount, user!.walletAddress, (progress) => {
+        last = progress;
+        setStakeTransaction(toChainTransaction(progress));
+      });
+    } catch (err) {
+      // The tracker's error is the decoded module error when the chain turned the order down
+      const progress = last as TxProgress | null;
+      failedStakeRef.current = {
+        txHash: progress?.txHash ?? null,
+        blockNumber: progress?.blockNumber ?? null,
+        error: (progress?.error ?? (err instanceof Error ? err.message : String(err))).slice(0, 500),
+      };
+      throw err;
+    }
+    return api.stakeRide(rideId, { txHash: stake.transactionHash, blockHash: stake.blockHash });
+  };
+
+
   const handleClose = () => {
-    if (step === "staking" || step === "confirming") return; // Don't allow closing during transaction
+    if (step === "staking") return; // Don't allow closing during transaction
     
     setPickup(null);
     setDropoff(null);
+    setStops([]);
+    setRideType("standard");
+    setSeats(1);
+    setDeliveryType("ride");
+    setParcelDraft(emptyParcelDraft(user?.name));
     setError(null);
     setStep("input");
-    setStakeResult(null);
+    setStakeTransaction(null);
+    draftIdRef.current = null;
+    setQuote(null);
+    setIsScheduled(false);
+    setScheduledTime("");
     onClose();
   };
 
 
-  const isValid = pickup && dropoff && estimatedFare > 0;
+  const isValid = pickup && dropoff && stopsComplete && parcelComplete && quote !== null && canAffordStake && (!isScheduled || scheduledTime !== "");
 
 
   return (
@@ -121,14 +271,39 @@ export function RideRequestModal({ open, onClose, onSuccess }: RideRequestModalP
         {step === "input" && (
           <>
             <DialogHeader>
-              <DialogTitle>Request a Ride</DialogTitle>
+              <DialogTitle>{deliveryType === "parcel" ? "Send a Parcel" : "Request a Ride"}</DialogTitle>
               <DialogDescription>
-                Enter your pickup and dropoff locations
+                Enter your pickup, any stops along the way, and your dropoff
               </DialogDescription>
             </DialogHeader>
 
 
             <div className="space-y-6 py-4">
+              {/* Ride or Parcel */}
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant={deliveryType === "ride" ? "default" : "outline"}
+                  onClick={() => selectDeliveryType("ride")}
+                  className="flex-1"
+                  data-testid="button-delivery-ride"
+                >
+                  <Car className="h-4 w-4 mr-2" />
+                  Ride
+                </Button>
+                <Button
+                  type="button"
+                  variant={deliveryType === "parcel" ? "default" : "outline"}
+                  onClick={() => selectDeliveryType("parcel")}
+                  className="flex-1"
+                  data-testid="button-delivery-parcel"
+                >
+                  <Package className="h-4 w-4 mr-2" />
+                  Parcel
+                </Button>
+              </div>
+
+
               {/* Location Inputs */}
               <LocationInput
                 label="Pickup Location"
@@ -139,6 +314,68 @@ export function RideRequestModal({ open, onClose, onSuccess }: RideRequestModalP
               />
 
 
+              {/* Stops, visited in order between pickup and dropoff */}
+              {stops.map((stop, index) => (
+                <div key={stop.id} className="flex items-end gap-1" data-testid={`stop-${index}`}>
+                  <div className="flex-1 min-w-0">
+                    <LocationInput
+                      label={`Stop ${index + 1}`}
+                      value={stop.location}
+                      onChange={(location) => updateStop(stop.id, location)}
+                      placeholder="Where should the driver stop?"
+                      type="stop"
+                    />
+                  </div>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => moveStop(index, -1)}
+                    disabled={index === 0}
+                    aria-label="Move stop up"
+                    data-testid={`button-stop-up-${index}`}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => moveStop(index, 1)}
+                    disabled={index === stops.length - 1}
+                    aria-label="Move stop down"
+                    data-testid={`button-stop-down-${index}`}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeStop(stop.id)}
+                    aria-label="Remove stop"
+                    data-testid={`button-stop-remove-${index}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+
+
+              {rideType === "standard" && stops.length < MAX_RIDE_STOPS && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={addStop}
+                  data-testid="button-add-stop"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add stop
+                </Button>
+              )}
+
+
               <LocationInput
                 label="Dropoff Location"
                 value={dropoff}
@@ -148,13 +385,105 @@ export function RideRequestModal({ open, onClose, onSuccess }: RideRequestModalP
               />
 
 
+              {deliveryType === "parcel" && <ParcelForm value={parcelDraft} onChange={setParcelDraft} />}
+
+
+              {/* Ride Type */}
+              {deliveryType === "ride" && (
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Ride Type</label>
+                  <div className="flex gap-2">
+                    <Button
+                      type="button"
+                      variant={rideType === "standard" ? "default" : "outline"}
+                      onClick={() => selectRideType("standard")}
+                      className="flex-1"
+                      data-testid="button-ride-standard"
+                    >
+                      <Car className="h-4 w-4 mr-2" />
+                      Standard
+                    </Button>
+                    <Button
+                      type="button"
+                      variant={rideType === "pool" ? "default" : "outline"}
+                      onClick={() => selectRideType("pool")}
+                      className="flex-1"
+                      data-testid="button-ride-pool"
+                    >
+                      <Users className="h-4 w-4 mr-2" />
+                      Pool
+                    </Button>
+                  </div>
+                  {rideType === "pool" && (
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="text-sm text-muted-foreground">
+                        Share the car with riders going your way for a lower fare
+                      </p>
+                      <div className="flex gap-1 flex-shrink-0">
+                        {Array.from({ length: MAX_POOL_SEATS }, (_, i) => i + 1).map((count) => (
+                          <Button
+                            key={count}
+                            type="button"
+                            size="sm"
+                            variant={seats === count ? "default" : "outline"}
+                            onClick={() => setSeats(count)}
+                            data-testid={`button-seats-${count}`}
+                          >
+                            {count} seat{count === 1 ? "" : "s"}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+
+              {/* Pickup Time */}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Pickup Time</label>
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    variant={isScheduled ? "outline" : "default"}
+                    onClick={() => setIsScheduled(false)}
+                    className="flex-1"
+                    data-testid="button-pickup-now"
+                  >
+                    Now
+                  </Button>
+                  <Button
+                    type="button"
+                    variant={isScheduled ? "default" : "outline"}
+                    onClick={() => setIsScheduled(true)}
+                    className="flex-1"
+                    data-testid="button-pickup-later"
+                  >
+                    <CalendarClock className="h-4 w-4 mr-2" />
+                    Schedule
+                  </Button>
+                </div>
+                {isScheduled && (
+                  <Input
+                    type="datetime-local"
+                    value={scheduledTime}
+                    min={toDateTimeLocal(new Date())}
+                    onChange={(e) => setScheduledTime(e.target.value)}
+                    data-testid="input-scheduled-time"
+                  />
+                )}
+              </div>
+
+
               {/* Map Preview - Responsive Height */}
               {(pickup || dropoff) && (
               <div className="h-40 sm:h-48 rounded-xl border border-border overflow-hidden">
                 <LiveMap
                   pickupLocation={pickup}
+                  stops={stopLocations}
                   dropoffLocation={dropoff}
                   showRoute={!!(pickup && dropoff)}
+                  routePath={quote?.path}
                   className="h-full w-full"
                 />
               </div>
@@ -174,6 +503,33 @@ export function RideRequestModal({ open, onClose, onSuccess }: RideRequestModalP
                         ${estimatedFare.toFixed(2)}
                       </span>
                     </div>
+                    {quote && (
+                      <p className="text-sm text-muted-foreground mt-2">
+                        {quote.distanceKm.toFixed(1)} km · about {quote.durationMinutes} min
+                        {quote.stops.length > 0 && ` · ${quote.stops.length} stop${quote.stops.length === 1 ? "" : "s"}`}
+                      </p>
+                    )}
+                    {quote && quote.parcelFee > 0 && (
+                      <div className="flex items-center gap-2 mt-2 text-sm text-muted-foreground" data-testid="text-parcel-fee">
+                        <Package className="h-4 w-4 flex-shrink-0" />
+                        <span>Includes a ${quote.parcelFee.toFixed(2)} {quote.parcel?.size} package fee</span>
+                      </div>
+                    )}
+                    {quote && quote.poolDiscount > 0 && (
+                      <div className="flex items-center gap-2 mt-2 text-sm text-emerald-600" data-testid="text-pool-discount">
+                        <Users className="h-4 w-4 flex-shrink-0" />
+                        <span>You save ${quote.poolDiscount.toFixed(2)} by sharing the ride</span>
+                      </div>
+                    )}
+                    {quote && quote.surgeMultiplier > 1 && (
+                      <div className="flex items-center gap-2 mt-2 text-sm text-orange-600" data-testid="text-surge">
+                        <TrendingUp className="h-4 w-4 flex-shrink-0" />
+                        <span>
+                          {quote.surgeMultiplier.toFixed(1)}× surge pricing in this area until{" "}
+                          {new Date(quote.surgeExpiresAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}
+                        </span>
+                      </div>
+                    )}
                   </div>
 
 
@@ -185,6 +541,11 @@ export function RideRequestModal({ open, onClose, onSuccess }: RideRequestModalP
                         This amount will be held in a smart contract escrow. 
                         The fare is deducted upon ride completion, and any excess is refunded.
                       </p>
+                      {!canAffordStake && (
+                        <p className="text-sm text-destructive mt-1" data-testid="text-insufficient-balance">
+                          Your balance of ${user!.balance.toFixed(2)} doesn't cover this stake.
+                        </p>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -198,6 +559,7 @@ export function RideRequestModal({ open, onClose, onSuccess }: RideRequestModalP
                   <p>{error}</p>
                 </div>
               )}
+              {stakeTransaction?.stage === "failed" && <TransactionStages transaction={stakeTransaction} />}
             </div>
 
 
@@ -216,7 +578,7 @@ export function RideRequestModal({ open, onClose, onSuccess }: RideRequestModalP
                 data-testid="button-confirm-request"
               >
                 <Wallet className="h-4 w-4 mr-2" />
-                Stake & Request
+                {isScheduled ? "Stake & Schedule" : "Stake & Request"}
               </Button>
             </DialogFooter>
           </>
@@ -237,59 +599,51 @@ export function RideRequestModal({ open, onClose, onSuccess }: RideRequestModalP
                 Locking ${stakedAmount.toFixed(2)} in smart contract escrow
               </p>
             </div>
-            <Spinner size="md" className="mx-auto" />
-            <p className="text-xs text-muted-foreground">
-              Please wait while the transaction is being processed
-            </p>
+            <TransactionStages transaction={stakeTransaction} className="max-w-xs mx-auto" />
           </div>
         )}
 
 
-        {step === "confirming" && (
+        {step === "success" && (
           <div className="py-12 text-center space-y-6">
-            <div className="w-20 h-20 rounded-full bg-emerald-500/20 flex items-center justify-center mx-auto flex-shrink-0">
-              <CheckCircle className="h-10 w-10 text-emerald-500" />
+            <div className="w-20 h-20 rounded-full bg-primary/20 flex items-center justify-center mx-auto flex-shrink-0">
+              <CheckCircle className="h-10 w-10 text-primary" />
             </div>
             <div>
-              <h3 className="text-lg font-semibold">Stake Confirmed!</h3>
+              <h3 className="text-lg font-semibold">
+                {deliveryType === "parcel"
+                  ? isScheduled ? "Delivery Scheduled!" : "Delivery Requested!"
+                  : isScheduled ? "Ride Scheduled!" : "Ride Requested!"}
+              </h3>
               <p className="text-muted-foreground mt-2">
-                Finding a driver for your ride...
+                {isScheduled
+                  ? "We'll remind you before pickup and find your driver ahead of time"
+                  : "Looking for nearby drivers..."}
               </p>
+              {deliveryType === "parcel" && (
+                <p className="text-sm text-muted-foreground mt-2">
+                  Share the tracking link from your ride with the recipient; they're texted a PIN to give the driver at the handover
+                </p>
+              )}
             </div>
-            {stakeResult && (
-              <div className="text-left bg-muted/50 rounded-lg p-4 space-y-2 text-sm border border-border">
+            {stakeTransaction?.stage === "finalized" && (
+              <div className="text-left bg-muted/50 rounded-lg p-4 space-y-2 text-sm border border-border" data-testid="stake-receipt">
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Amount Staked:</span>
-                  <span className="font-mono font-semibold">${stakeResult.stakedAmount.toFixed(2)}</span>
+                  <span className="font-mono font-semibold">${stakedAmount.toFixed(2)}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-muted-foreground">Transaction:</span>
                   <span className="font-mono text-xs truncate max-w-[180px]">
-                    {stakeResult.transactionHash.slice(0, 20)}...
+                    {stakeTransaction.txHash?.slice(0, 20)}...
                   </span>
                 </div>
-                <div className="flex justify-between break-all">
-                  <span className="text-muted-foreground">Escrow:</span>
-                  <span className="font-mono text-xs">{stakeResult.escrowAddress}</span>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Block:</span>
+                  <span className="font-mono text-xs">#{stakeTransaction.blockNumber}</span>
                 </div>
               </div>
             )}
-            <Spinner size="sm" className="mx-auto" />
-          </div>
-        )}
-
-
-        {step === "success" && (
-          <div className="py-12 text-center space-y-6">
-            <div className="w-20 h-20 rounded-full bg-primary/20 flex items-center justify-center mx-auto flex-shrink-0">
-              <CheckCircle className="h-10 w-10 text-primary" />
-            </div>
-            <div>
-              <h3 className="text-lg font-semibold">Ride Requested!</h3>
-              <p className="text-muted-foreground mt-2">
-                Looking for nearby drivers...
-              </p>
-            </div>
           </div>
         )}
       </DialogContent>
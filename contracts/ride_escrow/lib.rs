@@ -0,0 +1,329 @@
+#![cfg_attr(not(feature = "std"), no_std, no_main)]
+
+/// Holds each ride's stake until the ride completes or is cancelled.
+///
+/// The customer's wallet (or the server on their behalf) opens an order for the ride with the stake
+/// as the transferred value. Only the operator, the account that deployed the contract, closes it:
+/// `confirm_delivery` when the ride completes and `refund` when it is cancelled, each paying out the
+/// amounts the server's ledger settled. Whatever an order doesn't pay out stays with the contract.
+#[ink::contract]
+mod ride_escrow {
+    use ink::prelude::string::String;
+    use ink::storage::Mapping;
+
+    #[derive(Debug, Clone, Copy, PartialEq, Eq)]
+    #[ink::scale_derive(Encode, Decode, TypeInfo)]
+    #[cfg_attr(feature = "std", derive(ink::storage::traits::StorageLayout))]
+    pub enum OrderStatus {
+        Locked,
+        Released,
+        Refunded,
+    }
+
+    #[derive(Debug, Clone, PartialEq, Eq)]
+    #[ink::scale_derive(Encode, Decode, TypeInfo)]
+    #[cfg_attr(feature = "std", derive(ink::storage::traits::StorageLayout))]
+    pub struct Order {
+        pub customer: AccountId,
+        pub driver: Option<AccountId>,
+        pub amount: Balance,
+        pub to_driver: Balance,
+        pub to_customer: Balance,
+        pub status: OrderStatus,
+    }
+
+    #[derive(Debug, PartialEq, Eq)]
+    #[ink::scale_derive(Encode, Decode, TypeInfo)]
+    pub enum Error {
+        /// The caller is not the operator account.
+        NotOperator,
+        /// The order was created without a stake.
+        ZeroAmount,
+        /// The ride already has an order.
+        OrderExists,
+        /// The ride has no order.
+        OrderNotFound,
+        /// The order was already released or refunded.
+        OrderClosed,
+        /// The payouts add up to more than the order holds.
+        PayoutExceedsOrder,
+        /// A payout to the driver was requested without a driver.
+        MissingDriver,
+        /// Paying out the order failed.
+        TransferFailed,
+    }
+
+    pub type Result<T> = core::result::Result<T, Error>;
+
+    /// An order was opened for a ride.
+    #[ink(event)]
+    pub struct OrderCreated {
+        #[ink(topic)]
+        ride_id: String,
+        #[ink(topic)]
+        customer: AccountId,
+        amount: Balance,
+    }
+
+    /// A completed ride's order was paid out.
+    #[ink(event)]
+    pub struct OrderReleased {
+        #[ink(topic)]
+        ride_id: String,
+        driver: Option<AccountId>,
+        to_driver: Balance,
+        to_customer: Balance,
+    }
+
+    /// A cancelled ride's order was paid out.
+    #[ink(event)]
+    pub struct OrderRefunded {
+        #[ink(topic)]
+        ride_id: String,
+        driver: Option<AccountId>,
+        to_driver: Balance,
+        to_customer: Balance,
+    }
+
+    #[ink(storage)]
+    pub struct RideEscrow {
+        operator: AccountId,
+        orders: Mapping<String, Order>,
+    }
+
+    impl RideEscrow {
+        /// Deploy the contract with the caller as its operator.
+        #[ink(constructor)]
+        pub fn new() -> Self {
+            Self {
+                operator: Self::env().caller(),
+                orders: Mapping::default(),
+            }
+        }
+
+        /// Open an order for the ride holding the transferred value, refundable to `customer`.
+        #[ink(message, payable)]
+        pub fn create_order(&mut self, ride_id: String, customer: AccountId) -> Result<()> {
+            let amount = self.env().transferred_value();
+            if amount == 0 {
+                return Err(Error::ZeroAmount);
+            }
+            if self.orders.contains(&ride_id) {
+                return Err(Error::OrderExists);
+            }
+
+            self.orders.insert(
+                &ride_id,
+                &Order {
+                    customer,
+                    driver: None,
+                    amount,
+                    to_driver: 0,
+                    to_customer: 0,
+                    status: OrderStatus::Locked,
+                },
+            );
+            self.env().emit_event(OrderCreated { ride_id, customer, amount });
+            Ok(())
+        }
+
+        /// Close a completed ride's order, paying `to_driver` to the driver and `to_customer` back to the customer.
+        /// Whatever is left stays with the contract. Operator only.
+        #[ink(message)]
+        pub fn confirm_delivery(
+            &mut self,
+            ride_id: String,
+            driver: Option<AccountId>,
+            to_driver: Balance,
+            to_customer: Balance,
+        ) -> Result<()> {
+            self.close(&ride_id, driver, to_driver, to_customer, OrderStatus::Released)?;
+            self.env().emit_event(OrderReleased { ride_id, driver, to_driver, to_customer });
+            Ok(())
+        }
+
+        /// Close a cancelled ride's order, paying any cancellation fee to the driver and the rest back to the customer.
+        /// Operator only.
+        #[ink(message)]
+        pub fn refund(
+            &mut self,
+            ride_id: String,
+            driver: Option<AccountId>,
+            to_driver: Balance,
+            to_customer: Balance,
+        ) -> Result<()> {
+            self.close(&ride_id, driver, to_driver, to_customer, OrderStatus::Refunded)?;
+            self.env().emit_event(OrderRefunded { ride_id, driver, to_driver, to_customer });
+            Ok(())
+        }
+
+        /// The ride's order, if it has one.
+        #[ink(message)]
+        pub fn get_order(&self, ride_id: String) -> Option<Order> {
+            self.orders.get(&ride_id)
+        }
+
+        /// The account allowed to close orders.
+        #[ink(message)]
+        pub fn operator(&self) -> AccountId {
+            self.operator
+        }
+
+        // Pay out a locked order and record how it was split. A message that returns an error is reverted,
+        // so a failed transfer leaves the order locked
+        fn close(
+            &mut self,
+            ride_id: &String,
+            driver: Option<AccountId>,
+            to_driver: Balance,
+            to_customer: Balance,
+            status: OrderStatus,
+        ) -> Result<()> {
+            if self.env().caller() != self.operator {
+                return Err(Error::NotOperator);
+            }
+            let mut order = self.orders.get(ride_id).ok_or(Error::OrderNotFound)?;
+            if order.status != OrderStatus::Locked {
+                return Err(Error::OrderClosed);
+            }
+            let payout = to_driver.checked_add(to_customer).ok_or(Error::PayoutExceedsOrder)?;
+            if payout > order.amount {
+                return Err(Error::PayoutExceedsOrder);
+            }
+
+            if to_driver > 0 {
+                let driver = driver.ok_or(Error::MissingDriver)?;
+                self.env().transfer(driver, to_driver).map_err(|_| Error::TransferFailed)?;
+            }
+            if to_customer > 0 {
+                self.env().transfer(order.customer, to_customer).map_err(|_| Error::TransferFailed)?;
+            }
+
+            order.driver = driver;
+            order.to_driver = to_driver;
+            order.to_customer = to_customer;
+            order.status = status;
+            self.orders.insert(ride_id, &order);
+            Ok(())
+        }
+    }
+
+    #[cfg(test)]
+    mod tests {
+        use super::*;
+        use ink::env::{test, DefaultEnvironment};
+
+        const RIDE: &str = "ride-1";
+
+        fn accounts() -> test::DefaultAccounts<DefaultEnvironment> {
+            test::default_accounts::<DefaultEnvironment>()
+        }
+
+        fn balance_of(account: AccountId) -> Balance {
+            test::get_account_balance::<DefaultEnvironment>(account).unwrap()
+        }
+
+        // Deployed by alice, the operator, with an order from bob for `amount`
+        fn escrow_with_order(amount: Balance) -> RideEscrow {
+            let accounts = accounts();
+            test::set_caller::<DefaultEnvironment>(accounts.alice);
+            let mut escrow = RideEscrow::new();
+
+            test::set_caller::<DefaultEnvironment>(accounts.bob);
+            test::set_value_transferred::<DefaultEnvironment>(amount);
+            escrow.create_order(RIDE.into(), accounts.bob).unwrap();
+            // The off-chain environment doesn't move the transferred value itself
+            let contract = test::callee::<DefaultEnvironment>();
+            test::set_account_balance::<DefaultEnvironment>(contract, amount);
+
+            test::set_value_transferred::<DefaultEnvironment>(0);
+            test::set_caller::<DefaultEnvironment>(accounts.alice);
+            escrow
+        }
+
+        #[ink::test]
+        fn deployer_is_the_operator() {
+            test::set_caller::<DefaultEnvironment>(accounts().alice);
+            assert_eq!(RideEscrow::new().operator(), accounts().alice);
+        }
+
+        #[ink::test]
+        fn create_order_locks_the_transferred_value() {
+            let escrow = escrow_with_order(20);
+            assert_eq!(
+                escrow.get_order(RIDE.into()),
+                Some(Order {
+                    customer: accounts().bob,
+                    driver: None,
+                    amount: 20,
+                    to_driver: 0,
+                    to_customer: 0,
+                    status: OrderStatus::Locked,
+                })
+            );
+            assert_eq!(test::recorded_events().count(), 1);
+        }
+
+        #[ink::test]
+        fn create_order_needs_a_stake_and_a_new_ride() {
+            let mut escrow = escrow_with_order(20);
+            test::set_value_transferred::<DefaultEnvironment>(5);
+            assert_eq!(escrow.create_order(RIDE.into(), accounts().bob), Err(Error::OrderExists));
+
+            test::set_value_transferred::<DefaultEnvironment>(0);
+            assert_eq!(escrow.create_order("ride-2".into(), accounts().bob), Err(Error::ZeroAmount));
+            assert_eq!(escrow.get_order("ride-2".into()), None);
+        }
+
+        #[ink::test]
+        fn confirm_delivery_pays_out_once_and_keeps_the_rest() {
+            let accounts = accounts();
+            let mut escrow = escrow_with_order(20);
+            let driver_before = balance_of(accounts.charlie);
+            let customer_before = balance_of(accounts.bob);
+
+            assert_eq!(escrow.confirm_delivery(RIDE.into(), Some(accounts.charlie), 10, 8), Ok(()));
+            assert_eq!(balance_of(accounts.charlie), driver_before + 10);
+            assert_eq!(balance_of(accounts.bob), customer_before + 8);
+            assert_eq!(balance_of(test::callee::<DefaultEnvironment>()), 2);
+
+            let order = escrow.get_order(RIDE.into()).unwrap();
+            assert_eq!((order.driver, order.to_driver, order.to_customer), (Some(accounts.charlie), 10, 8));
+            assert_eq!(order.status, OrderStatus::Released);
+            assert_eq!(test::recorded_events().count(), 2);
+
+            assert_eq!(escrow.confirm_delivery(RIDE.into(), Some(accounts.charlie), 10, 8), Err(Error::OrderClosed));
+            assert_eq!(escrow.refund(RIDE.into(), None, 0, 20), Err(Error::OrderClosed));
+        }
+
+        #[ink::test]
+        fn refund_returns_the_stake_less_any_fee() {
+            let accounts = accounts();
+            let mut escrow = escrow_with_order(20);
+            let customer_before = balance_of(accounts.bob);
+
+            assert_eq!(escrow.refund(RIDE.into(), Some(accounts.charlie), 2, 18), Ok(()));
+            assert_eq!(balance_of(accounts.bob), customer_before + 18);
+            assert_eq!(escrow.get_order(RIDE.into()).unwrap().status, OrderStatus::Refunded);
+        }
+
+        #[ink::test]
+        fn only_the_operator_closes_orders() {
+            let mut escrow = escrow_with_order(20);
+            test::set_caller::<DefaultEnvironment>(accounts().bob);
+            assert_eq!(escrow.refund(RIDE.into(), None, 0, 20), Err(Error::NotOperator));
+            assert_eq!(escrow.get_order(RIDE.into()).unwrap().status, OrderStatus::Locked);
+        }
+
+        #[ink::test]
+        fn payouts_must_fit_the_order() {
+            let accounts = accounts();
+            let mut escrow = escrow_with_order(20);
+            assert_eq!(escrow.refund(RIDE.into(), Some(accounts.charlie), 5, 16), Err(Error::PayoutExceedsOrder));
+            assert_eq!(escrow.refund(RIDE.into(), Some(accounts.charlie), Balance::MAX, 1), Err(Error::PayoutExceedsOrder));
+            assert_eq!(escrow.refund(RIDE.into(), None, 5, 15), Err(Error::MissingDriver));
+            assert_eq!(escrow.refund("ride-2".into(), None, 0, 1), Err(Error::OrderNotFound));
+            assert_eq!(escrow.get_order(RIDE.into()).unwrap().status, OrderStatus::Locked);
+        }
+    }
+}
@@ -0,0 +1,51 @@
+CREATE TABLE "ratings" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"ride_id" varchar NOT NULL,
+	"rater_id" varchar NOT NULL,
+	"ratee_id" varchar NOT NULL,
+	"rating" integer NOT NULL,
+	"feedback" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "rides" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"customer_id" varchar NOT NULL,
+	"driver_id" varchar,
+	"pickup" jsonb NOT NULL,
+	"dropoff" jsonb NOT NULL,
+	"estimated_fare" double precision NOT NULL,
+	"staked_amount" double precision NOT NULL,
+	"actual_fare" double precision,
+	"status" text NOT NULL,
+	"current_location" jsonb,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"started_at" timestamp with time zone,
+	"completed_at" timestamp with time zone,
+	"customer_rating" integer,
+	"driver_rating" integer,
+	"customer_feedback" text,
+	"driver_feedback" text
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"wallet_address" text NOT NULL,
+	"role" text NOT NULL,
+	"reputation" integer NOT NULL,
+	"completed_rides" integer DEFAULT 0 NOT NULL,
+	"avg_rating" double precision NOT NULL,
+	"balance" double precision NOT NULL,
+	"name" text,
+	CONSTRAINT "users_wallet_address_unique" UNIQUE("wallet_address")
+);
+--> statement-breakpoint
+ALTER TABLE "ratings" ADD CONSTRAINT "ratings_ride_id_rides_id_fk" FOREIGN KEY ("ride_id") REFERENCES "public"."rides"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ratings" ADD CONSTRAINT "ratings_rater_id_users_id_fk" FOREIGN KEY ("rater_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ratings" ADD CONSTRAINT "ratings_ratee_id_users_id_fk" FOREIGN KEY ("ratee_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rides" ADD CONSTRAINT "rides_customer_id_users_id_fk" FOREIGN KEY ("customer_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rides" ADD CONSTRAINT "rides_driver_id_users_id_fk" FOREIGN KEY ("driver_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ratings_ratee_idx" ON "ratings" USING btree ("ratee_id");--> statement-breakpoint
+CREATE INDEX "rides_status_idx" ON "rides" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "rides_customer_idx" ON "rides" USING btree ("customer_id");--> statement-breakpoint
+CREATE INDEX "rides_driver_idx" ON "rides" USING btree ("driver_id");
\ No newline at end of file
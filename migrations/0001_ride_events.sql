@@ -0,0 +1,14 @@
+CREATE TABLE "ride_events" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"ride_id" varchar NOT NULL,
+	"type" text NOT NULL,
+	"from_status" text,
+	"to_status" text,
+	"actor_id" varchar,
+	"actor_role" text NOT NULL,
+	"data" jsonb,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ride_events" ADD CONSTRAINT "ride_events_ride_id_rides_id_fk" FOREIGN KEY ("ride_id") REFERENCES "public"."rides"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ride_events_ride_idx" ON "ride_events" USING btree ("ride_id","created_at");
\ No newline at end of file
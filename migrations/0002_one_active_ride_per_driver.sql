@@ -0,0 +1 @@
+CREATE UNIQUE INDEX "rides_one_active_per_driver_idx" ON "rides" USING btree ("driver_id") WHERE "rides"."status" in ('accepted', 'in_progress');
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "rides" ADD COLUMN "pickup_cell" varchar(12);--> statement-breakpoint
+CREATE INDEX "rides_status_pickup_cell_idx" ON "rides" USING btree ("status","pickup_cell");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "surge_snapshots" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"cell" varchar(12) NOT NULL,
+	"multiplier" double precision NOT NULL,
+	"demand" integer NOT NULL,
+	"supply" integer NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"expires_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "surge_snapshots_cell_idx" ON "surge_snapshots" USING btree ("cell","created_at");
\ No newline at end of file
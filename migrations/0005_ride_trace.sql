@@ -0,0 +1,13 @@
+CREATE TABLE "ride_locations" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"ride_id" varchar NOT NULL,
+	"lat" double precision NOT NULL,
+	"lng" double precision NOT NULL,
+	"speed" double precision,
+	"recorded_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "rides" ADD COLUMN "surge_multiplier" double precision DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "rides" ADD COLUMN "fare_breakdown" jsonb;--> statement-breakpoint
+ALTER TABLE "ride_locations" ADD CONSTRAINT "ride_locations_ride_id_rides_id_fk" FOREIGN KEY ("ride_id") REFERENCES "public"."rides"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ride_locations_ride_idx" ON "ride_locations" USING btree ("ride_id","recorded_at");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "ride_locations" ADD COLUMN "ride_status" text DEFAULT 'in_progress' NOT NULL;
\ No newline at end of file
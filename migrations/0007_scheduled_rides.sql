@@ -0,0 +1,4 @@
+ALTER TABLE "rides" ADD COLUMN "scheduled_for" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "rides" ADD COLUMN "time_zone" text;--> statement-breakpoint
+ALTER TABLE "rides" ADD COLUMN "reminder_sent_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX "rides_status_scheduled_for_idx" ON "rides" USING btree ("status","scheduled_for");
\ No newline at end of file
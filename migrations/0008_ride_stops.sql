@@ -0,0 +1,2 @@
+ALTER TABLE "rides" ADD COLUMN "stops" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "rides" ADD COLUMN "stops_reached" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
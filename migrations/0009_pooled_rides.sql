@@ -0,0 +1,6 @@
+DROP INDEX "rides_one_active_per_driver_idx";--> statement-breakpoint
+ALTER TABLE "rides" ADD COLUMN "ride_type" text DEFAULT 'standard' NOT NULL;--> statement-breakpoint
+ALTER TABLE "rides" ADD COLUMN "seats" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "rides" ADD COLUMN "pool_id" varchar;--> statement-breakpoint
+CREATE INDEX "rides_pool_idx" ON "rides" USING btree ("pool_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "rides_one_active_per_driver_idx" ON "rides" USING btree ("driver_id") WHERE "rides"."status" in ('accepted', 'in_progress') and "rides"."pool_id" is null;
\ No newline at end of file
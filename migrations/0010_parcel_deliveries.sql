@@ -0,0 +1,2 @@
+ALTER TABLE "rides" ADD COLUMN "delivery_type" text DEFAULT 'ride' NOT NULL;--> statement-breakpoint
+ALTER TABLE "rides" ADD COLUMN "parcel" jsonb;
\ No newline at end of file
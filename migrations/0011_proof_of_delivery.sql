@@ -0,0 +1 @@
+ALTER TABLE "rides" ADD COLUMN "proof_of_delivery" jsonb;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "rides" ADD COLUMN "accepted_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "rides" ADD COLUMN "driver_arrived_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "rides" ADD COLUMN "cancellation" jsonb;
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "ledger_postings" (
+	"id" varchar PRIMARY KEY NOT NULL,
+	"type" text NOT NULL,
+	"from_account" varchar NOT NULL,
+	"to_account" varchar NOT NULL,
+	"amount" double precision NOT NULL,
+	"ride_id" varchar,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "ledger_postings_amount_positive" CHECK ("ledger_postings"."amount" > 0)
+);
+--> statement-breakpoint
+ALTER TABLE "ledger_postings" ADD CONSTRAINT "ledger_postings_ride_id_rides_id_fk" FOREIGN KEY ("ride_id") REFERENCES "public"."rides"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ledger_postings_from_idx" ON "ledger_postings" USING btree ("from_account","created_at");--> statement-breakpoint
+CREATE INDEX "ledger_postings_to_idx" ON "ledger_postings" USING btree ("to_account","created_at");--> statement-breakpoint
+CREATE INDEX "ledger_postings_ride_idx" ON "ledger_postings" USING btree ("ride_id");--> statement-breakpoint
+-- Carry existing balances over as opening deposits before the column goes
+INSERT INTO "ledger_postings" ("id", "type", "from_account", "to_account", "amount")
+SELECT gen_random_uuid()::text, 'deposit', 'external:deposits', 'user:' || "id", "balance" FROM "users" WHERE "balance" > 0;--> statement-breakpoint
+ALTER TABLE "users" DROP COLUMN "balance";
\ No newline at end of file
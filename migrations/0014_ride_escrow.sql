@@ -0,0 +1 @@
+ALTER TABLE "rides" ADD COLUMN "escrow" jsonb;
\ No newline at end of file
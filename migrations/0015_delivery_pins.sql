@@ -0,0 +1,7 @@
+CREATE TABLE "delivery_pins" (
+	"ride_id" varchar PRIMARY KEY NOT NULL,
+	"pin_hash" text NOT NULL,
+	"issued_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "delivery_pins" ADD CONSTRAINT "delivery_pins_ride_id_rides_id_fk" FOREIGN KEY ("ride_id") REFERENCES "public"."rides"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
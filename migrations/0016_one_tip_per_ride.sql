@@ -0,0 +1 @@
+CREATE UNIQUE INDEX "ledger_postings_one_tip_per_ride_idx" ON "ledger_postings" USING btree ("ride_id") WHERE "ledger_postings"."type" = 'tip';
\ No newline at end of file
@@ -0,0 +1,138 @@
+import { createReadStream } from "fs";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import { createInterface } from "readline";
+import type { RoadGraphFile } from "../server/routing";
+
+// Converts an OSM XML extract (e.g. from `osmium cat city.osm.pbf -o city.osm` or an
+// Overpass export) into the road graph server/routing.ts loads.
+//
+//   npx tsx script/build-road-graph.ts city.osm [data/road-graph.json]
+
+// Typical speeds (km/h) for drivable road types, used when a way has no maxspeed tag
+const ROAD_SPEEDS: Record<string, number> = {
+  motorway: 100,
+  motorway_link: 60,
+  trunk: 80,
+  trunk_link: 50,
+  primary: 60,
+  primary_link: 40,
+  secondary: 50,
+  secondary_link: 35,
+  tertiary: 40,
+  tertiary_link: 30,
+  unclassified: 30,
+  residential: 25,
+  living_street: 10,
+  service: 15,
+};
+
+const KMH_PER_MPH = 1.609;
+
+interface Way {
+  refs: string[];
+  tags: Record<string, string>;
+}
+
+function attribute(line: string, name: string): string | undefined {
+  return line.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1];
+}
+
+function parseMaxSpeed(value: string | undefined): number | null {
+  const match = value?.match(/^(\d+(?:\.\d+)?)\s*(mph)?$/);
+  if (!match) return null;
+  return parseFloat(match[1]) * (match[2] ? KMH_PER_MPH : 1);
+}
+
+// 1 for one-way along the way, -1 for one-way against it, 0 for both ways
+function onewayDirection(tags: Record<string, string>): 1 | -1 | 0 {
+  const oneway = tags.oneway;
+  if (oneway === "-1") return -1;
+  if (oneway === "yes" || oneway === "1" || oneway === "true") return 1;
+  if (oneway === "no") return 0;
+  return tags.highway === "motorway" || tags.junction === "roundabout" ? 1 : 0;
+}
+
+async function readExtract(file: string) {
+  const nodes = new Map<string, [number, number]>();
+  const ways: Way[] = [];
+  let way: Way | null = null;
+
+  const lines = createInterface({ input: createReadStream(file), crlfDelay: Infinity });
+  for await (const raw of lines) {
+    const line = raw.trim();
+    if (line.startsWith("<node")) {
+      const id = attribute(line, "id");
+      const lat = attribute(line, "lat");
+      const lon = attribute(line, "lon");
+      if (id && lat && lon) nodes.set(id, [parseFloat(lat), parseFloat(lon)]);
+    } else if (line.startsWith("<way")) {
+      way = { refs: [], tags: {} };
+      if (line.endsWith("/>")) way = null;
+    } else if (way && line.startsWith("<nd")) {
+      const ref = attribute(line, "ref");
+      if (ref) way.refs.push(ref);
+    } else if (way && line.startsWith("<tag")) {
+      const key = attribute(line, "k");
+      const value = attribute(line, "v");
+      if (key && value !== undefined) way.tags[key] = value;
+    } else if (way && line.startsWith("</way")) {
+      if (way.tags.highway in ROAD_SPEEDS && way.tags.access !== "no" && way.tags.access !== "private") {
+        ways.push(way);
+      }
+      way = null;
+    }
+  }
+
+  return { nodes, ways };
+}
+
+function buildGraph(nodes: Map<string, [number, number]>, ways: Way[]): RoadGraphFile {
+  const graph: RoadGraphFile = { nodes: [], edges: [] };
+  // Only nodes on drivable roads make it into the graph, renumbered from 0
+  const index = new Map<string, number>();
+  const nodeIndex = (ref: string): number | null => {
+    if (index.has(ref)) return index.get(ref)!;
+    const location = nodes.get(ref);
+    if (!location) return null;
+    index.set(ref, graph.nodes.length);
+    graph.nodes.push(location);
+    return graph.nodes.length - 1;
+  };
+
+  for (const way of ways) {
+    const speed = parseMaxSpeed(way.tags.maxspeed) ?? ROAD_SPEEDS[way.tags.highway];
+    const direction = onewayDirection(way.tags);
+    const refs = direction === -1 ? [...way.refs].reverse() : way.refs;
+
+    for (let i = 0; i < refs.length - 1; i++) {
+      const from = nodeIndex(refs[i]);
+      const to = nodeIndex(refs[i + 1]);
+      if (from === null || to === null || from === to) continue;
+      graph.edges.push([from, to, speed, direction === 0 ? 0 : 1]);
+    }
+  }
+
+  return graph;
+}
+
+async function main() {
+  const [input, output = path.join("data", "road-graph.json")] = process.argv.slice(2);
+  if (!input) {
+    console.error("usage: tsx script/build-road-graph.ts <extract.osm> [output.json]");
+    process.exit(1);
+  }
+
+  console.log(`reading ${input}...`);
+  const { nodes, ways } = await readExtract(input);
+  const graph = buildGraph(nodes, ways);
+
+  await mkdir(path.dirname(output), { recursive: true });
+  await writeFile(output, JSON.stringify(graph));
+  console.log(`wrote ${output}: ${graph.nodes.length} nodes, ${graph.edges.length} road segments`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -0,0 +1,88 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { Keyring } from "@polkadot/keyring";
+import type { KeyringPair } from "@polkadot/keyring/types";
+import { u8aToHex } from "@polkadot/util";
+import { cryptoWaitReady } from "@polkadot/util-crypto";
+import { createChallenge, createSession, getSession, sweepExpiredAuth, verifyChallenge } from "./auth";
+
+let alice: KeyringPair;
+let bob: KeyringPair;
+
+beforeAll(async () => {
+  await cryptoWaitReady();
+  const keyring = new Keyring({ type: "sr25519" });
+  alice = keyring.addFromUri("//Alice");
+  bob = keyring.addFromUri("//Bob");
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function sign(pair: KeyringPair, message: string): string {
+  return u8aToHex(pair.sign(message));
+}
+
+describe("wallet sign-in challenges", () => {
+  it("accepts the address's signature over its challenge", async () => {
+    const challenge = createChallenge(alice.address);
+    expect(challenge.message).toContain(alice.address);
+    expect(challenge.message).toContain(challenge.nonce);
+
+    expect(await verifyChallenge(challenge.nonce, alice.address, sign(alice, challenge.message))).toBe(true);
+  });
+
+  it("accepts ed25519 signatures wrapped in <Bytes> as the extension signs them", async () => {
+    const pair = new Keyring({ type: "ed25519" }).addFromUri("//Charlie");
+    const challenge = createChallenge(pair.address);
+
+    const signature = sign(pair, `<Bytes>${challenge.message}</Bytes>`);
+    expect(await verifyChallenge(challenge.nonce, pair.address, signature)).toBe(true);
+  });
+
+  it("rejects signatures by another account or over another message", async () => {
+    const challenge = createChallenge(alice.address);
+    expect(await verifyChallenge(challenge.nonce, alice.address, sign(bob, challenge.message))).toBe(false);
+
+    const other = createChallenge(alice.address);
+    expect(await verifyChallenge(other.nonce, alice.address, sign(alice, `${other.message}!`))).toBe(false);
+  });
+
+  it("only verifies a challenge for the address it was issued to", async () => {
+    const challenge = createChallenge(alice.address);
+    expect(await verifyChallenge(challenge.nonce, bob.address, sign(bob, challenge.message))).toBe(false);
+  });
+
+  it("lets each challenge be used once", async () => {
+    const challenge = createChallenge(alice.address);
+    const signature = sign(alice, challenge.message);
+
+    expect(await verifyChallenge(challenge.nonce, alice.address, signature)).toBe(true);
+    expect(await verifyChallenge(challenge.nonce, alice.address, signature)).toBe(false);
+  });
+
+  it("keeps a challenge valid when others are requested for the same address", async () => {
+    const challenge = createChallenge(alice.address);
+    createChallenge(alice.address);
+    createChallenge(alice.address);
+
+    expect(await verifyChallenge(challenge.nonce, alice.address, sign(alice, challenge.message))).toBe(true);
+  });
+
+  it("rejects challenges signed after they expired", async () => {
+    vi.useFakeTimers();
+    const challenge = createChallenge(alice.address);
+    vi.advanceTimersByTime(5 * 60 * 1000 + 1);
+
+    expect(await verifyChallenge(challenge.nonce, alice.address, sign(alice, challenge.message))).toBe(false);
+  });
+
+  it("sweeps expired challenges and sessions", async () => {
+    const challenge = createChallenge(alice.address);
+    const session = createSession("user-1", alice.address);
+
+    sweepExpiredAuth(Date.now() + 24 * 60 * 60 * 1000 + 1);
+    expect(getSession(session.token)).toBeUndefined();
+    expect(await verifyChallenge(challenge.nonce, alice.address, sign(alice, challenge.message))).toBe(false);
+  });
+});
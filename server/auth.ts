@@ -0,0 +1,192 @@
+import { randomBytes } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import { cryptoWaitReady, decodeAddress, signatureVerify } from "@polkadot/util-crypto";
+import type { User, UserRole } from "@shared/schema";
+import { storage } from "./storage";
+
+declare module "express-serve-static-core" {
+  interface Request {
+    // Set by requireAuth from the bearer token
+    currentUser?: User;
+    sessionToken?: string;
+  }
+}
+
+// How long a sign-in challenge stays valid
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+// How long an issued session token stays valid
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+// How often expired challenges and sessions are dropped
+const AUTH_SWEEP_INTERVAL_MS = 60 * 1000;
+
+interface Challenge {
+  nonce: string;
+  walletAddress: string;
+  message: string;
+  expiresAt: number;
+}
+
+export interface Session {
+  token: string;
+  userId: string;
+  walletAddress: string;
+  expiresAt: number;
+}
+
+// Outstanding challenges by nonce; an address can have several, so asking for a new one can't void someone's sign-in
+const challenges = new Map<string, Challenge>();
+
+// Active sessions by token
+const sessions = new Map<string, Session>();
+
+// sr25519 verification needs the WASM crypto backend to be loaded
+const cryptoReady = cryptoWaitReady();
+
+let sweepTimer: NodeJS.Timeout | null = null;
+
+export function isValidWalletAddress(address: string): boolean {
+  try {
+    decodeAddress(address);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Issue a one-time nonce for a wallet address.
+ * The returned message is what the wallet has to sign.
+ */
+export function createChallenge(walletAddress: string): Challenge {
+  const nonce = randomBytes(16).toString("hex");
+  const issuedAt = new Date();
+  const message = [
+    `DropMate wants you to sign in with your account:`,
+    walletAddress,
+    ``,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt.toISOString()}`,
+  ].join("\n");
+
+  const challenge: Challenge = {
+    nonce,
+    walletAddress,
+    message,
+    expiresAt: issuedAt.getTime() + CHALLENGE_TTL_MS,
+  };
+  challenges.set(nonce, challenge);
+  return challenge;
+}
+
+/**
+ * Check a signature over the challenge issued with this nonce, which must have been issued to this address.
+ * The challenge is consumed whether or not the signature is valid.
+ * Accepts sr25519, ed25519 and ecdsa signatures, raw or <Bytes>-wrapped as the extension signs them.
+ */
+export async function verifyChallenge(nonce: string, walletAddress: string, signature: string): Promise<boolean> {
+  const challenge = challenges.get(nonce);
+  if (!challenge) return false;
+  challenges.delete(nonce);
+
+  if (challenge.walletAddress !== walletAddress || challenge.expiresAt < Date.now()) return false;
+
+  await cryptoReady;
+  try {
+    return signatureVerify(challenge.message, signature, walletAddress).isValid;
+  } catch {
+    return false;
+  }
+}
+
+export function createSession(userId: string, walletAddress: string): Session {
+  const session: Session = {
+    token: randomBytes(32).toString("hex"),
+    userId,
+    walletAddress,
+    expiresAt: Date.now() + SESSION_TTL_MS,
+  };
+  sessions.set(session.token, session);
+  return session;
+}
+
+export function getSession(token: string): Session | undefined {
+  const session = sessions.get(token);
+  if (!session) return undefined;
+
+  if (session.expiresAt < Date.now()) {
+    sessions.delete(token);
+    return undefined;
+  }
+  return session;
+}
+
+export function revokeSession(token: string): void {
+  sessions.delete(token);
+}
+
+// Drop challenges and sessions that have expired without being used or revoked
+export function sweepExpiredAuth(now = Date.now()): void {
+  for (const [nonce, challenge] of Array.from(challenges)) {
+    if (challenge.expiresAt < now) challenges.delete(nonce);
+  }
+  for (const [token, session] of Array.from(sessions)) {
+    if (session.expiresAt < now) sessions.delete(token);
+  }
+}
+
+/**
+ * Periodically sweep expired challenges and sessions, which otherwise stay in memory until they are looked up.
+ */
+export function startAuthSweep() {
+  if (sweepTimer) return;
+  sweepTimer = setInterval(() => sweepExpiredAuth(), AUTH_SWEEP_INTERVAL_MS);
+}
+
+// Pull the session token out of an `Authorization: Bearer <token>` header
+export function getBearerToken(header: string | undefined): string | undefined {
+  if (!header) return undefined;
+  const [scheme, token] = header.split(" ");
+  if (scheme !== "Bearer" || !token) return undefined;
+  return token;
+}
+
+// Resolve a session token to its user, or undefined if the token is unknown or expired
+export async function authenticateToken(token: string | undefined): Promise<User | undefined> {
+  if (!token) return undefined;
+  const session = getSession(token);
+  if (!session) return undefined;
+  return storage.getUser(session.userId);
+}
+
+/**
+ * Require a valid session and put the caller on `req.currentUser`.
+ */
+export async function requireAuth(req: Request, res: Response, next: NextFunction) {
+  try {
+    const token = getBearerToken(req.headers.authorization);
+    const user = await authenticateToken(token);
+    if (!user) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+
+    req.currentUser = user;
+    req.sessionToken = token;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Require the authenticated caller to have one of the given roles. Use after requireAuth.
+ */
+export function requireRole(...roles: UserRole[]) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!req.currentUser || !roles.includes(req.currentUser.role)) {
+      return res.status(403).json({ message: "Not authorized" });
+    }
+    next();
+  };
+}
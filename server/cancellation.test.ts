@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import type { Ride } from "@shared/schema";
+import { applyCancellationPenalty, assessCancellation } from "./cancellation";
+import type { RideActor } from "./rideLifecycle";
+import { storage } from "./storage";
+import { createTestRide, createTestUser } from "./testing";
+
+const MINUTE_MS = 60 * 1000;
+const now = Date.parse("2026-05-04T12:00:00.000Z");
+const minutesAgo = (minutes: number) => new Date(now - minutes * MINUTE_MS).toISOString();
+
+// A ride staking 20, requested and accepted at the given minutes before now
+async function acceptedRide(requestedMinutesAgo: number, acceptedMinutesAgo: number, updates: Partial<Ride> = {}) {
+  const customer = await createTestUser("customer");
+  const driver = await createTestUser("driver");
+  const ride = await createTestRide(customer.id);
+  const accepted: Ride = {
+    ...ride,
+    status: "accepted",
+    driverId: driver.id,
+    createdAt: minutesAgo(requestedMinutesAgo),
+    acceptedAt: minutesAgo(acceptedMinutesAgo),
+    ...updates,
+  };
+  const customerActor: RideActor = { id: customer.id, role: "customer" };
+  const driverActor: RideActor = { id: driver.id, role: "driver" };
+  return { ride: accepted, customerActor, driverActor };
+}
+
+describe("assessCancellation", () => {
+  it("lets anyone call off a ride nobody has accepted for free", async () => {
+    const { ride, customerActor } = await acceptedRide(30, 30);
+    const waiting: Ride = { ...ride, status: "waiting", driverId: null, acceptedAt: null };
+
+    expect(assessCancellation(waiting, customerActor, "changed_plans", null, now)).toEqual({
+      cancelledBy: "customer",
+      reason: "changed_plans",
+      note: null,
+      outcome: "free",
+      fee: 0,
+      refund: 20,
+      atFault: null,
+      reputationPenalty: 0,
+    });
+  });
+
+  it("lets the customer cancel an accepted ride for free within two minutes of the request", async () => {
+    const { ride, customerActor } = await acceptedRide(1.5, 1);
+    expect(assessCancellation(ride, customerActor, "changed_plans", "Found a lift", now))
+      .toMatchObject({ outcome: "free", fee: 0, refund: 20, note: "Found a lift" });
+  });
+
+  it("charges the customer once the free window has passed, and more once the driver has arrived", async () => {
+    const { ride, customerActor } = await acceptedRide(5, 4);
+    expect(assessCancellation(ride, customerActor, "changed_plans", null, now))
+      .toMatchObject({ outcome: "after_accept", fee: 2, refund: 18, atFault: "customer", reputationPenalty: 1 });
+
+    const arrived = { ...ride, driverArrivedAt: minutesAgo(1) };
+    expect(assessCancellation(arrived, customerActor, "long_wait", null, now))
+      .toMatchObject({ outcome: "after_arrival", fee: 5, refund: 15, atFault: "customer", reputationPenalty: 2 });
+  });
+
+  it("doesn't charge the customer when the driver hasn't turned up 15 minutes after accepting", async () => {
+    const { ride, customerActor } = await acceptedRide(20, 15);
+    expect(assessCancellation(ride, customerActor, "driver_no_show", null, now))
+      .toMatchObject({ outcome: "driver_no_show", fee: 0, refund: 20, atFault: "driver", reputationPenalty: 5 });
+  });
+
+  it("holds a driver who cancels at fault unless the customer kept them waiting at the pickup", async () => {
+    const { ride, driverActor } = await acceptedRide(10, 8);
+    expect(assessCancellation(ride, driverActor, "vehicle_issue", null, now))
+      .toMatchObject({ cancelledBy: "driver", outcome: "driver_cancelled", fee: 0, atFault: "driver", reputationPenalty: 3 });
+
+    // A no-show is only taken from a driver who has waited long enough at the pickup
+    const justArrived = { ...ride, driverArrivedAt: minutesAgo(3) };
+    expect(assessCancellation(justArrived, driverActor, "customer_no_show", null, now))
+      .toMatchObject({ outcome: "driver_cancelled", atFault: "driver" });
+
+    const waited = { ...ride, driverArrivedAt: minutesAgo(5) };
+    expect(assessCancellation(waited, driverActor, "customer_no_show", null, now))
+      .toMatchObject({ outcome: "customer_no_show", fee: 5, refund: 15, atFault: "customer", reputationPenalty: 3 });
+  });
+
+  it("never charges more than the stake, nor anything when the system cancels", async () => {
+    const { ride, customerActor } = await acceptedRide(10, 8, { stakedAmount: 1.5, driverArrivedAt: minutesAgo(1) });
+    expect(assessCancellation(ride, customerActor, "changed_plans", null, now)).toMatchObject({ fee: 1.5, refund: 0 });
+    expect(assessCancellation(ride, { id: null, role: "system" }, "other", null, now))
+      .toMatchObject({ cancelledBy: "system", outcome: "free", fee: 0, refund: 1.5 });
+  });
+});
+
+describe("applyCancellationPenalty", () => {
+  it("takes the penalty off the party at fault, down to zero", async () => {
+    const { ride, driverActor } = await acceptedRide(20, 15);
+    const cancellation = assessCancellation(ride, driverActor, "vehicle_issue", null, now);
+    await applyCancellationPenalty({ ...ride, status: "cancelled", cancellation });
+    expect((await storage.getUser(ride.driverId!))?.reputation).toBe(47);
+    expect((await storage.getUser(ride.customerId))?.reputation).toBe(50);
+
+    await storage.updateUser(ride.driverId!, { reputation: 1 });
+    await applyCancellationPenalty({ ...ride, status: "cancelled", cancellation });
+    expect((await storage.getUser(ride.driverId!))?.reputation).toBe(0);
+  });
+
+  it("leaves everyone's reputation alone after a free cancel", async () => {
+    const { ride, customerActor } = await acceptedRide(1, 1);
+    const cancellation = assessCancellation(ride, customerActor, "changed_plans", null, now);
+    await applyCancellationPenalty({ ...ride, status: "cancelled", cancellation });
+    expect((await storage.getUser(ride.customerId))?.reputation).toBe(50);
+  });
+});
@@ -0,0 +1,114 @@
+import type { Cancellation, CancellationOutcome, CancellationReason, Ride } from "@shared/schema";
+import { storage } from "./storage";
+import { roundMoney } from "./pricing";
+import type { RideActor } from "./rideLifecycle";
+
+// Minutes after the request during which a customer can cancel an accepted ride for free
+const FREE_CANCEL_WINDOW_MINUTES = parseFloat(process.env.FREE_CANCEL_WINDOW_MINUTES || "2");
+
+// Fee for cancelling once a driver has accepted, and the larger one once they are at the pickup
+const CANCEL_FEE_AFTER_ACCEPT = parseFloat(process.env.CANCEL_FEE_AFTER_ACCEPT || "2");
+const CANCEL_FEE_AFTER_ARRIVAL = parseFloat(process.env.CANCEL_FEE_AFTER_ARRIVAL || "5");
+
+// A driver who hasn't reached the pickup this long after accepting is a no-show
+const DRIVER_NO_SHOW_MINUTES = parseFloat(process.env.DRIVER_NO_SHOW_MINUTES || "15");
+
+// How long a driver waits at the pickup before they may report the customer as a no-show
+const CUSTOMER_NO_SHOW_MINUTES = parseFloat(process.env.CUSTOMER_NO_SHOW_MINUTES || "5");
+
+// Reputation points the party at fault loses under each outcome
+const REPUTATION_PENALTIES: Record<CancellationOutcome, number> = {
+  free: 0,
+  after_accept: 1,
+  after_arrival: 2,
+  customer_no_show: 3,
+  driver_cancelled: 3,
+  driver_no_show: 5,
+};
+
+function minutesSince(timestamp: string, now: number): number {
+  return (now - new Date(timestamp).getTime()) / 60000;
+}
+
+/**
+ * Which rule of the policy a cancellation falls under, given who cancels, why, and how far the ride got.
+ * No-show reasons are checked against the ride's timestamps rather than taken on trust.
+ */
+function cancellationOutcome(ride: Ride, cancelledBy: Cancellation["cancelledBy"], reason: CancellationReason, now: number): CancellationOutcome {
+  // Nobody has committed to the ride yet
+  if (ride.status !== "accepted" || cancelledBy === "system") return "free";
+
+  if (cancelledBy === "driver") {
+    const waitedLongEnough = ride.driverArrivedAt !== null
+      && minutesSince(ride.driverArrivedAt, now) >= CUSTOMER_NO_SHOW_MINUTES;
+    return reason === "customer_no_show" && waitedLongEnough ? "customer_no_show" : "driver_cancelled";
+  }
+
+  if (ride.driverArrivedAt) return "after_arrival";
+  if (ride.acceptedAt && minutesSince(ride.acceptedAt, now) >= DRIVER_NO_SHOW_MINUTES) return "driver_no_show";
+  if (minutesSince(ride.createdAt, now) < FREE_CANCEL_WINDOW_MINUTES) return "free";
+  return "after_accept";
+}
+
+const outcomeFees: Record<CancellationOutcome, number> = {
+  free: 0,
+  after_accept: CANCEL_FEE_AFTER_ACCEPT,
+  after_arrival: CANCEL_FEE_AFTER_ARRIVAL,
+  customer_no_show: CANCEL_FEE_AFTER_ARRIVAL,
+  driver_cancelled: 0,
+  driver_no_show: 0,
+};
+
+const outcomeFaults: Record<CancellationOutcome, Cancellation["atFault"]> = {
+  free: null,
+  after_accept: "customer",
+  after_arrival: "customer",
+  customer_no_show: "customer",
+  driver_cancelled: "driver",
+  driver_no_show: "driver",
+};
+
+/**
+ * Price cancelling a ride now: the fee comes out of the customer's stake and goes to the driver,
+ * the rest of the stake is refunded. Doesn't change anything, so it also backs the preview.
+ */
+export function assessCancellation(
+  ride: Ride,
+  actor: RideActor,
+  reason: CancellationReason,
+  note: string | null = null,
+  now = Date.now(),
+): Cancellation {
+  const cancelledBy = actor.role === "driver" || actor.role === "system" ? actor.role : "customer";
+  const outcome = cancellationOutcome(ride, cancelledBy, reason, now);
+  const fee = roundMoney(Math.min(outcomeFees[outcome], ride.stakedAmount));
+  const atFault = outcomeFaults[outcome];
+
+  return {
+    cancelledBy,
+    reason,
+    note,
+    outcome,
+    fee,
+    refund: roundMoney(ride.stakedAmount - fee),
+    atFault,
+    reputationPenalty: atFault ? REPUTATION_PENALTIES[outcome] : 0,
+  };
+}
+
+/**
+ * Take the reputation penalty of a cancelled ride off whoever the policy held responsible.
+ * Reputation also ranks drivers in dispatch, so no-shows get fewer offers.
+ */
+export async function applyCancellationPenalty(ride: Ride): Promise<void> {
+  const cancellation = ride.cancellation;
+  if (!cancellation?.atFault || cancellation.reputationPenalty === 0) return;
+
+  const userId = cancellation.atFault === "driver" ? ride.driverId : ride.customerId;
+  const user = userId ? await storage.getUser(userId) : undefined;
+  if (!user) return;
+
+  await storage.updateUser(user.id, {
+    reputation: Math.max(0, user.reputation - cancellation.reputationPenalty),
+  });
+}
@@ -0,0 +1,14 @@
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import pg from "pg";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema>;
+
+/**
+ * Create a Drizzle client backed by a node-postgres pool.
+ * Tests can skip this and hand DrizzleStorage a pg-mem adapter instead.
+ */
+export function createDb(connectionString: string): Database {
+  const pool = new pg.Pool({ connectionString });
+  return drizzle(pool, { schema });
+}
@@ -0,0 +1,134 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { Ride } from "@shared/schema";
+import {
+  completeDelivery,
+  createRecipientToken,
+  DeliveryLinkError,
+  issueDeliveryPin,
+  ProofOfDeliveryError,
+  resendDeliveryPin,
+} from "./delivery";
+import { SmsError, smsSender } from "./sms";
+import { storage } from "./storage";
+import { createTestRide, createTestUser } from "./testing";
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
+
+// A parcel on its way to the recipient with its driver
+async function parcelInTransit() {
+  const customer = await createTestUser("customer");
+  const driver = await createTestUser("driver");
+  const draft = await createTestRide(customer.id, {
+    deliveryType: "parcel",
+    parcel: {
+      size: "small",
+      weightKg: 1,
+      sender: { name: "Sam Sender", phone: "+49 30 1234567" },
+      recipient: { name: "Robin Recipient", phone: "+49 30 7654321" },
+      handlingNotes: "",
+    },
+  });
+  const ride = await storage.updateRideStatus(draft.id, "pending_stake", "in_progress", { driverId: driver.id });
+  return { ride: ride!, driver };
+}
+
+// Issue a PIN and read it back from the text the recipient got
+async function textedPin(issue: () => Promise<void>): Promise<string> {
+  const send = vi.spyOn(smsSender, "send").mockResolvedValue();
+  await issue();
+  const [, message] = send.mock.calls[send.mock.calls.length - 1];
+  return message.match(/\d{6}/)![0];
+}
+
+async function rejection(promise: Promise<unknown>): Promise<ProofOfDeliveryError> {
+  return promise.then(() => {
+    throw new Error("Expected a rejection");
+  }, (error: unknown) => error as ProofOfDeliveryError);
+}
+
+describe("delivery PINs", () => {
+  it("texts a six-digit PIN to the recipient and keeps only its hash", async () => {
+    const { ride } = await parcelInTransit();
+    const send = vi.spyOn(smsSender, "send").mockResolvedValue();
+    await issueDeliveryPin(ride);
+
+    expect(send).toHaveBeenCalledWith("+49 30 7654321", expect.stringMatching(/PIN is \d{6}\./));
+    const pin = send.mock.calls[0][1].match(/\d{6}/)![0];
+    const issued = await storage.getDeliveryPin(ride.id);
+    expect(issued).toMatchObject({ rideId: ride.id, attempts: 0 });
+    expect(issued!.pinHash).not.toContain(pin);
+  });
+
+  it("doesn't text a PIN for a ride", async () => {
+    const customer = await createTestUser("customer");
+    const ride = await createTestRide(customer.id);
+    const send = vi.spyOn(smsSender, "send").mockResolvedValue();
+
+    await issueDeliveryPin(ride);
+    expect(send).not.toHaveBeenCalled();
+    expect(await storage.getDeliveryPin(ride.id)).toBeUndefined();
+  });
+
+  it("withdraws a PIN that couldn't be texted", async () => {
+    const { ride } = await parcelInTransit();
+    vi.spyOn(smsSender, "send").mockRejectedValue(new SmsError("No SMS gateway is configured"));
+
+    await expect(issueDeliveryPin(ride)).rejects.toBeInstanceOf(SmsError);
+    expect(await storage.getDeliveryPin(ride.id)).toBeUndefined();
+  });
+
+  it("completes the delivery with the PIN the recipient reads out, once", async () => {
+    const { ride, driver } = await parcelInTransit();
+    const pin = await textedPin(() => issueDeliveryPin(ride));
+
+    const completed = await completeDelivery(ride, driver.id, pin);
+    expect(completed.status).toBe("completed");
+    expect(completed.proofOfDelivery?.pinVerifiedAt).toBe(completed.completedAt);
+    expect(await storage.getDeliveryPin(ride.id)).toBeUndefined();
+  });
+
+  it("turns away other drivers, wrong PINs and deliveries without a PIN", async () => {
+    const { ride, driver } = await parcelInTransit();
+    expect((await rejection(completeDelivery(ride, driver.id, "123456"))).status).toBe(409);
+
+    const pin = await textedPin(() => issueDeliveryPin(ride));
+    const otherDriver = await createTestUser("driver");
+    expect((await rejection(completeDelivery(ride, otherDriver.id, pin))).status).toBe(403);
+
+    const wrongPin = pin === "000000" ? "000001" : "000000";
+    const wrong = await rejection(completeDelivery(ride, driver.id, wrongPin));
+    expect(wrong).toBeInstanceOf(ProofOfDeliveryError);
+    expect(wrong).toMatchObject({ status: 400, message: "Wrong delivery PIN" });
+    expect((await storage.getRide(ride.id))?.status).toBe("in_progress");
+  });
+
+  it("locks the delivery after five entries until the recipient has a new PIN texted", async () => {
+    const { ride, driver } = await parcelInTransit();
+    const token = createRecipientToken(ride);
+    const pin = await textedPin(() => issueDeliveryPin(ride));
+    const wrongPin = pin === "000000" ? "000001" : "000000";
+
+    const entries = await Promise.all(Array.from({ length: 8 }, () => rejection(completeDelivery(ride, driver.id, wrongPin))));
+    expect(entries.map(error => error.status).sort()).toEqual([400, 400, 400, 400, 400, 429, 429, 429]);
+    // The lockout is kept with the PIN, and even the right PIN no longer gets through
+    expect((await storage.getDeliveryPin(ride.id))?.attempts).toBe(5);
+    expect((await rejection(completeDelivery(ride, driver.id, pin))).status).toBe(429);
+
+    // A new PIN can be asked for a minute after the last one
+    expect((await rejection(resendDeliveryPin(token))).status).toBe(429);
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 61 * 1000);
+    const newPin = await textedPin(() => resendDeliveryPin(token));
+
+    expect((await storage.getDeliveryPin(ride.id))?.attempts).toBe(0);
+    expect((await completeDelivery(ride, driver.id, newPin)).status).toBe("completed");
+  });
+
+  it("only resends PINs for genuine tracking links", async () => {
+    const { ride } = await parcelInTransit();
+    await expect(resendDeliveryPin(`${ride.id}.forged`)).rejects.toBeInstanceOf(DeliveryLinkError);
+  });
+});
@@ -0,0 +1,240 @@
+import { createHmac, randomBytes, randomInt, timingSafeEqual } from "crypto";
+import { mkdir, writeFile } from "fs/promises";
+import path from "path";
+import type { DeliveryTracking, PodArtifactType, ProofOfDelivery, Ride } from "@shared/schema";
+import { storage } from "./storage";
+import { transitionRide } from "./rideLifecycle";
+import { smsSender } from "./sms";
+
+// Sessions are per-process too, so links and PINs only need a configured key to outlive a restart
+const DELIVERY_LINK_SECRET = process.env.DELIVERY_LINK_SECRET || randomBytes(32).toString("hex");
+
+// Where proof-of-delivery photos and signatures are written
+const POD_UPLOAD_DIR = path.resolve(process.env.POD_UPLOAD_DIR || "uploads/pod");
+
+// Largest photo or signature a driver can upload
+export const MAX_POD_FILE_BYTES = 5 * 1024 * 1024;
+
+// PIN entries a driver gets for each PIN texted. Once they are used up, the recipient
+// clears the lockout by having a new PIN texted from their tracking link
+const MAX_PIN_ATTEMPTS = 5;
+
+// How soon after one PIN the tracking link can have a new one texted
+const PIN_RESEND_INTERVAL_MS = 60 * 1000;
+
+// File types accepted for each artifact, with the extension they are stored under
+const podContentTypes: Record<PodArtifactType, Record<string, string>> = {
+  photo: { "image/jpeg": "jpg", "image/png": "png", "image/webp": "webp" },
+  signature: { "image/png": "png" },
+};
+
+export class DeliveryLinkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "DeliveryLinkError";
+  }
+}
+
+export class ProofOfDeliveryError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "ProofOfDeliveryError";
+  }
+}
+
+function sign(value: string): Buffer {
+  return createHmac("sha256", DELIVERY_LINK_SECRET).update(value).digest();
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const expected = Buffer.from(a);
+  const actual = Buffer.from(b);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Token for the recipient's tracking link. The sender shares it; whoever holds it can follow
+ * the parcel and have a new PIN texted to the recipient, but never sees the PIN.
+ */
+export function createRecipientToken(ride: Ride): string {
+  return `${ride.id}.${sign(ride.id).toString("base64url")}`;
+}
+
+// Keyed so a stored hash can't be turned back into its six digits by trying them all
+function hashPin(ride: Ride, pin: string): string {
+  return sign(`pin:${ride.id}:${pin}`).toString("hex");
+}
+
+/**
+ * Text a fresh six-digit PIN for handing over a parcel to the recipient's phone, the one place
+ * neither the sender nor the driver can read it. It replaces any earlier PIN for the delivery.
+ */
+export async function issueDeliveryPin(ride: Ride): Promise<void> {
+  if (ride.deliveryType !== "parcel") return;
+
+  const pin = String(randomInt(0, 1_000_000)).padStart(6, "0");
+  const pinHash = hashPin(ride, pin);
+  await storage.setDeliveryPin(ride.id, pinHash);
+  try {
+    await smsSender.send(
+      ride.parcel!.recipient.phone,
+      `Your Dropmate delivery PIN is ${pin}. Only give it to the driver once you have your parcel.`,
+    );
+  } catch (error) {
+    // Nobody got this PIN, so it is withdrawn and the tracking page offers to send another
+    await storage.consumeDeliveryPin(ride.id, pinHash);
+    throw error;
+  }
+}
+
+/**
+ * Look up the parcel delivery a recipient token was issued for.
+ * Throws DeliveryLinkError if the token is forged or the delivery doesn't exist.
+ */
+async function resolveRecipientToken(token: string): Promise<Ride> {
+  const [rideId, signature] = token.split(".");
+  if (!rideId || !signature || !safeEqual(sign(rideId).toString("base64url"), signature)) {
+    throw new DeliveryLinkError("Invalid delivery link");
+  }
+
+  const ride = await storage.getRide(rideId);
+  if (!ride || ride.deliveryType !== "parcel") {
+    throw new DeliveryLinkError("Invalid delivery link");
+  }
+  return ride;
+}
+
+export async function getDeliveryTracking(token: string): Promise<DeliveryTracking> {
+  const ride = await resolveRecipientToken(token);
+  const driver = ride.driverId ? await storage.getUser(ride.driverId) : undefined;
+  const isUnderway = ride.status === "accepted" || ride.status === "in_progress";
+
+  return {
+    rideId: ride.id,
+    status: ride.status,
+    senderName: ride.parcel!.sender.name,
+    recipientName: ride.parcel!.recipient.name,
+    size: ride.parcel!.size,
+    handlingNotes: ride.parcel!.handlingNotes,
+    pickup: ride.pickup,
+    dropoff: ride.dropoff,
+    driverName: driver ? driver.name || "Driver" : null,
+    // The driver's position is only shared while the parcel is on its way
+    driverLocation: ride.status === "in_progress" ? ride.currentLocation : null,
+    pinSentTo: isUnderway && (await storage.getDeliveryPin(ride.id))
+      ? ride.parcel!.recipient.phone.replace(/\D/g, "").slice(-2)
+      : null,
+    completedAt: ride.completedAt,
+  };
+}
+
+/**
+ * Text the recipient a new PIN from their tracking link, if the old one was lost.
+ * Throws ProofOfDeliveryError if the parcel isn't on its way or a PIN was sent moments ago.
+ */
+export async function resendDeliveryPin(token: string): Promise<void> {
+  const ride = await resolveRecipientToken(token);
+  if (ride.status !== "accepted" && ride.status !== "in_progress") {
+    throw new ProofOfDeliveryError("Parcel is not on its way", 400);
+  }
+
+  const issued = await storage.getDeliveryPin(ride.id);
+  if (issued && Date.now() - new Date(issued.issuedAt).getTime() < PIN_RESEND_INTERVAL_MS) {
+    throw new ProofOfDeliveryError("A PIN was just sent; wait a minute before asking for another", 429);
+  }
+  await issueDeliveryPin(ride);
+}
+
+// Only the assigned driver collects proof, and only while the parcel is on its way
+function assertCollecting(ride: Ride, driverId: string) {
+  if (ride.deliveryType !== "parcel") {
+    throw new ProofOfDeliveryError("Ride is not a parcel delivery", 400);
+  }
+  if (ride.driverId !== driverId) {
+    throw new ProofOfDeliveryError("Not authorized", 403);
+  }
+  if (ride.status !== "in_progress") {
+    throw new ProofOfDeliveryError("Parcel is not on its way", 400);
+  }
+}
+
+/**
+ * Complete a parcel delivery with the PIN the recipient read out to the driver.
+ * Throws ProofOfDeliveryError if the PIN is wrong or its attempts are used up.
+ */
+export async function completeDelivery(ride: Ride, driverId: string, pin: string): Promise<Ride> {
+  assertCollecting(ride, driverId);
+
+  if (!(await storage.getDeliveryPin(ride.id))) {
+    throw new ProofOfDeliveryError("The recipient has no PIN yet; they can have one texted from their tracking link", 409);
+  }
+  // Each entry is counted before it is checked, so guesses sent side by side can't get past the limit
+  const issued = await storage.countDeliveryPinAttempt(ride.id, MAX_PIN_ATTEMPTS);
+  if (!issued) {
+    throw new ProofOfDeliveryError("Too many wrong PINs; the recipient can have a new one texted from their tracking link", 429);
+  }
+
+  const pinHash = hashPin(ride, pin);
+  if (!safeEqual(issued.pinHash, pinHash)) {
+    throw new ProofOfDeliveryError("Wrong delivery PIN", 400);
+  }
+  // Used up before the ride completes, so the same PIN can't get through twice
+  if (!(await storage.consumeDeliveryPin(ride.id, pinHash))) {
+    throw new ProofOfDeliveryError("Delivery PIN has already been used", 409);
+  }
+
+  return transitionRide(ride.id, "complete", { id: driverId, role: "driver" }, {
+    photo: ride.proofOfDelivery?.photo != null,
+    signature: ride.proofOfDelivery?.signature != null,
+  });
+}
+
+/**
+ * Store a photo or signature captured at the dropoff and attach it to the ride.
+ * Retaking one replaces the earlier file. Every capture is kept in the ride's timeline.
+ */
+export async function saveProofOfDelivery(
+  ride: Ride,
+  driverId: string,
+  type: PodArtifactType,
+  file: { buffer: Buffer; mimetype: string },
+): Promise<Ride> {
+  assertCollecting(ride, driverId);
+
+  const extension = podContentTypes[type][file.mimetype];
+  if (!extension) {
+    throw new ProofOfDeliveryError(
+      type === "signature" ? "Signature must be a PNG image" : "Photo must be a JPEG, PNG or WebP image",
+      400,
+    );
+  }
+
+  const fileName = `${ride.id}-${type}.${extension}`;
+  await mkdir(POD_UPLOAD_DIR, { recursive: true });
+  await writeFile(path.join(POD_UPLOAD_DIR, fileName), file.buffer);
+
+  const capturedAt = new Date().toISOString();
+  const proofOfDelivery: ProofOfDelivery = {
+    ...(ride.proofOfDelivery ?? { pinVerifiedAt: null, photo: null, signature: null }),
+    [type]: { fileName, contentType: file.mimetype, capturedAt },
+  };
+  const updatedRide = await storage.updateRide(ride.id, { proofOfDelivery });
+
+  await storage.addRideEvent({
+    rideId: ride.id,
+    type: type === "photo" ? "pod_photo" : "pod_signature",
+    fromStatus: ride.status,
+    toStatus: ride.status,
+    actorId: driverId,
+    actorRole: "driver",
+    data: { fileName, bytes: file.buffer.length },
+  });
+  return updatedRide!;
+}
+
+// Path of a stored proof-of-delivery file, or null if the ride has none of that type
+export function proofOfDeliveryFile(ride: Ride, type: PodArtifactType): { path: string; contentType: string } | null {
+  const artifact = ride.proofOfDelivery?.[type];
+  if (!artifact) return null;
+  return { path: path.join(POD_UPLOAD_DIR, artifact.fileName), contentType: artifact.contentType };
+}
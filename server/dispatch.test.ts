@@ -0,0 +1,86 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import type { WebSocket } from "ws";
+import type { LatLng } from "@shared/geo";
+import type { Ride } from "@shared/schema";
+import { declineOffer, dispatchRide, endDispatch, updateDriverLocation } from "./dispatch";
+import { userConnected } from "./notifications";
+import { loadRoadGraph } from "./routing";
+import { storage } from "./storage";
+import { createTestRide, createTestUser } from "./testing";
+
+const graphDir = fs.mkdtempSync(path.join(os.tmpdir(), "road-graph-"));
+
+afterAll(() => {
+  loadRoadGraph(path.join(graphDir, "missing.json"));
+  fs.rmSync(graphDir, { recursive: true, force: true });
+});
+
+async function goOnline(location: LatLng) {
+  const driver = await createTestUser("driver");
+  userConnected(driver, {} as WebSocket);
+  updateDriverLocation(driver.id, location);
+  return driver;
+}
+
+async function requestRide(pickup: LatLng): Promise<Ride> {
+  const customer = await createTestUser("customer");
+  const ride = await createTestRide(customer.id, { pickup });
+  return (await storage.updateRideStatus(ride.id, "pending_stake", "waiting", {}))!;
+}
+
+async function currentOffer(rideId: string) {
+  const offers = (await storage.getRideEvents(rideId)).filter(event => event.type === "offer");
+  return offers[offers.length - 1]?.data as { driverId: string; etaMinutes: number } | undefined;
+}
+
+describe("dispatch", () => {
+  it("offers the ride to the driver with the shortest drive to the pickup", async () => {
+    // The nearer driver is across a river from the pickup, with the only bridge 2km east
+    const pickup = { lat: 59.32, lng: 18.06 };
+    const acrossRiver = { lat: 59.311, lng: 18.06 };
+    const upTheRoad = { lat: 59.34, lng: 18.06 };
+    const file = path.join(graphDir, "river.json");
+    fs.writeFileSync(file, JSON.stringify({
+      nodes: [[pickup.lat, pickup.lng], [upTheRoad.lat, upTheRoad.lng], [acrossRiver.lat, acrossRiver.lng], [59.311, 18.1], [59.32, 18.1]],
+      edges: [[0, 1, 50, 0], [2, 3, 30, 0], [3, 4, 30, 0], [4, 0, 30, 0]],
+    }));
+    loadRoadGraph(file);
+
+    const nearer = await goOnline(acrossRiver);
+    const faster = await goOnline(upTheRoad);
+    const ride = await requestRide(pickup);
+    await dispatchRide(ride);
+
+    // 2.2km at 50 km/h, against 5.5km at 30 km/h for the nearer driver
+    expect(await currentOffer(ride.id)).toMatchObject({ driverId: faster.id, etaMinutes: 2.7 });
+    await declineOffer(ride.id, faster.id);
+    expect((await currentOffer(ride.id))?.driverId).toBe(nearer.id);
+    endDispatch(ride.id);
+  });
+
+  it("routes only the nearest idle drivers on each offer and reaches the rest as they decline", async () => {
+    loadRoadGraph(path.join(graphDir, "missing.json"));
+    const pickup = { lat: 60.17, lng: 24.94 };
+    const nearest = [];
+    for (let i = 1; i <= 5; i++) {
+      const driver = await goOnline({ lat: pickup.lat + i * 0.001, lng: pickup.lng });
+      await storage.updateUser(driver.id, { reputation: 0 });
+      nearest.push(driver);
+    }
+    // Its reputation would rank it first, 1.7km out, if every driver were routed
+    const farthest = await goOnline({ lat: pickup.lat + 0.015, lng: pickup.lng });
+    await storage.updateUser(farthest.id, { reputation: 100 });
+
+    const ride = await requestRide(pickup);
+    await dispatchRide(ride);
+    expect((await currentOffer(ride.id))?.driverId).toBe(nearest[0].id);
+
+    // With one of the five out of the way, the sixth is routed and ranks first
+    await declineOffer(ride.id, nearest[0].id);
+    expect((await currentOffer(ride.id))?.driverId).toBe(farthest.id);
+    endDispatch(ride.id);
+  });
+});
@@ -0,0 +1,272 @@
+import type { Ride, RideOffer, InsertRideEvent } from "@shared/schema";
+import { haversineKm, type LatLng } from "@shared/geo";
+import { storage, toAvailableRide } from "./storage";
+import { planRoute } from "./routing";
+import { matchPool, poolLocation } from "./pooling";
+import { getOnlineUserIds, isUserOnline, notifyUser } from "./notifications";
+
+// How long a driver has to answer an offer before it moves to the next driver
+const OFFER_TIMEOUT_MS = parseInt(process.env.DISPATCH_OFFER_TIMEOUT_MS || "15000", 10);
+
+// Drivers further than this from the pickup are not offered the ride
+const DISPATCH_RADIUS_KM = 10;
+
+// ETA head start (in minutes) a 100-reputation driver gets over a 0-reputation one
+const REPUTATION_WEIGHT_MINUTES = 5;
+
+// Idle drivers routed on the road graph for each offer, nearest in a straight line first
+const ROUTED_DRIVERS = 5;
+
+interface Offer {
+  driverId: string;
+  expiresAt: number;
+  timer: NodeJS.Timeout;
+}
+
+interface Dispatch {
+  rideId: string;
+  // Drivers who already had their turn on this ride
+  tried: Set<string>;
+  // Null between offers while the next driver is being picked
+  offer: Offer | null;
+}
+
+interface Candidate {
+  driverId: string;
+  location: LatLng;
+  etaMinutes: number;
+  score: number;
+}
+
+// Last position each online driver reported while idle, by driver ID
+const driverLocations = new Map<string, LatLng>();
+
+// Rides currently being offered driver by driver, by ride ID
+const dispatches = new Map<string, Dispatch>();
+
+export function updateDriverLocation(driverId: string, location: LatLng) {
+  if (isUserOnline(driverId)) {
+    driverLocations.set(driverId, { lat: location.lat, lng: location.lng });
+  }
+}
+
+// Position of an online driver; drivers who went offline are forgotten
+function driverLocation(driverId: string): LatLng | null {
+  if (!isUserOnline(driverId)) {
+    driverLocations.delete(driverId);
+    return null;
+  }
+  return driverLocations.get(driverId) ?? null;
+}
+
+/**
+ * Positions of online drivers with no active ride and no pending offer.
+ */
+export async function getIdleDriverLocations(): Promise<LatLng[]> {
+  const locations: LatLng[] = [];
+  for (const driverId of getOnlineUserIds("driver")) {
+    const location = driverLocation(driverId);
+    if (!location || isHoldingOffer(driverId)) continue;
+    if (await storage.getActiveRide(driverId)) continue;
+    locations.push(location);
+  }
+  return locations;
+}
+
+function isHoldingOffer(driverId: string): boolean {
+  return Array.from(dispatches.values()).some(dispatch => dispatch.offer?.driverId === driverId);
+}
+
+/**
+ * Whether the ride is still going through driver-by-driver offers.
+ * Such rides are hidden from the open pool.
+ */
+export function isBeingDispatched(rideId: string): boolean {
+  return dispatches.has(rideId);
+}
+
+// Only the driver holding the current offer may accept a ride that is being dispatched
+export function canAcceptRide(rideId: string, driverId: string): boolean {
+  const dispatch = dispatches.get(rideId);
+  return !dispatch || dispatch.offer?.driverId === driverId;
+}
+
+function recordEvent(ride: Ride, event: Pick<InsertRideEvent, "type" | "actorId" | "actorRole" | "data">) {
+  return storage.addRideEvent({
+    rideId: ride.id,
+    fromStatus: ride.status,
+    toStatus: ride.status,
+    ...event,
+  });
+}
+
+function toCandidate(driverId: string, location: LatLng, etaMinutes: number, reputation: number): Candidate {
+  return {
+    driverId,
+    location,
+    etaMinutes,
+    score: etaMinutes - (reputation / 100) * REPUTATION_WEIGHT_MINUTES,
+  };
+}
+
+// Idle online drivers near the pickup, and for pool requests drivers whose pool it fits, best first
+async function rankDrivers(ride: Ride, tried: Set<string>): Promise<Candidate[]> {
+  const candidates: Candidate[] = [];
+  const idle: { driverId: string; location: LatLng; reputation: number }[] = [];
+
+  for (const driverId of getOnlineUserIds("driver")) {
+    if (tried.has(driverId) || isHoldingOffer(driverId)) continue;
+
+    const activeRides = await storage.getActiveRides(driverId);
+    if (activeRides.length > 0 && ride.rideType !== "pool") continue;
+
+    // Drivers on a ride are wherever their last location update put them
+    const location = activeRides.length > 0 ? poolLocation(activeRides) : driverLocation(driverId);
+    if (!location || haversineKm(location, ride.pickup) > DISPATCH_RADIUS_KM) continue;
+
+    const user = await storage.getUser(driverId);
+    if (!user || user.role !== "driver") continue;
+
+    if (activeRides.length > 0) {
+      const match = matchPool(ride, activeRides, location);
+      if (match) candidates.push(toCandidate(driverId, location, match.pickupEtaMinutes, user.reputation));
+    } else {
+      idle.push({ driverId, location, reputation: user.reputation });
+    }
+  }
+
+  // Road searches run on the request thread, so only the nearest idle drivers are routed on each offer.
+  // The rest stay untried and come up on a later offer if these drivers turn the ride down
+  idle.sort((a, b) => haversineKm(a.location, ride.pickup) - haversineKm(b.location, ride.pickup));
+  for (const { driverId, location, reputation } of idle.slice(0, ROUTED_DRIVERS)) {
+    const etaMinutes = planRoute([location, ride.pickup]).durationMinutes;
+    candidates.push(toCandidate(driverId, location, etaMinutes, reputation));
+  }
+
+  return candidates.sort((a, b) => a.score - b.score);
+}
+
+// Offer the ride to the best remaining driver, or hand it to the open pool if there is none
+async function offerNext(dispatch: Dispatch): Promise<void> {
+  const ride = await storage.getRide(dispatch.rideId);
+  if (!ride || ride.status !== "waiting") {
+    dispatches.delete(dispatch.rideId);
+    return;
+  }
+
+  const [best] = await rankDrivers(ride, dispatch.tried);
+
+  // The dispatch may have ended (accepted or cancelled) while we were ranking
+  if (dispatches.get(dispatch.rideId) !== dispatch) return;
+
+  if (!best) {
+    dispatches.delete(dispatch.rideId);
+    await recordEvent(ride, {
+      type: "release",
+      actorId: null,
+      actorRole: "system",
+      data: { driversTried: dispatch.tried.size },
+    });
+    return;
+  }
+
+  const customer = await storage.getUser(ride.customerId);
+  const expiresAt = Date.now() + OFFER_TIMEOUT_MS;
+
+  dispatch.tried.add(best.driverId);
+  dispatch.offer = {
+    driverId: best.driverId,
+    expiresAt,
+    timer: setTimeout(() => {
+      expireOffer(dispatch.rideId, best.driverId).catch((error) => {
+        console.error("Dispatch timeout error:", error);
+      });
+    }, OFFER_TIMEOUT_MS),
+  };
+
+  await recordEvent(ride, {
+    type: "offer",
+    actorId: null,
+    actorRole: "system",
+    data: {
+      driverId: best.driverId,
+      etaMinutes: Math.round(best.etaMinutes * 10) / 10,
+      expiresAt: new Date(expiresAt).toISOString(),
+    },
+  });
+
+  const offer: RideOffer = {
+    ...toAvailableRide(ride, customer, best.location),
+    etaMinutes: Math.max(1, Math.round(best.etaMinutes)),
+    expiresAt: new Date(expiresAt).toISOString(),
+  };
+  notifyUser(best.driverId, { type: "ride_offer", data: offer });
+}
+
+async function expireOffer(rideId: string, driverId: string): Promise<void> {
+  const dispatch = dispatches.get(rideId);
+  if (!dispatch || dispatch.offer?.driverId !== driverId) return;
+
+  dispatch.offer = null;
+  notifyUser(driverId, { type: "ride_offer_revoked", rideId });
+
+  const ride = await storage.getRide(rideId);
+  if (ride) {
+    await recordEvent(ride, {
+      type: "timeout",
+      actorId: null,
+      actorRole: "system",
+      data: { driverId },
+    });
+  }
+  await offerNext(dispatch);
+}
+
+/**
+ * Start offering a newly requested ride to drivers, one at a time.
+ */
+export async function dispatchRide(ride: Ride): Promise<void> {
+  if (dispatches.has(ride.id)) return;
+
+  const dispatch: Dispatch = { rideId: ride.id, tried: new Set(), offer: null };
+  dispatches.set(ride.id, dispatch);
+  await offerNext(dispatch);
+}
+
+/**
+ * Turn down the offer the driver currently holds and move on to the next driver.
+ * Returns false if the driver holds no offer for this ride.
+ */
+export async function declineOffer(rideId: string, driverId: string): Promise<boolean> {
+  const dispatch = dispatches.get(rideId);
+  if (!dispatch || dispatch.offer?.driverId !== driverId) return false;
+
+  clearTimeout(dispatch.offer.timer);
+  dispatch.offer = null;
+
+  const ride = await storage.getRide(rideId);
+  if (ride) {
+    await recordEvent(ride, {
+      type: "decline",
+      actorId: driverId,
+      actorRole: "driver",
+      data: null,
+    });
+  }
+  await offerNext(dispatch);
+  return true;
+}
+
+/**
+ * Stop dispatching a ride once it has been accepted or cancelled.
+ */
+export function endDispatch(rideId: string) {
+  const dispatch = dispatches.get(rideId);
+  if (!dispatch) return;
+
+  dispatches.delete(rideId);
+  if (dispatch.offer) {
+    clearTimeout(dispatch.offer.timer);
+    notifyUser(dispatch.offer.driverId, { type: "ride_offer_revoked", rideId });
+  }
+}
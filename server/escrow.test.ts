@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { storage } from "./storage";
+import { deposit, lockStake, settleRide } from "./ledger";
+import { MockEscrowChain } from "./escrowChain";
+import { EscrowStakeError, PolkadotEscrowService } from "./escrow";
+import { createTestRide, createTestUser } from "./testing";
+
+async function setup() {
+  const chain = new MockEscrowChain();
+  const service = new PolkadotEscrowService(chain);
+  const customer = await createTestUser("customer");
+  const driver = await createTestUser("driver");
+  await deposit(customer.id, 50);
+  const ride = await createTestRide(customer.id);
+  return { chain, service, customer, driver, ride };
+}
+
+describe("PolkadotEscrowService with MockEscrowChain", () => {
+  it("opens the ride's order and pays it out exactly as the ledger settled the ride", async () => {
+    const { chain, service, customer, driver, ride } = await setup();
+    await lockStake(ride);
+    const staked = await service.lockStake(ride);
+    expect(staked.escrow?.created?.stage).toBe("finalized");
+    expect(await chain.getOrder(ride.id)).toMatchObject({ customer: customer.walletAddress, amount: 20, status: "locked" });
+
+    const completed = { ...staked, driverId: driver.id, status: "completed" as const, actualFare: 12 };
+    await settleRide(completed);
+    const released = await service.release(completed);
+    expect(released.escrow?.released?.stage).toBe("finalized");
+    expect(await chain.getOrder(ride.id)).toMatchObject({
+      driver: driver.walletAddress, toDriver: 10.8, toCustomer: 8, status: "released",
+    });
+
+    // A finished release isn't sent again
+    await service.release(released);
+    const events = await storage.getRideEvents(ride.id);
+    expect(events.filter(event => event.type === "escrow_release")).toHaveLength(1);
+  });
+
+  it("records a failed call on the ride and its timeline", async () => {
+    const { service, ride } = await setup();
+    await service.lockStake(ride);
+
+    const error = await service.lockStake(ride).catch(error => error);
+    expect(error.message).toBe("OrderExists");
+    expect((await storage.getRide(ride.id))!.escrow?.created).toMatchObject({ stage: "failed", error: "OrderExists" });
+    const events = await storage.getRideEvents(ride.id);
+    expect(events.at(-1)).toMatchObject({ type: "escrow_failed", data: { action: "created", error: "OrderExists" } });
+  });
+
+  it("only confirms wallet stakes that hold exactly the ride's stake", async () => {
+    const { chain, service, customer, ride } = await setup();
+    const stages: { blockHash: string | null }[] = [];
+    const receipt = await chain.createOrder(ride.id, customer.walletAddress, 25, progress => stages.push(progress));
+
+    const error = await service.confirmStake(ride, receipt.txHash, stages.at(-1)!.blockHash!).catch(error => error);
+    expect(error).toBeInstanceOf(EscrowStakeError);
+    expect(error.status).toBe(400);
+    expect((await storage.getRide(ride.id))!.escrow).toBeNull();
+  });
+
+  it("keeps why a wallet stake failed, unless the ride has an order", async () => {
+    const { service, ride } = await setup();
+    const failedStake = { txHash: `0x${"ab".repeat(32)}`, blockNumber: 12, error: "balances.InsufficientBalance" };
+
+    const recorded = await service.recordFailedStake(ride, failedStake);
+    expect(recorded.escrow?.created).toMatchObject({ stage: "failed", ...failedStake });
+    const events = await storage.getRideEvents(ride.id);
+    expect(events.at(-1)).toMatchObject({ type: "escrow_failed", data: { action: "created", error: failedStake.error } });
+
+    const staked = await service.lockStake(ride);
+    expect((await service.recordFailedStake(staked, failedStake)).escrow?.created?.stage).toBe("finalized");
+  });
+});
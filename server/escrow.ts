@@ -0,0 +1,238 @@
+import type {
+  ChainReceipt,
+  ChainTransaction,
+  EscrowAction,
+  EscrowOrder,
+  FailedStake,
+  Ride,
+  RideEscrow,
+  RideEventType,
+} from "@shared/schema";
+import { u8aEq } from "@polkadot/util";
+import { decodeAddress } from "@polkadot/util-crypto";
+import { userAccount } from "@shared/ledger";
+import type { TxProgress } from "@shared/transactionTracker";
+import { storage } from "./storage";
+import { roundMoney } from "./pricing";
+import { notifyUser } from "./notifications";
+import { escrowChain, type EscrowChainAdapter, type EscrowProgressHandler, type EscrowSettlement } from "./escrowChain";
+
+const noEscrow: RideEscrow = { created: null, released: null, refunded: null, orphaned: null, reconciledAt: null };
+
+const successEvents: Record<EscrowAction, RideEventType> = {
+  created: "escrow_create",
+  released: "escrow_release",
+  refunded: "escrow_refund",
+};
+
+export class EscrowStakeError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "EscrowStakeError";
+  }
+}
+
+// The same account, whichever network prefix each address was encoded with
+function isSameAccount(a: string, b: string): boolean {
+  try {
+    return u8aEq(decodeAddress(a), decodeAddress(b));
+  } catch {
+    return a === b;
+  }
+}
+
+/**
+ * Keeps each ride's order in the escrow contract in step with the ledger. Every call the server makes takes its
+ * amounts from the ride and the ledger rather than from the client, and orders customers open from their own
+ * wallet are checked on chain before they count. Each call's progress is saved on the ride's escrow and pushed to the customer as it happens.
+ */
+export class PolkadotEscrowService {
+  constructor(private chain: EscrowChainAdapter) {}
+
+  // Open the ride's order for its stake, right after the ledger locked it
+  async lockStake(ride: Ride): Promise<Ride> {
+    const customer = await storage.getUser(ride.customerId);
+    return this.call(ride, "created", (onProgress) =>
+      this.chain.createOrder(ride.id, customer!.walletAddress, ride.stakedAmount, onProgress));
+  }
+
+  // Pay out a completed ride's order as the ledger withdrew it to each side
+  async release(ride: Ride): Promise<Ride> {
+    if (!this.canClose(ride)) return ride;
+    const settlement = await this.ledgerSettlement(ride);
+    return this.call(ride, "released", (onProgress) => this.chain.confirmDelivery(ride.id, settlement, onProgress));
+  }
+
+  // Return a cancelled ride's order, less any cancellation fee, as the ledger withdrew it to each side
+  async refund(ride: Ride): Promise<Ride> {
+    if (!this.canClose(ride)) return ride;
+    const settlement = await this.ledgerSettlement(ride);
+    return this.call(ride, "refunded", (onProgress) => this.chain.refund(ride.id, settlement, onProgress));
+  }
+
+  /**
+   * Confirm the order the customer opened for the ride from their own wallet. The transaction has to be finalized
+   * with the ride's OrderCreated event, and the order has to be locked, theirs, and hold exactly the ride's stake.
+   * Resolves the ride with its order recorded; throws EscrowStakeError otherwise.
+   */
+  async confirmStake(ride: Ride, txHash: string, blockHash: string): Promise<Ride> {
+    const customer = await storage.getUser(ride.customerId);
+    let receipt: ChainReceipt | undefined;
+    let order: EscrowOrder | undefined;
+    try {
+      receipt = await this.chain.findOrderCreated(ride.id, txHash, blockHash);
+      order = receipt && await this.chain.getOrder(ride.id);
+    } catch (error) {
+      console.error("Stake lookup error:", error);
+      throw new EscrowStakeError("Could not check your stake on chain. Please try again.", 502);
+    }
+
+    if (!receipt) throw new EscrowStakeError("Stake transaction not found in a finalized block", 400);
+    if (!order || order.status !== "locked") throw new EscrowStakeError("The ride's escrow order is not locked", 400);
+    if (!isSameAccount(order.customer, customer!.walletAddress)) {
+      throw new EscrowStakeError("The ride's escrow order belongs to another account", 403);
+    }
+    // Anything over the stake would have no place in the ledger, so such orders wait to be refunded by reconciliation
+    if (roundMoney(order.amount) !== roundMoney(ride.stakedAmount)) {
+      throw new EscrowStakeError(`The escrow order holds ${order.amount}, not the ${ride.stakedAmount} stake`, 400);
+    }
+
+    const transaction: ChainTransaction = {
+      stage: "finalized",
+      txHash,
+      blockNumber: receipt.blockNumber,
+      error: null,
+      updatedAt: new Date().toISOString(),
+    };
+    const updatedRide = await this.saveTransaction(ride.id, "created", transaction);
+    notifyUser(ride.customerId, { type: "escrow_transaction", data: { rideId: ride.id, action: "created", transaction } });
+    await this.addEvent(ride, "escrow_create", { ...receipt, amount: order.amount });
+    return updatedRide ?? ride;
+  }
+
+  // Keep the reason a stake from the customer's wallet failed on a ride called off without an order
+  async recordFailedStake(ride: Ride, failedStake: FailedStake): Promise<Ride> {
+    if (ride.escrow?.created) return ride;
+    const transaction: ChainTransaction = { stage: "failed", ...failedStake, updatedAt: new Date().toISOString() };
+    const updatedRide = await this.saveTransaction(ride.id, "created", transaction);
+    await this.addEvent(ride, "escrow_failed", { action: "created", error: failedStake.error, txHash: failedStake.txHash });
+    return updatedRide ?? ride;
+  }
+
+  /**
+   * Check the chain for an order left behind by a ride called off before its stake was confirmed,
+   * e.g. a wallet stake whose confirmation never arrived. An order still locked is flagged as orphaned
+   * and refunded to the customer in full; a refund that failed is tried again on the next pass.
+   */
+  async reconcile(ride: Ride): Promise<Ride> {
+    const escrow = ride.escrow ?? noEscrow;
+    if (!escrow.orphaned) {
+      const order = await this.chain.getOrder(ride.id);
+      const orphaned = order?.status === "locked" ? { amount: order.amount, flaggedAt: new Date().toISOString() } : null;
+      ride = (await storage.updateRide(ride.id, {
+        escrow: { ...escrow, orphaned, reconciledAt: new Date().toISOString() },
+      })) ?? ride;
+      if (!orphaned) return ride;
+      await this.addEvent(ride, "escrow_orphaned", orphaned);
+    }
+
+    const { orphaned, refunded } = ride.escrow!;
+    if (refunded && refunded.stage !== "failed") return ride;
+    const settlement: EscrowSettlement = { driver: null, toDriver: 0, toCustomer: orphaned!.amount };
+    return this.call(ride, "refunded", (onProgress) => this.chain.refund(ride.id, settlement, onProgress));
+  }
+
+  // Have reconciliation look for the ride's order again, e.g. when a stake turns up after the ride was checked
+  async recheck(ride: Ride): Promise<void> {
+    if (!ride.escrow?.reconciledAt || ride.escrow.orphaned) return;
+    await storage.updateRide(ride.id, { escrow: { ...ride.escrow, reconciledAt: null } });
+  }
+
+  getOrder(rideId: string): Promise<EscrowOrder | undefined> {
+    return this.chain.getOrder(rideId);
+  }
+
+  // The order exists and no earlier release or refund is done or still on its way
+  private canClose(ride: Ride): boolean {
+    const { created, released, refunded } = ride.escrow ?? noEscrow;
+    const closing = released ?? refunded;
+    return created?.stage === "finalized" && (!closing || closing.stage === "failed");
+  }
+
+  // What the ledger withdrew to each side's wallet when it settled the ride; the contract pays exactly that
+  private async ledgerSettlement(ride: Ride): Promise<EscrowSettlement> {
+    const postings = await storage.getRideLedgerPostings(ride.id);
+    const withdrawnBy = (account: string) => roundMoney(postings
+      .filter(posting => posting.type === "withdrawal" && posting.fromAccount === account)
+      .reduce((sum, posting) => sum + posting.amount, 0));
+
+    const driver = ride.driverId ? await storage.getUser(ride.driverId) : undefined;
+    return {
+      driver: driver?.walletAddress ?? null,
+      toDriver: ride.driverId ? withdrawnBy(userAccount(ride.driverId)) : 0,
+      toCustomer: withdrawnBy(userAccount(ride.customerId)),
+    };
+  }
+
+  /**
+   * Make one contract call, saving each stage it reaches and recording the outcome on the ride's timeline.
+   * Rethrows the chain's error once the failure is saved.
+   */
+  private async call(
+    ride: Ride,
+    action: EscrowAction,
+    send: (onProgress: EscrowProgressHandler) => Promise<ChainReceipt>,
+  ): Promise<Ride> {
+    let last = null as TxProgress | null;
+    // Stages arrive faster than they are written, so writes queue up behind each other
+    let saving: Promise<Ride | undefined> = Promise.resolve(undefined);
+    const save = (progress: TxProgress) => {
+      last = progress;
+      const transaction: ChainTransaction = {
+        stage: progress.stage,
+        txHash: progress.txHash,
+        blockNumber: progress.blockNumber,
+        error: progress.error,
+        updatedAt: new Date().toISOString(),
+      };
+      saving = saving.then(() => this.saveTransaction(ride.id, action, transaction));
+      notifyUser(ride.customerId, { type: "escrow_transaction", data: { rideId: ride.id, action, transaction } });
+    };
+
+    try {
+      const receipt = await send(save);
+      const updatedRide = await saving;
+      await this.addEvent(ride, successEvents[action], receipt);
+      return updatedRide ?? ride;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // Calls turned away before they were submitted never reported a stage
+      if (last?.stage !== "failed") {
+        save({ ...(last ?? { txHash: null, blockHash: null, blockNumber: null }), stage: "failed", error: message });
+      }
+      await saving;
+      await this.addEvent(ride, "escrow_failed", { action, error: message, txHash: last?.txHash ?? null });
+      throw error;
+    }
+  }
+
+  private async saveTransaction(rideId: string, action: EscrowAction, transaction: ChainTransaction): Promise<Ride | undefined> {
+    const ride = await storage.getRide(rideId);
+    if (!ride) return undefined;
+    return storage.updateRide(rideId, { escrow: { ...(ride.escrow ?? noEscrow), [action]: transaction } });
+  }
+
+  private async addEvent(ride: Ride, type: RideEventType, data: Record<string, unknown>): Promise<void> {
+    await storage.addRideEvent({
+      rideId: ride.id,
+      type,
+      fromStatus: ride.status,
+      toStatus: ride.status,
+      actorId: null,
+      actorRole: "system",
+      data,
+    });
+  }
+}
+
+export const escrowService = new PolkadotEscrowService(escrowChain);
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import type { TxProgress } from "@shared/transactionTracker";
+import { EscrowChainError, MockEscrowChain } from "./escrowChain";
+
+const customer = "5GrwvaEF5zXb26Fz9rcQpDWS57CtERHpNehXCPcNoHGKutQY";
+const driver = "5FHneW46xGXgs5mUiveU4sbTyGBzmstUspZC92UhjJM694ty";
+
+async function expectChainError(promise: Promise<unknown>, message: string) {
+  const error = await promise.catch((error: unknown) => error) as EscrowChainError;
+  expect(error).toBeInstanceOf(EscrowChainError);
+  expect(error.message).toBe(message);
+}
+
+describe("MockEscrowChain", () => {
+  it("opens a locked order and reports each stage through to finalized", async () => {
+    const chain = new MockEscrowChain();
+    const stages: TxProgress[] = [];
+
+    const receipt = await chain.createOrder("ride-1", customer, 20, progress => stages.push(progress));
+    expect(stages.map(progress => progress.stage)).toEqual(["ready", "broadcast", "inBlock", "finalized"]);
+    expect(stages.every(progress => progress.txHash === receipt.txHash)).toBe(true);
+    expect(stages[3].blockNumber).toBe(receipt.blockNumber);
+    expect(await chain.getOrder("ride-1")).toEqual({
+      rideId: "ride-1", customer, driver: null, amount: 20, toDriver: 0, toCustomer: 0, status: "locked",
+    });
+  });
+
+  it("allows one order per ride", async () => {
+    const chain = new MockEscrowChain();
+    await chain.createOrder("ride-1", customer, 20);
+    await expectChainError(chain.createOrder("ride-1", customer, 5), "OrderExists");
+    expect((await chain.getOrder("ride-1"))!.amount).toBe(20);
+  });
+
+  it("releases an order once, as the settlement splits it", async () => {
+    const chain = new MockEscrowChain();
+    await chain.createOrder("ride-1", customer, 20);
+
+    await chain.confirmDelivery("ride-1", { driver, toDriver: 10.8, toCustomer: 8 });
+    expect(await chain.getOrder("ride-1")).toMatchObject({ driver, toDriver: 10.8, toCustomer: 8, status: "released" });
+
+    await expectChainError(chain.confirmDelivery("ride-1", { driver, toDriver: 10.8, toCustomer: 8 }), "OrderClosed");
+    await expectChainError(chain.refund("ride-1", { driver: null, toDriver: 0, toCustomer: 20 }), "OrderClosed");
+  });
+
+  it("refuses payouts above what the order holds", async () => {
+    const chain = new MockEscrowChain();
+    await chain.createOrder("ride-1", customer, 20);
+
+    await expectChainError(chain.refund("ride-1", { driver, toDriver: 5, toCustomer: 15.01 }), "PayoutExceedsOrder");
+    expect((await chain.getOrder("ride-1"))!.status).toBe("locked");
+
+    await chain.refund("ride-1", { driver, toDriver: 5, toCustomer: 15 });
+    expect((await chain.getOrder("ride-1"))!.status).toBe("refunded");
+  });
+
+  it("can't close orders that were never opened", async () => {
+    const chain = new MockEscrowChain();
+    await expectChainError(chain.refund("ride-1", { driver: null, toDriver: 0, toCustomer: 1 }), "OrderNotFound");
+    expect(await chain.getOrder("ride-1")).toBeUndefined();
+  });
+
+  it("finds a ride's order creation only by its own hash and block", async () => {
+    const chain = new MockEscrowChain();
+    const stages: TxProgress[] = [];
+    const created = await chain.createOrder("ride-1", customer, 20, progress => stages.push(progress));
+    const blockHash = stages[3].blockHash!;
+    const other = await chain.createOrder("ride-2", customer, 20);
+    const released = await chain.confirmDelivery("ride-1", { driver, toDriver: 10, toCustomer: 10 });
+
+    expect(await chain.findOrderCreated("ride-1", created.txHash, blockHash)).toEqual(created);
+    expect(await chain.findOrderCreated("ride-2", created.txHash, blockHash)).toBeUndefined();
+    expect(await chain.findOrderCreated("ride-1", created.txHash, "0xdead")).toBeUndefined();
+    expect(await chain.findOrderCreated("ride-1", other.txHash, blockHash)).toBeUndefined();
+    expect(await chain.findOrderCreated("ride-1", released.txHash, blockHash)).toBeUndefined();
+  });
+
+  it("mines the same hashes and blocks for the same calls", async () => {
+    const run = async () => {
+      const chain = new MockEscrowChain();
+      return [
+        await chain.createOrder("ride-1", customer, 20),
+        await chain.refund("ride-1", { driver: null, toDriver: 0, toCustomer: 20 }),
+      ];
+    };
+    const [first, second] = [await run(), await run()];
+    expect(second).toEqual(first);
+    expect(first.map(receipt => receipt.blockNumber)).toEqual([1, 2]);
+    expect(first[0].txHash).not.toBe(first[1].txHash);
+  });
+});
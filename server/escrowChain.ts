@@ -0,0 +1,235 @@
+import { createHash } from "crypto";
+import { ApiPromise, Keyring, WsProvider } from "@polkadot/api";
+import type { KeyringPair } from "@polkadot/keyring/types";
+import { BN, BN_ZERO } from "@polkadot/util";
+import type { ChainReceipt, EscrowOrder, EscrowOrderStatus } from "@shared/schema";
+import {
+  RideEscrowContract,
+  RideEscrowContractError,
+  type RideEscrowTxArgs,
+  type RideEscrowTxMessage,
+} from "@shared/rideEscrow";
+import { TransactionFailedError, type TxProgress } from "@shared/transactionTracker";
+import { roundMoney } from "./pricing";
+
+// How an order's funds are paid out; anything left over stays with the contract as the platform's fee
+export interface EscrowSettlement {
+  driver: string | null;
+  toDriver: number;
+  toCustomer: number;
+}
+
+// Called as a call's transaction moves through its stages, ending with finalized or failed
+export type EscrowProgressHandler = (progress: TxProgress) => void;
+
+/**
+ * An escrow contract the server drives from its operator account.
+ * Calls resolve once the transaction is finalized, and throw EscrowChainError if it fails on the way.
+ */
+export interface EscrowChainAdapter {
+  // Open an order holding amount for the ride
+  createOrder(rideId: string, customer: string, amount: number, onProgress?: EscrowProgressHandler): Promise<ChainReceipt>;
+  // Close the order after a completed ride
+  confirmDelivery(rideId: string, settlement: EscrowSettlement, onProgress?: EscrowProgressHandler): Promise<ChainReceipt>;
+  // Close the order after a cancelled ride
+  refund(rideId: string, settlement: EscrowSettlement, onProgress?: EscrowProgressHandler): Promise<ChainReceipt>;
+  getOrder(rideId: string): Promise<EscrowOrder | undefined>;
+  // A finalized createOrder for the ride that someone else signed, found by its hash and block; undefined if it isn't there
+  findOrderCreated(rideId: string, txHash: string, blockHash: string): Promise<ChainReceipt | undefined>;
+}
+
+export class EscrowChainError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EscrowChainError";
+  }
+}
+
+/**
+ * Escrow contract simulated in process, for tests and offline demos.
+ * Enforces the contract's rules and mines and finalizes one block per call; the same calls in the same order
+ * always produce the same tx hashes and block numbers.
+ */
+export class MockEscrowChain implements EscrowChainAdapter {
+  private orders = new Map<string, EscrowOrder>();
+  private blockNumber = 0;
+  // Every mined call by tx hash
+  private transactions = new Map<string, { call: string; rideId: string; blockHash: string; blockNumber: number }>();
+
+  private mine(call: string, rideId: string, onProgress?: EscrowProgressHandler): ChainReceipt {
+    this.blockNumber += 1;
+    const txHash = `0x${createHash("sha256").update(`${this.blockNumber}:${call}:${rideId}`).digest("hex")}`;
+    const blockHash = `0x${createHash("sha256").update(`block:${this.blockNumber}`).digest("hex")}`;
+
+    this.transactions.set(txHash, { call, rideId, blockHash, blockNumber: this.blockNumber });
+
+    const progress: TxProgress = { stage: "ready", txHash, blockHash: null, blockNumber: null, error: null };
+    onProgress?.(progress);
+    onProgress?.({ ...progress, stage: "broadcast" });
+    onProgress?.({ ...progress, stage: "inBlock", blockHash, blockNumber: this.blockNumber });
+    onProgress?.({ ...progress, stage: "finalized", blockHash, blockNumber: this.blockNumber });
+    return { txHash, blockNumber: this.blockNumber };
+  }
+
+  private close(rideId: string, status: EscrowOrderStatus, settlement: EscrowSettlement, onProgress?: EscrowProgressHandler): ChainReceipt {
+    const order = this.orders.get(rideId);
+    if (!order) throw new EscrowChainError("OrderNotFound");
+    if (order.status !== "locked") throw new EscrowChainError("OrderClosed");
+    if (roundMoney(settlement.toDriver + settlement.toCustomer) > order.amount) {
+      throw new EscrowChainError("PayoutExceedsOrder");
+    }
+
+    this.orders.set(rideId, { ...order, ...settlement, status });
+    return this.mine(status === "released" ? "confirm_delivery" : "refund", rideId, onProgress);
+  }
+
+  async createOrder(rideId: string, customer: string, amount: number, onProgress?: EscrowProgressHandler): Promise<ChainReceipt> {
+    if (this.orders.has(rideId)) throw new EscrowChainError("OrderExists");
+    this.orders.set(rideId, { rideId, customer, driver: null, amount, toDriver: 0, toCustomer: 0, status: "locked" });
+    return this.mine("create_order", rideId, onProgress);
+  }
+
+  async confirmDelivery(rideId: string, settlement: EscrowSettlement, onProgress?: EscrowProgressHandler): Promise<ChainReceipt> {
+    return this.close(rideId, "released", settlement, onProgress);
+  }
+
+  async refund(rideId: string, settlement: EscrowSettlement, onProgress?: EscrowProgressHandler): Promise<ChainReceipt> {
+    return this.close(rideId, "refunded", settlement, onProgress);
+  }
+
+  async getOrder(rideId: string): Promise<EscrowOrder | undefined> {
+    return this.orders.get(rideId);
+  }
+
+  async findOrderCreated(rideId: string, txHash: string, blockHash: string): Promise<ChainReceipt | undefined> {
+    const transaction = this.transactions.get(txHash);
+    if (transaction?.call !== "create_order" || transaction.rideId !== rideId || transaction.blockHash !== blockHash) {
+      return undefined;
+    }
+    return { txHash, blockNumber: transaction.blockNumber };
+  }
+}
+
+interface ContractEscrowConfig {
+  rpcEndpoint: string;
+  contractAddress: string;
+  // Secret URI of the operator account that signs every call
+  operatorUri: string;
+  // How long a call may take to be finalized before it counts as failed
+  timeoutMs: number;
+}
+
+/**
+ * The deployed escrow contract, called through the shared RideEscrowContract wrapper.
+ * Connects on first use, so a node that is down only fails the calls that need it.
+ */
+export class ContractEscrowChain implements EscrowChainAdapter {
+  private connection: Promise<{ escrow: RideEscrowContract; operator: KeyringPair }> | null = null;
+
+  constructor(private config: ContractEscrowConfig) {}
+
+  private connect() {
+    if (!this.connection) {
+      this.connection = (async () => {
+        if (!this.config.operatorUri) throw new EscrowChainError("BACKEND_PRIVATE_KEY is not set");
+        const api = await ApiPromise.create({ provider: new WsProvider(this.config.rpcEndpoint) });
+        const escrow = new RideEscrowContract(api, this.config.contractAddress);
+        const operator = new Keyring({ type: "sr25519" }).addFromUri(this.config.operatorUri);
+        return { escrow, operator };
+      })();
+      // Let the next call try again rather than failing for good
+      this.connection.catch(() => {
+        this.connection = null;
+      });
+    }
+    return this.connection;
+  }
+
+  // Sign the message as the operator and wait for it to be finalized
+  private async submit<M extends RideEscrowTxMessage>(
+    message: M,
+    onProgress: EscrowProgressHandler | undefined,
+    value: BN,
+    ...args: RideEscrowTxArgs[M]
+  ): Promise<ChainReceipt> {
+    const { escrow, operator } = await this.connect();
+    try {
+      const tx = await escrow.tx(operator.address, message, value, ...args);
+      const { txHash, blockNumber } = await escrow.send(tx, operator, { timeoutMs: this.config.timeoutMs, onProgress });
+      return { txHash, blockNumber };
+    } catch (error) {
+      if (error instanceof RideEscrowContractError || error instanceof TransactionFailedError) {
+        throw new EscrowChainError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  private async settle(
+    message: "confirmDelivery" | "refund",
+    rideId: string,
+    settlement: EscrowSettlement,
+    onProgress?: EscrowProgressHandler,
+  ): Promise<ChainReceipt> {
+    const { escrow } = await this.connect();
+    return this.submit(
+      message,
+      onProgress,
+      BN_ZERO,
+      rideId,
+      settlement.driver,
+      escrow.toPlanck(settlement.toDriver),
+      escrow.toPlanck(settlement.toCustomer),
+    );
+  }
+
+  async createOrder(rideId: string, customer: string, amount: number, onProgress?: EscrowProgressHandler): Promise<ChainReceipt> {
+    const { escrow } = await this.connect();
+    return this.submit("createOrder", onProgress, escrow.toPlanck(amount), rideId, customer);
+  }
+
+  async confirmDelivery(rideId: string, settlement: EscrowSettlement, onProgress?: EscrowProgressHandler): Promise<ChainReceipt> {
+    return this.settle("confirmDelivery", rideId, settlement, onProgress);
+  }
+
+  async refund(rideId: string, settlement: EscrowSettlement, onProgress?: EscrowProgressHandler): Promise<ChainReceipt> {
+    return this.settle("refund", rideId, settlement, onProgress);
+  }
+
+  async getOrder(rideId: string): Promise<EscrowOrder | undefined> {
+    const { escrow, operator } = await this.connect();
+    const order = await escrow.getOrder(operator.address, rideId);
+    if (!order) return undefined;
+    return {
+      rideId,
+      customer: order.customer,
+      driver: order.driver,
+      amount: escrow.fromPlanck(order.amount),
+      toDriver: escrow.fromPlanck(order.toDriver),
+      toCustomer: escrow.fromPlanck(order.toCustomer),
+      status: order.status.toLowerCase() as EscrowOrderStatus,
+    };
+  }
+
+  async findOrderCreated(rideId: string, txHash: string, blockHash: string): Promise<ChainReceipt | undefined> {
+    const { escrow } = await this.connect();
+    try {
+      const receipt = await escrow.findReceipt(txHash, blockHash);
+      if (!receipt?.events.some((event) => event.name === "OrderCreated" && event.rideId === rideId)) return undefined;
+      return { txHash, blockNumber: receipt.blockNumber };
+    } catch (error) {
+      if (error instanceof RideEscrowContractError) throw new EscrowChainError(error.message);
+      throw error;
+    }
+  }
+}
+
+// Use the deployed contract when RIDE_ESCROW_CONTRACT is configured, otherwise the in-process mock
+export const escrowChain: EscrowChainAdapter = process.env.RIDE_ESCROW_CONTRACT
+  ? new ContractEscrowChain({
+    rpcEndpoint: process.env.POLKADOT_RPC || "wss://rococo-rpc.polkadot.io",
+    contractAddress: process.env.RIDE_ESCROW_CONTRACT,
+    operatorUri: process.env.BACKEND_PRIVATE_KEY || "",
+    timeoutMs: parseInt(process.env.ESCROW_TX_TIMEOUT_MS || "120000", 10),
+  })
+  : new MockEscrowChain();
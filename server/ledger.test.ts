@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import type { Ride, RideEscrow } from "@shared/schema";
+import {
+  EXTERNAL_DEPOSITS_ACCOUNT,
+  EXTERNAL_WITHDRAWALS_ACCOUNT,
+  PLATFORM_FEES_ACCOUNT,
+  escrowAccount,
+  userAccount,
+} from "@shared/ledger";
+import { storage, InsufficientFundsError } from "./storage";
+import { deposit, getBalance, LedgerError, lockStake, lockWalletStake, payTip, settleCancellation, settleRide } from "./ledger";
+import { createTestRide, createTestUser } from "./testing";
+
+// A customer with funds, a driver, and a ride between them staking 20 for an estimated 15
+async function setup(balance = 50) {
+  const customer = await createTestUser("customer");
+  const driver = await createTestUser("driver");
+  await deposit(customer.id, balance);
+  const ride = await createTestRide(customer.id);
+  const accounts = [
+    userAccount(customer.id), userAccount(driver.id), escrowAccount(ride.id),
+    PLATFORM_FEES_ACCOUNT, EXTERNAL_DEPOSITS_ACCOUNT, EXTERNAL_WITHDRAWALS_ACCOUNT,
+  ];
+  return { customer, driver, ride, accounts };
+}
+
+async function balances(accounts: string[]): Promise<number[]> {
+  return Promise.all(accounts.map(account => storage.getAccountBalance(account)));
+}
+
+// Money only moves between accounts: whatever one account gains, the others lose
+async function expectConserved(accounts: string[], before: number[]) {
+  const after = await balances(accounts);
+  const net = after.reduce((sum, balance, i) => sum + balance - before[i], 0);
+  expect(net).toBeCloseTo(0, 9);
+}
+
+const finalizedOrder: RideEscrow = {
+  created: { stage: "finalized", txHash: "0x01", blockNumber: 1, error: null, updatedAt: new Date().toISOString() },
+  released: null,
+  refunded: null,
+  orphaned: null,
+  reconciledAt: null,
+};
+
+describe("ledger", () => {
+  it("credits deposits to the user's balance", async () => {
+    const { customer } = await setup(42);
+    expect(await getBalance(customer.id)).toBe(42);
+  });
+
+  it("locks the stake in escrow and settles the fare, fee and refund out of it", async () => {
+    const { customer, driver, ride, accounts } = await setup();
+    const before = await balances(accounts);
+
+    await lockStake(ride);
+    expect(await getBalance(customer.id)).toBe(30);
+    expect(await storage.getAccountBalance(escrowAccount(ride.id))).toBeCloseTo(20, 9);
+
+    const completed: Ride = { ...ride, driverId: driver.id, status: "completed", actualFare: 12 };
+    await settleRide(completed);
+    expect(await storage.getAccountBalance(escrowAccount(ride.id))).toBeCloseTo(0, 9);
+    expect(await getBalance(customer.id)).toBe(38);
+    expect(await getBalance(driver.id)).toBe(10.8);
+    await expectConserved(accounts, before);
+
+    // The escrow is empty, so settling again pays nothing twice
+    await settleRide(completed);
+    expect(await getBalance(driver.id)).toBe(10.8);
+    expect(await getBalance(customer.id)).toBe(38);
+  });
+
+  it("never pays out more than the stake when the metered fare runs over it", async () => {
+    const { customer, driver, ride, accounts } = await setup();
+    const before = await balances(accounts);
+    await lockStake(ride);
+
+    await settleRide({ ...ride, driverId: driver.id, status: "completed", actualFare: 35 });
+    expect(await getBalance(customer.id)).toBe(30);
+    expect(await getBalance(driver.id)).toBe(18);
+    expect(await storage.getAccountBalance(escrowAccount(ride.id))).toBeCloseTo(0, 9);
+    await expectConserved(accounts, before);
+  });
+
+  it("turns away stakes the customer can't cover without posting anything", async () => {
+    const { customer, ride } = await setup(5);
+
+    await expect(lockStake(ride)).rejects.toBeInstanceOf(InsufficientFundsError);
+    expect(await getBalance(customer.id)).toBe(5);
+    expect(await storage.getRideLedgerPostings(ride.id)).toEqual([]);
+  });
+
+  it("splits a cancelled ride's escrow between the driver's fee and the customer's refund", async () => {
+    const { customer, driver, ride, accounts } = await setup();
+    const before = await balances(accounts);
+    await lockStake(ride);
+
+    await settleCancellation({
+      ...ride,
+      driverId: driver.id,
+      status: "cancelled",
+      cancellation: {
+        cancelledBy: "customer",
+        reason: "changed_plans",
+        note: null,
+        outcome: "after_accept",
+        fee: 4,
+        refund: 16,
+        atFault: "customer",
+        reputationPenalty: 0,
+      },
+    });
+    expect(await getBalance(customer.id)).toBe(46);
+    expect(await getBalance(driver.id)).toBe(4);
+    expect(await storage.getAccountBalance(escrowAccount(ride.id))).toBeCloseTo(0, 9);
+    await expectConserved(accounts, before);
+  });
+
+  it("withdraws what a ride with an escrow order pays out, so it isn't paid twice", async () => {
+    const { customer, driver, ride, accounts } = await setup();
+    await lockStake(ride);
+    const before = await balances(accounts);
+
+    await settleRide({ ...ride, driverId: driver.id, status: "completed", actualFare: 12, escrow: finalizedOrder });
+    expect(await getBalance(customer.id)).toBe(30);
+    expect(await getBalance(driver.id)).toBe(0);
+    expect(await storage.getAccountBalance(EXTERNAL_WITHDRAWALS_ACCOUNT) - before[5]).toBeCloseTo(18.8, 9);
+
+    const withdrawals = (await storage.getRideLedgerPostings(ride.id)).filter(posting => posting.type === "withdrawal");
+    expect(withdrawals.map(posting => [posting.fromAccount, posting.amount])).toEqual(expect.arrayContaining([
+      [userAccount(driver.id), 10.8],
+      [userAccount(customer.id), 8],
+    ]));
+    await expectConserved(accounts, before);
+  });
+
+  it("records a wallet stake without touching the customer's balance", async () => {
+    const { customer, ride, accounts } = await setup();
+    const before = await balances(accounts);
+
+    await lockWalletStake(ride);
+    expect(await getBalance(customer.id)).toBe(50);
+    expect(await storage.getAccountBalance(escrowAccount(ride.id))).toBeCloseTo(20, 9);
+    await expectConserved(accounts, before);
+  });
+
+  it("pays one tip per completed ride from the customer's balance", async () => {
+    const { customer, driver, ride } = await setup();
+    const completed: Ride = { ...ride, driverId: driver.id, status: "completed" };
+
+    await expect(payTip({ ...completed, status: "in_progress" }, 2)).rejects.toMatchObject({ status: 400 });
+
+    const tip = await payTip(completed, 3);
+    expect(tip.amount).toBe(3);
+    expect(await getBalance(customer.id)).toBe(47);
+    expect(await getBalance(driver.id)).toBe(3);
+
+    const again = await payTip(completed, 3).catch(error => error);
+    expect(again).toBeInstanceOf(LedgerError);
+    expect(again.status).toBe(409);
+    expect(await getBalance(customer.id)).toBe(47);
+  });
+
+  it("turns away tips the customer can't afford", async () => {
+    const { customer, driver, ride } = await setup(1);
+
+    await expect(payTip({ ...ride, driverId: driver.id, status: "completed" }, 5)).rejects.toBeInstanceOf(InsufficientFundsError);
+    expect(await getBalance(customer.id)).toBe(1);
+  });
+});
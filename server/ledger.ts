@@ -0,0 +1,169 @@
+import type { InsertLedgerPosting, LedgerPosting, Ride, User, UserProfile, UserTransaction } from "@shared/schema";
+import {
+  EXTERNAL_DEPOSITS_ACCOUNT,
+  EXTERNAL_WITHDRAWALS_ACCOUNT,
+  PLATFORM_FEES_ACCOUNT,
+  escrowAccount,
+  userAccount,
+} from "@shared/ledger";
+import { storage, DuplicateTipError } from "./storage";
+import { roundMoney } from "./pricing";
+
+// Share of each fare the platform keeps before paying the driver
+const PLATFORM_FEE_RATE = parseFloat(process.env.PLATFORM_FEE_RATE || "0.1");
+
+export class LedgerError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "LedgerError";
+  }
+}
+
+// Zero-amount postings carry no information, and the table rejects them
+function nonZero(postings: InsertLedgerPosting[]): InsertLedgerPosting[] {
+  return postings
+    .map(posting => ({ ...posting, amount: roundMoney(posting.amount) }))
+    .filter(posting => posting.amount > 0);
+}
+
+/**
+ * A ride whose stake is held in an escrow order is paid out by the contract, straight to the users' wallets.
+ * What the escrow credits them then leaves the ledger again in the same batch, so the money only ends up in one place;
+ * without an order it stays on their balances.
+ */
+function chainPayouts(ride: Ride, payouts: [account: string, amount: number][]): InsertLedgerPosting[] {
+  if (ride.escrow?.created?.stage !== "finalized") return [];
+  return payouts.map(([account, amount]) => (
+    { type: "withdrawal", fromAccount: account, toAccount: EXTERNAL_WITHDRAWALS_ACCOUNT, amount, rideId: ride.id }
+  ));
+}
+
+export async function getBalance(userId: string): Promise<number> {
+  return roundMoney(await storage.getAccountBalance(userAccount(userId)));
+}
+
+// The user as shown to its owner, with their current balance
+export async function toUserProfile(user: User): Promise<UserProfile> {
+  return { ...user, balance: await getBalance(user.id) };
+}
+
+// Credit funds from outside the platform, e.g. the starting balance of a new account
+export async function deposit(userId: string, amount: number): Promise<void> {
+  await storage.addLedgerPostings(nonZero([
+    { type: "deposit", fromAccount: EXTERNAL_DEPOSITS_ACCOUNT, toAccount: userAccount(userId), amount, rideId: null },
+  ]));
+}
+
+/**
+ * Move the ride's stake from the customer's balance into its escrow.
+ * Throws InsufficientFundsError if the customer can't cover it.
+ */
+export async function lockStake(ride: Ride): Promise<void> {
+  const customerAccount = userAccount(ride.customerId);
+  await storage.addLedgerPostings([
+    { type: "stake_lock", fromAccount: customerAccount, toAccount: escrowAccount(ride.id), amount: ride.stakedAmount, rideId: ride.id },
+  ], [customerAccount]);
+}
+
+/**
+ * Record the stake the customer paid into the ride's escrow order from their own wallet:
+ * it comes in from outside and goes straight on to the ride's escrow.
+ */
+export async function lockWalletStake(ride: Ride): Promise<void> {
+  const customerAccount = userAccount(ride.customerId);
+  const amount = ride.stakedAmount;
+  await storage.addLedgerPostings(nonZero([
+    { type: "deposit", fromAccount: EXTERNAL_DEPOSITS_ACCOUNT, toAccount: customerAccount, amount, rideId: ride.id },
+    { type: "stake_lock", fromAccount: customerAccount, toAccount: escrowAccount(ride.id), amount, rideId: ride.id },
+  ]));
+}
+
+/**
+ * Empty a completed ride's escrow: the fare goes to the driver less the platform fee,
+ * and whatever the customer staked beyond the fare is refunded. Both are paid out on chain if the ride has an order.
+ */
+export async function settleRide(ride: Ride): Promise<void> {
+  const escrow = escrowAccount(ride.id);
+  const held = roundMoney(await storage.getAccountBalance(escrow));
+  if (held <= 0 || !ride.driverId) return;
+
+  // A metered fare can't pay out more than the customer staked
+  const fare = Math.min(ride.actualFare ?? ride.estimatedFare, held);
+  const platformFee = roundMoney(fare * PLATFORM_FEE_RATE);
+  const driverAccount = userAccount(ride.driverId);
+  const customerAccount = userAccount(ride.customerId);
+
+  await storage.addLedgerPostings(nonZero([
+    { type: "fare_release", fromAccount: escrow, toAccount: driverAccount, amount: fare - platformFee, rideId: ride.id },
+    { type: "platform_fee", fromAccount: escrow, toAccount: PLATFORM_FEES_ACCOUNT, amount: platformFee, rideId: ride.id },
+    { type: "stake_refund", fromAccount: escrow, toAccount: customerAccount, amount: held - fare, rideId: ride.id },
+    ...chainPayouts(ride, [[driverAccount, fare - platformFee], [customerAccount, held - fare]]),
+  ]), [escrow]);
+}
+
+/**
+ * Empty a cancelled ride's escrow as the cancellation policy priced it: the fee goes to the driver
+ * and the rest of the stake back to the customer, paid out on chain if the ride has an order.
+ */
+export async function settleCancellation(ride: Ride): Promise<void> {
+  const escrow = escrowAccount(ride.id);
+  const held = roundMoney(await storage.getAccountBalance(escrow));
+  if (held <= 0) return;
+
+  // The policy only charges once a driver has accepted
+  const fee = ride.driverId ? Math.min(ride.cancellation?.fee ?? 0, held) : 0;
+  const customerAccount = userAccount(ride.customerId);
+  const postings: InsertLedgerPosting[] = [
+    { type: "stake_refund", fromAccount: escrow, toAccount: customerAccount, amount: held - fee, rideId: ride.id },
+  ];
+  const payouts: [string, number][] = [[customerAccount, held - fee]];
+  if (ride.driverId) {
+    const driverAccount = userAccount(ride.driverId);
+    postings.unshift({ type: "cancellation_fee", fromAccount: escrow, toAccount: driverAccount, amount: fee, rideId: ride.id });
+    payouts.unshift([driverAccount, fee]);
+  }
+
+  await storage.addLedgerPostings(nonZero([...postings, ...chainPayouts(ride, payouts)]), [escrow]);
+}
+
+/**
+ * Pay the driver a tip on top of a completed ride, straight from the customer's balance.
+ * One tip per ride. Throws LedgerError if the ride can't be tipped, InsufficientFundsError if the customer can't afford it.
+ */
+export async function payTip(ride: Ride, amount: number): Promise<LedgerPosting> {
+  if (ride.status !== "completed" || !ride.driverId) {
+    throw new LedgerError("Only completed rides can be tipped", 400);
+  }
+
+  // Storage turns away a second tip for the ride, so tips sent at the same time can't both go through
+  const customerAccount = userAccount(ride.customerId);
+  try {
+    const [tip] = await storage.addLedgerPostings([
+      { type: "tip", fromAccount: customerAccount, toAccount: userAccount(ride.driverId), amount: roundMoney(amount), rideId: ride.id },
+    ], [customerAccount]);
+    return tip;
+  } catch (error) {
+    if (error instanceof DuplicateTipError) {
+      throw new LedgerError("You already tipped for this ride", 409);
+    }
+    throw error;
+  }
+}
+
+// The user's postings from their side, newest first
+export async function getUserTransactions(userId: string): Promise<UserTransaction[]> {
+  const account = userAccount(userId);
+  const postings = await storage.getLedgerPostings(account);
+
+  return postings.map(posting => {
+    const incoming = posting.toAccount === account;
+    return {
+      id: posting.id,
+      type: posting.type,
+      amount: incoming ? posting.amount : -posting.amount,
+      counterparty: incoming ? posting.fromAccount : posting.toAccount,
+      rideId: posting.rideId,
+      createdAt: posting.createdAt,
+    };
+  });
+}
@@ -0,0 +1,55 @@
+import { WebSocket } from "ws";
+import type { User, UserRole } from "@shared/schema";
+
+interface OnlineUser {
+  role: UserRole;
+  sockets: Set<WebSocket>;
+}
+
+// Users with an open WebSocket, by user ID. Dispatch reads online drivers from here too
+const onlineUsers = new Map<string, OnlineUser>();
+
+export function userConnected(user: Pick<User, "id" | "role">, socket: WebSocket) {
+  if (!onlineUsers.has(user.id)) {
+    onlineUsers.set(user.id, { role: user.role, sockets: new Set() });
+  }
+  onlineUsers.get(user.id)!.sockets.add(socket);
+}
+
+export function userDisconnected(userId: string, socket: WebSocket) {
+  const user = onlineUsers.get(userId);
+  if (!user) return;
+
+  user.sockets.delete(socket);
+  if (user.sockets.size === 0) {
+    onlineUsers.delete(userId);
+  }
+}
+
+export function isUserOnline(userId: string): boolean {
+  return onlineUsers.has(userId);
+}
+
+// IDs of users in the role who have at least one open connection
+export function getOnlineUserIds(role: UserRole): string[] {
+  return Array.from(onlineUsers.entries())
+    .filter(([, user]) => user.role === role)
+    .map(([userId]) => userId);
+}
+
+/**
+ * Push a message to every open connection of a user.
+ * Returns false if the user is offline.
+ */
+export function notifyUser(userId: string, message: object): boolean {
+  const user = onlineUsers.get(userId);
+  if (!user) return false;
+
+  const payload = JSON.stringify(message);
+  user.sockets.forEach((socket) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(payload);
+    }
+  });
+  return true;
+}
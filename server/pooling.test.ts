@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import type { InsertRide, Ride } from "@shared/schema";
+import { acceptPoolRide, matchPool } from "./pooling";
+import { storage } from "./storage";
+import { createTestRide, createTestUser } from "./testing";
+
+// Trips along one street in Berlin heading west; no road graph is loaded, so legs are straight lines
+const at = (lng: number) => ({ lat: 52.52, lng });
+const driverLocation = at(13.41);
+
+async function waitingRide(overrides: Partial<InsertRide>): Promise<Ride> {
+  const customer = await createTestUser("customer");
+  const ride = await createTestRide(customer.id, { rideType: "pool", ...overrides });
+  return (await storage.updateRideStatus(ride.id, "pending_stake", "waiting", {}))!;
+}
+
+async function startPool(overrides: Partial<InsertRide> = {}) {
+  const driver = await createTestUser("driver");
+  const first = await waitingRide({ pickup: at(13.4), dropoff: at(13.3), ...overrides });
+  const accepted = await storage.acceptRide(first.id, driver.id, { currentLocation: driverLocation });
+  return { driver, pool: [accepted!] };
+}
+
+describe("matchPool", () => {
+  it("fits a rider picked up and dropped off along the pool's way", async () => {
+    const { pool } = await startPool();
+    const ride = await waitingRide({ pickup: at(13.38), dropoff: at(13.32) });
+
+    const match = matchPool(ride, pool, driverLocation);
+    // Past the first pickup, 2km from the driver at 30 km/h
+    expect(match?.pickupEtaMinutes).toBeCloseTo(4.1, 0);
+    expect(match?.detourMinutes).toBeCloseTo(0, 0);
+  });
+
+  it("turns down rides that aren't pooled or don't fit the seats left", async () => {
+    const { pool } = await startPool({ seats: 2 });
+    expect(matchPool(await waitingRide({ pickup: at(13.38), dropoff: at(13.32), seats: 2 }), pool, driverLocation)).toBeNull();
+    expect(matchPool(await waitingRide({ pickup: at(13.38), dropoff: at(13.32), rideType: "standard" }), pool, driverLocation)).toBeNull();
+    expect(matchPool(await waitingRide({ pickup: at(13.38), dropoff: at(13.32) }), pool, driverLocation)).not.toBeNull();
+  });
+
+  it("turns down trips heading another way", async () => {
+    const { pool } = await startPool();
+    expect(matchPool(await waitingRide({ pickup: at(13.35), dropoff: at(13.42) }), pool, driverLocation)).toBeNull();
+  });
+
+  it("turns down riders who would hold anyone up for more than 10 minutes", async () => {
+    const { pool } = await startPool();
+    // Heading the same way, but a street 4.5km north
+    const ride = await waitingRide({ pickup: { lat: 52.56, lng: 13.38 }, dropoff: { lat: 52.56, lng: 13.32 } });
+    expect(matchPool(ride, pool, driverLocation)).toBeNull();
+  });
+});
+
+describe("acceptPoolRide", () => {
+  it("starts a pool for an idle driver and adds matching riders to it", async () => {
+    const driver = await createTestUser("driver");
+    const first = await waitingRide({ pickup: at(13.4), dropoff: at(13.3) });
+    const second = await waitingRide({ pickup: at(13.38), dropoff: at(13.32) });
+
+    expect(await acceptPoolRide(first, driver.id, {})).toMatchObject({ status: "accepted", poolId: first.id });
+    expect(await acceptPoolRide(second, driver.id, {})).toMatchObject({ status: "accepted", poolId: first.id });
+    expect(await storage.getActiveRides(driver.id)).toHaveLength(2);
+  });
+
+  it("turns down riders who don't match the driver's pool or a driver on a solo ride", async () => {
+    const { driver } = await startPool();
+    const opposite = await waitingRide({ pickup: at(13.35), dropoff: at(13.42) });
+    await expect(acceptPoolRide(opposite, driver.id, {})).rejects.toMatchObject({ reason: "pool_mismatch" });
+
+    const soloDriver = await createTestUser("driver");
+    const solo = await waitingRide({ rideType: "standard" });
+    await storage.acceptRide(solo.id, soloDriver.id);
+    const pooled = await waitingRide({ pickup: at(13.38), dropoff: at(13.32) });
+    await expect(acceptPoolRide(pooled, soloDriver.id, {})).rejects.toMatchObject({ reason: "driver_busy" });
+  });
+});
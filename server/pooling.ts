@@ -0,0 +1,123 @@
+import { POOL_CAPACITY, type PoolRider, type Ride, type RideUpdate, type RideWithDetails } from "@shared/schema";
+import { bearing, type LatLng } from "@shared/geo";
+import { planPoolItinerary, type PoolItineraryRide, type PoolWaypoint } from "@shared/pool";
+import { storage, RideConflictError } from "./storage";
+import { planRoute } from "./routing";
+
+// Most minutes a new rider may add to anyone's trip, their own included
+const MAX_POOL_DETOUR_MINUTES = parseInt(process.env.MAX_POOL_DETOUR_MINUTES || "10", 10);
+
+// Trips whose directions differ by more than this don't share a car
+const MAX_HEADING_DIFFERENCE_DEG = 45;
+
+export interface PoolMatch {
+  // Driving time to the new rider's pickup along the shared itinerary
+  pickupEtaMinutes: number;
+  // Longest delay the new rider causes anyone in the pool, including their own trip over a solo ride
+  detourMinutes: number;
+}
+
+function toItineraryRide(ride: Ride): PoolItineraryRide {
+  return { rideId: ride.id, status: ride.status, pickup: ride.pickup, dropoff: ride.dropoff };
+}
+
+function headingDifference(a: Ride, b: Ride): number {
+  const difference = Math.abs(bearing(a.pickup, a.dropoff) - bearing(b.pickup, b.dropoff));
+  return Math.min(difference, 360 - difference);
+}
+
+// Minutes from the start until the car reaches the given waypoint
+function arrivalMinutes(start: LatLng, itinerary: PoolWaypoint[]) {
+  const route = planRoute([start, ...itinerary.map((waypoint) => waypoint.location)]);
+  let elapsed = 0;
+  const arrivals = route.legs.map((leg) => (elapsed += leg.durationMinutes));
+
+  return (rideId: string, kind: PoolWaypoint["kind"]) =>
+    arrivals[itinerary.findIndex((waypoint) => waypoint.rideId === rideId && waypoint.kind === kind)];
+}
+
+/**
+ * Where the driver of a pool is now. Location updates are recorded on every ride in the pool,
+ * so any of them will do.
+ */
+export function poolLocation(poolRides: Ride[]): LatLng {
+  return poolRides.find((ride) => ride.currentLocation)?.currentLocation ?? poolRides[0].pickup;
+}
+
+/**
+ * Check whether a pool request can join the rides a driver is working.
+ * Returns null when there aren't enough seats, the trips head different ways,
+ * or picking the new rider up would hold anyone up by too much.
+ */
+export function matchPool(ride: Ride, poolRides: Ride[], driverLocation: LatLng): PoolMatch | null {
+  if (ride.rideType !== "pool" || poolRides.some((other) => other.rideType !== "pool")) return null;
+
+  const seatsTaken = poolRides.reduce((seats, other) => seats + other.seats, 0);
+  if (seatsTaken + ride.seats > POOL_CAPACITY) return null;
+
+  if (poolRides.some((other) => headingDifference(other, ride) > MAX_HEADING_DIFFERENCE_DEG)) return null;
+
+  const currentArrival = arrivalMinutes(driverLocation, planPoolItinerary(driverLocation, poolRides.map(toItineraryRide)));
+  // The new rider still has to be picked up, as if the driver had accepted already
+  const newRider: PoolItineraryRide = { ...toItineraryRide(ride), status: "accepted" };
+  const sharedArrival = arrivalMinutes(
+    driverLocation,
+    planPoolItinerary(driverLocation, [...poolRides.map(toItineraryRide), newRider]),
+  );
+
+  const delays = poolRides.map((other) => sharedArrival(other.id, "dropoff") - currentArrival(other.id, "dropoff"));
+  const pickupEtaMinutes = sharedArrival(ride.id, "pickup");
+  const soloMinutes = planRoute([ride.pickup, ride.dropoff]).durationMinutes;
+  delays.push(sharedArrival(ride.id, "dropoff") - pickupEtaMinutes - soloMinutes);
+
+  const detourMinutes = Math.max(...delays);
+  if (detourMinutes > MAX_POOL_DETOUR_MINUTES) return null;
+  return { pickupEtaMinutes, detourMinutes };
+}
+
+/**
+ * Accept a pool ride for a driver: it starts a new pool if the driver is idle,
+ * or joins the driver's pool if it fits the seats and the route.
+ */
+export async function acceptPoolRide(ride: Ride, driverId: string, updates: RideUpdate): Promise<Ride | undefined> {
+  const poolRides = await storage.getActiveRides(driverId);
+  if (poolRides.length === 0) {
+    return storage.acceptRide(ride.id, driverId, updates);
+  }
+
+  const poolId = poolRides[0].poolId;
+  if (!poolId) throw new RideConflictError("driver_busy");
+
+  const driverLocation = poolLocation(poolRides);
+  if (!matchPool(ride, poolRides, driverLocation)) throw new RideConflictError("pool_mismatch");
+
+  // The driver is already on the road rather than waiting near the new pickup
+  return storage.joinPool(ride.id, driverId, poolId, { ...updates, currentLocation: driverLocation });
+}
+
+/**
+ * The ride a driver should be working on now. In a pool that is the ride of the next
+ * pickup or dropoff on the shared itinerary, with every ride in the pool attached.
+ */
+export async function getDriverActiveRide(driverId: string): Promise<RideWithDetails | undefined> {
+  const poolRides = await storage.getActiveRides(driverId);
+  if (poolRides.length === 0) return undefined;
+
+  const [next] = planPoolItinerary(poolLocation(poolRides), poolRides.map(toItineraryRide));
+  const ride = await storage.getRideWithDetails(next.rideId);
+  if (!ride?.poolId) return ride;
+
+  const pool: PoolRider[] = await Promise.all(poolRides.map(async (other) => {
+    const customer = await storage.getUser(other.customerId);
+    return {
+      rideId: other.id,
+      customerName: customer?.name || "Customer",
+      seats: other.seats,
+      status: other.status,
+      pickup: other.pickup,
+      dropoff: other.dropoff,
+      estimatedFare: other.estimatedFare,
+    };
+  }));
+  return { ...ride, pool };
+}
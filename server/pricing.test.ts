@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { FareQuoteRequest, Ride } from "@shared/schema";
+import { storage } from "./storage";
+import { createQuote, FareQuoteError, meterRide, priceTrip, redeemQuote, releaseQuote, roundMoney } from "./pricing";
+import { createTestRide, createTestUser } from "./testing";
+
+const trip: FareQuoteRequest = {
+  pickup: { lat: 52.52, lng: 13.405 },
+  stops: [],
+  dropoff: { lat: 52.51, lng: 13.39 },
+  rideType: "standard",
+  seats: 1,
+  deliveryType: "ride",
+  parcel: null,
+};
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function expectQuoteError(redeem: () => unknown, message: string) {
+  expect(redeem).toThrow(FareQuoteError);
+  expect(redeem).toThrow(message);
+}
+
+describe("fare quotes", () => {
+  it("quotes the trip's price with a stake buffer on top", async () => {
+    const quote = await createQuote("customer-1", trip);
+
+    expect(quote.fare).toBe(priceTrip({ ...trip }, quote.surgeMultiplier).fare);
+    expect(quote.fare).toBe(roundMoney((quote.baseFare + quote.distanceFare + quote.timeFare) * quote.surgeMultiplier));
+    expect(quote.stakeRequired).toBe(roundMoney(quote.fare * 1.15));
+    expect(new Date(quote.expiresAt).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it("redeems a quote for the customer it was issued to, once", async () => {
+    const quote = await createQuote("customer-1", trip);
+
+    const payload = redeemQuote(quote.quoteId, "customer-1");
+    expect(payload).toMatchObject({ customerId: "customer-1", pickup: trip.pickup, dropoff: trip.dropoff });
+    expect(payload.breakdown.fare).toBe(quote.fare);
+    expectQuoteError(() => redeemQuote(quote.quoteId, "customer-1"), "Fare quote has already been used");
+  });
+
+  it("can be redeemed again once released", async () => {
+    const quote = await createQuote("customer-1", trip);
+
+    releaseQuote(redeemQuote(quote.quoteId, "customer-1"));
+    expect(redeemQuote(quote.quoteId, "customer-1").id).toBeDefined();
+  });
+
+  it("rejects quotes issued to someone else", async () => {
+    const quote = await createQuote("customer-1", trip);
+    expectQuoteError(() => redeemQuote(quote.quoteId, "customer-2"), "Invalid fare quote");
+  });
+
+  it("rejects quotes whose price or signature was changed", async () => {
+    const quote = await createQuote("customer-1", trip);
+    const [encodedPayload, signature] = quote.quoteId.split(".");
+    const payload = JSON.parse(Buffer.from(encodedPayload, "base64url").toString());
+    payload.breakdown.fare = 1;
+    const tampered = Buffer.from(JSON.stringify(payload)).toString("base64url");
+
+    expectQuoteError(() => redeemQuote(`${tampered}.${signature}`, "customer-1"), "Invalid fare quote");
+    expectQuoteError(() => redeemQuote(`${encodedPayload}.${signature.slice(1)}x`, "customer-1"), "Invalid fare quote");
+    expectQuoteError(() => redeemQuote(encodedPayload, "customer-1"), "Invalid fare quote");
+  });
+
+  it("rejects quotes after they expire", async () => {
+    vi.useFakeTimers();
+    const quote = await createQuote("customer-1", trip);
+    vi.advanceTimersByTime(5 * 60 * 1000 + 1);
+
+    expectQuoteError(() => redeemQuote(quote.quoteId, "customer-1"), "Fare quote has expired");
+  });
+});
+
+describe("meterRide", () => {
+  // Drive north from the pickup at 30 km/h, recording a fix every 30 seconds
+  async function drive(ride: Ride, fixes: number, rideStatus: "accepted" | "in_progress" = "in_progress") {
+    for (let i = 0; i < fixes; i++) {
+      await storage.addRideLocation({
+        rideId: ride.id,
+        lat: ride.pickup.lat + (i * 0.25) / 111.32,
+        lng: ride.pickup.lng,
+        speed: null,
+        rideStatus,
+      });
+      vi.advanceTimersByTime(30_000);
+    }
+  }
+
+  async function createRide(stakedAmount = 20) {
+    const customer = await createTestUser("customer");
+    return createTestRide(customer.id, { stakedAmount, surgeMultiplier: 1.5 });
+  }
+
+  it("bills the distance and time of the trip's trace at the ride's surge", async () => {
+    vi.useFakeTimers();
+    const ride = await createRide();
+    // The drive to the pickup isn't billed
+    await drive(ride, 5, "accepted");
+    await drive(ride, 9);
+
+    const fare = await meterRide(ride);
+    expect(fare).toMatchObject({ source: "trace", distanceKm: 2, durationMinutes: 4, cappedAtStake: false });
+    expect(fare.fare).toBe(roundMoney((2.5 + fare.distanceFare + 4 * 0.25) * 1.5));
+  });
+
+  it("falls back to the quoted route when the trace is too sparse", async () => {
+    vi.useFakeTimers();
+    const ride = await createRide();
+    await drive(ride, 1);
+
+    const fare = await meterRide(ride);
+    expect(fare.source).toBe("quote");
+    expect(fare.fare).toBe(priceTrip(ride, 1.5).fare);
+  });
+
+  it("never charges more than the stake", async () => {
+    vi.useFakeTimers();
+    const ride = await createRide(5);
+    await drive(ride, 9);
+
+    expect(await meterRide(ride)).toMatchObject({ fare: 5, cappedAtStake: true });
+  });
+});
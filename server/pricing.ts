@@ -0,0 +1,227 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import type { DeliveryType, FareBreakdown, FareQuote, FareQuoteRequest, Location, PackageSize, Parcel, Ride, RideType, RoutePlan, TripFare } from "@shared/schema";
+import { storage } from "./storage";
+import { getSurgeForLocation } from "./surge";
+import { measureTrace } from "./trace";
+import { planRoute } from "./routing";
+
+const BASE_FARE = 2.5;
+const PER_KM_RATE = 1.5;
+const PER_MINUTE_RATE = 0.25;
+
+// Escrow buffer over the quoted fare
+const STAKE_MULTIPLIER = 1.15;
+
+// Waiting time allowed for at each intermediate stop when quoting
+const STOP_WAIT_MINUTES = 3;
+
+// Share of the solo fare a pool rider pays for their first seat
+const POOL_FARE_RATE = 0.7;
+
+// Each extra pool seat costs this share of the first seat's fare
+const EXTRA_SEAT_RATE = 0.25;
+
+// Flat fee on top of the fare for each package class; not surged or discounted
+const PARCEL_FEES: Record<PackageSize, number> = {
+  small: 1,
+  medium: 3,
+  large: 6,
+};
+
+// How long a quote can be used to request a ride
+const QUOTE_TTL_MS = 5 * 60 * 1000;
+
+// Quotes only need to outlive their TTL, so a per-process key is fine when none is configured
+const QUOTE_SECRET = process.env.FARE_QUOTE_SECRET || randomBytes(32).toString("hex");
+
+export interface QuotePayload {
+  id: string;
+  customerId: string;
+  rideType: RideType;
+  seats: number;
+  deliveryType: DeliveryType;
+  parcel: Parcel | null;
+  pickup: Location;
+  stops: Location[];
+  dropoff: Location;
+  breakdown: FareBreakdown;
+  // Surge snapshot the price was based on
+  surgeSnapshotId: string;
+  expiresAt: number;
+}
+
+export class FareQuoteError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FareQuoteError";
+  }
+}
+
+// Redeemed quote IDs until they expire, so a quote can back only one ride
+const redeemedQuotes = new Map<string, number>();
+
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function sign(encodedPayload: string): string {
+  return createHmac("sha256", QUOTE_SECRET).update(encodedPayload).digest("base64url");
+}
+
+// What is booked on a trip, beyond its route, that changes the price
+type FareTerms = Pick<Ride, "rideType" | "seats" | "parcel">;
+
+// Part of the solo fare the booked seats cost (1 for standard rides)
+function fareShare(rideType: RideType, seats: number): number {
+  return rideType === "pool" ? POOL_FARE_RATE * (1 + EXTRA_SEAT_RATE * (seats - 1)) : 1;
+}
+
+// Apply the rate card to a distance and duration
+function rateTrip(distanceKm: number, durationMinutes: number, surgeMultiplier: number, terms: FareTerms) {
+  // Time is billed in whole minutes, at least one
+  const billedMinutes = Math.max(1, Math.round(durationMinutes));
+  const distanceFare = roundMoney(distanceKm * PER_KM_RATE);
+  const timeFare = roundMoney(billedMinutes * PER_MINUTE_RATE);
+  const soloFare = roundMoney((BASE_FARE + distanceFare + timeFare) * surgeMultiplier);
+  const sharedFare = roundMoney(soloFare * fareShare(terms.rideType, terms.seats));
+  const parcelFee = terms.parcel ? PARCEL_FEES[terms.parcel.size] : 0;
+  const fare = roundMoney(sharedFare + parcelFee);
+  return {
+    distanceKm: Math.round(distanceKm * 10) / 10,
+    durationMinutes: billedMinutes,
+    baseFare: BASE_FARE,
+    distanceFare,
+    timeFare,
+    surgeMultiplier,
+    poolDiscount: roundMoney(soloFare - sharedFare),
+    parcelFee,
+    fare,
+  };
+}
+
+// The route runs pickup, stops..., dropoff; each stop in between adds waiting time
+function priceRoute(route: RoutePlan, surgeMultiplier: number, terms: FareTerms): FareBreakdown {
+  const waitMinutes = (route.legs.length - 1) * STOP_WAIT_MINUTES;
+  const rated = rateTrip(route.distanceKm, route.durationMinutes + waitMinutes, surgeMultiplier, terms);
+  return { ...rated, stakeRequired: roundMoney(rated.fare * STAKE_MULTIPLIER) };
+}
+
+/**
+ * Price a trip through its stops from road distance and driving time, scaled by the surge multiplier.
+ * Pool seats are discounted off the solo fare, and parcels pay a fee for their package class.
+ */
+export function priceTrip(
+  trip: FareTerms & Pick<Ride, "pickup" | "stops" | "dropoff">,
+  surgeMultiplier = 1,
+): FareBreakdown {
+  return priceRoute(planRoute([trip.pickup, ...trip.stops, trip.dropoff]), surgeMultiplier, trip);
+}
+
+/**
+ * Fare for the distance and time actually traveled, from the ride's GPS trace so far.
+ * Falls back to the quoted route when the trace is too sparse, and never exceeds the stake.
+ */
+export async function meterRide(ride: Ride): Promise<TripFare> {
+  // Only the trip itself is billed, not the drive to the pickup
+  const trace = (await storage.getRideLocations(ride.id)).filter(point => point.rideStatus === "in_progress");
+  const metrics = measureTrace(trace);
+
+  const rated = metrics
+    ? rateTrip(metrics.distanceKm, metrics.durationMinutes, ride.surgeMultiplier, ride)
+    : priceTrip(ride, ride.surgeMultiplier);
+
+  return {
+    distanceKm: rated.distanceKm,
+    durationMinutes: rated.durationMinutes,
+    baseFare: rated.baseFare,
+    distanceFare: rated.distanceFare,
+    timeFare: rated.timeFare,
+    surgeMultiplier: rated.surgeMultiplier,
+    poolDiscount: rated.poolDiscount,
+    parcelFee: rated.parcelFee,
+    fare: Math.min(rated.fare, ride.stakedAmount),
+    source: metrics ? "trace" : "quote",
+    cappedAtStake: rated.fare > ride.stakedAmount,
+  };
+}
+
+/**
+ * Price a trip through its stops for a customer at the pickup cell's current surge
+ * and wrap the result in a signed, short-lived quote ID.
+ */
+export async function createQuote(customerId: string, trip: FareQuoteRequest): Promise<FareQuote> {
+  const { pickup, stops, dropoff, rideType, seats, deliveryType, parcel } = trip;
+  const surge = await getSurgeForLocation(pickup);
+  const route = planRoute([pickup, ...stops, dropoff]);
+  const payload: QuotePayload = {
+    id: randomBytes(12).toString("hex"),
+    customerId,
+    rideType,
+    seats,
+    deliveryType,
+    parcel,
+    pickup,
+    stops,
+    dropoff,
+    breakdown: priceRoute(route, surge.multiplier, trip),
+    surgeSnapshotId: surge.id,
+    expiresAt: Date.now() + QUOTE_TTL_MS,
+  };
+
+  const encodedPayload = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return {
+    quoteId: `${encodedPayload}.${sign(encodedPayload)}`,
+    rideType,
+    seats,
+    deliveryType,
+    parcel,
+    pickup,
+    stops,
+    dropoff,
+    ...payload.breakdown,
+    expiresAt: new Date(payload.expiresAt).toISOString(),
+    surgeExpiresAt: surge.expiresAt,
+    path: route.path,
+  };
+}
+
+/**
+ * Verify a quote ID issued to this customer and mark it used.
+ * Throws FareQuoteError if the quote is forged, expired, someone else's, or already used.
+ */
+export function redeemQuote(quoteId: string, customerId: string): QuotePayload {
+  const [encodedPayload, signature] = quoteId.split(".");
+  if (!encodedPayload || !signature) {
+    throw new FareQuoteError("Invalid fare quote");
+  }
+
+  const expected = Buffer.from(sign(encodedPayload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    throw new FareQuoteError("Invalid fare quote");
+  }
+
+  const payload: QuotePayload = JSON.parse(Buffer.from(encodedPayload, "base64url").toString());
+  const now = Date.now();
+  if (payload.expiresAt < now) {
+    throw new FareQuoteError("Fare quote has expired");
+  }
+  if (payload.customerId !== customerId) {
+    throw new FareQuoteError("Invalid fare quote");
+  }
+
+  redeemedQuotes.forEach((expiresAt, id) => {
+    if (expiresAt < now) redeemedQuotes.delete(id);
+  });
+  if (redeemedQuotes.has(payload.id)) {
+    throw new FareQuoteError("Fare quote has already been used");
+  }
+  redeemedQuotes.set(payload.id, payload.expiresAt);
+
+  return payload;
+}
+
+// Give back a redeemed quote whose ride could not be created, so the customer can try again with it
+export function releaseQuote(quote: QuotePayload): void {
+  redeemedQuotes.delete(quote.id);
+}
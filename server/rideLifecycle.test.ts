@@ -0,0 +1,219 @@
+import { describe, expect, it } from "vitest";
+import { storage } from "./storage";
+import {
+  canTransition,
+  isRideParticipant,
+  recordPickupArrival,
+  recordStopProgress,
+  RideTransitionError,
+  transitionRide,
+  type RideActor,
+} from "./rideLifecycle";
+import { createTestRide, createTestUser } from "./testing";
+
+// Claim the draft and confirm its stake, as the stake route does
+async function stake(rideId: string, actor: RideActor) {
+  await transitionRide(rideId, "claim_stake", actor);
+  return transitionRide(rideId, "stake", actor);
+}
+
+async function expectTransitionError(promise: Promise<unknown>, status: number) {
+  const error = await promise.catch((error: unknown) => error) as RideTransitionError;
+  expect(error).toBeInstanceOf(RideTransitionError);
+  expect(error.status).toBe(status);
+}
+
+describe("transitionRide", () => {
+  it("takes a ride from its stake through to completion", async () => {
+    const customer = await createTestUser("customer");
+    const driver = await createTestUser("driver");
+    const ride = await createTestRide(customer.id);
+
+    const staked = await stake(ride.id, { id: customer.id, role: "customer" });
+    expect(staked.status).toBe("waiting");
+
+    const accepted = await transitionRide(ride.id, "accept", { id: driver.id, role: "driver" });
+    expect(accepted.status).toBe("accepted");
+    expect(accepted.driverId).toBe(driver.id);
+    expect(accepted.acceptedAt).not.toBeNull();
+
+    const started = await transitionRide(ride.id, "start", { id: driver.id, role: "driver" });
+    expect(started.status).toBe("in_progress");
+    expect(started.currentLocation).toEqual(ride.pickup);
+
+    const completed = await transitionRide(ride.id, "complete", { id: customer.id, role: "customer" });
+    expect(completed.status).toBe("completed");
+    expect(completed.actualFare).not.toBeNull();
+    expect(completed.completedAt).not.toBeNull();
+
+    const timeline = await storage.getRideEvents(ride.id);
+    expect(timeline.map(event => [event.type, event.fromStatus, event.toStatus])).toEqual([
+      ["claim_stake", "pending_stake", "staking"],
+      ["stake", "staking", "waiting"],
+      ["accept", "waiting", "accepted"],
+      ["start", "accepted", "in_progress"],
+      ["complete", "in_progress", "completed"],
+    ]);
+  });
+
+  it("sends booked rides to scheduled when their stake is confirmed", async () => {
+    const customer = await createTestUser("customer");
+    const ride = await createTestRide(customer.id, { scheduledFor: new Date(Date.now() + 86_400_000).toISOString() });
+
+    const staked = await stake(ride.id, { id: null, role: "system" });
+    expect(staked.status).toBe("scheduled");
+    expect(canTransition(staked, "activate")).toBe(true);
+    expect(canTransition(staked, "accept")).toBe(false);
+  });
+
+  it("lets one stake confirmation at a time claim a draft", async () => {
+    const customer = await createTestUser("customer");
+    const ride = await createTestRide(customer.id);
+    const actor: RideActor = { id: customer.id, role: "customer" };
+
+    // The stake only counts for a draft its confirmation has claimed
+    await expectTransitionError(transitionRide(ride.id, "stake", actor), 400);
+
+    const claims = await Promise.allSettled([
+      transitionRide(ride.id, "claim_stake", actor),
+      transitionRide(ride.id, "claim_stake", actor),
+    ]);
+    expect(claims.map(claim => claim.status).sort()).toEqual(["fulfilled", "rejected"]);
+    expect(claims.find(claim => claim.status === "rejected")).toMatchObject({ reason: expect.any(RideTransitionError) });
+    expect((await storage.getRide(ride.id))!.status).toBe("staking");
+
+    // A stake turned away hands the draft back for another try
+    await transitionRide(ride.id, "unclaim_stake", actor);
+    expect((await stake(ride.id, actor)).status).toBe("waiting");
+  });
+
+  it("rejects transitions that are illegal from the ride's status", async () => {
+    const customer = await createTestUser("customer");
+    const driver = await createTestUser("driver");
+    const ride = await createTestRide(customer.id);
+
+    await expectTransitionError(transitionRide(ride.id, "accept", { id: driver.id, role: "driver" }), 400);
+    await expectTransitionError(transitionRide(ride.id, "complete", { id: customer.id, role: "customer" }), 400);
+    expect((await storage.getRide(ride.id))!.status).toBe("pending_stake");
+    expect(await storage.getRideEvents(ride.id)).toEqual([]);
+  });
+
+  it("rejects actors who may not trigger the transition", async () => {
+    const customer = await createTestUser("customer");
+    const stranger = await createTestUser("customer");
+    const driver = await createTestUser("driver");
+    const otherDriver = await createTestUser("driver");
+    const ride = await createTestRide(customer.id);
+
+    await expectTransitionError(transitionRide(ride.id, "claim_stake", { id: stranger.id, role: "customer" }), 403);
+    await expectTransitionError(transitionRide(ride.id, "expire", { id: customer.id, role: "customer" }), 403);
+
+    await stake(ride.id, { id: customer.id, role: "customer" });
+    await expectTransitionError(transitionRide(ride.id, "accept", { id: customer.id, role: "customer" }), 403);
+    await transitionRide(ride.id, "accept", { id: driver.id, role: "driver" });
+    await expectTransitionError(transitionRide(ride.id, "start", { id: otherDriver.id, role: "driver" }), 403);
+    await expectTransitionError(transitionRide(ride.id, "cancel", { id: stranger.id, role: "customer" }), 403);
+  });
+
+  it("only lets the driver or the system complete a parcel delivery", async () => {
+    const customer = await createTestUser("customer");
+    const driver = await createTestUser("driver");
+    const ride = await createTestRide(customer.id, {
+      deliveryType: "parcel",
+      parcel: {
+        size: "small",
+        weightKg: 1,
+        sender: { name: "Alex", phone: "+4915187654321" },
+        recipient: { name: "Sam", phone: "+4915112345678" },
+        handlingNotes: "",
+      },
+    });
+    await stake(ride.id, { id: customer.id, role: "customer" });
+    await transitionRide(ride.id, "accept", { id: driver.id, role: "driver" });
+    await transitionRide(ride.id, "start", { id: driver.id, role: "driver" });
+
+    await expectTransitionError(transitionRide(ride.id, "complete", { id: customer.id, role: "customer" }), 403);
+    const completed = await transitionRide(ride.id, "complete", { id: driver.id, role: "driver" });
+    expect(completed.proofOfDelivery?.pinVerifiedAt).toBe(completed.completedAt);
+  });
+
+  it("keeps a driver to one active ride at a time", async () => {
+    const driver = await createTestUser("driver");
+    const first = await createTestRide((await createTestUser("customer")).id);
+    const second = await createTestRide((await createTestUser("customer")).id);
+    await stake(first.id, { id: null, role: "system" });
+    await stake(second.id, { id: null, role: "system" });
+
+    await transitionRide(first.id, "accept", { id: driver.id, role: "driver" });
+    await expectTransitionError(transitionRide(second.id, "accept", { id: driver.id, role: "driver" }), 409);
+    expect((await storage.getRide(second.id))!.status).toBe("waiting");
+  });
+
+  it("prices a cancellation from the ride as it was when cancelled", async () => {
+    const customer = await createTestUser("customer");
+    const ride = await createTestRide(customer.id);
+    await stake(ride.id, { id: customer.id, role: "customer" });
+
+    const cancelled = await transitionRide(ride.id, "cancel", { id: customer.id, role: "customer" }, { reason: "changed_plans" });
+    expect(cancelled.status).toBe("cancelled");
+    expect(cancelled.cancellation?.fee).toBe(0);
+    await expectTransitionError(transitionRide(ride.id, "cancel", { id: customer.id, role: "customer" }), 400);
+  });
+
+  it("answers 404 for rides that don't exist", async () => {
+    await expectTransitionError(transitionRide("missing", "stake", { id: null, role: "system" }), 404);
+  });
+});
+
+describe("recordPickupArrival", () => {
+  it("records the driver's arrival once, however many updates report it", async () => {
+    const customer = await createTestUser("customer");
+    const driver = await createTestUser("driver");
+    const ride = await createTestRide(customer.id);
+    await stake(ride.id, { id: customer.id, role: "customer" });
+    const accepted = await transitionRide(ride.id, "accept", { id: driver.id, role: "driver" });
+
+    expect(await recordPickupArrival(accepted, { lat: 52.53, lng: 13.405 })).toBeNull();
+    const results = await Promise.all([
+      recordPickupArrival(accepted, ride.pickup),
+      recordPickupArrival(accepted, ride.pickup),
+    ]);
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect((await storage.getRide(ride.id))!.driverArrivedAt).not.toBeNull();
+    const events = await storage.getRideEvents(ride.id);
+    expect(events.filter(event => event.type === "arrive")).toHaveLength(1);
+  });
+});
+
+describe("recordStopProgress", () => {
+  it("ticks off each stop in order, once", async () => {
+    const customer = await createTestUser("customer");
+    const driver = await createTestUser("driver");
+    const stops = [{ lat: 52.515, lng: 13.4 }, { lat: 52.512, lng: 13.395 }];
+    const ride = await createTestRide(customer.id, { stops });
+    await stake(ride.id, { id: customer.id, role: "customer" });
+    await transitionRide(ride.id, "accept", { id: driver.id, role: "driver" });
+    const started = await transitionRide(ride.id, "start", { id: driver.id, role: "driver" });
+
+    // The second stop doesn't count before the first
+    expect(await recordStopProgress(started, stops[1])).toBeNull();
+    const results = await Promise.all([recordStopProgress(started, stops[0]), recordStopProgress(started, stops[0])]);
+    expect(results.filter(Boolean)).toHaveLength(1);
+
+    const progressed = (await storage.getRide(ride.id))!;
+    expect(progressed.stopsReached).toBe(1);
+    expect((await recordStopProgress(progressed, stops[1]))?.stopsReached).toBe(2);
+    const events = await storage.getRideEvents(ride.id);
+    expect(events.filter(event => event.type === "stop_reached").map(event => event.data?.stop)).toEqual([1, 2]);
+  });
+});
+
+describe("isRideParticipant", () => {
+  it("counts only the ride's customer and driver", async () => {
+    const customer = await createTestUser("customer");
+    const ride = { ...(await createTestRide(customer.id)), driverId: "driver-1" };
+    expect(isRideParticipant(ride, customer.id)).toBe(true);
+    expect(isRideParticipant(ride, "driver-1")).toBe(true);
+    expect(isRideParticipant(ride, "someone-else")).toBe(false);
+  });
+});
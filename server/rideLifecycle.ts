@@ -0,0 +1,323 @@
+import type { Ride, RideStatus, RideUpdate, RideEvent, RideActorRole, CancellationReason } from "@shared/schema";
+import { haversineKm, type LatLng } from "@shared/geo";
+import { storage, RideConflictError } from "./storage";
+import { meterRide } from "./pricing";
+import { acceptPoolRide } from "./pooling";
+import { assessCancellation } from "./cancellation";
+
+export type RideTransitionType =
+  | "claim_stake" | "unclaim_stake" | "stake" | "expire"
+  | "accept" | "start" | "complete" | "cancel"
+  | "reserve" | "unreserve" | "activate" | "assign";
+
+// Details the caller records on the timeline with a transition; cancel also takes its reason and note from them
+export type RideTransitionData = Record<string, unknown>;
+
+export interface RideActor {
+  id: string | null;
+  role: RideActorRole;
+}
+
+interface RideTransition {
+  from: RideStatus[];
+  // Worked out from the ride when the target depends on it
+  to: RideStatus | ((ride: Ride) => RideStatus);
+  // Roles allowed to trigger the transition
+  actors: RideActorRole[];
+  // Checks the specific actor against the ride (e.g. only the assigned driver may start it)
+  authorize?: (ride: Ride, actor: RideActor) => boolean;
+  // Fields written together with the status change; data is what the caller passed for the timeline
+  effects?: (ride: Ride, actor: RideActor, data?: RideTransitionData) => RideUpdate | Promise<RideUpdate>;
+  // Storage write for transitions that need more than a status compare-and-set
+  commit?: (ride: Ride, actor: RideActor, updates: RideUpdate) => Promise<Ride | undefined>;
+  // Message returned when the ride is not in one of the `from` states
+  invalidMessage: string;
+}
+
+// A driver within this distance of the next stop has reached it
+const STOP_ARRIVAL_RADIUS_KM = 0.05;
+
+// A driver within this distance of the pickup has arrived to collect the customer
+const PICKUP_ARRIVAL_RADIUS_KM = 0.1;
+
+export class RideTransitionError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "RideTransitionError";
+  }
+}
+
+export function isRideParticipant(ride: Ride, userId: string): boolean {
+  return userId === ride.customerId || userId === ride.driverId;
+}
+
+function isParticipant(ride: Ride, actor: RideActor): boolean {
+  if (actor.role === "system") return true;
+  return actor.id !== null && isRideParticipant(ride, actor.id);
+}
+
+// Acceptance time and the driver's starting point when a ride is assigned
+function assignDriver(ride: Ride): RideUpdate {
+  return {
+    acceptedAt: new Date().toISOString(),
+    currentLocation: {
+      lat: ride.pickup.lat + (Math.random() - 0.5) * 0.02,
+      lng: ride.pickup.lng + (Math.random() - 0.5) * 0.02,
+    },
+  };
+}
+
+/**
+ * Legal ride status transitions.
+ * Every status change goes through this table; storage.updateRide cannot touch status.
+ */
+export const rideTransitions: Record<RideTransitionType, RideTransition> = {
+  // A stake confirmation takes the draft, in one guarded write, before any money moves
+  claim_stake: {
+    from: ["pending_stake"],
+    to: "staking",
+    actors: ["customer", "system"],
+    authorize: (ride, actor) => actor.role === "system" || ride.customerId === actor.id,
+    invalidMessage: "Ride is not waiting for its stake",
+  },
+  // The stake was turned away before anything was locked, so the customer can send it again
+  unclaim_stake: {
+    from: ["staking"],
+    to: "pending_stake",
+    actors: ["customer", "system"],
+    authorize: (ride, actor) => actor.role === "system" || ride.customerId === actor.id,
+    invalidMessage: "Ride is not being staked",
+  },
+  // The draft's stake is confirmed; it goes out now or waits for its booked time
+  stake: {
+    from: ["staking"],
+    to: (ride) => ride.scheduledFor ? "scheduled" : "waiting",
+    actors: ["customer", "system"],
+    authorize: (ride, actor) => actor.role === "system" || ride.customerId === actor.id,
+    invalidMessage: "Ride is not waiting for its stake",
+  },
+  // Reconciliation calls off drafts whose stake never came, including any whose confirmation never finished
+  expire: {
+    from: ["pending_stake", "staking"],
+    to: "cancelled",
+    actors: ["system"],
+    effects: () => ({ completedAt: new Date().toISOString() }),
+    invalidMessage: "Ride is not waiting for its stake",
+  },
+  accept: {
+    from: ["waiting"],
+    to: "accepted",
+    actors: ["driver"],
+    effects: assignDriver,
+    // Also enforces one active ride per driver (or one pool with free seats) in the same atomic step
+    commit: (ride, actor, updates) => ride.rideType === "pool"
+      ? acceptPoolRide(ride, actor.id!, updates)
+      : storage.acceptRide(ride.id, actor.id!, updates),
+    invalidMessage: "Ride is no longer available",
+  },
+  start: {
+    from: ["accepted"],
+    to: "in_progress",
+    actors: ["driver"],
+    authorize: (ride, actor) => ride.driverId === actor.id,
+    effects: (ride) => ({
+      startedAt: new Date().toISOString(),
+      currentLocation: ride.pickup,
+    }),
+    invalidMessage: "Ride cannot be started",
+  },
+  complete: {
+    from: ["in_progress"],
+    to: "completed",
+    actors: ["customer", "driver", "system"],
+    // The sender isn't in the car, so only the driver completes a parcel, after completeDelivery checks the recipient's PIN
+    authorize: (ride, actor) => ride.deliveryType === "parcel"
+      ? actor.role === "system" || ride.driverId === actor.id
+      : isParticipant(ride, actor),
+    effects: async (ride, actor) => {
+      const fare = await meterRide(ride);
+      const completedAt = new Date().toISOString();
+      return {
+        completedAt,
+        actualFare: fare.fare,
+        fareBreakdown: fare,
+        ...(ride.deliveryType === "parcel" && actor.role === "driver" && {
+          proofOfDelivery: {
+            ...(ride.proofOfDelivery ?? { photo: null, signature: null }),
+            pinVerifiedAt: completedAt,
+          },
+        }),
+      };
+    },
+    invalidMessage: "Ride cannot be completed",
+  },
+  cancel: {
+    from: ["pending_stake", "staking", "scheduled", "waiting", "accepted"],
+    to: "cancelled",
+    actors: ["customer", "driver", "system"],
+    // A driver backs out of a booking by releasing the reservation, not by cancelling the ride
+    authorize: (ride, actor) => isParticipant(ride, actor) && !(ride.status === "scheduled" && actor.role === "driver"),
+    // The policy is applied to the ride as it is at the moment of cancelling
+    effects: (ride, actor, data) => ({
+      completedAt: new Date().toISOString(),
+      cancellation: assessCancellation(
+        ride,
+        actor,
+        (data?.reason ?? "other") as CancellationReason,
+        typeof data?.note === "string" ? data.note : null,
+      ),
+    }),
+    invalidMessage: "Ride cannot be cancelled",
+  },
+  reserve: {
+    from: ["scheduled"],
+    to: "scheduled",
+    actors: ["driver"],
+    // Also rejects rides already reserved and reservations that clash with the driver's others
+    commit: (ride, actor) => storage.reserveRide(ride.id, actor.id!),
+    invalidMessage: "Ride can no longer be reserved",
+  },
+  unreserve: {
+    from: ["scheduled"],
+    to: "scheduled",
+    actors: ["driver"],
+    authorize: (ride, actor) => ride.driverId === actor.id,
+    effects: () => ({ driverId: null }),
+    invalidMessage: "Ride is no longer reserved",
+  },
+  // Released into dispatch by the scheduler ahead of the pickup time
+  activate: {
+    from: ["scheduled"],
+    to: "waiting",
+    actors: ["system"],
+    effects: () => ({ driverId: null }),
+    invalidMessage: "Ride is not scheduled",
+  },
+  // The scheduler hands a reserved ride straight to its driver
+  assign: {
+    from: ["scheduled"],
+    to: "accepted",
+    actors: ["system"],
+    authorize: (ride) => ride.driverId !== null,
+    effects: assignDriver,
+    // Fails with driver_busy if the driver is still on another ride
+    commit: (ride, _actor, updates) => storage.acceptRide(ride.id, ride.driverId!, updates, "scheduled"),
+    invalidMessage: "Ride is not scheduled",
+  },
+};
+
+export function canTransition(ride: Ride, type: RideTransitionType): boolean {
+  return rideTransitions[type].from.includes(ride.status);
+}
+
+/**
+ * Apply a lifecycle transition to a ride and append it to the ride's timeline.
+ * Throws RideTransitionError when the ride is missing, the transition is illegal
+ * from its current status, or the actor may not trigger it.
+ */
+export async function transitionRide(
+  rideId: string,
+  type: RideTransitionType,
+  actor: RideActor,
+  data?: RideTransitionData,
+): Promise<Ride> {
+  const transition = rideTransitions[type];
+
+  const ride = await storage.getRide(rideId);
+  if (!ride) {
+    throw new RideTransitionError("Ride not found", 404);
+  }
+
+  if (!transition.from.includes(ride.status)) {
+    throw new RideTransitionError(transition.invalidMessage, 400);
+  }
+
+  if (!transition.actors.includes(actor.role) || (transition.authorize && !transition.authorize(ride, actor))) {
+    throw new RideTransitionError("Not authorized", 403);
+  }
+
+  const to = typeof transition.to === "function" ? transition.to(ride) : transition.to;
+  const updates = (await transition.effects?.(ride, actor, data)) ?? {};
+  let updatedRide: Ride | undefined;
+  try {
+    updatedRide = transition.commit
+      ? await transition.commit(ride, actor, updates)
+      : await storage.updateRideStatus(rideId, ride.status, to, updates);
+  } catch (error) {
+    if (error instanceof RideConflictError) {
+      throw new RideTransitionError(error.message, 409);
+    }
+    throw error;
+  }
+  if (!updatedRide) {
+    // Someone else moved the ride between our read and the guarded write
+    throw new RideTransitionError(transition.invalidMessage, 409);
+  }
+
+  await storage.addRideEvent({
+    rideId,
+    type,
+    fromStatus: ride.status,
+    toStatus: to,
+    actorId: actor.id,
+    actorRole: actor.role,
+    data: data ?? null,
+  });
+
+  return updatedRide;
+}
+
+/**
+ * Record the driver reaching the pickup of an accepted ride, which the cancellation policy charges from.
+ * Resolves the updated ride, or null if the driver isn't there yet or had already arrived.
+ */
+export async function recordPickupArrival(ride: Ride, position: LatLng): Promise<Ride | null> {
+  if (ride.status !== "accepted" || ride.driverArrivedAt) return null;
+  if (haversineKm(position, ride.pickup) > PICKUP_ARRIVAL_RADIUS_KM) return null;
+
+  // Only the first of several updates arriving together records the arrival
+  const updatedRide = await storage.recordDriverArrival(ride.id, new Date().toISOString());
+  if (!updatedRide) return null;
+
+  await storage.addRideEvent({
+    rideId: ride.id,
+    type: "arrive",
+    fromStatus: ride.status,
+    toStatus: ride.status,
+    actorId: ride.driverId,
+    actorRole: "driver",
+    data: { location: position },
+  });
+  return updatedRide;
+}
+
+/**
+ * Tick off the ride's next stop if the driver's position is inside its geofence.
+ * Stops are visited in order, so only the next one is checked.
+ * Resolves the updated ride, or null if no stop was reached.
+ */
+export async function recordStopProgress(ride: Ride, position: LatLng): Promise<Ride | null> {
+  if (ride.status !== "in_progress" || ride.stopsReached >= ride.stops.length) return null;
+
+  const stop = ride.stops[ride.stopsReached];
+  if (haversineKm(position, stop) > STOP_ARRIVAL_RADIUS_KM) return null;
+
+  // Only the first of several updates arriving together ticks the stop off
+  const updatedRide = await storage.recordStopReached(ride.id, ride.stopsReached);
+  if (!updatedRide) return null;
+
+  await storage.addRideEvent({
+    rideId: ride.id,
+    type: "stop_reached",
+    fromStatus: ride.status,
+    toStatus: ride.status,
+    actorId: ride.driverId,
+    actorRole: "driver",
+    data: { stop: ride.stopsReached + 1, location: stop },
+  });
+  return updatedRide;
+}
+
+export async function getRideTimeline(rideId: string): Promise<RideEvent[]> {
+  return storage.getRideEvents(rideId);
+}
@@ -1,37 +1,146 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
-import { storage } from "./storage";
+import { storage, toAvailableRide, toUpcomingRide, InsufficientFundsError } from "./storage";
 import { 
+  createChallenge, 
+  verifyChallenge, 
+  createSession, 
+  revokeSession,
+  startAuthSweep,
+  isValidWalletAddress,
+  authenticateToken,
+  requireAuth,
+  requireRole,
+} from "./auth";
+import {
+  transitionRide,
+  getRideTimeline,
+  canTransition,
+  isRideParticipant,
+  recordStopProgress,
+  recordPickupArrival,
+  RideTransitionError,
+} from "./rideLifecycle";
+import {
+  dispatchRide,
+  declineOffer,
+  endDispatch,
+  canAcceptRide,
+  isBeingDispatched,
+  updateDriverLocation,
+} from "./dispatch";
+import { createQuote, redeemQuote, releaseQuote, meterRide, FareQuoteError } from "./pricing";
+import { getDriverActiveRide } from "./pooling";
+import {
+  createRecipientToken,
+  getDeliveryTracking,
+  issueDeliveryPin,
+  resendDeliveryPin,
+  completeDelivery,
+  saveProofOfDelivery,
+  proofOfDeliveryFile,
+  DeliveryLinkError,
+  ProofOfDeliveryError,
+  MAX_POD_FILE_BYTES,
+} from "./delivery";
+import { SmsError } from "./sms";
+import { trackRideRequest, untrackRideRequest, getSurgeArea, getSurgeHistory } from "./surge";
+import { traceToLineString } from "./trace";
+import { loadRoadGraph, planRoute } from "./routing";
+import { startScheduler, assertBookable, ScheduleError } from "./scheduler";
+import { startStakeReconciliation } from "./stakeReconciliation";
+import { assessCancellation, applyCancellationPenalty } from "./cancellation";
+import { userConnected, userDisconnected } from "./notifications";
+import {
+  deposit,
+  getBalance,
+  toUserProfile,
+  lockStake,
+  lockWalletStake,
+  settleRide,
+  settleCancellation,
+  payTip,
+  getUserTransactions,
+  LedgerError,
+} from "./ledger";
+import { escrowService, EscrowStakeError } from "./escrow";
+import { 
+  authChallengeSchema,
   authConnectSchema, 
   rideRequestSchema, 
-  rideAcceptSchema, 
+  rideStakeSchema,
+  fareQuoteRequestSchema,
+  directionsRequestSchema,
+  surgeAreaQuerySchema,
   rideCompleteSchema,
+  rideCancelSchema,
+  rideTipSchema,
+  cancellationTermsQuerySchema,
+  cancellationReasonsByRole,
+  availableRidesQuerySchema,
+  locationSchema,
   wsMessageSchema,
-  type LocationUpdate 
+  podArtifactTypes,
+  type LocationUpdate,
+  type Ride,
+  type RideTrace,
 } from "@shared/schema";
 import { z } from "zod";
+import multer from "multer";
+
+// Search radius for the driver ride feed when the client doesn't pass one
+const DEFAULT_NEARBY_RADIUS_KM = parseFloat(process.env.NEARBY_RIDES_RADIUS_KM || '10');
+const MAX_NEARBY_RADIUS_KM = 50;
+
+// Proof-of-delivery uploads are held in memory and written out once the ride and file type check out
+const podUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_POD_FILE_BYTES } });
+const podArtifactTypeSchema = z.enum(podArtifactTypes);
 
 // Store WebSocket connections by ride ID
 const rideSubscriptions = new Map<string, Set<WebSocket>>();
 
-// Store the current location for each ride
-const rideLocations = new Map<string, LocationUpdate>();
-
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
+
+  // Road graph for routes, fares and ETAs; read once from local disk
+  loadRoadGraph();
+
+  // Reminds and releases scheduled rides as their pickup time approaches
+  startScheduler();
+
+  // Expires ride drafts whose stake never came and refunds escrow orders they left behind
+  startStakeReconciliation();
+
+  // Drops sign-in challenges and sessions that expired unused
+  startAuthSweep();
   
   // WebSocket server for real-time GPS updates
   const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
 
-  wss.on('connection', (ws) => {
+  wss.on('connection', (ws, req) => {
     console.log('WebSocket client connected');
     let subscribedRideId: string | null = null;
 
-    ws.on('message', (message) => {
+    // Browsers cannot set headers on WebSocket upgrades, so the session token comes in the query string
+    const token = new URL(req.url || '/', 'http://localhost').searchParams.get('token') || undefined;
+    const authenticatedUser = authenticateToken(token);
+
+    // Connected users get notifications, and connected drivers can receive dispatch offers
+    authenticatedUser.then((user) => {
+      if (user) userConnected(user, ws);
+    }).catch((error) => console.error('WebSocket auth error:', error));
+
+    ws.on('message', async (message) => {
       try {
+        const user = await authenticatedUser;
+        if (!user) {
+          ws.close(1008, 'Not authenticated');
+          return;
+        }
+
         const data = JSON.parse(message.toString());
         const parsed = wsMessageSchema.safeParse(data);
         
@@ -45,6 +154,12 @@ export async function registerRoutes(
         switch (type) {
           case 'subscribe':
             if (rideId) {
+              // Only the ride's customer and driver may follow it
+              const ride = await storage.getRide(rideId);
+              if (!ride || !isRideParticipant(ride, user.id)) {
+                return;
+              }
+
               // Unsubscribe from previous ride
               if (subscribedRideId) {
                 const prevSubs = rideSubscriptions.get(subscribedRideId);
@@ -64,8 +179,14 @@ export async function registerRoutes(
               rideSubscriptions.get(rideId)!.add(ws);
               
               // Send current location if available
-              const currentLocation = rideLocations.get(rideId);
-              if (currentLocation) {
+              const lastLocation = await storage.getLastRideLocation(rideId);
+              if (lastLocation) {
+                const currentLocation: LocationUpdate = {
+                  lat: lastLocation.lat,
+                  lng: lastLocation.lng,
+                  timestamp: new Date(lastLocation.recordedAt).getTime(),
+                  speed: lastLocation.speed ?? undefined,
+                };
                 ws.send(JSON.stringify({
                   type: 'location_update',
                   data: currentLocation,
@@ -89,37 +210,86 @@ export async function registerRoutes(
 
           case 'location_update':
             if (rideId && messageData) {
+              // Only the assigned driver reports positions, and only while the ride is underway
+              const ride = await storage.getRide(rideId);
+              if (!ride || ride.driverId !== user.id) {
+                return;
+              }
+              if (ride.status !== 'accepted' && ride.status !== 'in_progress') {
+                return;
+              }
+              if (!locationSchema.safeParse(messageData).success) {
+                return;
+              }
+
               const locationUpdate: LocationUpdate = {
                 lat: messageData.lat,
                 lng: messageData.lng,
                 timestamp: messageData.timestamp || Date.now(),
                 speed: messageData.speed,
+                heading: typeof messageData.heading === 'number' ? messageData.heading : undefined,
               };
               
-              // Store current location
-              rideLocations.set(rideId, locationUpdate);
+              // The car carries every rider in a pool, so the position counts for all of their rides
+              const trackedRides = ride.poolId ? await storage.getActiveRides(user.id) : [ride];
+              const broadcastMessage = JSON.stringify({
+                type: 'location_update',
+                data: locationUpdate,
+              });
 
-              // Update ride in storage
-              storage.updateRide(rideId, {
-                currentLocation: {
+              for (const trackedRide of trackedRides) {
+                if (trackedRide.status !== 'accepted' && trackedRide.status !== 'in_progress') {
+                  continue;
+                }
+
+                // Every point is kept: the trace backs fare metering, replay and disputes
+                await storage.addRideLocation({
+                  rideId: trackedRide.id,
                   lat: locationUpdate.lat,
                   lng: locationUpdate.lng,
-                },
-              });
-
-              // Broadcast to all subscribers
-              const subscribers = rideSubscriptions.get(rideId);
-              if (subscribers) {
-                const broadcastMessage = JSON.stringify({
-                  type: 'location_update',
-                  data: locationUpdate,
+                  speed: typeof locationUpdate.speed === 'number' ? locationUpdate.speed : null,
+                  rideStatus: trackedRide.status,
                 });
-                
-                subscribers.forEach((client) => {
-                  if (client !== ws && client.readyState === WebSocket.OPEN) {
-                    client.send(broadcastMessage);
-                  }
+
+                // Update ride in storage
+                await storage.updateRide(trackedRide.id, {
+                  currentLocation: {
+                    lat: locationUpdate.lat,
+                    lng: locationUpdate.lng,
+                  },
                 });
+
+                // Reaching the pickup moves the ride onto the later cancellation fee
+                const arrived = await recordPickupArrival(trackedRide, locationUpdate);
+                if (arrived) {
+                  broadcastRideStatus(trackedRide.id, { driverArrivedAt: arrived.driverArrivedAt });
+                }
+
+                // Stops are ticked off as the driver enters each one's geofence
+                const progressed = await recordStopProgress(trackedRide, locationUpdate);
+                if (progressed) {
+                  broadcastRideStatus(trackedRide.id, { stopsReached: progressed.stopsReached });
+                }
+
+                // Broadcast to all subscribers
+                const subscribers = rideSubscriptions.get(trackedRide.id);
+                if (subscribers) {
+                  subscribers.forEach((client) => {
+                    if (client !== ws && client.readyState === WebSocket.OPEN) {
+                      client.send(broadcastMessage);
+                    }
+                  });
+                }
+              }
+            }
+            break;
+
+          case 'driver_location':
+            // Idle drivers report where they are so the dispatcher can rank them
+            if (user.role === 'driver') {
+              const location = locationSchema.safeParse(messageData);
+              if (location.success) {
+                updateDriverLocation(user.id, location.data);
               }
             }
             break;
@@ -131,6 +301,9 @@ export async function registerRoutes(
 
     ws.on('close', () => {
       console.log('WebSocket client disconnected');
+      authenticatedUser.then((user) => {
+        if (user) userDisconnected(user.id, ws);
+      }).catch(() => {});
       // Clean up subscriptions
       if (subscribedRideId) {
         const subs = rideSubscriptions.get(subscribedRideId);
@@ -166,6 +339,30 @@ export async function registerRoutes(
   }
 
   // Auth endpoints
+  app.post('/api/auth/challenge', async (req, res) => {
+    try {
+      const parsed = authChallengeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid request', errors: parsed.error.errors });
+      }
+
+      const { walletAddress } = parsed.data;
+      if (!isValidWalletAddress(walletAddress)) {
+        return res.status(400).json({ message: 'Invalid wallet address' });
+      }
+
+      const challenge = createChallenge(walletAddress);
+      res.json({
+        nonce: challenge.nonce,
+        message: challenge.message,
+        expiresAt: new Date(challenge.expiresAt).toISOString(),
+      });
+    } catch (error) {
+      console.error('Auth challenge error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
   app.post('/api/auth/connect', async (req, res) => {
     try {
       const parsed = authConnectSchema.safeParse(req.body);
@@ -173,7 +370,13 @@ export async function registerRoutes(
         return res.status(400).json({ message: 'Invalid request', errors: parsed.error.errors });
       }
 
-      const { walletAddress, role } = parsed.data;
+      const { walletAddress, role, nonce, signature } = parsed.data;
+
+      // The wallet must prove ownership by signing the challenge we issued
+      const verified = await verifyChallenge(nonce, walletAddress, signature);
+      if (!verified) {
+        return res.status(401).json({ message: 'Invalid or expired signature' });
+      }
 
       // Check if user exists
       let user = await storage.getUserByWallet(walletAddress);
@@ -186,63 +389,297 @@ export async function registerRoutes(
           reputation: 50 + Math.floor(Math.random() * 30), // 50-80
           completedRides: 0,
           avgRating: 4.0 + Math.random() * 0.8, // 4.0-4.8
-          balance: 100 + Math.random() * 200, // 100-300
         });
+        // Demo starting funds
+        await deposit(user.id, 100 + Math.random() * 200); // 100-300
       }
 
-      // Generate a simple token (in production, use JWT)
-      const token = `token_${user.id}_${Date.now()}`;
+      const session = createSession(user.id, walletAddress);
 
-      res.json({ token, user });
+      res.json({ token: session.token, user: await toUserProfile(user) });
     } catch (error) {
       console.error('Auth error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
+  app.post('/api/auth/logout', requireAuth, async (req, res) => {
+    revokeSession(req.sessionToken!);
+    res.json({ success: true });
+  });
+
   // User profile endpoint
-  app.get('/api/user/:userId/profile', async (req, res) => {
+  app.get('/api/user/:userId/profile', requireAuth, async (req, res) => {
     try {
+      if (req.params.userId !== req.currentUser!.id) {
+        return res.status(403).json({ message: 'Not authorized' });
+      }
+
       const user = await storage.getUser(req.params.userId);
       if (!user) {
         return res.status(404).json({ message: 'User not found' });
       }
-      res.json(user);
+      res.json(await toUserProfile(user));
     } catch (error) {
       console.error('Profile error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
+  // Fare endpoints
+  app.post('/api/fares/quote', requireAuth, requireRole('customer'), async (req, res) => {
+    try {
+      const parsed = fareQuoteRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid request', errors: parsed.error.errors });
+      }
+
+      res.json(await createQuote(req.currentUser!.id, parsed.data));
+    } catch (error) {
+      console.error('Fare quote error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Routing endpoints
+  app.post('/api/directions', requireAuth, async (req, res) => {
+    try {
+      const parsed = directionsRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid request', errors: parsed.error.errors });
+      }
+
+      res.json(planRoute(parsed.data.waypoints));
+    } catch (error) {
+      console.error('Directions error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Surge endpoints
+  app.get('/api/surge', requireAuth, requireRole('driver'), async (req, res) => {
+    try {
+      const parsed = surgeAreaQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid request', errors: parsed.error.errors });
+      }
+
+      const { lat, lng, radiusKm } = parsed.data;
+      res.json(await getSurgeArea({ lat, lng }, radiusKm));
+    } catch (error) {
+      console.error('Surge area error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Multipliers shown in a cell over the last day, for fare disputes
+  app.get('/api/surge/:cell/history', requireAuth, async (req, res) => {
+    try {
+      const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+      res.json(await getSurgeHistory(req.params.cell, since));
+    } catch (error) {
+      console.error('Surge history error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
   // Ride endpoints
-  app.post('/api/rides/request', async (req, res) => {
+  // Requesting creates a pending_stake draft, so the stake can be locked against the ride's own ID
+  app.post('/api/rides/request', requireAuth, requireRole('customer'), async (req, res) => {
     try {
       const parsed = rideRequestSchema.safeParse(req.body);
       if (!parsed.success) {
         return res.status(400).json({ message: 'Invalid request', errors: parsed.error.errors });
       }
 
-      const ride = await storage.createRide(parsed.data);
+      const { quoteId, scheduledFor, timeZone } = parsed.data;
+      if (scheduledFor) {
+        assertBookable(scheduledFor);
+      }
+
+      const customerId = req.currentUser!.id;
+      const quote = redeemQuote(quoteId, customerId);
+      let ride: Ride;
+      try {
+        ride = await storage.createRide({
+          customerId,
+          rideType: quote.rideType,
+          seats: quote.seats,
+          deliveryType: quote.deliveryType,
+          parcel: quote.parcel,
+          pickup: quote.pickup,
+          stops: quote.stops,
+          dropoff: quote.dropoff,
+          estimatedFare: quote.breakdown.fare,
+          stakedAmount: quote.breakdown.stakeRequired,
+          surgeMultiplier: quote.breakdown.surgeMultiplier,
+          scheduledFor: scheduledFor ? new Date(scheduledFor).toISOString() : null,
+          timeZone: scheduledFor ? timeZone ?? null : null,
+        });
+      } catch (error) {
+        releaseQuote(quote);
+        throw error;
+      }
+
+      await storage.addRideEvent({
+        rideId: ride.id,
+        type: 'request',
+        fromStatus: null,
+        toStatus: ride.status,
+        actorId: ride.customerId,
+        actorRole: 'customer',
+        // Price as quoted, so disputes can trace it back to the surge snapshot
+        data: { ...quote.breakdown, surgeSnapshotId: quote.surgeSnapshotId, scheduledFor: ride.scheduledFor },
+      });
+
       res.json(ride);
     } catch (error) {
+      if (error instanceof FareQuoteError || error instanceof ScheduleError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error('Ride request error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.get('/api/rides/available', async (req, res) => {
+  // Confirm a draft's stake and send the ride out. Customers staking from their own wallet send the
+  // createOrder transaction's hash and block; without them the stake is locked from their balance.
+  app.post('/api/rides/:rideId/stake', requireAuth, requireRole('customer'), async (req, res) => {
+    try {
+      const parsed = rideStakeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid request', errors: parsed.error.errors });
+      }
+
+      const { rideId } = req.params;
+      const actor = { id: req.currentUser!.id, role: 'customer' as const };
+      const { txHash, blockHash } = parsed.data;
+      const ride = await storage.getRide(rideId);
+      if (!ride || ride.customerId !== actor.id) {
+        return res.status(404).json({ message: 'Ride not found' });
+      }
+
+      // A wallet stake that arrives after its draft was called off is refunded by reconciliation rather than lost
+      if (txHash && ride.status === 'cancelled') {
+        await escrowService.recheck(ride);
+        return res.status(409).json({ message: 'This ride request has expired. Your stake will be refunded.' });
+      }
+      if (!txHash && await getBalance(actor.id) < ride.stakedAmount) {
+        return res.status(400).json({ message: 'Insufficient balance to stake for this ride' });
+      }
+
+      // Only one stake request gets the draft; any other sent at the same time is turned away before it locks anything
+      const claimedRide = await transitionRide(rideId, 'claim_stake', actor);
+
+      let stakedRide: Ride;
+      if (txHash && blockHash) {
+        try {
+          stakedRide = await escrowService.confirmStake(claimedRide, txHash, blockHash);
+        } catch (error) {
+          // Nothing was locked, so the customer can send the stake again
+          await transitionRide(rideId, 'unclaim_stake', actor).catch((unclaimError) => console.error('Stake unclaim error:', unclaimError));
+          throw error;
+        }
+        await lockWalletStake(stakedRide);
+      } else {
+        try {
+          await lockStake(claimedRide);
+        } catch (error) {
+          if (!(error instanceof InsufficientFundsError)) throw error;
+          // Another request spent the balance since the check above; the ride never goes out
+          await transitionRide(rideId, 'cancel', { id: null, role: 'system' });
+          return res.status(400).json({ message: 'Insufficient balance to stake for this ride' });
+        }
+
+        try {
+          stakedRide = await escrowService.lockStake(claimedRide);
+        } catch (error) {
+          // Without an escrow order there is nothing to pay the driver from, so the ride is called off
+          console.error('Escrow lock error:', error);
+          await settleCancellation(await transitionRide(rideId, 'cancel', { id: null, role: 'system' }));
+          return res.status(502).json({ message: 'Could not lock your stake in escrow. Please try again.' });
+        }
+      }
+
+      try {
+        stakedRide = await transitionRide(rideId, 'stake', actor, { txHash: stakedRide.escrow?.created?.txHash ?? null });
+      } catch (error) {
+        if (!(error instanceof RideTransitionError)) throw error;
+        // The draft expired or was cancelled while the stake was being locked; only then is the stake handed back
+        const calledOff = await storage.getRide(rideId);
+        if (calledOff?.status !== 'cancelled') throw error;
+        await settleCancellation(calledOff);
+        await escrowService.refund(calledOff).catch((refundError) => console.error('Escrow refund error:', refundError));
+        return res.status(409).json({ message: 'This ride request has expired. Your stake will be refunded.' });
+      }
+
+      // Scheduled rides count as demand and go to drivers only once the scheduler releases them
+      if (stakedRide.status === 'waiting') {
+        trackRideRequest(stakedRide);
+
+        // Offers run in the background; the customer only needs the staked ride
+        dispatchRide(stakedRide).catch((error) => console.error('Dispatch error:', error));
+      }
+
+      res.json(stakedRide);
+    } catch (error) {
+      if (error instanceof EscrowStakeError || error instanceof RideTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error('Ride stake error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/rides/available', requireAuth, requireRole('driver'), async (req, res) => {
     try {
-      const rides = await storage.getAvailableRides();
-      res.json(rides);
+      const { lat, lng, radiusKm } = availableRidesQuerySchema.parse(req.query);
+      const radius = Math.min(radiusKm ?? DEFAULT_NEARBY_RADIUS_KM, MAX_NEARBY_RADIUS_KM);
+      const rides = await storage.getAvailableRides({ lat, lng }, radius);
+
+      // Rides still being offered to a specific driver are not up for grabs yet
+      res.json(rides.filter(ride => !isBeingDispatched(ride.rideId)));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request', errors: error.errors });
+      }
       console.error('Available rides error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.get('/api/rides/active/:userId', async (req, res) => {
+  // Scheduled rides near the driver that are still open, plus the driver's own reservations
+  app.get('/api/rides/upcoming', requireAuth, requireRole('driver'), async (req, res) => {
     try {
-      const ride = await storage.getActiveRide(req.params.userId);
+      const { lat, lng, radiusKm } = availableRidesQuerySchema.parse(req.query);
+      const radius = Math.min(radiusKm ?? DEFAULT_NEARBY_RADIUS_KM, MAX_NEARBY_RADIUS_KM);
+      res.json(await storage.getUpcomingRides(req.currentUser!.id, { lat, lng }, radius));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request', errors: error.errors });
+      }
+      console.error('Upcoming rides error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // The customer's bookings that haven't been released yet
+  app.get('/api/rides/scheduled', requireAuth, requireRole('customer'), async (req, res) => {
+    try {
+      res.json(await storage.getScheduledRides({ customerId: req.currentUser!.id }));
+    } catch (error) {
+      console.error('Scheduled rides error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.get('/api/rides/active', requireAuth, async (req, res) => {
+    try {
+      // A driver working a pool gets the ride of their next pickup or dropoff
+      const user = req.currentUser!;
+      const ride = user.role === 'driver'
+        ? await getDriverActiveRide(user.id)
+        : await storage.getActiveRide(user.id);
       if (!ride) {
         return res.status(404).json({ message: 'No active ride' });
       }
@@ -253,9 +690,9 @@ export async function registerRoutes(
     }
   });
 
-  app.get('/api/rides/history/:userId', async (req, res) => {
+  app.get('/api/rides/history', requireAuth, async (req, res) => {
     try {
-      const history = await storage.getRideHistory(req.params.userId);
+      const history = await storage.getRideHistory(req.currentUser!.id);
       res.json(history);
     } catch (error) {
       console.error('Ride history error:', error);
@@ -263,116 +700,234 @@ export async function registerRoutes(
     }
   });
 
-  app.get('/api/rides/:rideId', async (req, res) => {
+  app.get('/api/rides/:rideId', requireAuth, async (req, res) => {
     try {
       const ride = await storage.getRideWithDetails(req.params.rideId);
       if (!ride) {
         return res.status(404).json({ message: 'Ride not found' });
       }
-      res.json(ride);
+
+      const user = req.currentUser!;
+      if (isRideParticipant(ride, user.id)) {
+        return res.json(ride);
+      }
+
+      // Other drivers may look at open requests, but only as the ride feed shows them:
+      // contacts and the rest of the ride are shared once the ride is theirs
+      const isOpen = ride.status === 'waiting' || (ride.status === 'scheduled' && !ride.driverId);
+      if (!isOpen || user.role !== 'driver') {
+        return res.status(403).json({ message: 'Not authorized' });
+      }
+      const { lat, lng } = availableRidesQuerySchema.parse(req.query);
+      const customer = await storage.getUser(ride.customerId);
+      res.json(ride.status === 'scheduled'
+        ? toUpcomingRide(ride, customer, user.id, { lat, lng })
+        : toAvailableRide(ride, customer, { lat, lng }));
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: 'Invalid request', errors: error.errors });
+      }
       console.error('Get ride error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.post('/api/rides/:rideId/accept', async (req, res) => {
+  app.get('/api/rides/:rideId/timeline', requireAuth, async (req, res) => {
     try {
-      const parsed = rideAcceptSchema.safeParse(req.body);
-      if (!parsed.success) {
-        return res.status(400).json({ message: 'Invalid request', errors: parsed.error.errors });
+      const ride = await storage.getRide(req.params.rideId);
+      if (!ride) {
+        return res.status(404).json({ message: 'Ride not found' });
       }
 
-      const { driverId } = parsed.data;
-      const { rideId } = req.params;
+      if (!isRideParticipant(ride, req.currentUser!.id)) {
+        return res.status(403).json({ message: 'Not authorized' });
+      }
+      res.json(await getRideTimeline(ride.id));
+    } catch (error) {
+      console.error('Ride timeline error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
 
-      const ride = await storage.getRide(rideId);
+  // Final fare once completed, otherwise the fare metered so far
+  app.get('/api/rides/:rideId/fare', requireAuth, async (req, res) => {
+    try {
+      const ride = await storage.getRide(req.params.rideId);
       if (!ride) {
         return res.status(404).json({ message: 'Ride not found' });
       }
 
-      if (ride.status !== 'waiting') {
-        return res.status(400).json({ message: 'Ride is no longer available' });
+      if (!isRideParticipant(ride, req.currentUser!.id)) {
+        return res.status(403).json({ message: 'Not authorized' });
       }
+      if (ride.fareBreakdown) {
+        return res.json(ride.fareBreakdown);
+      }
+      if (ride.status !== 'in_progress') {
+        return res.status(400).json({ message: 'Ride is not in progress' });
+      }
+      res.json(await meterRide(ride));
+    } catch (error) {
+      console.error('Ride fare error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
 
-      // Check if driver already has an active ride
-      const existingActiveRide = await storage.getActiveRide(driverId);
-      if (existingActiveRide) {
-        return res.status(400).json({ message: 'You already have an active ride' });
+  // Recorded GPS trace, as raw points and as a GeoJSON LineString
+  app.get('/api/rides/:rideId/trace', requireAuth, async (req, res) => {
+    try {
+      const ride = await storage.getRide(req.params.rideId);
+      if (!ride) {
+        return res.status(404).json({ message: 'Ride not found' });
       }
 
-      const driver = await storage.getUser(driverId);
-      
-      // Set initial driver location near pickup
-      const initialLocation = {
-        lat: ride.pickup.lat + (Math.random() - 0.5) * 0.02,
-        lng: ride.pickup.lng + (Math.random() - 0.5) * 0.02,
+      if (!isRideParticipant(ride, req.currentUser!.id)) {
+        return res.status(403).json({ message: 'Not authorized' });
+      }
+
+      const points = await storage.getRideLocations(ride.id);
+      const trace: RideTrace = {
+        rideId: ride.id,
+        points,
+        geojson: traceToLineString(ride.id, points),
       };
+      res.json(trace);
+    } catch (error) {
+      console.error('Ride trace error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
 
-      const updatedRide = await storage.updateRide(rideId, { 
-        driverId, 
-        status: 'accepted',
-        currentLocation: initialLocation,
-      });
+  // Tracking link token the sender passes on to the parcel's recipient
+  app.get('/api/rides/:rideId/recipient-link', requireAuth, requireRole('customer'), async (req, res) => {
+    try {
+      const ride = await storage.getRide(req.params.rideId);
+      if (!ride) {
+        return res.status(404).json({ message: 'Ride not found' });
+      }
+
+      if (ride.customerId !== req.currentUser!.id) {
+        return res.status(403).json({ message: 'Not authorized' });
+      }
+      if (ride.deliveryType !== 'parcel') {
+        return res.status(400).json({ message: 'Ride is not a parcel delivery' });
+      }
+      res.json({ token: createRecipientToken(ride) });
+    } catch (error) {
+      console.error('Recipient link error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  app.post('/api/rides/:rideId/accept', requireAuth, requireRole('driver'), async (req, res) => {
+    try {
+      const driver = req.currentUser!;
+      const driverId = driver.id;
+      const { rideId } = req.params;
+
+      if (!canAcceptRide(rideId, driverId)) {
+        return res.status(409).json({ message: 'Ride is offered to another driver' });
+      }
+
+      // Fails with 409 if another driver got there first or this driver is already busy
+      const updatedRide = await transitionRide(rideId, 'accept', { id: driver.id, role: driver.role });
+      endDispatch(rideId);
+      untrackRideRequest(updatedRide);
+
+      // The recipient is texted their handover PIN once a driver has the parcel; a lost text can be sent again
+      // from their tracking link
+      await issueDeliveryPin(updatedRide).catch((error) => console.error('Delivery PIN error:', error));
 
       // Broadcast status update
       broadcastRideStatus(rideId, { 
         status: 'accepted', 
         driverId,
-        currentLocation: initialLocation,
-        driver: driver ? {
+        currentLocation: updatedRide.currentLocation,
+        driver: {
           name: driver.name || 'Driver',
           address: driver.walletAddress,
           rating: driver.avgRating,
           reputation: driver.reputation,
-        } : undefined,
+        },
       });
 
       res.json(updatedRide);
     } catch (error) {
+      if (error instanceof RideTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error('Accept ride error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.post('/api/rides/:rideId/start', async (req, res) => {
+  app.post('/api/rides/:rideId/reserve', requireAuth, requireRole('driver'), async (req, res) => {
     try {
-      const { rideId } = req.params;
-      const { driverId } = req.body;
+      const driver = req.currentUser!;
 
-      const ride = await storage.getRide(rideId);
-      if (!ride) {
-        return res.status(404).json({ message: 'Ride not found' });
+      // Fails with 409 if another driver reserved it first or it clashes with another booking
+      const reservedRide = await transitionRide(req.params.rideId, 'reserve', { id: driver.id, role: driver.role });
+      res.json(reservedRide);
+    } catch (error) {
+      if (error instanceof RideTransitionError) {
+        return res.status(error.status).json({ message: error.message });
       }
+      console.error('Reserve ride error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
 
-      if (ride.status !== 'accepted') {
-        return res.status(400).json({ message: 'Ride cannot be started' });
+  app.post('/api/rides/:rideId/unreserve', requireAuth, requireRole('driver'), async (req, res) => {
+    try {
+      const driver = req.currentUser!;
+      const releasedRide = await transitionRide(req.params.rideId, 'unreserve', { id: driver.id, role: driver.role });
+      res.json(releasedRide);
+    } catch (error) {
+      if (error instanceof RideTransitionError) {
+        return res.status(error.status).json({ message: error.message });
       }
+      console.error('Unreserve ride error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
 
-      if (ride.driverId !== driverId) {
-        return res.status(403).json({ message: 'Not authorized' });
+  app.post('/api/rides/:rideId/decline', requireAuth, requireRole('driver'), async (req, res) => {
+    try {
+      const declined = await declineOffer(req.params.rideId, req.currentUser!.id);
+      if (!declined) {
+        return res.status(404).json({ message: 'No pending offer for this ride' });
       }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Decline ride error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
 
-      const updatedRide = await storage.updateRide(rideId, { 
-        status: 'in_progress',
-        startedAt: new Date().toISOString(),
-        currentLocation: ride.pickup,
-      });
+  app.post('/api/rides/:rideId/start', requireAuth, requireRole('driver'), async (req, res) => {
+    try {
+      const { rideId } = req.params;
+      const driver = req.currentUser!;
+
+      const updatedRide = await transitionRide(rideId, 'start', { id: driver.id, role: driver.role });
 
       // Broadcast status update
       broadcastRideStatus(rideId, { 
         status: 'in_progress',
-        startedAt: updatedRide?.startedAt,
+        startedAt: updatedRide.startedAt,
       });
 
       res.json(updatedRide);
     } catch (error) {
+      if (error instanceof RideTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error('Start ride error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.post('/api/rides/:rideId/complete', async (req, res) => {
+  app.post('/api/rides/:rideId/complete', requireAuth, async (req, res) => {
     try {
       const parsed = rideCompleteSchema.safeParse(req.body);
       if (!parsed.success) {
@@ -380,176 +935,343 @@ export async function registerRoutes(
       }
 
       const { rideId } = req.params;
-      const { completedBy, rating, feedback } = parsed.data;
+      const { rating, feedback, deliveryPin } = parsed.data;
+      const user = req.currentUser!;
 
-      const ride = await storage.getRide(rideId);
+      let ride = await storage.getRide(rideId);
       if (!ride) {
         return res.status(404).json({ message: 'Ride not found' });
       }
 
-      const updates: Partial<typeof ride> = {};
-      
-      if (ride.status === 'in_progress' && !ride.completedAt) {
-        updates.status = 'completed';
-        updates.completedAt = new Date().toISOString();
-        updates.actualFare = ride.estimatedFare;
+      if (!isRideParticipant(ride, user.id)) {
+        return res.status(403).json({ message: 'Not authorized' });
       }
 
-      if (completedBy === 'customer' && rating) {
-        updates.driverRating = rating;
-        updates.customerFeedback = feedback || null;
-        
-        // Update driver's average rating
-        if (ride.driverId) {
-          const driver = await storage.getUser(ride.driverId);
-          if (driver) {
-            const newAvgRating = (driver.avgRating * driver.completedRides + rating) / (driver.completedRides + 1);
-            await storage.updateUser(ride.driverId, {
-              avgRating: Math.round(newAvgRating * 10) / 10,
-              completedRides: driver.completedRides + 1,
-              reputation: Math.min(100, driver.reputation + 2),
-            });
+      // Participants rate each other, so the caller's side follows from their place in the ride
+      const completedBy = ride.driverId === user.id ? 'driver' : 'customer';
+
+      // The first call completes the ride; a later call may still attach the caller's rating
+      let justCompleted = false;
+      if (ride.deliveryType === 'parcel' && canTransition(ride, 'complete')) {
+        if (!deliveryPin) {
+          return res.status(400).json({ message: 'Enter the PIN from the recipient to complete the delivery' });
+        }
+        ride = await completeDelivery(ride, user.id, deliveryPin);
+        justCompleted = true;
+      } else if (canTransition(ride, 'complete')) {
+        ride = await transitionRide(rideId, 'complete', { id: user.id, role: completedBy });
+        justCompleted = true;
+      }
+
+      if (justCompleted) {
+        await settleRide(ride);
+        // The ride stays completed if the chain is down; the order keeps its funds until it is released.
+        // Re-read so the ride carries the failed release the escrow service saved
+        const completedRide = ride;
+        ride = await escrowService.release(completedRide).catch(async (error) => {
+          console.error('Escrow release error:', error);
+          return (await storage.getRide(rideId)) ?? completedRide;
+        });
+
+        // Each ride counts once towards both parties' totals, whether or not it is rated
+        for (const participantId of [ride.customerId, ride.driverId]) {
+          const participant = participantId ? await storage.getUser(participantId) : undefined;
+          if (participant) {
+            await storage.updateUser(participant.id, { completedRides: participant.completedRides + 1 });
           }
         }
-      } else if (completedBy === 'driver' && rating) {
-        updates.customerRating = rating;
-        updates.driverFeedback = feedback || null;
-        
-        // Update customer's average rating
-        const customer = await storage.getUser(ride.customerId);
-        if (customer) {
-          const newAvgRating = (customer.avgRating * customer.completedRides + rating) / (customer.completedRides + 1);
-          await storage.updateUser(ride.customerId, {
-            avgRating: Math.round(newAvgRating * 10) / 10,
-            completedRides: customer.completedRides + 1,
-            reputation: Math.min(100, customer.reputation + 2),
+      }
+
+      // Ratings are one per side, on a completed ride
+      if (rating) {
+        const ratedRide = await storage.rateRide(rideId, completedBy, rating, feedback || null);
+        if (!ratedRide) {
+          const message = ride.status === 'completed' ? 'You have already rated this ride' : 'Only completed rides can be rated';
+          return res.status(409).json({ message });
+        }
+        ride = ratedRide;
+
+        const rateeId = completedBy === 'customer' ? ride.driverId : ride.customerId;
+        if (rateeId) {
+          await storage.createRating({
+            rideId,
+            raterId: user.id,
+            rateeId,
+            rating,
+            feedback: feedback || null,
           });
+
+          // completedRides already counts this ride, so the old average covers the ones before it
+          const ratee = await storage.getUser(rateeId);
+          if (ratee) {
+            const rideCount = Math.max(ratee.completedRides, 1);
+            const newAvgRating = (ratee.avgRating * (rideCount - 1) + rating) / rideCount;
+            await storage.updateUser(rateeId, {
+              avgRating: Math.round(newAvgRating * 10) / 10,
+              reputation: Math.min(100, ratee.reputation + 2),
+            });
+          }
         }
       }
 
-      const updatedRide = await storage.updateRide(rideId, updates);
-
       // Broadcast status update
-      if (updates.status === 'completed') {
-        broadcastRideStatus(rideId, { status: 'completed' });
-        
-        // Clean up location data
-        rideLocations.delete(rideId);
+      if (justCompleted) {
+        broadcastRideStatus(rideId, {
+          status: 'completed',
+          actualFare: ride.actualFare,
+          fareBreakdown: ride.fareBreakdown,
+          proofOfDelivery: ride.proofOfDelivery,
+          escrow: ride.escrow,
+        });
       }
 
-      res.json(updatedRide);
+      res.json(ride);
     } catch (error) {
+      if (error instanceof RideTransitionError || error instanceof ProofOfDeliveryError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error('Complete ride error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  app.post('/api/rides/:rideId/cancel', async (req, res) => {
+  // What cancelling now would cost, so the fee can be shown before the user confirms
+  app.get('/api/rides/:rideId/cancellation', requireAuth, async (req, res) => {
     try {
-      const { rideId } = req.params;
-      const { userId } = req.body;
+      const parsed = cancellationTermsQuerySchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid request', errors: parsed.error.errors });
+      }
 
-      const ride = await storage.getRide(rideId);
+      const user = req.currentUser!;
+      if (!cancellationReasonsByRole[user.role].includes(parsed.data.reason)) {
+        return res.status(400).json({ message: 'Reason does not apply to your role' });
+      }
+
+      const ride = await storage.getRide(req.params.rideId);
       if (!ride) {
         return res.status(404).json({ message: 'Ride not found' });
       }
 
-      if (ride.status !== 'waiting' && ride.status !== 'accepted') {
+      if (!isRideParticipant(ride, user.id)) {
+        return res.status(403).json({ message: 'Not authorized' });
+      }
+      if (!canTransition(ride, 'cancel')) {
         return res.status(400).json({ message: 'Ride cannot be cancelled' });
       }
+      res.json(assessCancellation(ride, { id: user.id, role: user.role }, parsed.data.reason));
+    } catch (error) {
+      console.error('Cancellation terms error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
 
-      if (ride.customerId !== userId && ride.driverId !== userId) {
-        return res.status(403).json({ message: 'Not authorized' });
+  app.post('/api/rides/:rideId/cancel', requireAuth, async (req, res) => {
+    try {
+      const parsed = rideCancelSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid request', errors: parsed.error.errors });
       }
 
-      const updatedRide = await storage.updateRide(rideId, { 
-        status: 'cancelled',
-        completedAt: new Date().toISOString(),
+      const { rideId } = req.params;
+      const user = req.currentUser!;
+      const { reason, note, failedStake } = parsed.data;
+      if (!cancellationReasonsByRole[user.role].includes(reason)) {
+        return res.status(400).json({ message: 'Reason does not apply to your role' });
+      }
+      if (failedStake && user.role !== 'customer') {
+        return res.status(400).json({ message: 'Only customers stake for rides' });
+      }
+
+      let updatedRide = await transitionRide(rideId, 'cancel', { id: user.id, role: user.role }, {
+        reason,
+        note: note || null,
+      });
+      if (failedStake) {
+        updatedRide = await escrowService.recordFailedStake(updatedRide, failedStake);
+      }
+      endDispatch(rideId);
+      untrackRideRequest(updatedRide);
+      await applyCancellationPenalty(updatedRide);
+      await settleCancellation(updatedRide);
+      updatedRide = await escrowService.refund(updatedRide).catch(async (error) => {
+        console.error('Escrow refund error:', error);
+        return (await storage.getRide(rideId)) ?? updatedRide;
       });
 
       // Broadcast status update
-      broadcastRideStatus(rideId, { status: 'cancelled' });
-      
-      // Clean up
-      rideLocations.delete(rideId);
+      broadcastRideStatus(rideId, {
+        status: 'cancelled',
+        cancellation: updatedRide.cancellation,
+        escrow: updatedRide.escrow,
+      });
 
       res.json(updatedRide);
     } catch (error) {
+      if (error instanceof RideTransitionError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error('Cancel ride error:', error);
       res.status(500).json({ message: 'Internal server error' });
     }
   });
 
-  return httpServer;
-}
-// Add to routes.ts
+  // The ride's escrow receipts next to the order as the contract currently holds it
+  app.get('/api/rides/:rideId/escrow', requireAuth, async (req, res) => {
+    try {
+      const ride = await storage.getRide(req.params.rideId);
+      if (!ride) {
+        return res.status(404).json({ message: 'Ride not found' });
+      }
+      if (!isRideParticipant(ride, req.currentUser!.id)) {
+        return res.status(403).json({ message: 'Not authorized' });
+      }
 
-import { PolkadotEscrowService } from './services/polkadot.service';
+      const order = ride.escrow ? await escrowService.getOrder(ride.id) : undefined;
+      res.json({ escrow: ride.escrow, order: order ?? null });
+    } catch (error) {
+      console.error('Escrow lookup error:', error);
+      res.status(500).json({ message: 'Could not read the escrow order' });
+    }
+  });
 
-let polkadotService: PolkadotEscrowService | null = null;
+  app.post('/api/rides/:rideId/tip', requireAuth, requireRole('customer'), async (req, res) => {
+    try {
+      const parsed = rideTipSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: 'Invalid request', errors: parsed.error.errors });
+      }
 
-export async function registerRoutes(httpServer: Server, app: Express): Promise<Server> {
-  // Initialize Polkadot service
-  try {
-    polkadotService = new PolkadotEscrowService({
-      rpcEndpoint: process.env.POLKADOT_RPC || 'wss://rococo-rpc.polkadot.io',
-      contractAddress: process.env.RIDE_ESCROW_CONTRACT || '',
-      backendPrivateKey: process.env.BACKEND_PRIVATE_KEY,
-    });
-    await polkadotService.initialize();
-  } catch (error) {
-    console.warn('⚠️ Polkadot service unavailable (optional):', error);
-  }
+      const ride = await storage.getRide(req.params.rideId);
+      if (!ride) {
+        return res.status(404).json({ message: 'Ride not found' });
+      }
+      if (ride.customerId !== req.currentUser!.id) {
+        return res.status(403).json({ message: 'Not authorized' });
+      }
 
-  // ... existing WebSocket code ...
+      res.json(await payTip(ride, parsed.data.amount));
+    } catch (error) {
+      if (error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof InsufficientFundsError) {
+        return res.status(400).json({ message: 'Insufficient balance for this tip' });
+      }
+      console.error('Tip error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
 
-  /**
-   * POST /api/orders/:rideId/confirm-delivery-chain
-   * Release funds to driver after geofence check
-   */
-  app.post('/api/orders/:rideId/confirm-delivery-chain', async (req, res) => {
+  // Ledger postings that moved the user's balance, newest first
+  app.get('/api/users/:userId/transactions', requireAuth, async (req, res) => {
     try {
-      if (!polkadotService) {
-        return res.status(503).json({ message: 'Blockchain service unavailable' });
+      if (req.params.userId !== req.currentUser!.id) {
+        return res.status(403).json({ message: 'Not authorized' });
       }
+      res.json(await getUserTransactions(req.params.userId));
+    } catch (error) {
+      console.error('Transactions error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
 
-      const { rideId } = req.params;
-      const { driverId, customerLat, customerLng, dropLat, dropLng } = req.body;
+  // Recipient tracking; the signed token in the link is the only credential, as recipients don't sign in
+  app.get('/api/deliveries/:token', async (req, res) => {
+    try {
+      res.json(await getDeliveryTracking(req.params.token));
+    } catch (error) {
+      if (error instanceof DeliveryLinkError) {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('Delivery tracking error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
 
-      const ride = await storage.getRide(rideId);
+  // Text the recipient a new handover PIN; the PIN only ever goes to their phone
+  app.post('/api/deliveries/:token/pin', async (req, res) => {
+    try {
+      await resendDeliveryPin(req.params.token);
+      res.json(await getDeliveryTracking(req.params.token));
+    } catch (error) {
+      if (error instanceof DeliveryLinkError) {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error instanceof ProofOfDeliveryError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      if (error instanceof SmsError) {
+        console.error('Delivery PIN text failed:', error);
+        return res.status(502).json({ message: "The PIN couldn't be texted; try again in a moment" });
+      }
+      console.error('Delivery PIN resend error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
+
+  // Proof-of-delivery photo or signature, uploaded by the driver at the dropoff as multipart field "file"
+  app.post('/api/rides/:rideId/proof-of-delivery/:artifact', requireAuth, requireRole('driver'), (req, res, next) => {
+    podUpload.single('file')(req, res, (error) => {
+      if (error instanceof multer.MulterError) {
+        return res.status(400).json({ message: error.code === 'LIMIT_FILE_SIZE' ? 'File is too large' : error.message });
+      }
+      next(error);
+    });
+  }, async (req, res) => {
+    try {
+      const artifact = podArtifactTypeSchema.safeParse(req.params.artifact);
+      if (!artifact.success) {
+        return res.status(404).json({ message: 'Unknown proof of delivery' });
+      }
+      if (!req.file) {
+        return res.status(400).json({ message: 'No file uploaded' });
+      }
+
+      const ride = await storage.getRide(req.params.rideId);
       if (!ride) {
         return res.status(404).json({ message: 'Ride not found' });
       }
 
-      // Verify geofence
-      const distance = Math.sqrt(
-        Math.pow(customerLat - dropLat, 2) + Math.pow(customerLng - dropLng, 2)
-      ) * 111; // Convert to km
-
-      if (distance > 0.05) { // 50 meters
-        return res.status(400).json({ message: 'Not at destination yet' });
+      const updatedRide = await saveProofOfDelivery(ride, req.currentUser!.id, artifact.data, req.file);
+      broadcastRideStatus(ride.id, { proofOfDelivery: updatedRide.proofOfDelivery });
+      res.json(updatedRide);
+    } catch (error) {
+      if (error instanceof ProofOfDeliveryError) {
+        return res.status(error.status).json({ message: error.message });
       }
+      console.error('Proof of delivery upload error:', error);
+      res.status(500).json({ message: 'Internal server error' });
+    }
+  });
 
-      // Call Polkadot contract
-      const result = await polkadotService.confirmDelivery(rideId);
+  app.get('/api/rides/:rideId/proof-of-delivery/:artifact', requireAuth, async (req, res) => {
+    try {
+      const artifact = podArtifactTypeSchema.safeParse(req.params.artifact);
+      if (!artifact.success) {
+        return res.status(404).json({ message: 'Unknown proof of delivery' });
+      }
 
-      // Update ride
-      const updatedRide = await storage.updateRide(rideId, {
-        status: 'completed',
-        completedAt: new Date().toISOString(),
-        releaseTxHash: result.hash,
-      });
+      const ride = await storage.getRide(req.params.rideId);
+      if (!ride) {
+        return res.status(404).json({ message: 'Ride not found' });
+      }
 
-      // Broadcast completion
-      broadcastRideStatus(rideId, { status: 'completed' });
+      if (!isRideParticipant(ride, req.currentUser!.id)) {
+        return res.status(403).json({ message: 'Not authorized' });
+      }
 
-      res.json({
-        ride: updatedRide,
-        transaction: { hash: result.hash, blockNumber: result.blockNumber },
-      });
+      const file = proofOfDeliveryFile(ride, artifact.data);
+      if (!file) {
+        return res.status(404).json({ message: 'No proof of delivery of this kind' });
+      }
+      res.type(file.contentType).sendFile(file.path);
     } catch (error) {
-      console.error('Confirm delivery error:', error);
-      res.status(500).json({ message: 'Failed to confirm delivery' });
+      console.error('Proof of delivery download error:', error);
+      res.status(500).json({ message: 'Internal server error' });
     }
   });
+
+
+  return httpServer;
 }
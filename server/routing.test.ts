@@ -0,0 +1,112 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll, describe, expect, it } from "vitest";
+import { haversineKm } from "@shared/geo";
+import { loadRoadGraph, planRoute, type RoadGraphFile } from "./routing";
+
+const graphDir = fs.mkdtempSync(path.join(os.tmpdir(), "road-graph-"));
+
+afterAll(() => {
+  loadRoadGraph(path.join(graphDir, "missing.json"));
+  fs.rmSync(graphDir, { recursive: true, force: true });
+});
+
+function useGraph(graph: RoadGraphFile) {
+  const file = path.join(graphDir, `${Math.random().toString(36).slice(2)}.json`);
+  fs.writeFileSync(file, JSON.stringify(graph));
+  loadRoadGraph(file);
+}
+
+// A square around a block in Stockholm: a slow street straight north, and a fast ring road east and back
+const south = { lat: 59.32, lng: 18.06 };
+const north = { lat: 59.34, lng: 18.06 };
+const southEast = { lat: 59.32, lng: 18.1 };
+const northEast = { lat: 59.34, lng: 18.1 };
+const block: RoadGraphFile = {
+  nodes: [[south.lat, south.lng], [north.lat, north.lng], [southEast.lat, southEast.lng], [northEast.lat, northEast.lng]],
+  edges: [
+    [0, 1, 10, 0],
+    [0, 2, 90, 0],
+    [2, 3, 90, 1],
+    [3, 1, 90, 0],
+  ],
+};
+
+describe("planRoute", () => {
+  it("estimates every leg as a straight line at 30 km/h without a road graph", () => {
+    loadRoadGraph(path.join(graphDir, "missing.json"));
+    const route = planRoute([south, north]);
+
+    expect(route.legs).toHaveLength(1);
+    expect(route.legs[0].source).toBe("straight");
+    expect(route.distanceKm).toBeCloseTo(haversineKm(south, north), 2);
+    expect(route.durationMinutes).toBeCloseTo((route.distanceKm / 30) * 60, 1);
+    expect(route.path).toEqual([south, north]);
+  });
+
+  it("takes the fastest roads rather than the shortest", () => {
+    useGraph(block);
+    const route = planRoute([south, north]);
+
+    expect(route.legs[0].source).toBe("road");
+    expect(route.path).toEqual([south, southEast, northEast, north]);
+    expect(route.legs[0].speedsKmh).toEqual([90, 90, 90]);
+    expect(route.distanceKm).toBeGreaterThan(haversineKm(south, north) * 2);
+    // About 6.8km at 90 km/h against 2.2km at 10 km/h
+    expect(route.durationMinutes).toBeCloseTo(4.5, 1);
+  });
+
+  it("keeps to one-way roads", () => {
+    useGraph(block);
+    const route = planRoute([north, south]);
+
+    // The ring road only runs north on its east side, so the way back is the slow street
+    expect(route.path).toEqual([north, south]);
+    expect(route.legs[0]).toMatchObject({ source: "road", speedsKmh: [10] });
+    expect(route.durationMinutes).toBeCloseTo(13.3, 1);
+  });
+
+  it("drives the hops to and from the nearest road off-graph", () => {
+    useGraph(block);
+    const start = { lat: 59.3202, lng: 18.0602 };
+    const route = planRoute([start, north]);
+
+    expect(route.legs[0].source).toBe("road");
+    expect(route.path[0]).toEqual(start);
+    expect(route.path[1]).toEqual(south);
+    expect(route.distanceKm).toBeCloseTo(planRoute([south, north]).distanceKm + haversineKm(start, south), 1);
+  });
+
+  it("falls back to a straight line off the road graph or between unconnected roads", () => {
+    useGraph({ ...block, nodes: [...block.nodes, [59.36, 18.06]] });
+
+    // More than 500m from any road
+    expect(planRoute([{ lat: 59.3, lng: 18.0 }, north]).legs[0].source).toBe("straight");
+    // The last node has no roads
+    expect(planRoute([south, { lat: 59.36, lng: 18.06 }]).legs[0].source).toBe("straight");
+  });
+
+  it("gives up on searches that settle too many nodes", () => {
+    // A single road with a node every 11m, 556km long in all
+    const road = (nodeCount: number): RoadGraphFile => ({
+      nodes: Array.from({ length: nodeCount }, (_, node) => [10 + node * 0.0001, 20] as [number, number]),
+      edges: Array.from({ length: nodeCount - 1 }, (_, node) => [node, node + 1, 50, 0] as [number, number, number, 0]),
+    });
+    useGraph(road(50_010));
+    const end = { lat: 10 + 50_009 * 0.0001, lng: 20 };
+
+    expect(planRoute([{ lat: 10, lng: 20 }, end]).legs[0].source).toBe("straight");
+    expect(planRoute([{ lat: 10, lng: 20 }, { lat: 10.1, lng: 20 }]).legs[0].source).toBe("road");
+  });
+
+  it("joins the legs through every waypoint", () => {
+    useGraph(block);
+    const route = planRoute([south, north, { lat: 59.36, lng: 18.06 }]);
+
+    expect(route.legs.map(leg => leg.source)).toEqual(["road", "straight"]);
+    expect(route.path).toEqual([south, southEast, northEast, north, { lat: 59.36, lng: 18.06 }]);
+    expect(route.distanceKm).toBeCloseTo(route.legs[0].distanceKm + route.legs[1].distanceKm, 2);
+    expect(route.durationMinutes).toBeCloseTo(route.legs[0].durationMinutes + route.legs[1].durationMinutes, 1);
+  });
+});
@@ -0,0 +1,321 @@
+import { existsSync, readFileSync } from "fs";
+import path from "path";
+import type { Location, RouteLeg, RoutePlan } from "@shared/schema";
+import { encodeGeohash, geohashCellsInRadius, haversineKm, type LatLng } from "@shared/geo";
+
+// Road graph built from an OSM extract by script/build-road-graph.ts
+const ROAD_GRAPH_PATH = process.env.ROAD_GRAPH_PATH || path.resolve(process.cwd(), "data", "road-graph.json");
+
+// Speed assumed off the road graph: legs that can't be routed and the hop to the nearest road
+const FALLBACK_SPEED_KMH = 30;
+
+// Points further than this from any road are not snapped to the graph
+const SNAP_RADIUS_KM = 0.5;
+
+// Node index cells are roughly 1.2km x 0.6km
+const NODE_CELL_PRECISION = 6;
+
+// A search that settles more nodes than this gives up and falls back to a straight line.
+// Searches run on the request thread, so this keeps any one of them to tens of milliseconds
+const MAX_SETTLED_NODES = 50_000;
+
+/**
+ * On-disk road graph format written by script/build-road-graph.ts.
+ */
+export interface RoadGraphFile {
+  // [lat, lng] per node
+  nodes: [number, number][];
+  // [from node, to node, speed in km/h, 1 if one-way]
+  edges: [number, number, number, 0 | 1][];
+}
+
+interface RoadGraph {
+  lat: Float64Array;
+  lng: Float64Array;
+  // Outgoing edges of node i are firstEdge[i] up to firstEdge[i + 1]
+  firstEdge: Uint32Array;
+  edgeTarget: Uint32Array;
+  edgeKm: Float64Array;
+  edgeMinutes: Float64Array;
+  maxSpeedKmh: number;
+  // Node indexes by geohash cell, for snapping points to the nearest road
+  cells: Map<string, number[]>;
+}
+
+interface GraphPath {
+  nodes: number[];
+  // Road speed from each node to the next
+  speedsKmh: number[];
+  distanceKm: number;
+  durationMinutes: number;
+}
+
+// Null when no graph is available and every leg is estimated as a straight line
+let roadGraph: RoadGraph | null = null;
+
+function buildRoadGraph(file: RoadGraphFile): RoadGraph {
+  const nodeCount = file.nodes.length;
+  const lat = new Float64Array(nodeCount);
+  const lng = new Float64Array(nodeCount);
+  const cells = new Map<string, number[]>();
+  file.nodes.forEach(([nodeLat, nodeLng], node) => {
+    lat[node] = nodeLat;
+    lng[node] = nodeLng;
+    const cell = encodeGeohash(nodeLat, nodeLng, NODE_CELL_PRECISION);
+    if (!cells.has(cell)) cells.set(cell, []);
+    cells.get(cell)!.push(node);
+  });
+
+  // Two-way roads become a pair of directed edges
+  const directed: [number, number, number][] = [];
+  for (const [from, to, speedKmh, oneway] of file.edges) {
+    directed.push([from, to, speedKmh]);
+    if (!oneway) directed.push([to, from, speedKmh]);
+  }
+  directed.sort((a, b) => a[0] - b[0]);
+
+  const firstEdge = new Uint32Array(nodeCount + 1);
+  const edgeTarget = new Uint32Array(directed.length);
+  const edgeKm = new Float64Array(directed.length);
+  const edgeMinutes = new Float64Array(directed.length);
+  let maxSpeedKmh = FALLBACK_SPEED_KMH;
+
+  directed.forEach(([from, to, speedKmh], edge) => {
+    const km = haversineKm({ lat: lat[from], lng: lng[from] }, { lat: lat[to], lng: lng[to] });
+    edgeTarget[edge] = to;
+    edgeKm[edge] = km;
+    edgeMinutes[edge] = (km / speedKmh) * 60;
+    firstEdge[from + 1]++;
+    maxSpeedKmh = Math.max(maxSpeedKmh, speedKmh);
+  });
+  for (let node = 0; node < nodeCount; node++) {
+    firstEdge[node + 1] += firstEdge[node];
+  }
+
+  return { lat, lng, firstEdge, edgeTarget, edgeKm, edgeMinutes, maxSpeedKmh, cells };
+}
+
+/**
+ * Load the road graph from disk. Without one, routes fall back to straight-line estimates.
+ */
+export function loadRoadGraph(graphPath = ROAD_GRAPH_PATH): void {
+  if (!existsSync(graphPath)) {
+    console.warn(`No road graph at ${graphPath}; routes will be estimated as straight lines`);
+    roadGraph = null;
+    return;
+  }
+
+  try {
+    const file: RoadGraphFile = JSON.parse(readFileSync(graphPath, "utf-8"));
+    roadGraph = buildRoadGraph(file);
+    console.log(`Road graph loaded: ${file.nodes.length} nodes, ${file.edges.length} roads`);
+  } catch (error) {
+    console.error("Failed to load road graph:", error);
+    roadGraph = null;
+  }
+}
+
+function nodeLocation(graph: RoadGraph, node: number): LatLng {
+  return { lat: graph.lat[node], lng: graph.lng[node] };
+}
+
+function nearestNode(graph: RoadGraph, point: LatLng): number | null {
+  let nearest: number | null = null;
+  let nearestKm = SNAP_RADIUS_KM;
+
+  for (const cell of geohashCellsInRadius(point, SNAP_RADIUS_KM, NODE_CELL_PRECISION)) {
+    for (const node of graph.cells.get(cell) ?? []) {
+      const km = haversineKm(point, nodeLocation(graph, node));
+      if (km <= nearestKm) {
+        nearest = node;
+        nearestKm = km;
+      }
+    }
+  }
+  return nearest;
+}
+
+// Binary min-heap of nodes keyed by priority; stale entries are skipped by the caller
+class NodeQueue {
+  private nodes: number[] = [];
+  private priorities: number[] = [];
+
+  get size(): number {
+    return this.nodes.length;
+  }
+
+  push(node: number, priority: number) {
+    let i = this.nodes.length;
+    this.nodes.push(node);
+    this.priorities.push(priority);
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.priorities[parent] <= priority) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.nodes[0];
+    const lastNode = this.nodes.pop()!;
+    const lastPriority = this.priorities.pop()!;
+    if (this.nodes.length > 0) {
+      this.nodes[0] = lastNode;
+      this.priorities[0] = lastPriority;
+      let i = 0;
+      while (true) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < this.nodes.length && this.priorities[left] < this.priorities[smallest]) smallest = left;
+        if (right < this.nodes.length && this.priorities[right] < this.priorities[smallest]) smallest = right;
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number) {
+    [this.nodes[a], this.nodes[b]] = [this.nodes[b], this.nodes[a]];
+    [this.priorities[a], this.priorities[b]] = [this.priorities[b], this.priorities[a]];
+  }
+}
+
+/**
+ * Fastest path between two graph nodes (A* on travel time), or null if there is none.
+ */
+function findPath(graph: RoadGraph, start: number, goal: number): GraphPath | null {
+  const goalLocation = nodeLocation(graph, goal);
+  const remainingMinutes = (node: number) =>
+    (haversineKm(nodeLocation(graph, node), goalLocation) / graph.maxSpeedKmh) * 60;
+
+  const minutesTo = new Map<number, number>([[start, 0]]);
+  const kmTo = new Map<number, number>([[start, 0]]);
+  // Edge each node was reached by, to walk the path back
+  const reachedVia = new Map<number, { from: number; edge: number }>();
+  const settled = new Set<number>();
+  const queue = new NodeQueue();
+  queue.push(start, remainingMinutes(start));
+
+  while (queue.size > 0) {
+    const node = queue.pop();
+    if (settled.has(node)) continue;
+    settled.add(node);
+
+    if (node === goal) {
+      const nodes = [goal];
+      const speedsKmh: number[] = [];
+      for (let via = reachedVia.get(goal); via; via = reachedVia.get(via.from)) {
+        nodes.push(via.from);
+        speedsKmh.push((graph.edgeKm[via.edge] / graph.edgeMinutes[via.edge]) * 60);
+      }
+      return {
+        nodes: nodes.reverse(),
+        speedsKmh: speedsKmh.reverse(),
+        distanceKm: kmTo.get(goal)!,
+        durationMinutes: minutesTo.get(goal)!,
+      };
+    }
+    if (settled.size > MAX_SETTLED_NODES) return null;
+
+    const minutes = minutesTo.get(node)!;
+    const km = kmTo.get(node)!;
+    for (let edge = graph.firstEdge[node]; edge < graph.firstEdge[node + 1]; edge++) {
+      const next = graph.edgeTarget[edge];
+      if (settled.has(next)) continue;
+
+      const nextMinutes = minutes + graph.edgeMinutes[edge];
+      if (nextMinutes < (minutesTo.get(next) ?? Infinity)) {
+        minutesTo.set(next, nextMinutes);
+        kmTo.set(next, km + graph.edgeKm[edge]);
+        reachedVia.set(next, { from: node, edge });
+        queue.push(next, nextMinutes + remainingMinutes(next));
+      }
+    }
+  }
+  return null;
+}
+
+// Append a point and the speed of the segment leading to it, skipping zero-length segments
+function extendPath(leg: RouteLeg, point: LatLng, speedKmh: number) {
+  const last = leg.path[leg.path.length - 1];
+  if (last && last.lat === point.lat && last.lng === point.lng) return;
+  if (last) leg.speedsKmh.push(Math.round(speedKmh));
+  leg.path.push({ lat: point.lat, lng: point.lng });
+}
+
+function straightLeg(from: LatLng, to: LatLng): RouteLeg {
+  const distanceKm = haversineKm(from, to);
+  const leg: RouteLeg = {
+    distanceKm,
+    durationMinutes: (distanceKm / FALLBACK_SPEED_KMH) * 60,
+    source: "straight",
+    path: [],
+    speedsKmh: [],
+  };
+  extendPath(leg, from, FALLBACK_SPEED_KMH);
+  extendPath(leg, to, FALLBACK_SPEED_KMH);
+  return leg;
+}
+
+function routeLeg(from: LatLng, to: LatLng): RouteLeg {
+  const graph = roadGraph;
+  if (!graph) return straightLeg(from, to);
+
+  const start = nearestNode(graph, from);
+  const goal = nearestNode(graph, to);
+  if (start === null || goal === null) return straightLeg(from, to);
+
+  const found = findPath(graph, start, goal);
+  if (!found) return straightLeg(from, to);
+
+  // The hops between the points and the road are driven off-graph
+  const offRoadKm = haversineKm(from, nodeLocation(graph, start)) + haversineKm(nodeLocation(graph, goal), to);
+  const leg: RouteLeg = {
+    distanceKm: found.distanceKm + offRoadKm,
+    durationMinutes: found.durationMinutes + (offRoadKm / FALLBACK_SPEED_KMH) * 60,
+    source: "road",
+    path: [],
+    speedsKmh: [],
+  };
+  extendPath(leg, from, FALLBACK_SPEED_KMH);
+  found.nodes.forEach((node, i) => {
+    extendPath(leg, nodeLocation(graph, node), i === 0 ? FALLBACK_SPEED_KMH : found.speedsKmh[i - 1]);
+  });
+  extendPath(leg, to, FALLBACK_SPEED_KMH);
+  return leg;
+}
+
+function roundLeg(leg: RouteLeg): RouteLeg {
+  return {
+    ...leg,
+    distanceKm: Math.round(leg.distanceKm * 100) / 100,
+    durationMinutes: Math.round(leg.durationMinutes * 10) / 10,
+  };
+}
+
+/**
+ * Road route through the waypoints in order, with distance, duration and geometry.
+ * Legs that can't be routed on the road graph are estimated as straight lines.
+ */
+export function planRoute(waypoints: LatLng[]): RoutePlan {
+  const legs: RouteLeg[] = [];
+  const routePath: Location[] = [];
+
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    const leg = roundLeg(routeLeg(waypoints[i], waypoints[i + 1]));
+    legs.push(leg);
+    // Consecutive legs share their joining waypoint
+    routePath.push(...leg.path.slice(routePath.length === 0 ? 0 : 1));
+  }
+
+  return {
+    distanceKm: Math.round(legs.reduce((sum, leg) => sum + leg.distanceKm, 0) * 100) / 100,
+    durationMinutes: Math.round(legs.reduce((sum, leg) => sum + leg.durationMinutes, 0) * 10) / 10,
+    legs,
+    path: routePath,
+  };
+}
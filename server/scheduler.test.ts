@@ -0,0 +1,129 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { WebSocket } from "ws";
+import type { InsertRide, Ride } from "@shared/schema";
+import { assertBookable, formatPickupTime, ScheduleError, startScheduler } from "./scheduler";
+import { userConnected } from "./notifications";
+import { storage } from "./storage";
+import { createTestRide, createTestUser } from "./testing";
+
+const MINUTE_MS = 60 * 1000;
+
+// The scheduler keeps one interval for the whole process, so it runs on the fake clock throughout
+beforeAll(() => {
+  vi.useFakeTimers();
+  startScheduler();
+});
+
+afterAll(() => {
+  vi.useRealTimers();
+});
+
+// A connected customer whose pushed messages are kept
+async function connectedCustomer() {
+  const customer = await createTestUser("customer");
+  const socket = { readyState: 1, send: vi.fn() };
+  userConnected(customer, socket as unknown as WebSocket);
+  const messages = () => socket.send.mock.calls.map(([payload]) => JSON.parse(payload));
+  return { customer, messages };
+}
+
+async function bookRide(customerId: string, pickupInMs: number, overrides: Partial<InsertRide> = {}): Promise<Ride> {
+  const ride = await createTestRide(customerId, {
+    scheduledFor: new Date(Date.now() + pickupInMs).toISOString(),
+    timeZone: "Europe/Berlin",
+    ...overrides,
+  });
+  return (await storage.updateRideStatus(ride.id, "pending_stake", "scheduled", {}))!;
+}
+
+// Let the scheduler's next run go through
+async function tick() {
+  await vi.advanceTimersByTimeAsync(30_000);
+}
+
+async function eventTypes(rideId: string) {
+  return (await storage.getRideEvents(rideId)).map(event => event.type);
+}
+
+describe("assertBookable", () => {
+  it("takes pickups from the release lead time up to 7 days ahead", () => {
+    expect(() => assertBookable(new Date(Date.now() + 60 * MINUTE_MS).toISOString())).not.toThrow();
+    expect(() => assertBookable(new Date(Date.now() + 6 * 24 * 60 * MINUTE_MS).toISOString())).not.toThrow();
+  });
+
+  it("turns down pickups too soon to need booking or too far ahead", () => {
+    expect(() => assertBookable(new Date(Date.now() + 10 * MINUTE_MS).toISOString())).toThrow(ScheduleError);
+    expect(() => assertBookable(new Date(Date.now() + 10 * MINUTE_MS).toISOString())).toThrow("at least 15 minutes ahead");
+    expect(() => assertBookable(new Date(Date.now() + 8 * 24 * 60 * MINUTE_MS).toISOString())).toThrow("at most 7 days ahead");
+  });
+});
+
+describe("formatPickupTime", () => {
+  it("shows the pickup in the zone it was booked from", async () => {
+    const customer = await createTestUser("customer");
+    const ride = await createTestRide(customer.id, { scheduledFor: "2026-03-01T17:30:00.000Z", timeZone: "Asia/Tokyo" });
+    expect(formatPickupTime(ride)).toMatch(/^Mar 2, 2026, 2:30\sAM$/);
+    expect(formatPickupTime({ ...ride, timeZone: null })).toMatch(/^Mar 1, 2026, 5:30\sPM$/);
+  });
+});
+
+describe("scheduler", () => {
+  it("reminds the customer once, an hour before the pickup", async () => {
+    const { customer, messages } = await connectedCustomer();
+    const ride = await bookRide(customer.id, 59 * MINUTE_MS);
+
+    await tick();
+    await tick();
+
+    const reminders = messages().filter(message => message.type === "ride_reminder");
+    expect(reminders).toHaveLength(1);
+    expect(reminders[0].data).toMatchObject({ rideId: ride.id, timeZone: "Europe/Berlin", localTime: formatPickupTime(ride) });
+    expect((await storage.getRide(ride.id))?.status).toBe("scheduled");
+    expect((await storage.getRide(ride.id))?.reminderSentAt).not.toBeNull();
+
+    const events = await storage.getRideEvents(ride.id);
+    expect(events.map(event => event.type)).toEqual(["reminder"]);
+    expect(events[0].data).toEqual({ localTime: formatPickupTime(ride), delivered: [customer.id] });
+  });
+
+  it("releases an unreserved ride into dispatch at the release lead time", async () => {
+    const { customer, messages } = await connectedCustomer();
+    const ride = await bookRide(customer.id, 15 * MINUTE_MS);
+
+    await tick();
+
+    expect((await storage.getRide(ride.id))?.status).toBe("waiting");
+    expect(messages().map(message => message.type)).toEqual(["ride_reminder", "ride_released"]);
+    // Nobody is online to drive it, so dispatch hands it straight to the open pool
+    expect(await eventTypes(ride.id)).toEqual(["reminder", "activate", "release"]);
+  });
+
+  it("assigns a reserved ride to its driver", async () => {
+    const { customer } = await connectedCustomer();
+    const driver = await createTestUser("driver");
+    const ride = await bookRide(customer.id, 15 * MINUTE_MS);
+    await storage.reserveRide(ride.id, driver.id);
+
+    await tick();
+
+    expect(await storage.getRide(ride.id)).toMatchObject({ status: "accepted", driverId: driver.id });
+    expect(await eventTypes(ride.id)).toEqual(["reminder", "assign"]);
+  });
+
+  it("puts a reserved ride through dispatch while its driver is still on another ride", async () => {
+    const { customer } = await connectedCustomer();
+    const driver = await createTestUser("driver");
+    const ride = await bookRide(customer.id, 15 * MINUTE_MS);
+    await storage.reserveRide(ride.id, driver.id);
+
+    const earlier = await createTestRide(customer.id);
+    await storage.updateRideStatus(earlier.id, "pending_stake", "waiting", {});
+    await storage.acceptRide(earlier.id, driver.id);
+
+    await tick();
+
+    expect(await storage.getRide(ride.id)).toMatchObject({ status: "waiting", driverId: null });
+    const events = await storage.getRideEvents(ride.id);
+    expect(events.find(event => event.type === "activate")?.data).toEqual({ reservedDriverId: driver.id, reason: "driver_busy" });
+  });
+});
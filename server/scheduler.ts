@@ -0,0 +1,150 @@
+import type { Ride } from "@shared/schema";
+import { storage } from "./storage";
+import { transitionRide, RideTransitionError, type RideActor } from "./rideLifecycle";
+import { dispatchRide } from "./dispatch";
+import { trackRideRequest } from "./surge";
+import { notifyUser } from "./notifications";
+import { issueDeliveryPin } from "./delivery";
+
+// How long before the pickup time a scheduled ride is released into dispatch
+const RELEASE_LEAD_MS = parseInt(process.env.SCHEDULED_RELEASE_LEAD_MS || String(15 * 60 * 1000), 10);
+
+// How long before the pickup time both parties are reminded
+const REMINDER_LEAD_MS = parseInt(process.env.SCHEDULED_REMINDER_LEAD_MS || String(60 * 60 * 1000), 10);
+
+const SCHEDULER_INTERVAL_MS = parseInt(process.env.SCHEDULER_INTERVAL_MS || "30000", 10);
+
+// Rides can't be booked further ahead than this
+const MAX_BOOKING_AHEAD_MS = 7 * 24 * 60 * 60 * 1000;
+
+const SYSTEM: RideActor = { id: null, role: "system" };
+
+export class ScheduleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ScheduleError";
+  }
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+/**
+ * Check that a requested pickup time can be booked.
+ * Throws ScheduleError if it is too soon to need booking or too far ahead.
+ */
+export function assertBookable(scheduledFor: string) {
+  const leadMs = new Date(scheduledFor).getTime() - Date.now();
+  if (leadMs < RELEASE_LEAD_MS) {
+    const minutes = Math.ceil(RELEASE_LEAD_MS / 60000);
+    throw new ScheduleError(`Scheduled rides must be booked at least ${minutes} minute${minutes === 1 ? "" : "s"} ahead`);
+  }
+  if (leadMs > MAX_BOOKING_AHEAD_MS) {
+    throw new ScheduleError("Rides can be booked at most 7 days ahead");
+  }
+}
+
+/**
+ * Pickup time as the customer would read it, in the zone they booked from.
+ */
+export function formatPickupTime(ride: Ride): string {
+  return new Intl.DateTimeFormat("en-US", {
+    timeZone: ride.timeZone ?? "UTC",
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(new Date(ride.scheduledFor!));
+}
+
+function participants(ride: Ride): string[] {
+  return ride.driverId ? [ride.customerId, ride.driverId] : [ride.customerId];
+}
+
+async function sendReminders(ride: Ride) {
+  const localTime = formatPickupTime(ride);
+  const reminder = {
+    rideId: ride.id,
+    scheduledFor: ride.scheduledFor,
+    timeZone: ride.timeZone,
+    localTime,
+    pickup: ride.pickup,
+    dropoff: ride.dropoff,
+  };
+  // Offline users pick the booking up from their scheduled rides list instead
+  const delivered = participants(ride).filter((userId) => notifyUser(userId, { type: "ride_reminder", data: reminder }));
+
+  await storage.updateRide(ride.id, { reminderSentAt: new Date().toISOString() });
+  await storage.addRideEvent({
+    rideId: ride.id,
+    type: "reminder",
+    fromStatus: ride.status,
+    toStatus: ride.status,
+    actorId: null,
+    actorRole: "system",
+    data: { localTime, delivered },
+  });
+}
+
+// Hand a reserved ride to its driver, or put the ride through dispatch like a new request
+async function releaseRide(ride: Ride) {
+  if (ride.driverId) {
+    try {
+      const assigned = await transitionRide(ride.id, "assign", SYSTEM);
+      participants(assigned).forEach((userId) => notifyUser(userId, { type: "ride_released", data: assigned }));
+      // A lost text can be sent again from the recipient's tracking link
+      await issueDeliveryPin(assigned).catch((error) => console.error("Delivery PIN error:", error));
+      return;
+    } catch (error) {
+      // The reserved driver is still on another ride; anyone nearby can take it instead
+      if (!(error instanceof RideTransitionError && error.status === 409)) throw error;
+    }
+  }
+
+  const released = await transitionRide(
+    ride.id,
+    "activate",
+    SYSTEM,
+    ride.driverId ? { reservedDriverId: ride.driverId, reason: "driver_busy" } : undefined,
+  );
+  participants(ride).forEach((userId) => notifyUser(userId, { type: "ride_released", data: released }));
+
+  trackRideRequest(released);
+  dispatchRide(released).catch((error) => console.error("Dispatch error:", error));
+}
+
+async function runScheduler() {
+  const now = Date.now();
+  const due = await storage.getScheduledRides({ dueBefore: new Date(now + Math.max(RELEASE_LEAD_MS, REMINDER_LEAD_MS)) });
+
+  for (const ride of due) {
+    // Times are absolute instants, so no time zone math is needed until formatting
+    const leadMs = new Date(ride.scheduledFor!).getTime() - now;
+    try {
+      if (!ride.reminderSentAt && leadMs <= REMINDER_LEAD_MS) {
+        await sendReminders(ride);
+      }
+      if (leadMs <= RELEASE_LEAD_MS) {
+        await releaseRide(ride);
+      }
+    } catch (error) {
+      console.error(`Scheduler error for ride ${ride.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Periodically remind and release scheduled rides as their pickup time approaches.
+ */
+export function startScheduler() {
+  if (schedulerTimer) return;
+
+  schedulerTimer = setInterval(() => {
+    // Skip a tick rather than overlap a slow run
+    if (isRunning) return;
+    isRunning = true;
+    runScheduler()
+      .catch((error) => console.error("Scheduler error:", error))
+      .finally(() => {
+        isRunning = false;
+      });
+  }, SCHEDULER_INTERVAL_MS);
+}
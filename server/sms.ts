@@ -0,0 +1,61 @@
+/**
+ * Text messages to phone numbers, such as a parcel recipient's delivery PIN.
+ * send resolves once the message has been handed to the provider and throws SmsError if it was refused.
+ */
+export interface SmsSender {
+  send(to: string, message: string): Promise<void>;
+}
+
+export class SmsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SmsError";
+  }
+}
+
+/**
+ * Posts each message as JSON ({ to, message }) to an SMS gateway webhook.
+ */
+export class WebhookSmsSender implements SmsSender {
+  constructor(private url: string, private token?: string) {}
+
+  async send(to: string, message: string): Promise<void> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.token ? { Authorization: `Bearer ${this.token}` } : {}),
+      },
+      body: JSON.stringify({ to, message }),
+    });
+    if (!response.ok) {
+      throw new SmsError(`SMS gateway responded with ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Writes messages to the server log instead of sending them, for development and offline demos.
+ * Messages are logged in full, PINs included, so it is never used in production.
+ */
+export class LogSmsSender implements SmsSender {
+  async send(to: string, message: string): Promise<void> {
+    console.log(`[sms] to ${to}: ${message}`);
+  }
+}
+
+/**
+ * Refuses every message, for a production server without a gateway.
+ */
+export class UnconfiguredSmsSender implements SmsSender {
+  async send(): Promise<void> {
+    throw new SmsError("No SMS gateway is configured");
+  }
+}
+
+// Use the gateway when SMS_WEBHOOK_URL is configured; without it, log messages locally in development only
+export const smsSender: SmsSender = process.env.SMS_WEBHOOK_URL
+  ? new WebhookSmsSender(process.env.SMS_WEBHOOK_URL, process.env.SMS_WEBHOOK_TOKEN)
+  : process.env.NODE_ENV === "production"
+    ? new UnconfiguredSmsSender()
+    : new LogSmsSender();
@@ -0,0 +1,65 @@
+import type { Ride } from "@shared/schema";
+import { storage } from "./storage";
+import { transitionRide, type RideActor } from "./rideLifecycle";
+import { settleCancellation } from "./ledger";
+import { escrowService } from "./escrow";
+
+// How long a ride draft may wait for its stake before it is called off
+const PENDING_STAKE_TTL_MS = parseInt(process.env.PENDING_STAKE_TTL_MS || String(15 * 60 * 1000), 10);
+
+// A stake the client gave up on can still land until its transaction's era runs out (64 blocks, about 6.4 minutes),
+// so called-off rides are only checked on chain once that has passed
+const RECONCILE_DELAY_MS = parseInt(process.env.STAKE_RECONCILE_DELAY_MS || String(10 * 60 * 1000), 10);
+
+const RECONCILE_INTERVAL_MS = parseInt(process.env.STAKE_RECONCILE_INTERVAL_MS || "60000", 10);
+
+const SYSTEM: RideActor = { id: null, role: "system" };
+
+let reconcileTimer: NodeJS.Timeout | null = null;
+let isRunning = false;
+
+// Call off a draft whose stake never came, returning anything that did reach its escrow
+async function expireDraft(draft: Ride) {
+  const expired = await transitionRide(draft.id, "expire", SYSTEM, { ttlMinutes: PENDING_STAKE_TTL_MS / 60000 });
+  await settleCancellation(expired);
+  await escrowService.refund(expired);
+}
+
+async function runReconciliation() {
+  const now = Date.now();
+
+  for (const draft of await storage.getStaleStakeDrafts(new Date(now - PENDING_STAKE_TTL_MS))) {
+    try {
+      await expireDraft(draft);
+    } catch (error) {
+      console.error(`Stake expiry error for ride ${draft.id}:`, error);
+    }
+  }
+
+  for (const ride of await storage.getUnreconciledRides(new Date(now - RECONCILE_DELAY_MS))) {
+    try {
+      await escrowService.reconcile(ride);
+    } catch (error) {
+      console.error(`Stake reconciliation error for ride ${ride.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Periodically expire ride drafts whose stake was never confirmed,
+ * and refund escrow orders left behind by rides that never went out.
+ */
+export function startStakeReconciliation() {
+  if (reconcileTimer) return;
+
+  reconcileTimer = setInterval(() => {
+    // Skip a tick rather than overlap a slow run
+    if (isRunning) return;
+    isRunning = true;
+    runReconciliation()
+      .catch((error) => console.error("Stake reconciliation error:", error))
+      .finally(() => {
+        isRunning = false;
+      });
+  }, RECONCILE_INTERVAL_MS);
+}
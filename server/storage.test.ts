@@ -0,0 +1,214 @@
+import { describe, expect, it } from "vitest";
+import { userAccount, escrowAccount, EXTERNAL_DEPOSITS_ACCOUNT } from "@shared/ledger";
+import { DrizzleStorage, InsufficientFundsError, MemStorage, RideConflictError, type IStorage } from "./storage";
+import { createTestDb, createTestRide, createTestUser } from "./testing";
+
+// Both implementations have to behave the same; DrizzleStorage runs on the checked-in migrations
+describe.each([
+  ["MemStorage", () => new MemStorage()],
+  ["DrizzleStorage", () => new DrizzleStorage(createTestDb())],
+] as [string, () => IStorage][])("%s", (_name, createStorage) => {
+  async function setup() {
+    const store = createStorage();
+    const customer = await createTestUser("customer", store);
+    const driver = await createTestUser("driver", store);
+    const ride = await createTestRide(customer.id, {}, store);
+    return { store, customer, driver, ride };
+  }
+
+  it("creates and finds users", async () => {
+    const { store, customer } = await setup();
+    expect(await store.getUser(customer.id)).toEqual(customer);
+    expect(await store.getUserByWallet(customer.walletAddress)).toEqual(customer);
+    expect(await store.updateUser(customer.id, { reputation: 60 })).toMatchObject({ reputation: 60 });
+    expect(await store.getUser("missing")).toBeUndefined();
+  });
+
+  it("creates rides as stake drafts and reads them back unchanged", async () => {
+    const { store, ride } = await setup();
+    expect(ride.status).toBe("pending_stake");
+    expect(ride.driverId).toBeNull();
+    expect(await store.getRide(ride.id)).toEqual(ride);
+  });
+
+  it("changes a ride's status only from the expected one", async () => {
+    const { store, ride } = await setup();
+    expect(await store.updateRideStatus(ride.id, "waiting", "cancelled", {})).toBeUndefined();
+
+    const staked = await store.updateRideStatus(ride.id, "pending_stake", "waiting", {});
+    expect(staked?.status).toBe("waiting");
+    expect(await store.updateRideStatus(ride.id, "pending_stake", "waiting", {})).toBeUndefined();
+  });
+
+  it("finds stale drafts, including any whose stake confirmation never finished", async () => {
+    const { store, customer, ride } = await setup();
+    const staking = await createTestRide(customer.id, {}, store);
+    const staked = await createTestRide(customer.id, {}, store);
+    await store.updateRideStatus(staking.id, "pending_stake", "staking", {});
+    await store.updateRideStatus(staked.id, "pending_stake", "waiting", {});
+
+    const stale = await store.getStaleStakeDrafts(new Date(Date.now() + 1000));
+    expect(stale.map(draft => draft.id).sort()).toEqual([ride.id, staking.id].sort());
+    expect(await store.getStaleStakeDrafts(new Date(Date.now() - 60_000))).toEqual([]);
+  });
+
+  it("accepts a waiting ride for one driver only", async () => {
+    const { store, driver, ride } = await setup();
+    await store.updateRideStatus(ride.id, "pending_stake", "waiting", {});
+
+    const accepted = await store.acceptRide(ride.id, driver.id, { acceptedAt: new Date().toISOString() });
+    expect(accepted).toMatchObject({ status: "accepted", driverId: driver.id });
+
+    const rival = await createTestUser("driver", store);
+    await expect(store.acceptRide(ride.id, rival.id)).rejects.toBeInstanceOf(RideConflictError);
+    expect((await store.getRide(ride.id))?.driverId).toBe(driver.id);
+  });
+
+  it("gives a driver one active ride, even when they accept two at once", async () => {
+    const { store, customer, driver, ride } = await setup();
+    const other = await createTestRide(customer.id, {}, store);
+    const third = await createTestRide(customer.id, {}, store);
+    for (const waiting of [ride, other, third]) {
+      await store.updateRideStatus(waiting.id, "pending_stake", "waiting", {});
+    }
+
+    const results = await Promise.allSettled([store.acceptRide(ride.id, driver.id), store.acceptRide(other.id, driver.id)]);
+    expect(results.map(result => result.status).sort()).toEqual(["fulfilled", "rejected"]);
+    expect(results.find(result => result.status === "rejected")).toMatchObject({ reason: { reason: "driver_busy" } });
+    expect(await store.getActiveRides(driver.id)).toHaveLength(1);
+
+    await expect(store.acceptRide(third.id, driver.id)).rejects.toMatchObject({ reason: "driver_busy" });
+    expect((await store.getRide(third.id))?.status).toBe("waiting");
+  });
+
+  it("fills a driver's pool up to its capacity", async () => {
+    const { store, customer, driver } = await setup();
+    const [first, second, third, solo] = await Promise.all([
+      createTestRide(customer.id, { rideType: "pool", seats: 2 }, store),
+      createTestRide(customer.id, { rideType: "pool", seats: 1 }, store),
+      createTestRide(customer.id, { rideType: "pool", seats: 1 }, store),
+      createTestRide(customer.id, {}, store),
+    ]);
+    for (const waiting of [first, second, third, solo]) {
+      await store.updateRideStatus(waiting.id, "pending_stake", "waiting", {});
+    }
+
+    // A pool ride accepted by an idle driver starts the pool
+    expect(await store.acceptRide(first.id, driver.id)).toMatchObject({ poolId: first.id });
+    await expect(store.joinPool(solo.id, driver.id, first.id)).rejects.toMatchObject({ reason: "ride_unavailable" });
+    await expect(store.joinPool(second.id, driver.id, "another-pool")).rejects.toMatchObject({ reason: "driver_busy" });
+
+    // Two riders joining at once can't both take the last seat
+    const results = await Promise.allSettled([
+      store.joinPool(second.id, driver.id, first.id),
+      store.joinPool(third.id, driver.id, first.id),
+    ]);
+    expect(results.find(result => result.status === "fulfilled")).toMatchObject({ value: { poolId: first.id, status: "accepted" } });
+    expect(results.find(result => result.status === "rejected")).toMatchObject({ reason: { reason: "pool_full" } });
+    expect((await store.getActiveRides(driver.id)).reduce((seats, active) => seats + active.seats, 0)).toBe(3);
+  });
+
+  it("lists waiting rides with their pickup inside the driver's radius, nearest first", async () => {
+    const { store, customer, ride } = await setup();
+    const driverLocation = { lat: 52.52, lng: 13.405 };
+    // About 3km, 8km and 15km from the driver; the 8km one sits in a different geohash cell
+    const near = await createTestRide(customer.id, { pickup: { lat: 52.547, lng: 13.405 } }, store);
+    const farther = await createTestRide(customer.id, { pickup: { lat: 52.52, lng: 13.523 } }, store);
+    const outside = await createTestRide(customer.id, { pickup: { lat: 52.655, lng: 13.405 } }, store);
+    for (const waiting of [near, farther, outside]) {
+      await store.updateRideStatus(waiting.id, "pending_stake", "waiting", {});
+    }
+
+    // The draft at the driver's position isn't out for dispatch yet
+    const available = await store.getAvailableRides(driverLocation, 10);
+    expect(available.map(summary => summary.rideId)).toEqual([near.id, farther.id]);
+    expect(available.map(summary => summary.rideId)).not.toContain(ride.id);
+    expect(available[0].pickupDistance).toBeCloseTo(3, 0);
+  });
+
+  it("records one rating per side of a completed ride", async () => {
+    const { store, ride } = await setup();
+    expect(await store.rateRide(ride.id, "customer", 5, null)).toBeUndefined();
+
+    await store.updateRideStatus(ride.id, "pending_stake", "completed", {});
+    expect(await store.rateRide(ride.id, "customer", 5, "Great")).toMatchObject({ driverRating: 5, customerFeedback: "Great" });
+    expect(await store.rateRide(ride.id, "customer", 1, null)).toBeUndefined();
+    expect(await store.rateRide(ride.id, "driver", 4, null)).toMatchObject({ customerRating: 4, driverRating: 5 });
+  });
+
+  it("records the driver's arrival and each stop once", async () => {
+    const { store, driver, ride } = await setup();
+    expect(await store.recordDriverArrival(ride.id, new Date().toISOString())).toBeUndefined();
+
+    await store.updateRideStatus(ride.id, "pending_stake", "accepted", { driverId: driver.id });
+    expect((await store.recordDriverArrival(ride.id, new Date().toISOString()))?.driverArrivedAt).not.toBeNull();
+    expect(await store.recordDriverArrival(ride.id, new Date().toISOString())).toBeUndefined();
+
+    await store.updateRideStatus(ride.id, "accepted", "in_progress", {});
+    expect((await store.recordStopReached(ride.id, 0))?.stopsReached).toBe(1);
+    expect(await store.recordStopReached(ride.id, 0)).toBeUndefined();
+    expect((await store.recordStopReached(ride.id, 1))?.stopsReached).toBe(2);
+  });
+
+  it("keeps each ride's timeline in order", async () => {
+    const { store, customer, ride } = await setup();
+    await store.addRideEvent({
+      rideId: ride.id, type: "stake", fromStatus: "pending_stake", toStatus: "waiting",
+      actorId: customer.id, actorRole: "customer", data: null,
+    });
+    await store.addRideEvent({
+      rideId: ride.id, type: "cancel", fromStatus: "waiting", toStatus: "cancelled",
+      actorId: customer.id, actorRole: "customer", data: { reason: "changed_plans" },
+    });
+
+    const events = await store.getRideEvents(ride.id);
+    expect(events.map(event => event.type)).toEqual(["stake", "cancel"]);
+    expect(events[1].data).toEqual({ reason: "changed_plans" });
+  });
+
+  it("lets each delivery PIN be consumed once", async () => {
+    const { store, ride } = await setup();
+    await store.setDeliveryPin(ride.id, "first");
+    await store.setDeliveryPin(ride.id, "second");
+
+    expect(await store.consumeDeliveryPin(ride.id, "first")).toBe(false);
+    expect(await store.consumeDeliveryPin(ride.id, "second")).toBe(true);
+    expect(await store.consumeDeliveryPin(ride.id, "second")).toBe(false);
+    expect(await store.getDeliveryPin(ride.id)).toBeUndefined();
+  });
+
+  it("counts entries against a delivery PIN up to the limit until a new PIN is issued", async () => {
+    const { store, ride } = await setup();
+    expect(await store.countDeliveryPinAttempt(ride.id, 2)).toBeUndefined();
+
+    await store.setDeliveryPin(ride.id, "first");
+    expect((await store.countDeliveryPinAttempt(ride.id, 2))?.attempts).toBe(1);
+    expect(await store.countDeliveryPinAttempt(ride.id, 2)).toMatchObject({ pinHash: "first", attempts: 2 });
+    expect(await store.countDeliveryPinAttempt(ride.id, 2)).toBeUndefined();
+
+    expect((await store.setDeliveryPin(ride.id, "second")).attempts).toBe(0);
+    expect((await store.countDeliveryPinAttempt(ride.id, 2))?.attempts).toBe(1);
+  });
+
+  it("derives balances from postings and appends nothing that would overdraw a funded account", async () => {
+    const { store, customer, ride } = await setup();
+    const account = userAccount(customer.id);
+    await store.addLedgerPostings([
+      { type: "deposit", fromAccount: EXTERNAL_DEPOSITS_ACCOUNT, toAccount: account, amount: 30, rideId: null },
+    ]);
+
+    await expect(store.addLedgerPostings([
+      { type: "stake_lock", fromAccount: account, toAccount: escrowAccount(ride.id), amount: 20, rideId: ride.id },
+      { type: "stake_lock", fromAccount: account, toAccount: escrowAccount(ride.id), amount: 20, rideId: ride.id },
+    ], [account])).rejects.toBeInstanceOf(InsufficientFundsError);
+    expect(await store.getAccountBalance(account)).toBe(30);
+    expect(await store.getRideLedgerPostings(ride.id)).toEqual([]);
+
+    await store.addLedgerPostings([
+      { type: "stake_lock", fromAccount: account, toAccount: escrowAccount(ride.id), amount: 20, rideId: ride.id },
+    ], [account]);
+    expect(await store.getAccountBalance(account)).toBe(10);
+    expect(await store.getAccountBalance(escrowAccount(ride.id))).toBe(20);
+    expect((await store.getLedgerPostings(account)).map(posting => posting.type)).toEqual(["stake_lock", "deposit"]);
+  });
+});
@@ -5,10 +5,28 @@ import type {
   InsertRide, 
   Location, 
   AvailableRide, 
+  UpcomingRide,
   RideWithDetails,
-  RideStatus 
+  RideStatus,
+  RideUpdate,
+  RideEvent,
+  InsertRideEvent,
+  Rating,
+  InsertRating,
+  SurgeSnapshot,
+  InsertSurgeSnapshot,
+  RideLocation,
+  InsertRideLocation,
+  LedgerPosting,
+  InsertLedgerPosting,
+  DeliveryPin
 } from "@shared/schema";
+import { users, rides, ratings, rideEvents, rideLocations, surgeSnapshots, ledgerPostings, deliveryPins, POOL_CAPACITY } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, desc, eq, gt, gte, inArray, isNull, lt, notExists, or, sql } from "drizzle-orm";
+import { createDb, type Database } from "./db";
+import { haversineKm, encodeGeohash, geohashCellsInRadius, type LatLng } from "@shared/geo";
+import { EXTERNAL_DEPOSITS_ACCOUNT, escrowAccount, userAccount } from "@shared/ledger";
 
 // Sample names for demo
 const sampleNames = [
@@ -20,6 +38,137 @@ function getRandomName(): string {
   return sampleNames[Math.floor(Math.random() * sampleNames.length)];
 }
 
+export type RideConflictReason = "ride_unavailable" | "driver_busy" | "schedule_clash" | "pool_full" | "pool_mismatch";
+
+const conflictMessages: Record<RideConflictReason, string> = {
+  ride_unavailable: "Ride is no longer available",
+  driver_busy: "You already have an active ride",
+  schedule_clash: "You already have a ride booked around that time",
+  pool_full: "Not enough free seats in your pool",
+  pool_mismatch: "Ride doesn't fit the route of your pool",
+};
+
+/**
+ * Thrown by IStorage.acceptRide, joinPool and reserveRide when the ride was taken by someone else,
+ * the driver already holds an active ride, the driver's pool has no room, or the driver has a
+ * clashing reservation.
+ */
+export class RideConflictError extends Error {
+  constructor(public reason: RideConflictReason) {
+    super(conflictMessages[reason]);
+    this.name = "RideConflictError";
+  }
+}
+
+/**
+ * Thrown by IStorage.addLedgerPostings when an account that must stay funded would go below zero.
+ */
+export class InsufficientFundsError extends Error {
+  constructor(public account: string) {
+    super("Insufficient balance");
+    this.name = "InsufficientFundsError";
+  }
+}
+
+/**
+ * Thrown by IStorage.addLedgerPostings when a ride would get a second tip.
+ */
+export class DuplicateTipError extends Error {
+  constructor(public rideId: string) {
+    super("Ride has already been tipped");
+    this.name = "DuplicateTipError";
+  }
+}
+
+// Statuses in which a ride is assigned to a driver
+const driverActiveStatuses: RideStatus[] = ["accepted", "in_progress"];
+
+// Statuses of a ride draft whose stake hasn't been confirmed yet
+const stakeDraftStatuses: RideStatus[] = ["pending_stake", "staking"];
+
+// A driver can't reserve two scheduled pickups closer together than this
+const RESERVATION_GAP_MS = 60 * 60 * 1000;
+
+// Geohash precision of the pickup index (cells are roughly 5km x 5km)
+const PICKUP_CELL_PRECISION = 5;
+
+function pickupCell(location: LatLng): string {
+  return encodeGeohash(location.lat, location.lng, PICKUP_CELL_PRECISION);
+}
+
+function roundKm(km: number): number {
+  return Math.round(km * 10) / 10;
+}
+
+// Straight-line length of a path through the points in order
+function pathKm(points: LatLng[]): number {
+  let km = 0;
+  for (let i = 1; i < points.length; i++) {
+    km += haversineKm(points[i - 1], points[i]);
+  }
+  return km;
+}
+
+function isWithinRadius(ride: Ride, driverLocation: LatLng, radiusKm: number): boolean {
+  return haversineKm(driverLocation, ride.pickup) <= radiusKm;
+}
+
+// Driver-facing summary of a waiting ride, as seen from the driver's position
+export function toAvailableRide(
+  ride: Ride,
+  customer: { avgRating: number; name?: string | null } | null | undefined,
+  driverLocation: LatLng,
+): AvailableRide {
+  return {
+    rideId: ride.id,
+    rideType: ride.rideType,
+    seats: ride.seats,
+    deliveryType: ride.deliveryType,
+    parcel: ride.parcel && {
+      size: ride.parcel.size,
+      weightKg: ride.parcel.weightKg,
+      handlingNotes: ride.parcel.handlingNotes,
+    },
+    pickup: ride.pickup,
+    stops: ride.stops,
+    dropoff: ride.dropoff,
+    fare: ride.estimatedFare,
+    customerRating: customer?.avgRating || 4.0,
+    customerName: customer?.name || "Customer",
+    pickupDistance: roundKm(haversineKm(driverLocation, ride.pickup)),
+    tripDistance: roundKm(pathKm([ride.pickup, ...ride.stops, ride.dropoff])),
+  };
+}
+
+function byPickupDistance(a: AvailableRide, b: AvailableRide): number {
+  return a.pickupDistance - b.pickupDistance;
+}
+
+// Driver-facing summary of a scheduled ride
+export function toUpcomingRide(
+  ride: Ride,
+  customer: { avgRating: number; name?: string | null } | null | undefined,
+  driverId: string,
+  driverLocation: LatLng,
+): UpcomingRide {
+  return {
+    ...toAvailableRide(ride, customer, driverLocation),
+    scheduledFor: ride.scheduledFor!,
+    timeZone: ride.timeZone,
+    reserved: ride.driverId === driverId,
+  };
+}
+
+function byScheduledTime(a: { scheduledFor: string | null }, b: { scheduledFor: string | null }): number {
+  return new Date(a.scheduledFor!).getTime() - new Date(b.scheduledFor!).getTime();
+}
+
+export interface ScheduledRidesFilter {
+  customerId?: string;
+  // Only rides due for pickup before this time
+  dueBefore?: Date;
+}
+
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<User | undefined>;
@@ -31,19 +180,105 @@ export interface IStorage {
   createRide(ride: InsertRide & { customerId: string }): Promise<Ride>;
   getRide(id: string): Promise<Ride | undefined>;
   getRideWithDetails(id: string): Promise<RideWithDetails | undefined>;
-  updateRide(id: string, updates: Partial<Ride>): Promise<Ride | undefined>;
-  getAvailableRides(): Promise<AvailableRide[]>;
+  updateRide(id: string, updates: RideUpdate): Promise<Ride | undefined>;
+  // Moves the ride to `to` only if it is still in `from`; resolves undefined otherwise
+  updateRideStatus(id: string, from: RideStatus, to: RideStatus, updates: RideUpdate): Promise<Ride | undefined>;
+  // Records the rating one side of a completed ride gives the other, only if that side hasn't rated it yet;
+  // resolves undefined otherwise
+  rateRide(id: string, rater: "customer" | "driver", rating: number, feedback: string | null): Promise<Ride | undefined>;
+  // Records the driver reaching the pickup of an accepted ride, only if no arrival was recorded yet;
+  // resolves undefined otherwise
+  recordDriverArrival(id: string, arrivedAt: string): Promise<Ride | undefined>;
+  // Ticks off the stop after the first `reached` of an in-progress ride, only if no other update has moved
+  // stopsReached on since; resolves undefined otherwise
+  recordStopReached(id: string, reached: number): Promise<Ride | undefined>;
+  // Atomically assigns a waiting ride to a driver who has no other active ride.
+  // With from = "scheduled", converts the driver's own reservation instead.
+  // Resolves undefined if the ride does not exist and throws RideConflictError otherwise
+  acceptRide(rideId: string, driverId: string, updates?: RideUpdate, from?: "waiting" | "scheduled"): Promise<Ride | undefined>;
+  // Add a waiting pool ride to the pool the driver is working, if the driver has no other rides
+  // and the pool has enough free seats; throws RideConflictError otherwise
+  joinPool(rideId: string, driverId: string, poolId: string, updates?: RideUpdate): Promise<Ride | undefined>;
+  // Atomically reserves an unreserved scheduled ride for a driver with no clashing reservation.
+  // Resolves undefined if the ride does not exist and throws RideConflictError otherwise
+  reserveRide(rideId: string, driverId: string): Promise<Ride | undefined>;
+  // Waiting rides whose pickup is within radiusKm of the driver, nearest first
+  getAvailableRides(driverLocation: LatLng, radiusKm: number): Promise<AvailableRide[]>;
+  // Unreserved scheduled rides within radiusKm plus the driver's own reservations, soonest first
+  getUpcomingRides(driverId: string, driverLocation: LatLng, radiusKm: number): Promise<UpcomingRide[]>;
+  // Scheduled rides, soonest first
+  getScheduledRides(filter: ScheduledRidesFilter): Promise<Ride[]>;
+  // Ride drafts created before the cutoff whose stake still hasn't been confirmed, including any still being staked
+  getStaleStakeDrafts(createdBefore: Date): Promise<Ride[]>;
+  // Rides to check on chain for stranded escrow orders: rides called off before the cutoff whose order was never
+  // confirmed and that haven't been checked yet, and orphaned orders whose refund hasn't gone through
+  getUnreconciledRides(cancelledBefore: Date): Promise<Ride[]>;
   getActiveRide(userId: string): Promise<RideWithDetails | undefined>;
+  // Accepted and in-progress rides of a driver, oldest first; more than one only in a pool
+  getActiveRides(driverId: string): Promise<Ride[]>;
   getRideHistory(userId: string): Promise<Ride[]>;
+
+  // Ride timeline operations
+  addRideEvent(event: InsertRideEvent): Promise<RideEvent>;
+  getRideEvents(rideId: string): Promise<RideEvent[]>;
+
+  // GPS trace operations
+  addRideLocation(location: InsertRideLocation): Promise<RideLocation>;
+  // Points in the order they were received
+  getRideLocations(rideId: string): Promise<RideLocation[]>;
+  getLastRideLocation(rideId: string): Promise<RideLocation | undefined>;
+
+  // Rating operations
+  createRating(rating: InsertRating): Promise<Rating>;
+  getRatingsForUser(userId: string): Promise<Rating[]>;
+
+  // Delivery PIN operations; issuing a PIN replaces the ride's earlier one and its attempts
+  setDeliveryPin(rideId: string, pinHash: string): Promise<DeliveryPin>;
+  getDeliveryPin(rideId: string): Promise<DeliveryPin | undefined>;
+  // Atomically counts one entry against the ride's PIN unless maxAttempts were made already; undefined if it was
+  countDeliveryPinAttempt(rideId: string, maxAttempts: number): Promise<DeliveryPin | undefined>;
+  // Deletes the ride's PIN if it is still pinHash, so each PIN works once; resolves false otherwise
+  consumeDeliveryPin(rideId: string, pinHash: string): Promise<boolean>;
+
+  // Surge history operations
+  addSurgeSnapshot(snapshot: InsertSurgeSnapshot): Promise<SurgeSnapshot>;
+  getSurgeSnapshot(id: string): Promise<SurgeSnapshot | undefined>;
+  // Snapshots for a cell, newest first
+  getSurgeHistory(cell: string, since: Date): Promise<SurgeSnapshot[]>;
+
+  // Ledger operations; postings are only ever appended
+  // Appends all postings or none. Throws InsufficientFundsError if any of fundedAccounts would go negative,
+  // and DuplicateTipError if a ride would be tipped twice
+  addLedgerPostings(postings: InsertLedgerPosting[], fundedAccounts?: string[]): Promise<LedgerPosting[]>;
+  // Postings into or out of the account, newest first
+  getLedgerPostings(account: string): Promise<LedgerPosting[]>;
+  getRideLedgerPostings(rideId: string): Promise<LedgerPosting[]>;
+  // Everything posted into the account minus everything posted out of it
+  getAccountBalance(account: string): Promise<number>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private rides: Map<string, Ride>;
+  // Spatial index: waiting ride IDs by pickup geohash cell
+  private waitingRidesByCell: Map<string, Set<string>>;
+  private rideEvents: Map<string, RideEvent[]>;
+  private rideLocations: Map<string, RideLocation[]>;
+  private ratings: Map<string, Rating>;
+  private surgeSnapshots: Map<string, SurgeSnapshot>;
+  private ledgerPostings: LedgerPosting[];
+  private deliveryPins: Map<string, DeliveryPin>;
 
   constructor() {
     this.users = new Map();
     this.rides = new Map();
+    this.waitingRidesByCell = new Map();
+    this.rideEvents = new Map();
+    this.rideLocations = new Map();
+    this.ratings = new Map();
+    this.surgeSnapshots = new Map();
+    this.ledgerPostings = [];
+    this.deliveryPins = new Map();
     
     // Create some demo rides
     this.seedDemoData();
@@ -59,7 +294,6 @@ export class MemStorage implements IStorage {
         reputation: 78,
         completedRides: 45,
         avgRating: 4.7,
-        balance: 245.50,
         name: "Marcus Chen",
       },
       {
@@ -69,7 +303,6 @@ export class MemStorage implements IStorage {
         reputation: 92,
         completedRides: 120,
         avgRating: 4.9,
-        balance: 890.25,
         name: "Sarah Johnson",
       },
     ];
@@ -82,16 +315,33 @@ export class MemStorage implements IStorage {
         id: "demo-ride-1",
         customerId: "demo-customer-1",
         driverId: null,
+        rideType: "standard",
+        seats: 1,
+        poolId: null,
+        deliveryType: "ride",
+        parcel: null,
+        proofOfDelivery: null,
         pickup: { lat: 37.7849, lng: -122.4094, address: "Market Street, Downtown" },
+        stops: [],
         dropoff: { lat: 37.6213, lng: -122.3790, address: "Airport Terminal 1, SFO" },
         estimatedFare: 28.50,
         stakedAmount: 32.78,
+        surgeMultiplier: 1,
         actualFare: null,
+        fareBreakdown: null,
         status: "waiting",
         currentLocation: null,
+        stopsReached: 0,
         createdAt: new Date().toISOString(),
+        acceptedAt: null,
+        driverArrivedAt: null,
         startedAt: null,
         completedAt: null,
+        cancellation: null,
+        escrow: null,
+        scheduledFor: null,
+        timeZone: null,
+        reminderSentAt: null,
         customerRating: null,
         driverRating: null,
         customerFeedback: null,
@@ -101,16 +351,33 @@ export class MemStorage implements IStorage {
         id: "demo-ride-2",
         customerId: "demo-customer-2",
         driverId: null,
+        rideType: "standard",
+        seats: 1,
+        poolId: null,
+        deliveryType: "ride",
+        parcel: null,
+        proofOfDelivery: null,
         pickup: { lat: 37.8080, lng: -122.4177, address: "Fisherman's Wharf, SF" },
+        stops: [],
         dropoff: { lat: 37.7879, lng: -122.4074, address: "Union Square, Downtown" },
         estimatedFare: 12.75,
         stakedAmount: 14.66,
+        surgeMultiplier: 1,
         actualFare: null,
+        fareBreakdown: null,
         status: "waiting",
         currentLocation: null,
+        stopsReached: 0,
         createdAt: new Date().toISOString(),
+        acceptedAt: null,
+        driverArrivedAt: null,
         startedAt: null,
         completedAt: null,
+        cancellation: null,
+        escrow: null,
+        scheduledFor: null,
+        timeZone: null,
+        reminderSentAt: null,
         customerRating: null,
         driverRating: null,
         customerFeedback: null,
@@ -120,16 +387,33 @@ export class MemStorage implements IStorage {
         id: "demo-ride-3",
         customerId: "demo-customer-3",
         driverId: null,
+        rideType: "standard",
+        seats: 1,
+        poolId: null,
+        deliveryType: "ride",
+        parcel: null,
+        proofOfDelivery: null,
         pickup: { lat: 37.7609, lng: -122.4350, address: "Castro District, SF" },
+        stops: [],
         dropoff: { lat: 37.8199, lng: -122.4783, address: "Golden Gate Bridge" },
         estimatedFare: 18.25,
         stakedAmount: 20.99,
+        surgeMultiplier: 1,
         actualFare: null,
+        fareBreakdown: null,
         status: "waiting",
         currentLocation: null,
+        stopsReached: 0,
         createdAt: new Date().toISOString(),
+        acceptedAt: null,
+        driverArrivedAt: null,
         startedAt: null,
         completedAt: null,
+        cancellation: null,
+        escrow: null,
+        scheduledFor: null,
+        timeZone: null,
+        reminderSentAt: null,
         customerRating: null,
         driverRating: null,
         customerFeedback: null,
@@ -137,7 +421,7 @@ export class MemStorage implements IStorage {
       },
     ];
 
-    demoRides.forEach(ride => this.rides.set(ride.id, ride));
+    demoRides.forEach(ride => this.saveRide(ride));
 
     // Create demo customers for these rides
     const demoCustomers: User[] = [
@@ -148,7 +432,6 @@ export class MemStorage implements IStorage {
         reputation: 65,
         completedRides: 12,
         avgRating: 4.5,
-        balance: 150.00,
         name: "Emma Thompson",
       },
       {
@@ -158,7 +441,6 @@ export class MemStorage implements IStorage {
         reputation: 88,
         completedRides: 34,
         avgRating: 4.8,
-        balance: 75.50,
         name: "David Park",
       },
       {
@@ -168,12 +450,64 @@ export class MemStorage implements IStorage {
         reputation: 72,
         completedRides: 8,
         avgRating: 4.3,
-        balance: 200.00,
         name: "Lisa Wang",
       },
     ];
 
     demoCustomers.forEach(customer => this.users.set(customer.id, customer));
+
+    // Opening balances, then the stakes the demo customers have locked on their waiting rides
+    const openingBalances: Record<string, number> = {
+      "demo-driver-1": 245.50,
+      "demo-driver-2": 890.25,
+      "demo-customer-1": 150.00,
+      "demo-customer-2": 75.50,
+      "demo-customer-3": 200.00,
+    };
+    for (const [userId, amount] of Object.entries(openingBalances)) {
+      this.appendPosting({ type: "deposit", fromAccount: EXTERNAL_DEPOSITS_ACCOUNT, toAccount: userAccount(userId), amount, rideId: null });
+    }
+    for (const ride of demoRides) {
+      this.appendPosting({
+        type: "stake_lock",
+        fromAccount: userAccount(ride.customerId),
+        toAccount: escrowAccount(ride.id),
+        amount: ride.stakedAmount,
+        rideId: ride.id,
+      });
+    }
+  }
+
+  private appendPosting(posting: InsertLedgerPosting): LedgerPosting {
+    const stored: LedgerPosting = { ...posting, id: randomUUID(), createdAt: new Date().toISOString() };
+    this.ledgerPostings.push(stored);
+    return stored;
+  }
+
+  private balanceOf(account: string, postings: InsertLedgerPosting[] = this.ledgerPostings): number {
+    return postings.reduce((balance, posting) => {
+      if (posting.toAccount === account) return balance + posting.amount;
+      if (posting.fromAccount === account) return balance - posting.amount;
+      return balance;
+    }, 0);
+  }
+
+  // Store a ride and keep the waiting-ride spatial index in sync
+  private saveRide(ride: Ride) {
+    const previous = this.rides.get(ride.id);
+    if (previous?.status === "waiting") {
+      this.waitingRidesByCell.get(pickupCell(previous.pickup))?.delete(previous.id);
+    }
+
+    if (ride.status === "waiting") {
+      const cell = pickupCell(ride.pickup);
+      if (!this.waitingRidesByCell.has(cell)) {
+        this.waitingRidesByCell.set(cell, new Set());
+      }
+      this.waitingRidesByCell.get(cell)!.add(ride.id);
+    }
+
+    this.rides.set(ride.id, ride);
   }
 
   // User operations
@@ -214,22 +548,39 @@ export class MemStorage implements IStorage {
       id,
       customerId: rideData.customerId,
       driverId: null,
+      rideType: rideData.rideType,
+      seats: rideData.seats,
+      poolId: null,
+      deliveryType: rideData.deliveryType,
+      parcel: rideData.parcel,
+      proofOfDelivery: null,
       pickup: rideData.pickup,
+      stops: rideData.stops,
       dropoff: rideData.dropoff,
       estimatedFare: rideData.estimatedFare,
       stakedAmount: rideData.stakedAmount,
+      surgeMultiplier: rideData.surgeMultiplier,
       actualFare: null,
-      status: "waiting",
+      fareBreakdown: null,
+      status: "pending_stake",
       currentLocation: null,
+      stopsReached: 0,
       createdAt: new Date().toISOString(),
+      acceptedAt: null,
+      driverArrivedAt: null,
       startedAt: null,
       completedAt: null,
+      cancellation: null,
+      escrow: null,
+      scheduledFor: rideData.scheduledFor,
+      timeZone: rideData.timeZone,
+      reminderSentAt: null,
       customerRating: null,
       driverRating: null,
       customerFeedback: null,
       driverFeedback: null,
     };
-    this.rides.set(id, ride);
+    this.saveRide(ride);
     return ride;
   }
 
@@ -260,42 +611,171 @@ export class MemStorage implements IStorage {
     };
   }
 
-  async updateRide(id: string, updates: Partial<Ride>): Promise<Ride | undefined> {
+  async updateRide(id: string, updates: RideUpdate): Promise<Ride | undefined> {
     const ride = this.rides.get(id);
     if (!ride) return undefined;
     
     const updatedRide = { ...ride, ...updates };
-    this.rides.set(id, updatedRide);
+    this.saveRide(updatedRide);
     return updatedRide;
   }
 
-  async getAvailableRides(): Promise<AvailableRide[]> {
-    const waitingRides = Array.from(this.rides.values())
-      .filter(ride => ride.status === "waiting");
-    
+  async updateRideStatus(id: string, from: RideStatus, to: RideStatus, updates: RideUpdate): Promise<Ride | undefined> {
+    const ride = this.rides.get(id);
+    if (!ride || ride.status !== from) return undefined;
+
+    const updatedRide: Ride = { ...ride, ...updates, status: to };
+    this.saveRide(updatedRide);
+    return updatedRide;
+  }
+
+  async rateRide(id: string, rater: "customer" | "driver", rating: number, feedback: string | null): Promise<Ride | undefined> {
+    const ride = this.rides.get(id);
+    if (!ride || ride.status !== "completed") return undefined;
+    if ((rater === "customer" ? ride.driverRating : ride.customerRating) !== null) return undefined;
+
+    const updatedRide: Ride = rater === "customer"
+      ? { ...ride, driverRating: rating, customerFeedback: feedback }
+      : { ...ride, customerRating: rating, driverFeedback: feedback };
+    this.saveRide(updatedRide);
+    return updatedRide;
+  }
+
+  async recordDriverArrival(id: string, arrivedAt: string): Promise<Ride | undefined> {
+    const ride = this.rides.get(id);
+    if (!ride || ride.status !== "accepted" || ride.driverArrivedAt !== null) return undefined;
+
+    const updatedRide: Ride = { ...ride, driverArrivedAt: arrivedAt };
+    this.saveRide(updatedRide);
+    return updatedRide;
+  }
+
+  async recordStopReached(id: string, reached: number): Promise<Ride | undefined> {
+    const ride = this.rides.get(id);
+    if (!ride || ride.status !== "in_progress" || ride.stopsReached !== reached) return undefined;
+
+    const updatedRide: Ride = { ...ride, stopsReached: reached + 1 };
+    this.saveRide(updatedRide);
+    return updatedRide;
+  }
+
+  async acceptRide(
+    rideId: string,
+    driverId: string,
+    updates: RideUpdate = {},
+    from: "waiting" | "scheduled" = "waiting",
+  ): Promise<Ride | undefined> {
+    // No awaits between the checks and the write, so this runs as one step
+    const ride = this.rides.get(rideId);
+    if (!ride) return undefined;
+    if (ride.status !== from) throw new RideConflictError("ride_unavailable");
+    if (from === "scheduled" && ride.driverId !== driverId) throw new RideConflictError("ride_unavailable");
+
+    const driverBusy = Array.from(this.rides.values()).some(
+      other => other.driverId === driverId && driverActiveStatuses.includes(other.status)
+    );
+    if (driverBusy) throw new RideConflictError("driver_busy");
+
+    // A pool ride accepted by an idle driver starts a new pool
+    const poolId = ride.rideType === "pool" ? ride.id : null;
+    const acceptedRide: Ride = { ...ride, ...updates, driverId, poolId, status: "accepted" };
+    this.saveRide(acceptedRide);
+    return acceptedRide;
+  }
+
+  async joinPool(rideId: string, driverId: string, poolId: string, updates: RideUpdate = {}): Promise<Ride | undefined> {
+    const ride = this.rides.get(rideId);
+    if (!ride) return undefined;
+    if (ride.status !== "waiting" || ride.rideType !== "pool") throw new RideConflictError("ride_unavailable");
+
+    const driverRides = Array.from(this.rides.values()).filter(
+      other => other.driverId === driverId && driverActiveStatuses.includes(other.status)
+    );
+    if (driverRides.some(other => other.poolId !== poolId)) throw new RideConflictError("driver_busy");
+
+    const seatsTaken = driverRides.reduce((seats, other) => seats + other.seats, 0);
+    if (seatsTaken + ride.seats > POOL_CAPACITY) throw new RideConflictError("pool_full");
+
+    const joinedRide: Ride = { ...ride, ...updates, driverId, poolId, status: "accepted" };
+    this.saveRide(joinedRide);
+    return joinedRide;
+  }
+
+  async reserveRide(rideId: string, driverId: string): Promise<Ride | undefined> {
+    const ride = this.rides.get(rideId);
+    if (!ride) return undefined;
+    if (ride.status !== "scheduled" || ride.driverId) throw new RideConflictError("ride_unavailable");
+
+    const pickupAt = new Date(ride.scheduledFor!).getTime();
+    const clashes = Array.from(this.rides.values()).some(other =>
+      other.driverId === driverId &&
+      other.status === "scheduled" &&
+      Math.abs(new Date(other.scheduledFor!).getTime() - pickupAt) < RESERVATION_GAP_MS
+    );
+    if (clashes) throw new RideConflictError("schedule_clash");
+
+    const reservedRide: Ride = { ...ride, driverId };
+    this.saveRide(reservedRide);
+    return reservedRide;
+  }
+
+  async getAvailableRides(driverLocation: LatLng, radiusKm: number): Promise<AvailableRide[]> {
     const availableRides: AvailableRide[] = [];
-    
-    for (const ride of waitingRides) {
-      const customer = await this.getUser(ride.customerId);
-      
-      // Calculate distance
-      const distance = Math.sqrt(
-        Math.pow(ride.pickup.lat - ride.dropoff.lat, 2) +
-        Math.pow(ride.pickup.lng - ride.dropoff.lng, 2)
-      ) * 111;
 
-      availableRides.push({
-        rideId: ride.id,
-        pickup: ride.pickup,
-        dropoff: ride.dropoff,
-        fare: ride.estimatedFare,
-        customerRating: customer?.avgRating || 4.0,
-        customerName: customer?.name || "Customer",
-        distance: Math.round(distance * 10) / 10,
-      });
+    // Only look at rides indexed in cells that overlap the search radius
+    for (const cell of geohashCellsInRadius(driverLocation, radiusKm, PICKUP_CELL_PRECISION)) {
+      for (const rideId of Array.from(this.waitingRidesByCell.get(cell) ?? [])) {
+        const ride = this.rides.get(rideId);
+        if (!ride || !isWithinRadius(ride, driverLocation, radiusKm)) continue;
+
+        const customer = await this.getUser(ride.customerId);
+        availableRides.push(toAvailableRide(ride, customer, driverLocation));
+      }
     }
 
-    return availableRides;
+    return availableRides.sort(byPickupDistance);
+  }
+
+  async getUpcomingRides(driverId: string, driverLocation: LatLng, radiusKm: number): Promise<UpcomingRide[]> {
+    const upcomingRides: UpcomingRide[] = [];
+
+    // Scheduled rides are few enough to scan
+    for (const ride of Array.from(this.rides.values())) {
+      if (ride.status !== "scheduled") continue;
+      const isOpen = !ride.driverId && isWithinRadius(ride, driverLocation, radiusKm);
+      if (!isOpen && ride.driverId !== driverId) continue;
+
+      const customer = await this.getUser(ride.customerId);
+      upcomingRides.push(toUpcomingRide(ride, customer, driverId, driverLocation));
+    }
+
+    return upcomingRides.sort(byScheduledTime);
+  }
+
+  async getScheduledRides(filter: ScheduledRidesFilter): Promise<Ride[]> {
+    return Array.from(this.rides.values())
+      .filter(ride =>
+        ride.status === "scheduled" &&
+        (!filter.customerId || ride.customerId === filter.customerId) &&
+        (!filter.dueBefore || new Date(ride.scheduledFor!) < filter.dueBefore)
+      )
+      .sort(byScheduledTime);
+  }
+
+  async getStaleStakeDrafts(createdBefore: Date): Promise<Ride[]> {
+    return Array.from(this.rides.values())
+      .filter(ride => stakeDraftStatuses.includes(ride.status) && new Date(ride.createdAt) < createdBefore);
+  }
+
+  async getUnreconciledRides(cancelledBefore: Date): Promise<Ride[]> {
+    return Array.from(this.rides.values()).filter(ride => {
+      const escrow = ride.escrow;
+      if (escrow?.orphaned) return !escrow.refunded || escrow.refunded.stage === "failed";
+      return ride.status === "cancelled"
+        && new Date(ride.completedAt!) < cancelledBefore
+        && escrow?.created?.stage !== "finalized"
+        && !escrow?.reconciledAt;
+    });
   }
 
   async getActiveRide(userId: string): Promise<RideWithDetails | undefined> {
@@ -319,6 +799,12 @@ export class MemStorage implements IStorage {
     return this.getRideWithDetails(activeRide.id);
   }
 
+  async getActiveRides(driverId: string): Promise<Ride[]> {
+    return Array.from(this.rides.values())
+      .filter(ride => ride.driverId === driverId && driverActiveStatuses.includes(ride.status))
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
   async getRideHistory(userId: string): Promise<Ride[]> {
     const user = await this.getUser(userId);
     if (!user) return [];
@@ -336,6 +822,752 @@ export class MemStorage implements IStorage {
       .sort((a, b) => new Date(b.completedAt || b.createdAt).getTime() - new Date(a.completedAt || a.createdAt).getTime())
       .slice(0, 10);
   }
+
+  // Ride timeline operations
+  async addRideEvent(insertEvent: InsertRideEvent): Promise<RideEvent> {
+    const event: RideEvent = {
+      ...insertEvent,
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    const events = this.rideEvents.get(event.rideId) ?? [];
+    events.push(event);
+    this.rideEvents.set(event.rideId, events);
+    return event;
+  }
+
+  async getRideEvents(rideId: string): Promise<RideEvent[]> {
+    return [...(this.rideEvents.get(rideId) ?? [])];
+  }
+
+  // GPS trace operations
+  async addRideLocation(insertLocation: InsertRideLocation): Promise<RideLocation> {
+    const location: RideLocation = {
+      ...insertLocation,
+      id: randomUUID(),
+      recordedAt: new Date().toISOString(),
+    };
+    const trace = this.rideLocations.get(location.rideId) ?? [];
+    trace.push(location);
+    this.rideLocations.set(location.rideId, trace);
+    return location;
+  }
+
+  async getRideLocations(rideId: string): Promise<RideLocation[]> {
+    return [...(this.rideLocations.get(rideId) ?? [])];
+  }
+
+  async getLastRideLocation(rideId: string): Promise<RideLocation | undefined> {
+    return this.rideLocations.get(rideId)?.at(-1);
+  }
+
+  // Rating operations
+  async createRating(insertRating: InsertRating): Promise<Rating> {
+    const rating: Rating = {
+      ...insertRating,
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    this.ratings.set(rating.id, rating);
+    return rating;
+  }
+
+  async getRatingsForUser(userId: string): Promise<Rating[]> {
+    return Array.from(this.ratings.values())
+      .filter(rating => rating.rateeId === userId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  // Delivery PIN operations
+  async setDeliveryPin(rideId: string, pinHash: string): Promise<DeliveryPin> {
+    const pin: DeliveryPin = { rideId, pinHash, issuedAt: new Date().toISOString(), attempts: 0 };
+    this.deliveryPins.set(rideId, pin);
+    return pin;
+  }
+
+  async getDeliveryPin(rideId: string): Promise<DeliveryPin | undefined> {
+    return this.deliveryPins.get(rideId);
+  }
+
+  async countDeliveryPinAttempt(rideId: string, maxAttempts: number): Promise<DeliveryPin | undefined> {
+    const pin = this.deliveryPins.get(rideId);
+    if (!pin || pin.attempts >= maxAttempts) return undefined;
+
+    const countedPin: DeliveryPin = { ...pin, attempts: pin.attempts + 1 };
+    this.deliveryPins.set(rideId, countedPin);
+    return countedPin;
+  }
+
+  async consumeDeliveryPin(rideId: string, pinHash: string): Promise<boolean> {
+    if (this.deliveryPins.get(rideId)?.pinHash !== pinHash) return false;
+    this.deliveryPins.delete(rideId);
+    return true;
+  }
+
+  // Surge history operations
+  async addSurgeSnapshot(insertSnapshot: InsertSurgeSnapshot): Promise<SurgeSnapshot> {
+    const snapshot: SurgeSnapshot = {
+      ...insertSnapshot,
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+    };
+    this.surgeSnapshots.set(snapshot.id, snapshot);
+    return snapshot;
+  }
+
+  async getSurgeSnapshot(id: string): Promise<SurgeSnapshot | undefined> {
+    return this.surgeSnapshots.get(id);
+  }
+
+  async getSurgeHistory(cell: string, since: Date): Promise<SurgeSnapshot[]> {
+    return Array.from(this.surgeSnapshots.values())
+      .filter(snapshot => snapshot.cell === cell && new Date(snapshot.createdAt) >= since)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  // Ledger operations
+  async addLedgerPostings(postings: InsertLedgerPosting[], fundedAccounts: string[] = []): Promise<LedgerPosting[]> {
+    // Checked and appended without awaiting in between, so no other posting can slip in
+    for (const account of fundedAccounts) {
+      if (this.balanceOf(account) + this.balanceOf(account, postings) < -1e-9) {
+        throw new InsufficientFundsError(account);
+      }
+    }
+    for (const tip of postings.filter(posting => posting.type === "tip")) {
+      const tipped = this.ledgerPostings.some(posting => posting.type === "tip" && posting.rideId === tip.rideId);
+      if (tipped || postings.filter(posting => posting.type === "tip" && posting.rideId === tip.rideId).length > 1) {
+        throw new DuplicateTipError(tip.rideId!);
+      }
+    }
+    return postings.map(posting => this.appendPosting(posting));
+  }
+
+  async getLedgerPostings(account: string): Promise<LedgerPosting[]> {
+    return this.ledgerPostings
+      .filter(posting => posting.fromAccount === account || posting.toAccount === account)
+      .reverse();
+  }
+
+  async getRideLedgerPostings(rideId: string): Promise<LedgerPosting[]> {
+    return this.ledgerPostings.filter(posting => posting.rideId === rideId);
+  }
+
+  async getAccountBalance(account: string): Promise<number> {
+    return this.balanceOf(account);
+  }
+}
+
+type UserRow = typeof users.$inferSelect;
+type RideRow = typeof rides.$inferSelect;
+type RideEventRow = typeof rideEvents.$inferSelect;
+type RatingRow = typeof ratings.$inferSelect;
+type RideLocationRow = typeof rideLocations.$inferSelect;
+type SurgeSnapshotRow = typeof surgeSnapshots.$inferSelect;
+type LedgerPostingRow = typeof ledgerPostings.$inferSelect;
+type DeliveryPinRow = typeof deliveryPins.$inferSelect;
+
+function toUser(row: UserRow): User {
+  return { ...row, name: row.name ?? undefined };
+}
+
+function toRide({ pickupCell: _pickupCell, ...row }: RideRow): Ride {
+  return {
+    ...row,
+    createdAt: row.createdAt.toISOString(),
+    acceptedAt: row.acceptedAt?.toISOString() ?? null,
+    driverArrivedAt: row.driverArrivedAt?.toISOString() ?? null,
+    startedAt: row.startedAt?.toISOString() ?? null,
+    completedAt: row.completedAt?.toISOString() ?? null,
+    scheduledFor: row.scheduledFor?.toISOString() ?? null,
+    reminderSentAt: row.reminderSentAt?.toISOString() ?? null,
+  };
+}
+
+function toRideEvent(row: RideEventRow): RideEvent {
+  return { ...row, createdAt: row.createdAt.toISOString() };
+}
+
+function toRideLocation(row: RideLocationRow): RideLocation {
+  return { ...row, recordedAt: row.recordedAt.toISOString() };
+}
+
+function toRating(row: RatingRow): Rating {
+  return { ...row, createdAt: row.createdAt.toISOString() };
+}
+
+function toSurgeSnapshot(row: SurgeSnapshotRow): SurgeSnapshot {
+  return { ...row, createdAt: row.createdAt.toISOString(), expiresAt: row.expiresAt.toISOString() };
+}
+
+function toLedgerPosting(row: LedgerPostingRow): LedgerPosting {
+  return { ...row, createdAt: row.createdAt.toISOString() };
+}
+
+function toDeliveryPin(row: DeliveryPinRow): DeliveryPin {
+  return { ...row, issuedAt: row.issuedAt.toISOString() };
+}
+
+// Accepts and pool joins for the same driver queue up here until the transaction ends,
+// so the driver's other rides can't change between checking them and writing the ride
+function lockDriver(tx: Pick<Database, "execute">, driverId: string) {
+  return tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`driver:${driverId}`}))`);
+}
+
+// Sum of postings into the account minus postings out of it
+function accountBalanceQuery(db: Pick<Database, "select">, account: string) {
+  return db
+    .select({
+      balance: sql<number>`coalesce(sum(case when ${ledgerPostings.toAccount} = ${account} then ${ledgerPostings.amount} else -${ledgerPostings.amount} end), 0)`.mapWith(Number),
+    })
+    .from(ledgerPostings)
+    .where(or(eq(ledgerPostings.toAccount, account), eq(ledgerPostings.fromAccount, account)));
+}
+
+// Ride timestamps are ISO strings in the API but timestamptz columns in Postgres
+function toRideRow(updates: RideUpdate): Partial<RideRow> {
+  const { acceptedAt, driverArrivedAt, startedAt, completedAt, scheduledFor, reminderSentAt, ...rest } = updates;
+  const row: Partial<RideRow> = { ...rest };
+  if (rest.pickup) row.pickupCell = pickupCell(rest.pickup);
+  if (acceptedAt !== undefined) row.acceptedAt = acceptedAt ? new Date(acceptedAt) : null;
+  if (driverArrivedAt !== undefined) row.driverArrivedAt = driverArrivedAt ? new Date(driverArrivedAt) : null;
+  if (startedAt !== undefined) row.startedAt = startedAt ? new Date(startedAt) : null;
+  if (completedAt !== undefined) row.completedAt = completedAt ? new Date(completedAt) : null;
+  if (scheduledFor !== undefined) row.scheduledFor = scheduledFor ? new Date(scheduledFor) : null;
+  if (reminderSentAt !== undefined) row.reminderSentAt = reminderSentAt ? new Date(reminderSentAt) : null;
+  return row;
+}
+
+export class DrizzleStorage implements IStorage {
+  constructor(private db: Database) {}
+
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    const [row] = await this.db.select().from(users).where(eq(users.id, id));
+    return row ? toUser(row) : undefined;
+  }
+
+  async getUserByWallet(walletAddress: string): Promise<User | undefined> {
+    const [row] = await this.db.select().from(users).where(eq(users.walletAddress, walletAddress));
+    return row ? toUser(row) : undefined;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [row] = await this.db.insert(users).values({
+      ...insertUser,
+      id: randomUUID(),
+      name: insertUser.name || getRandomName(),
+    }).returning();
+    return toUser(row);
+  }
+
+  async updateUser(id: string, updates: Partial<User>): Promise<User | undefined> {
+    const { id: _id, ...changes } = updates;
+    if (Object.keys(changes).length === 0) return this.getUser(id);
+
+    const [row] = await this.db.update(users).set(changes).where(eq(users.id, id)).returning();
+    return row ? toUser(row) : undefined;
+  }
+
+  // Ride operations
+  async createRide(rideData: InsertRide & { customerId: string }): Promise<Ride> {
+    const [row] = await this.db.insert(rides).values({
+      id: randomUUID(),
+      customerId: rideData.customerId,
+      rideType: rideData.rideType,
+      seats: rideData.seats,
+      deliveryType: rideData.deliveryType,
+      parcel: rideData.parcel,
+      pickup: rideData.pickup,
+      stops: rideData.stops,
+      dropoff: rideData.dropoff,
+      pickupCell: pickupCell(rideData.pickup),
+      estimatedFare: rideData.estimatedFare,
+      stakedAmount: rideData.stakedAmount,
+      surgeMultiplier: rideData.surgeMultiplier,
+      status: "pending_stake",
+      scheduledFor: rideData.scheduledFor ? new Date(rideData.scheduledFor) : null,
+      timeZone: rideData.timeZone,
+    }).returning();
+    return toRide(row);
+  }
+
+  async getRide(id: string): Promise<Ride | undefined> {
+    const [row] = await this.db.select().from(rides).where(eq(rides.id, id));
+    return row ? toRide(row) : undefined;
+  }
+
+  async getRideWithDetails(id: string): Promise<RideWithDetails | undefined> {
+    const ride = await this.getRide(id);
+    if (!ride) return undefined;
+
+    const customer = await this.getUser(ride.customerId);
+    const driver = ride.driverId ? await this.getUser(ride.driverId) : undefined;
+
+    return {
+      ...ride,
+      customer: customer ? {
+        name: customer.name || "Customer",
+        address: customer.walletAddress,
+        rating: customer.avgRating,
+      } : undefined,
+      driver: driver ? {
+        name: driver.name || "Driver",
+        address: driver.walletAddress,
+        rating: driver.avgRating,
+        reputation: driver.reputation,
+      } : undefined,
+    };
+  }
+
+  async updateRide(id: string, updates: RideUpdate): Promise<Ride | undefined> {
+    const changes = toRideRow(updates);
+    if (Object.keys(changes).length === 0) return this.getRide(id);
+
+    const [row] = await this.db.update(rides).set(changes).where(eq(rides.id, id)).returning();
+    return row ? toRide(row) : undefined;
+  }
+
+  async updateRideStatus(id: string, from: RideStatus, to: RideStatus, updates: RideUpdate): Promise<Ride | undefined> {
+    const [row] = await this.db
+      .update(rides)
+      .set({ ...toRideRow(updates), status: to })
+      .where(and(eq(rides.id, id), eq(rides.status, from)))
+      .returning();
+    return row ? toRide(row) : undefined;
+  }
+
+  async rateRide(id: string, rater: "customer" | "driver", rating: number, feedback: string | null): Promise<Ride | undefined> {
+    const [row] = rater === "customer"
+      ? await this.db
+        .update(rides)
+        .set({ driverRating: rating, customerFeedback: feedback })
+        .where(and(eq(rides.id, id), eq(rides.status, "completed"), isNull(rides.driverRating)))
+        .returning()
+      : await this.db
+        .update(rides)
+        .set({ customerRating: rating, driverFeedback: feedback })
+        .where(and(eq(rides.id, id), eq(rides.status, "completed"), isNull(rides.customerRating)))
+        .returning();
+    return row ? toRide(row) : undefined;
+  }
+
+  async recordDriverArrival(id: string, arrivedAt: string): Promise<Ride | undefined> {
+    const [row] = await this.db
+      .update(rides)
+      .set({ driverArrivedAt: new Date(arrivedAt) })
+      .where(and(eq(rides.id, id), eq(rides.status, "accepted"), isNull(rides.driverArrivedAt)))
+      .returning();
+    return row ? toRide(row) : undefined;
+  }
+
+  async recordStopReached(id: string, reached: number): Promise<Ride | undefined> {
+    const [row] = await this.db
+      .update(rides)
+      .set({ stopsReached: reached + 1 })
+      .where(and(eq(rides.id, id), eq(rides.status, "in_progress"), eq(rides.stopsReached, reached)))
+      .returning();
+    return row ? toRide(row) : undefined;
+  }
+
+  async acceptRide(
+    rideId: string,
+    driverId: string,
+    updates: RideUpdate = {},
+    from: "waiting" | "scheduled" = "waiting",
+  ): Promise<Ride | undefined> {
+    return this.db.transaction(async (tx) => {
+      await lockDriver(tx, driverId);
+
+      const [ride] = await tx.select().from(rides).where(eq(rides.id, rideId));
+      if (!ride) return undefined;
+      // A reservation only converts for the driver who holds it
+      if (ride.status !== from || (from === "scheduled" && ride.driverId !== driverId)) {
+        throw new RideConflictError("ride_unavailable");
+      }
+
+      const [busyRide] = await tx
+        .select({ id: rides.id })
+        .from(rides)
+        .where(and(eq(rides.driverId, driverId), inArray(rides.status, driverActiveStatuses)))
+        .limit(1);
+      if (busyRide) throw new RideConflictError("driver_busy");
+
+      let row: RideRow | undefined;
+      try {
+        [row] = await tx
+          .update(rides)
+          // A pool ride accepted by an idle driver starts a new pool
+          .set({ ...toRideRow(updates), driverId, poolId: ride.rideType === "pool" ? ride.id : null, status: "accepted" })
+          .where(and(eq(rides.id, rideId), eq(rides.status, from)))
+          .returning();
+      } catch (error) {
+        // rides_one_active_per_driver_idx backs up the lock for drivers assigned some other way
+        if ((error as { code?: string }).code === "23505") {
+          throw new RideConflictError("driver_busy");
+        }
+        throw error;
+      }
+      // Another driver took the ride since it was read
+      if (!row) throw new RideConflictError("ride_unavailable");
+      return toRide(row);
+    });
+  }
+
+  async joinPool(rideId: string, driverId: string, poolId: string, updates: RideUpdate = {}): Promise<Ride | undefined> {
+    return this.db.transaction(async (tx) => {
+      await lockDriver(tx, driverId);
+
+      const [ride] = await tx.select().from(rides).where(eq(rides.id, rideId));
+      if (!ride) return undefined;
+      if (ride.status !== "waiting" || ride.rideType !== "pool") throw new RideConflictError("ride_unavailable");
+
+      const driverRides = await tx
+        .select({ poolId: rides.poolId, seats: rides.seats })
+        .from(rides)
+        .where(and(eq(rides.driverId, driverId), inArray(rides.status, driverActiveStatuses)));
+      if (driverRides.some(other => other.poolId !== poolId)) throw new RideConflictError("driver_busy");
+
+      const seatsTaken = driverRides.reduce((seats, other) => seats + other.seats, 0);
+      if (seatsTaken + ride.seats > POOL_CAPACITY) throw new RideConflictError("pool_full");
+
+      const [row] = await tx
+        .update(rides)
+        .set({ ...toRideRow(updates), driverId, poolId, status: "accepted" })
+        .where(and(eq(rides.id, rideId), eq(rides.status, "waiting")))
+        .returning();
+      // Another driver took the ride since it was read
+      if (!row) throw new RideConflictError("ride_unavailable");
+      return toRide(row);
+    });
+  }
+
+  async reserveRide(rideId: string, driverId: string): Promise<Ride | undefined> {
+    const ride = await this.getRide(rideId);
+    if (!ride) return undefined;
+    if (ride.status !== "scheduled" || ride.driverId) throw new RideConflictError("ride_unavailable");
+
+    const pickupAt = new Date(ride.scheduledFor!);
+    const clashingRides = this.db
+      .select({ id: rides.id })
+      .from(rides)
+      .where(and(
+        eq(rides.driverId, driverId),
+        eq(rides.status, "scheduled"),
+        gt(rides.scheduledFor, new Date(pickupAt.getTime() - RESERVATION_GAP_MS)),
+        lt(rides.scheduledFor, new Date(pickupAt.getTime() + RESERVATION_GAP_MS)),
+      ));
+
+    const [row] = await this.db
+      .update(rides)
+      .set({ driverId })
+      .where(and(eq(rides.id, rideId), eq(rides.status, "scheduled"), isNull(rides.driverId), notExists(clashingRides)))
+      .returning();
+    if (row) return toRide(row);
+
+    // Nothing was updated; work out why
+    const current = await this.getRide(rideId);
+    const stillOpen = current?.status === "scheduled" && !current.driverId;
+    throw new RideConflictError(stillOpen ? "schedule_clash" : "ride_unavailable");
+  }
+
+  async getAvailableRides(driverLocation: LatLng, radiusKm: number): Promise<AvailableRide[]> {
+    const cells = geohashCellsInRadius(driverLocation, radiusKm, PICKUP_CELL_PRECISION);
+
+    // rides_status_pickup_cell_idx narrows this to the overlapping cells
+    const rows = await this.db
+      .select({ ride: rides, customer: users })
+      .from(rides)
+      .leftJoin(users, eq(rides.customerId, users.id))
+      .where(and(eq(rides.status, "waiting"), inArray(rides.pickupCell, cells)));
+
+    return rows
+      .map(({ ride, customer }) => ({ ride: toRide(ride), customer }))
+      .filter(({ ride }) => isWithinRadius(ride, driverLocation, radiusKm))
+      .map(({ ride, customer }) => toAvailableRide(ride, customer, driverLocation))
+      .sort(byPickupDistance);
+  }
+
+  async getUpcomingRides(driverId: string, driverLocation: LatLng, radiusKm: number): Promise<UpcomingRide[]> {
+    const cells = geohashCellsInRadius(driverLocation, radiusKm, PICKUP_CELL_PRECISION);
+
+    const rows = await this.db
+      .select({ ride: rides, customer: users })
+      .from(rides)
+      .leftJoin(users, eq(rides.customerId, users.id))
+      .where(and(
+        eq(rides.status, "scheduled"),
+        or(eq(rides.driverId, driverId), and(isNull(rides.driverId), inArray(rides.pickupCell, cells))),
+      ))
+      .orderBy(rides.scheduledFor);
+
+    return rows
+      .map(({ ride, customer }) => ({ ride: toRide(ride), customer }))
+      .filter(({ ride }) => ride.driverId === driverId || isWithinRadius(ride, driverLocation, radiusKm))
+      .map(({ ride, customer }) => toUpcomingRide(ride, customer, driverId, driverLocation));
+  }
+
+  async getScheduledRides(filter: ScheduledRidesFilter): Promise<Ride[]> {
+    const rows = await this.db
+      .select()
+      .from(rides)
+      .where(and(
+        eq(rides.status, "scheduled"),
+        filter.customerId ? eq(rides.customerId, filter.customerId) : undefined,
+        filter.dueBefore ? lt(rides.scheduledFor, filter.dueBefore) : undefined,
+      ))
+      .orderBy(rides.scheduledFor);
+    return rows.map(toRide);
+  }
+
+  async getStaleStakeDrafts(createdBefore: Date): Promise<Ride[]> {
+    const rows = await this.db
+      .select()
+      .from(rides)
+      .where(and(inArray(rides.status, stakeDraftStatuses), lt(rides.createdAt, createdBefore)));
+    return rows.map(toRide);
+  }
+
+  async getUnreconciledRides(cancelledBefore: Date): Promise<Ride[]> {
+    const rows = await this.db
+      .select()
+      .from(rides)
+      .where(or(
+        and(
+          sql`${rides.escrow}->>'orphaned' is not null`,
+          sql`coalesce(${rides.escrow}->'refunded'->>'stage', 'failed') = 'failed'`,
+        ),
+        and(
+          eq(rides.status, "cancelled"),
+          lt(rides.completedAt, cancelledBefore),
+          sql`coalesce(${rides.escrow}->'created'->>'stage', '') <> 'finalized'`,
+          sql`${rides.escrow}->>'reconciledAt' is null`,
+        ),
+      ));
+    return rows.map(toRide);
+  }
+
+  async getActiveRide(userId: string): Promise<RideWithDetails | undefined> {
+    const user = await this.getUser(userId);
+    if (!user) return undefined;
+
+    const activeStatuses: RideStatus[] = ["waiting", "accepted", "in_progress"];
+    const participant = user.role === "customer"
+      ? eq(rides.customerId, userId)
+      : eq(rides.driverId, userId);
+
+    const [row] = await this.db
+      .select({ id: rides.id })
+      .from(rides)
+      .where(and(inArray(rides.status, activeStatuses), participant))
+      .limit(1);
+
+    if (!row) return undefined;
+
+    return this.getRideWithDetails(row.id);
+  }
+
+  async getActiveRides(driverId: string): Promise<Ride[]> {
+    const rows = await this.db
+      .select()
+      .from(rides)
+      .where(and(eq(rides.driverId, driverId), inArray(rides.status, driverActiveStatuses)))
+      .orderBy(rides.createdAt);
+    return rows.map(toRide);
+  }
+
+  async getRideHistory(userId: string): Promise<Ride[]> {
+    const user = await this.getUser(userId);
+    if (!user) return [];
+
+    const participant = user.role === "customer"
+      ? eq(rides.customerId, userId)
+      : eq(rides.driverId, userId);
+
+    const rows = await this.db
+      .select()
+      .from(rides)
+      .where(and(or(eq(rides.status, "completed"), eq(rides.status, "cancelled")), participant))
+      .orderBy(desc(sql`coalesce(${rides.completedAt}, ${rides.createdAt})`))
+      .limit(10);
+
+    return rows.map(toRide);
+  }
+
+  // Ride timeline operations
+  async addRideEvent(insertEvent: InsertRideEvent): Promise<RideEvent> {
+    const [row] = await this.db.insert(rideEvents).values({
+      ...insertEvent,
+      id: randomUUID(),
+    }).returning();
+    return toRideEvent(row);
+  }
+
+  async getRideEvents(rideId: string): Promise<RideEvent[]> {
+    const rows = await this.db
+      .select()
+      .from(rideEvents)
+      .where(eq(rideEvents.rideId, rideId))
+      .orderBy(rideEvents.createdAt);
+    return rows.map(toRideEvent);
+  }
+
+  // GPS trace operations
+  async addRideLocation(insertLocation: InsertRideLocation): Promise<RideLocation> {
+    const [row] = await this.db.insert(rideLocations).values({
+      ...insertLocation,
+      id: randomUUID(),
+    }).returning();
+    return toRideLocation(row);
+  }
+
+  async getRideLocations(rideId: string): Promise<RideLocation[]> {
+    const rows = await this.db
+      .select()
+      .from(rideLocations)
+      .where(eq(rideLocations.rideId, rideId))
+      .orderBy(rideLocations.recordedAt);
+    return rows.map(toRideLocation);
+  }
+
+  async getLastRideLocation(rideId: string): Promise<RideLocation | undefined> {
+    const [row] = await this.db
+      .select()
+      .from(rideLocations)
+      .where(eq(rideLocations.rideId, rideId))
+      .orderBy(desc(rideLocations.recordedAt))
+      .limit(1);
+    return row ? toRideLocation(row) : undefined;
+  }
+
+  // Rating operations
+  async createRating(insertRating: InsertRating): Promise<Rating> {
+    const [row] = await this.db.insert(ratings).values({
+      ...insertRating,
+      id: randomUUID(),
+    }).returning();
+    return toRating(row);
+  }
+
+  async getRatingsForUser(userId: string): Promise<Rating[]> {
+    const rows = await this.db
+      .select()
+      .from(ratings)
+      .where(eq(ratings.rateeId, userId))
+      .orderBy(desc(ratings.createdAt));
+    return rows.map(toRating);
+  }
+
+  // Delivery PIN operations
+  async setDeliveryPin(rideId: string, pinHash: string): Promise<DeliveryPin> {
+    const issuedAt = new Date();
+    const [row] = await this.db.insert(deliveryPins)
+      .values({ rideId, pinHash, issuedAt })
+      .onConflictDoUpdate({ target: deliveryPins.rideId, set: { pinHash, issuedAt, attempts: 0 } })
+      .returning();
+    return toDeliveryPin(row);
+  }
+
+  async getDeliveryPin(rideId: string): Promise<DeliveryPin | undefined> {
+    const [row] = await this.db.select().from(deliveryPins).where(eq(deliveryPins.rideId, rideId));
+    return row ? toDeliveryPin(row) : undefined;
+  }
+
+  async countDeliveryPinAttempt(rideId: string, maxAttempts: number): Promise<DeliveryPin | undefined> {
+    const [row] = await this.db.update(deliveryPins)
+      .set({ attempts: sql`${deliveryPins.attempts} + 1` })
+      .where(and(eq(deliveryPins.rideId, rideId), lt(deliveryPins.attempts, maxAttempts)))
+      .returning();
+    return row ? toDeliveryPin(row) : undefined;
+  }
+
+  async consumeDeliveryPin(rideId: string, pinHash: string): Promise<boolean> {
+    const rows = await this.db.delete(deliveryPins)
+      .where(and(eq(deliveryPins.rideId, rideId), eq(deliveryPins.pinHash, pinHash)))
+      .returning();
+    return rows.length > 0;
+  }
+
+  // Surge history operations
+  async addSurgeSnapshot(insertSnapshot: InsertSurgeSnapshot): Promise<SurgeSnapshot> {
+    const [row] = await this.db.insert(surgeSnapshots).values({
+      ...insertSnapshot,
+      id: randomUUID(),
+      expiresAt: new Date(insertSnapshot.expiresAt),
+    }).returning();
+    return toSurgeSnapshot(row);
+  }
+
+  async getSurgeSnapshot(id: string): Promise<SurgeSnapshot | undefined> {
+    const [row] = await this.db.select().from(surgeSnapshots).where(eq(surgeSnapshots.id, id));
+    return row ? toSurgeSnapshot(row) : undefined;
+  }
+
+  async getSurgeHistory(cell: string, since: Date): Promise<SurgeSnapshot[]> {
+    const rows = await this.db
+      .select()
+      .from(surgeSnapshots)
+      .where(and(eq(surgeSnapshots.cell, cell), gte(surgeSnapshots.createdAt, since)))
+      .orderBy(desc(surgeSnapshots.createdAt));
+    return rows.map(toSurgeSnapshot);
+  }
+
+  // Ledger operations
+  async addLedgerPostings(postings: InsertLedgerPosting[], fundedAccounts: string[] = []): Promise<LedgerPosting[]> {
+    if (postings.length === 0) return [];
+
+    return this.db.transaction(async (tx) => {
+      // Postings out of the same account queue up here, so two of them can't both spend one balance.
+      // Locks are taken in a fixed order so concurrent transfers can't deadlock
+      for (const account of [...fundedAccounts].sort()) {
+        await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${account}))`);
+      }
+
+      let rows: LedgerPostingRow[];
+      try {
+        rows = await tx.insert(ledgerPostings)
+          .values(postings.map(posting => ({ ...posting, id: randomUUID() })))
+          .returning();
+      } catch (error) {
+        // The only unique index on postings is ledger_postings_one_tip_per_ride_idx
+        if ((error as { code?: string }).code === "23505") {
+          throw new DuplicateTipError(postings.find(posting => posting.type === "tip")!.rideId!);
+        }
+        throw error;
+      }
+
+      for (const account of fundedAccounts) {
+        const [{ balance }] = await accountBalanceQuery(tx, account);
+        if (balance < -1e-9) throw new InsufficientFundsError(account);
+      }
+      return rows.map(toLedgerPosting);
+    });
+  }
+
+  async getLedgerPostings(account: string): Promise<LedgerPosting[]> {
+    const rows = await this.db
+      .select()
+      .from(ledgerPostings)
+      .where(or(eq(ledgerPostings.fromAccount, account), eq(ledgerPostings.toAccount, account)))
+      .orderBy(desc(ledgerPostings.createdAt));
+    return rows.map(toLedgerPosting);
+  }
+
+  async getRideLedgerPostings(rideId: string): Promise<LedgerPosting[]> {
+    const rows = await this.db
+      .select()
+      .from(ledgerPostings)
+      .where(eq(ledgerPostings.rideId, rideId))
+      .orderBy(ledgerPostings.createdAt);
+    return rows.map(toLedgerPosting);
+  }
+
+  async getAccountBalance(account: string): Promise<number> {
+    const [{ balance }] = await accountBalanceQuery(this.db, account);
+    return balance;
+  }
 }
 
-export const storage = new MemStorage();
+// Use Postgres when DATABASE_URL is configured, otherwise fall back to the demo in-memory store
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DrizzleStorage(createDb(process.env.DATABASE_URL))
+  : new MemStorage();
@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { WebSocket } from "ws";
+import type { LatLng } from "@shared/geo";
+import { getSurgeArea, getSurgeForLocation, getSurgeHistory, trackRideRequest, untrackRideRequest } from "./surge";
+import { updateDriverLocation } from "./dispatch";
+import { userConnected } from "./notifications";
+import { createTestRide, createTestUser } from "./testing";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// Each test works in its own city, so the cells' demand and cached multipliers don't mix
+async function requestRides(pickup: LatLng, count: number) {
+  const customer = await createTestUser("customer");
+  const rides = [];
+  for (let i = 0; i < count; i++) {
+    const ride = await createTestRide(customer.id, { pickup });
+    trackRideRequest(ride);
+    rides.push(ride);
+  }
+  return rides;
+}
+
+async function goOnline(location: LatLng) {
+  const driver = await createTestUser("driver");
+  userConnected(driver, {} as WebSocket);
+  updateDriverLocation(driver.id, location);
+}
+
+describe("surge pricing", () => {
+  it("doesn't surge a cell without demand", async () => {
+    const snapshot = await getSurgeForLocation({ lat: 48.8566, lng: 2.3522 });
+    expect(snapshot).toMatchObject({ multiplier: 1, demand: 0, supply: 0 });
+  });
+
+  it("raises the multiplier with demand over the idle drivers in the cell", async () => {
+    const pickup = { lat: 51.5074, lng: -0.1278 };
+    await requestRides(pickup, 5);
+
+    // 5 requests and no drivers: a ratio of 5, so 1 + 0.25 * 4
+    const snapshot = await getSurgeForLocation(pickup);
+    expect(snapshot).toMatchObject({ multiplier: 2, demand: 5, supply: 0 });
+  });
+
+  it("doesn't surge while idle drivers keep up with demand", async () => {
+    const pickup = { lat: 40.4168, lng: -3.7038 };
+    await requestRides(pickup, 3);
+    for (let i = 0; i < 3; i++) await goOnline(pickup);
+
+    expect(await getSurgeForLocation(pickup)).toMatchObject({ multiplier: 1, demand: 3, supply: 3 });
+  });
+
+  it("caps the multiplier", async () => {
+    const pickup = { lat: 41.9028, lng: 12.4964 };
+    await requestRides(pickup, 30);
+    expect((await getSurgeForLocation(pickup)).multiplier).toBe(2.5);
+  });
+
+  it("holds a multiplier for its TTL and stores each one it computes", async () => {
+    vi.useFakeTimers();
+    const pickup = { lat: 59.3293, lng: 18.0686 };
+    const [first] = await requestRides(pickup, 2);
+    const snapshot = await getSurgeForLocation(pickup);
+    expect(snapshot.multiplier).toBe(1.3);
+
+    // Demand changes inside the TTL don't move a quoted price
+    untrackRideRequest(first);
+    expect(await getSurgeForLocation(pickup)).toEqual(snapshot);
+
+    vi.advanceTimersByTime(120_001);
+    const recomputed = await getSurgeForLocation(pickup);
+    expect(recomputed).toMatchObject({ multiplier: 1, demand: 1 });
+    expect((await getSurgeHistory(snapshot.cell, new Date(0))).map(entry => entry.id)).toEqual([recomputed.id, snapshot.id]);
+  });
+
+  it("stops counting requests once they leave the demand window", async () => {
+    vi.useFakeTimers();
+    const pickup = { lat: 60.1699, lng: 24.9384 };
+    await requestRides(pickup, 4);
+
+    vi.advanceTimersByTime(10 * 60 * 1000 + 1);
+    expect(await getSurgeForLocation(pickup)).toMatchObject({ multiplier: 1, demand: 0 });
+  });
+
+  it("lists only surging cells around a point", async () => {
+    const pickup = { lat: 50.0755, lng: 14.4378 };
+    await requestRides(pickup, 4);
+    await requestRides({ lat: 50.0755, lng: 14.52 }, 1);
+
+    const area = await getSurgeArea(pickup, 10);
+    expect(area).toHaveLength(1);
+    expect(area[0].multiplier).toBe(1.8);
+    expect(area[0].bounds.south).toBeLessThanOrEqual(pickup.lat);
+    expect(area[0].bounds.north).toBeGreaterThan(pickup.lat);
+  });
+});
@@ -0,0 +1,135 @@
+import type { Location, Ride, SurgeCell, SurgeSnapshot } from "@shared/schema";
+import { encodeGeohash, geohashBounds, geohashCellsInRadius, type LatLng } from "@shared/geo";
+import { storage } from "./storage";
+import { getIdleDriverLocations } from "./dispatch";
+
+// Surge cells are roughly 5km x 5km
+const SURGE_CELL_PRECISION = 5;
+
+// Requests older than this no longer count as demand
+const DEMAND_WINDOW_MS = 10 * 60 * 1000;
+
+// How long a computed multiplier is held before it is recomputed
+const SURGE_TTL_MS = parseInt(process.env.SURGE_TTL_MS || "120000", 10);
+
+const MAX_SURGE_MULTIPLIER = parseFloat(process.env.MAX_SURGE_MULTIPLIER || "2.5");
+
+// Multiplier added per unit of demand/supply ratio above 1
+const SURGE_SENSITIVITY = 0.25;
+
+// Open requests by cell: ride ID -> request time
+const openRequests = new Map<string, Map<string, number>>();
+
+// Current multiplier per cell, until it expires
+const currentSurge = new Map<string, SurgeSnapshot>();
+
+// In-flight computations, so concurrent quotes share one snapshot
+const pendingSurge = new Map<string, Promise<SurgeSnapshot>>();
+
+function surgeCell(location: LatLng): string {
+  return encodeGeohash(location.lat, location.lng, SURGE_CELL_PRECISION);
+}
+
+export function trackRideRequest(ride: Ride) {
+  const cell = surgeCell(ride.pickup);
+  if (!openRequests.has(cell)) {
+    openRequests.set(cell, new Map());
+  }
+  openRequests.get(cell)!.set(ride.id, Date.now());
+}
+
+// Stop counting a ride as demand once it is accepted or cancelled
+export function untrackRideRequest(ride: Ride) {
+  const cell = surgeCell(ride.pickup);
+  const requests = openRequests.get(cell);
+  if (!requests) return;
+
+  requests.delete(ride.id);
+  if (requests.size === 0) {
+    openRequests.delete(cell);
+  }
+}
+
+function countDemand(cell: string): number {
+  const requests = openRequests.get(cell);
+  if (!requests) return 0;
+
+  const cutoff = Date.now() - DEMAND_WINDOW_MS;
+  requests.forEach((requestedAt, rideId) => {
+    if (requestedAt < cutoff) requests.delete(rideId);
+  });
+  if (requests.size === 0) {
+    openRequests.delete(cell);
+  }
+  return requests.size;
+}
+
+function surgeMultiplier(demand: number, supply: number): number {
+  const ratio = demand / Math.max(supply, 1);
+  const multiplier = 1 + SURGE_SENSITIVITY * Math.max(0, ratio - 1);
+  return Math.round(Math.min(multiplier, MAX_SURGE_MULTIPLIER) * 10) / 10;
+}
+
+async function computeSurge(cell: string): Promise<SurgeSnapshot> {
+  const demand = countDemand(cell);
+  const drivers = await getIdleDriverLocations();
+  const supply = drivers.filter(location => surgeCell(location) === cell).length;
+
+  const snapshot = await storage.addSurgeSnapshot({
+    cell,
+    multiplier: surgeMultiplier(demand, supply),
+    demand,
+    supply,
+    expiresAt: new Date(Date.now() + SURGE_TTL_MS).toISOString(),
+  });
+  currentSurge.set(cell, snapshot);
+  return snapshot;
+}
+
+/**
+ * Current surge snapshot for a cell. Multipliers are recomputed (and stored) at most once per TTL.
+ */
+export async function getSurge(cell: string): Promise<SurgeSnapshot> {
+  const cached = currentSurge.get(cell);
+  if (cached && new Date(cached.expiresAt).getTime() > Date.now()) {
+    return cached;
+  }
+
+  const pending = pendingSurge.get(cell);
+  if (pending) return pending;
+
+  const computation = computeSurge(cell).finally(() => pendingSurge.delete(cell));
+  pendingSurge.set(cell, computation);
+  return computation;
+}
+
+export function getSurgeForLocation(location: Location): Promise<SurgeSnapshot> {
+  return getSurge(surgeCell(location));
+}
+
+/**
+ * Surging cells around a point, for the driver map overlay.
+ * Cells without open requests can't surge, so they are skipped without recording a snapshot.
+ */
+export async function getSurgeArea(center: LatLng, radiusKm: number): Promise<SurgeCell[]> {
+  const cells = geohashCellsInRadius(center, radiusKm, SURGE_CELL_PRECISION)
+    .filter(cell => countDemand(cell) > 0);
+
+  const surging: SurgeCell[] = [];
+  for (const cell of cells) {
+    const snapshot = await getSurge(cell);
+    if (snapshot.multiplier > 1) {
+      surging.push({
+        cell,
+        multiplier: snapshot.multiplier,
+        expiresAt: snapshot.expiresAt,
+        bounds: geohashBounds(cell),
+      });
+    }
+  }
+  return surging;
+}
+
+export function getSurgeHistory(cell: string, since: Date): Promise<SurgeSnapshot[]> {
+  return storage.getSurgeHistory(cell, since);
+}
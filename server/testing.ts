@@ -0,0 +1,131 @@
+import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import { drizzle } from "drizzle-orm/node-postgres";
+import type pg from "pg";
+import { DataType, newDb, type IBackup, type IMemoryDb } from "pg-mem";
+import * as schema from "@shared/schema";
+import type { InsertRide, Ride, User, UserRole } from "@shared/schema";
+import type { Database } from "./db";
+import { storage, type IStorage } from "./storage";
+
+/*
+ * Fixtures shared by the server's Vitest suites. Everything defaults to the process-wide storage,
+ * which is MemStorage under test; pass a DrizzleStorage from createTestDb to run against the migrations.
+ */
+
+let walletCount = 0;
+
+export async function createTestUser(role: UserRole, store: IStorage = storage): Promise<User> {
+  walletCount += 1;
+  return store.createUser({ walletAddress: `test-${role}-${walletCount}`, role, reputation: 50, completedRides: 0, avgRating: 0 });
+}
+
+// A standard ride request across central Berlin staking 20 for an estimated 15
+export function testRideRequest(customerId: string, overrides: Partial<InsertRide> = {}): InsertRide {
+  return {
+    customerId,
+    rideType: "standard",
+    seats: 1,
+    deliveryType: "ride",
+    parcel: null,
+    pickup: { lat: 52.52, lng: 13.405 },
+    stops: [],
+    dropoff: { lat: 52.51, lng: 13.39 },
+    estimatedFare: 15,
+    stakedAmount: 20,
+    surgeMultiplier: 1,
+    scheduledFor: null,
+    timeZone: null,
+    ...overrides,
+  };
+}
+
+export async function createTestRide(customerId: string, overrides: Partial<InsertRide> = {}, store: IStorage = storage): Promise<Ride> {
+  return store.createRide(testRideRequest(customerId, overrides));
+}
+
+// SQL literal for a query parameter; pg-mem mistypes some parameters inside subqueries, so they are inlined
+function sqlLiteral(value: unknown): string {
+  if (value === null || value === undefined) return "null";
+  if (typeof value === "number" || typeof value === "boolean") return String(value);
+  const text = value instanceof Date ? value.toISOString() : typeof value === "string" ? value : JSON.stringify(value);
+  return `'${text.replace(/'/g, "''")}'`;
+}
+
+type Query = (config: unknown, values?: unknown[]) => Promise<any>;
+
+/**
+ * Run node-postgres queries the way pg-mem can: parameters inlined, without the row mode and type parsers it
+ * doesn't support (array rows are rebuilt from the named ones), and transactions rolled back from a backup.
+ * Transactions take turns, so one rolling back never restores over another's writes.
+ */
+function adaptQuery(mem: IMemoryDb, query: Query): Query {
+  let snapshot: IBackup | null = null;
+  let lastTransaction = Promise.resolve();
+  let finishTransaction = () => {};
+  return async (config, params) => {
+    const { text, values = params ?? [], rowMode } = (typeof config === "string" ? { text: config } : config) as
+      { text: string; values?: unknown[]; rowMode?: string };
+
+    const command = text.trim().toLowerCase();
+    if (command === "begin") {
+      const previous = lastTransaction;
+      let finish = () => {};
+      lastTransaction = new Promise(resolve => {
+        finish = resolve;
+      });
+      await previous;
+      finishTransaction = finish;
+      snapshot = mem.backup();
+      return { rows: [], rowCount: 0, fields: [] };
+    } else if (command === "commit" || command === "rollback") {
+      if (command === "rollback") snapshot?.restore();
+      snapshot = null;
+      finishTransaction();
+      return { rows: [], rowCount: 0, fields: [] };
+    }
+
+    const result = await query(text.replace(/\$(\d+)/g, (_match, index) => sqlLiteral(values[Number(index) - 1])));
+    if (rowMode === "array") {
+      result.rows = result.rows.map((row: Record<string, unknown>) => Object.values(row));
+    }
+    return result;
+  };
+}
+
+/**
+ * A fresh in-memory Postgres (pg-mem) with every checked-in migration applied, for running DrizzleStorage in tests.
+ * Transactions run one after another, which also stands in for advisory locks, but queries outside them don't wait.
+ */
+export function createTestDb(): Database {
+  const mem = newDb();
+  mem.public.registerFunction({ name: "gen_random_uuid", returns: DataType.uuid, implementation: randomUUID, impure: true });
+  mem.public.registerFunction({ name: "hashtext", args: [DataType.text], returns: DataType.integer, implementation: () => 0 });
+  mem.public.registerFunction({
+    name: "pg_advisory_xact_lock",
+    args: [DataType.integer],
+    returns: DataType.text,
+    implementation: () => "",
+    impure: true,
+  });
+
+  const migrations = path.resolve(import.meta.dirname, "../migrations");
+  for (const file of fs.readdirSync(migrations).filter(file => file.endsWith(".sql")).sort()) {
+    for (const statement of fs.readFileSync(path.join(migrations, file), "utf8").split("--> statement-breakpoint")) {
+      if (statement.trim()) mem.public.none(statement);
+    }
+  }
+
+  const { Pool } = mem.adapters.createPg();
+  class TestPool extends Pool {
+    query = adaptQuery(mem, super.query.bind(this));
+
+    async connect() {
+      const client = await super.connect();
+      client.query = adaptQuery(mem, client.query.bind(client));
+      return client;
+    }
+  }
+  return drizzle(new TestPool() as unknown as pg.Pool, { schema });
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import type { RideLocation } from "@shared/schema";
+import { filterOutliers, measureTrace, traceToLineString } from "./trace";
+
+const KM_PER_DEGREE_LAT = 111.32;
+const start = new Date("2026-01-01T12:00:00Z").getTime();
+
+// A point kmNorth of the start, seconds into the trip
+function point(kmNorth: number, seconds: number, kmEast = 0): RideLocation {
+  return {
+    id: `point-${seconds}`,
+    rideId: "ride-1",
+    lat: 52.5 + kmNorth / KM_PER_DEGREE_LAT,
+    lng: 13.4 + kmEast / (KM_PER_DEGREE_LAT * Math.cos((52.5 * Math.PI) / 180)),
+    speed: null,
+    rideStatus: "in_progress",
+    recordedAt: new Date(start + seconds * 1000).toISOString(),
+  };
+}
+
+// Driving north at 30 km/h with a fix every 30 seconds: 0.25km per fix
+function straightTrace(fixes: number): RideLocation[] {
+  return Array.from({ length: fixes }, (_, i) => point(i * 0.25, i * 30));
+}
+
+describe("measureTrace", () => {
+  it("measures the distance and time driven", () => {
+    const metrics = measureTrace(straightTrace(9))!;
+    expect(metrics.distanceKm).toBeCloseTo(2, 2);
+    expect(metrics.durationMinutes).toBe(4);
+    expect(metrics).toMatchObject({ pointsUsed: 9, pointsDiscarded: 0 });
+  });
+
+  it("needs at least two points", () => {
+    expect(measureTrace([])).toBeNull();
+    expect(measureTrace(straightTrace(1))).toBeNull();
+  });
+
+  it("drops a spike the trace jumps out to and back from", () => {
+    const trace = straightTrace(9);
+    // 3km off to the east within 30 seconds, then straight back onto the road
+    trace[4] = point(1, 120, 3);
+
+    const metrics = measureTrace(trace)!;
+    expect(metrics.pointsDiscarded).toBe(1);
+    expect(metrics.distanceKm).toBeCloseTo(2, 2);
+  });
+
+  it("keeps a fast but consistent track", () => {
+    // 2km per 30 seconds is 240 km/h, but every fix lies along the way
+    const trace = Array.from({ length: 5 }, (_, i) => point(i * 2, i * 30));
+    expect(filterOutliers(trace)).toHaveLength(5);
+    expect(measureTrace(trace)!.distanceKm).toBeCloseTo(8, 1);
+  });
+
+  it("doesn't add distance for GPS jitter while standing still", () => {
+    const trace = [point(0, 0), point(0.002, 30), point(-0.001, 60, 0.002), point(0.001, 90), point(0.5, 120)];
+    expect(measureTrace(trace)!.distanceKm).toBeCloseTo(0.5, 2);
+  });
+});
+
+describe("traceToLineString", () => {
+  it("keeps every point in [lng, lat] order", () => {
+    const trace = straightTrace(3);
+    const line = traceToLineString("ride-1", trace);
+
+    expect(line.geometry.coordinates).toEqual(trace.map(p => [p.lng, p.lat]));
+    expect(line.properties).toMatchObject({ rideId: "ride-1", pointCount: 3, startedAt: trace[0].recordedAt, endedAt: trace[2].recordedAt });
+  });
+});
@@ -0,0 +1,90 @@
+import type { RideLocation, TraceLineString } from "@shared/schema";
+import { haversineKm } from "@shared/geo";
+
+// Faster than this between two points is not a real movement
+const MAX_PLAUSIBLE_SPEED_KMH = 160;
+
+// A point is a spike if going through it is this much longer than skipping it
+const SPIKE_DETOUR_RATIO = 2;
+
+// Moves shorter than this are GPS jitter and don't add distance
+const MIN_MOVE_KM = 0.005;
+
+export interface TraceMetrics {
+  distanceKm: number;
+  durationMinutes: number;
+  pointsUsed: number;
+  pointsDiscarded: number;
+}
+
+function hoursBetween(a: RideLocation, b: RideLocation): number {
+  return (new Date(b.recordedAt).getTime() - new Date(a.recordedAt).getTime()) / 3_600_000;
+}
+
+function isSpike(prev: RideLocation, point: RideLocation, next: RideLocation): boolean {
+  const hours = hoursBetween(prev, point);
+  const speed = hours > 0 ? haversineKm(prev, point) / hours : Infinity;
+  if (speed <= MAX_PLAUSIBLE_SPEED_KMH) return false;
+
+  const direct = haversineKm(prev, next);
+  const through = haversineKm(prev, point) + haversineKm(point, next);
+  return through > Math.max(direct * SPIKE_DETOUR_RATIO, direct + MIN_MOVE_KM);
+}
+
+/**
+ * Drop GPS spikes: points that imply an impossible speed and that the trace jumps out to and straight back from.
+ * A fast but consistent track is kept, since every point on it lies along the way.
+ */
+export function filterOutliers(trace: RideLocation[]): RideLocation[] {
+  const kept: RideLocation[] = [];
+  for (let i = 0; i < trace.length; i++) {
+    const prev = kept[kept.length - 1];
+    const next = trace[i + 1];
+    if (prev && next && isSpike(prev, trace[i], next)) continue;
+    kept.push(trace[i]);
+  }
+  return kept;
+}
+
+/**
+ * Distance and duration traveled along a recorded trace, or null if there are too few usable points.
+ */
+export function measureTrace(trace: RideLocation[]): TraceMetrics | null {
+  const points = filterOutliers(trace);
+  if (points.length < 2) return null;
+
+  let distanceKm = 0;
+  let anchor = points[0];
+  for (const point of points.slice(1)) {
+    const step = haversineKm(anchor, point);
+    if (step < MIN_MOVE_KM) continue;
+    distanceKm += step;
+    anchor = point;
+  }
+
+  return {
+    distanceKm,
+    durationMinutes: hoursBetween(points[0], points[points.length - 1]) * 60,
+    pointsUsed: points.length,
+    pointsDiscarded: trace.length - points.length,
+  };
+}
+
+/**
+ * The raw trace as a GeoJSON LineString feature, nothing filtered out.
+ */
+export function traceToLineString(rideId: string, trace: RideLocation[]): TraceLineString {
+  return {
+    type: "Feature",
+    geometry: {
+      type: "LineString",
+      coordinates: trace.map(point => [point.lng, point.lat]),
+    },
+    properties: {
+      rideId,
+      pointCount: trace.length,
+      startedAt: trace[0]?.recordedAt ?? null,
+      endedAt: trace[trace.length - 1]?.recordedAt ?? null,
+    },
+  };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { encodeGeohash, geohashBounds, geohashCellSize, geohashCellsInRadius, haversineKm, type LatLng } from "./geo";
+
+// Points spread evenly over a disc of the given radius
+function pointsInRadius(center: LatLng, radiusKm: number): LatLng[] {
+  const points: LatLng[] = [center];
+  for (let ring = 1; ring <= 8; ring++) {
+    const distanceKm = (radiusKm * ring) / 8 - 1e-6;
+    for (let step = 0; step < 36; step++) {
+      const angle = (step / 36) * 2 * Math.PI;
+      const lat = center.lat + (distanceKm * Math.cos(angle)) / 111.32;
+      const lng = center.lng + (distanceKm * Math.sin(angle)) / (111.32 * Math.cos((center.lat * Math.PI) / 180));
+      points.push({ lat, lng: ((lng + 540) % 360) - 180 });
+    }
+  }
+  return points.filter(point => haversineKm(center, point) <= radiusKm);
+}
+
+describe("geohash", () => {
+  it("encodes points as standard geohashes", () => {
+    expect(encodeGeohash(57.64911, 10.40744, 11)).toBe("u4pruydqqvj");
+    expect(encodeGeohash(42.6, -5.6, 5)).toBe("ezs42");
+  });
+
+  it("decodes a cell to bounds that contain the point and match the cell size", () => {
+    const point = { lat: 52.52, lng: 13.405 };
+    const bounds = geohashBounds(encodeGeohash(point.lat, point.lng, 5));
+    const { latHeight, lngWidth } = geohashCellSize(5);
+
+    expect(bounds.south).toBeLessThanOrEqual(point.lat);
+    expect(bounds.north).toBeGreaterThan(point.lat);
+    expect(bounds.west).toBeLessThanOrEqual(point.lng);
+    expect(bounds.east).toBeGreaterThan(point.lng);
+    expect(bounds.north - bounds.south).toBeCloseTo(latHeight, 12);
+    expect(bounds.east - bounds.west).toBeCloseTo(lngWidth, 12);
+    expect(() => geohashBounds("u3a")).toThrow("Invalid geohash");
+  });
+
+  it.each([
+    ["a city centre", { lat: 52.52, lng: 13.405 }, 10],
+    ["a small radius", { lat: -33.87, lng: 151.21 }, 0.5],
+    ["the antimeridian", { lat: -17.8, lng: 179.99 }, 20],
+    ["high latitudes", { lat: 69.65, lng: 18.96 }, 15],
+  ])("covers every point within the radius around %s", (_place, center, radiusKm) => {
+    const cells = new Set(geohashCellsInRadius(center, radiusKm, 5));
+    for (const point of pointsInRadius(center, radiusKm)) {
+      expect(cells).toContain(encodeGeohash(point.lat, point.lng, 5));
+    }
+  });
+
+  it("keeps the covering close to the circle's bounding box", () => {
+    // A 10km radius spans about 20km; cells at precision 5 are about 5km x 3km there
+    const cells = geohashCellsInRadius({ lat: 52.52, lng: 13.405 }, 10, 5);
+    expect(cells.length).toBeLessThanOrEqual(6 * 9);
+    expect(new Set(cells).size).toBe(cells.length);
+  });
+});
@@ -0,0 +1,149 @@
+// Geographic helpers shared by the server and the client
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE_LAT = 111.32;
+const GEOHASH_BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two points in km.
+ */
+export function haversineKm(a: LatLng, b: LatLng): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Initial bearing from a to b, in degrees clockwise from north.
+ */
+export function bearing(a: LatLng, b: LatLng): number {
+  const dLng = toRadians(b.lng - a.lng);
+  const y = Math.sin(dLng) * Math.cos(toRadians(b.lat));
+  const x = Math.cos(toRadians(a.lat)) * Math.sin(toRadians(b.lat)) -
+    Math.sin(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+/**
+ * Encode a point as a geohash string of the given length.
+ */
+export function encodeGeohash(lat: number, lng: number, precision: number): string {
+  let latMin = -90, latMax = 90;
+  let lngMin = -180, lngMax = 180;
+  let hash = "";
+  let bits = 0;
+  let value = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    if (evenBit) {
+      const mid = (lngMin + lngMax) / 2;
+      if (lng >= mid) {
+        value = value * 2 + 1;
+        lngMin = mid;
+      } else {
+        value = value * 2;
+        lngMax = mid;
+      }
+    } else {
+      const mid = (latMin + latMax) / 2;
+      if (lat >= mid) {
+        value = value * 2 + 1;
+        latMin = mid;
+      } else {
+        value = value * 2;
+        latMax = mid;
+      }
+    }
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      hash += GEOHASH_BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Bounding box of a geohash cell.
+ */
+export function geohashBounds(hash: string): { south: number; west: number; north: number; east: number } {
+  let south = -90, north = 90;
+  let west = -180, east = 180;
+  let evenBit = true;
+
+  for (const char of hash) {
+    const value = GEOHASH_BASE32.indexOf(char);
+    if (value < 0) throw new Error(`Invalid geohash: ${hash}`);
+
+    for (let bit = 4; bit >= 0; bit--) {
+      const isSet = (value >> bit) & 1;
+      if (evenBit) {
+        const mid = (west + east) / 2;
+        if (isSet) west = mid; else east = mid;
+      } else {
+        const mid = (south + north) / 2;
+        if (isSet) south = mid; else north = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+
+  return { south, west, north, east };
+}
+
+/**
+ * Size in degrees of one geohash cell at the given precision.
+ */
+export function geohashCellSize(precision: number): { latHeight: number; lngWidth: number } {
+  const totalBits = precision * 5;
+  const lngBits = Math.ceil(totalBits / 2);
+  const latBits = Math.floor(totalBits / 2);
+  return {
+    latHeight: 180 / 2 ** latBits,
+    lngWidth: 360 / 2 ** lngBits,
+  };
+}
+
+/**
+ * Geohash cells (at the given precision) covering the bounding box of a circle.
+ * Callers still need an exact distance check on whatever they find in these cells.
+ */
+export function geohashCellsInRadius(center: LatLng, radiusKm: number, precision: number): string[] {
+  const { latHeight, lngWidth } = geohashCellSize(precision);
+  const latDelta = radiusKm / KM_PER_DEGREE_LAT;
+  const lngDelta = radiusKm / (KM_PER_DEGREE_LAT * Math.max(Math.cos(toRadians(center.lat)), 0.01));
+
+  const minLat = Math.max(-90, center.lat - latDelta);
+  const maxLat = Math.min(90, center.lat + latDelta);
+  const minLng = center.lng - lngDelta;
+  const maxLng = center.lng + lngDelta;
+
+  const cells = new Set<string>();
+  for (let lat = minLat; lat < maxLat + latHeight; lat += latHeight) {
+    for (let lng = minLng; lng < maxLng + lngWidth; lng += lngWidth) {
+      const clampedLat = Math.min(lat, maxLat);
+      const clampedLng = Math.min(lng, maxLng);
+      // Wrap across the antimeridian
+      const wrappedLng = ((clampedLng + 540) % 360) - 180;
+      cells.add(encodeGeohash(Math.min(clampedLat, 89.999999), wrappedLng, precision));
+    }
+  }
+
+  return Array.from(cells);
+}
@@ -0,0 +1,20 @@
+// Ledger account names shared by the server and the client
+
+// Where money enters the ledger from outside, e.g. signup credit
+export const EXTERNAL_DEPOSITS_ACCOUNT = "external:deposits";
+
+// Where money leaves the ledger, e.g. escrow payouts the contract sends to users' wallets
+export const EXTERNAL_WITHDRAWALS_ACCOUNT = "external:withdrawals";
+
+// The platform's cut of every fare
+export const PLATFORM_FEES_ACCOUNT = "platform:fees";
+
+// A user's available balance
+export function userAccount(userId: string): string {
+  return `user:${userId}`;
+}
+
+// Money a customer has staked on a ride, held until the ride completes or is cancelled
+export function escrowAccount(rideId: string): string {
+  return `escrow:${rideId}`;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { planPoolItinerary, type PoolItineraryRide } from "./pool";
+
+// Along one street heading west, 0.01° of longitude (about 700m) apart
+const at = (lng: number) => ({ lat: 52.52, lng });
+
+describe("planPoolItinerary", () => {
+  it("visits the nearest pickup or dropoff next", () => {
+    const rides: PoolItineraryRide[] = [
+      { rideId: "a", status: "accepted", pickup: at(13.4), dropoff: at(13.3) },
+      { rideId: "b", status: "accepted", pickup: at(13.38), dropoff: at(13.35) },
+    ];
+    const itinerary = planPoolItinerary(at(13.41), rides);
+    expect(itinerary.map(waypoint => `${waypoint.kind} ${waypoint.rideId}`))
+      .toEqual(["pickup a", "pickup b", "dropoff b", "dropoff a"]);
+  });
+
+  it("only drops off riders already in the car", () => {
+    const rides: PoolItineraryRide[] = [
+      { rideId: "a", status: "in_progress", pickup: at(13.4), dropoff: at(13.3) },
+      { rideId: "b", status: "accepted", pickup: at(13.36), dropoff: at(13.32) },
+    ];
+    const itinerary = planPoolItinerary(at(13.38), rides);
+    expect(itinerary.map(waypoint => `${waypoint.kind} ${waypoint.rideId}`)).toEqual(["pickup b", "dropoff b", "dropoff a"]);
+    expect(itinerary[0].location).toEqual(at(13.36));
+  });
+
+  it("never drops a rider off before picking them up", () => {
+    // The car is at the rider's dropoff, but has to fetch them first
+    const rides: PoolItineraryRide[] = [{ rideId: "a", status: "accepted", pickup: at(13.4), dropoff: at(13.3) }];
+    const itinerary = planPoolItinerary(at(13.3), rides);
+    expect(itinerary.map(waypoint => waypoint.kind)).toEqual(["pickup", "dropoff"]);
+  });
+});
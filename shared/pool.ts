@@ -0,0 +1,43 @@
+// Pool itinerary shared by the server matcher and the driver's client
+
+import type { Location, PoolRider } from "./schema";
+import { haversineKm, type LatLng } from "./geo";
+
+// A pickup or dropoff the car still has to make for one of the pool's riders
+export interface PoolWaypoint {
+  rideId: string;
+  kind: "pickup" | "dropoff";
+  location: Location;
+}
+
+export type PoolItineraryRide = Pick<PoolRider, "rideId" | "status" | "pickup" | "dropoff">;
+
+/**
+ * Order in which the driver visits the pool's remaining pickups and dropoffs.
+ * Always heads for the nearest waypoint next, and never drops a rider off before picking them up.
+ */
+export function planPoolItinerary(start: LatLng, rides: PoolItineraryRide[]): PoolWaypoint[] {
+  const pending: PoolWaypoint[] = rides.flatMap((ride): PoolWaypoint[] => {
+    const dropoff: PoolWaypoint = { rideId: ride.rideId, kind: "dropoff", location: ride.dropoff };
+    return ride.status === "accepted"
+      ? [{ rideId: ride.rideId, kind: "pickup", location: ride.pickup }, dropoff]
+      : [dropoff];
+  });
+
+  const itinerary: PoolWaypoint[] = [];
+  let position = start;
+  while (pending.length > 0) {
+    const reachable = pending.filter((waypoint) =>
+      waypoint.kind === "pickup" ||
+      !pending.some((other) => other.rideId === waypoint.rideId && other.kind === "pickup")
+    );
+    const next = reachable.reduce((nearest, waypoint) =>
+      haversineKm(position, waypoint.location) < haversineKm(position, nearest.location) ? waypoint : nearest
+    );
+
+    itinerary.push(next);
+    pending.splice(pending.indexOf(next), 1);
+    position = next.location;
+  }
+  return itinerary;
+}
@@ -0,0 +1,252 @@
+import type {} from "@polkadot/api-augment";
+import type { ApiPromise } from "@polkadot/api";
+import type { AddressOrPair, SignerOptions, SubmittableExtrinsic } from "@polkadot/api/types";
+import { Abi, ContractPromise } from "@polkadot/api-contract";
+import type { ContractCallOutcome, DecodedEvent } from "@polkadot/api-contract/types";
+import type { Codec } from "@polkadot/types/types";
+import type { WeightV2 } from "@polkadot/types/interfaces";
+import { BN, BN_ZERO } from "@polkadot/util";
+import metadata from "../contracts/ride_escrow.json";
+import { decodeDispatchError, trackTransaction, type TrackOptions } from "./transactionTracker";
+
+/**
+ * Typed wrapper around the ride escrow ink! contract, built from its checked-in metadata
+ * (contracts/ride_escrow.json). Shared by the server's escrow service and the customer's wallet.
+ */
+
+export const rideEscrowAbi = new Abi(metadata);
+
+// Errors the contract's messages return
+export type RideEscrowErrorCode =
+  | "NotOperator"
+  | "ZeroAmount"
+  | "OrderExists"
+  | "OrderNotFound"
+  | "OrderClosed"
+  | "PayoutExceedsOrder"
+  | "MissingDriver"
+  | "TransferFailed";
+
+export type RideEscrowOrderStatus = "Locked" | "Released" | "Refunded";
+
+// An order as the contract stores it, amounts in planck
+export interface RideEscrowOrder {
+  customer: string;
+  driver: string | null;
+  amount: BN;
+  toDriver: BN;
+  toCustomer: BN;
+  status: RideEscrowOrderStatus;
+}
+
+// Arguments of each transaction message, in the contract's order
+export interface RideEscrowTxArgs {
+  createOrder: [rideId: string, customer: string];
+  confirmDelivery: [rideId: string, driver: string | null, toDriver: BN, toCustomer: BN];
+  refund: [rideId: string, driver: string | null, toDriver: BN, toCustomer: BN];
+}
+
+export type RideEscrowTxMessage = keyof RideEscrowTxArgs;
+
+export type RideEscrowEvent =
+  | { name: "OrderCreated"; rideId: string; customer: string; amount: BN }
+  | { name: "OrderReleased"; rideId: string; driver: string | null; toDriver: BN; toCustomer: BN }
+  | { name: "OrderRefunded"; rideId: string; driver: string | null; toDriver: BN; toCustomer: BN };
+
+export interface RideEscrowEstimate {
+  gasRequired: WeightV2;
+  // Storage deposit the call charges, or null if it charges none
+  storageDeposit: BN | null;
+}
+
+export interface RideEscrowReceipt {
+  txHash: string;
+  blockHash: string;
+  blockNumber: number;
+  events: RideEscrowEvent[];
+}
+
+export class RideEscrowContractError extends Error {
+  constructor(message: string, public code?: RideEscrowErrorCode) {
+    super(message);
+    this.name = "RideEscrowContractError";
+  }
+}
+
+function optionalAccount(codec: Codec): string | null {
+  const value = codec.toJSON();
+  return value ? String(value) : null;
+}
+
+function balance(codec: Codec): BN {
+  return new BN(codec.toString());
+}
+
+// Name the decoded event's arguments and convert them to plain values
+function toRideEscrowEvent({ event, args }: DecodedEvent): RideEscrowEvent | null {
+  const arg = (name: string) => args[event.args.findIndex((spec) => spec.name === name)];
+  const name = event.identifier.split("::").pop();
+  switch (name) {
+    case "OrderCreated":
+      return { name, rideId: arg("rideId").toString(), customer: arg("customer").toString(), amount: balance(arg("amount")) };
+    case "OrderReleased":
+    case "OrderRefunded":
+      return {
+        name,
+        rideId: arg("rideId").toString(),
+        driver: optionalAccount(arg("driver")),
+        toDriver: balance(arg("toDriver")),
+        toCustomer: balance(arg("toCustomer")),
+      };
+    default:
+      return null;
+  }
+}
+
+export class RideEscrowContract {
+  readonly contract: ContractPromise;
+  // Planck per cent of the chain's native token; app amounts are dollars with two decimals
+  private planckPerCent: BN;
+
+  constructor(private api: ApiPromise, address: string) {
+    this.contract = new ContractPromise(api, rideEscrowAbi, address);
+    this.planckPerCent = new BN(10).pow(new BN((api.registry.chainDecimals[0] ?? 12) - 2));
+  }
+
+  toPlanck(amount: number): BN {
+    return new BN(Math.round(amount * 100)).mul(this.planckPerCent);
+  }
+
+  fromPlanck(planck: BN): number {
+    return planck.div(this.planckPerCent).toNumber() / 100;
+  }
+
+  // Run the message against the current state without submitting it, allowing the whole block's weight
+  private async dryRun(caller: string, message: string, value: BN, args: unknown[]): Promise<ContractCallOutcome> {
+    return this.contract.query[message](caller, {
+      gasLimit: this.api.registry.createType("WeightV2", this.api.consts.system.blockWeights.maxBlock),
+      storageDepositLimit: null,
+      value,
+    }, ...args);
+  }
+
+  /**
+   * Dry-run the message as the caller for the weight and storage deposit it needs.
+   * Throws RideEscrowContractError with the contract's error if the call would fail.
+   */
+  async estimate<M extends RideEscrowTxMessage>(
+    caller: string,
+    message: M,
+    value: BN,
+    ...args: RideEscrowTxArgs[M]
+  ): Promise<RideEscrowEstimate> {
+    const { result, output, gasRequired, storageDeposit } = await this.dryRun(caller, message, value, args);
+    if (result.isErr) {
+      throw new RideEscrowContractError(`${message} would fail: ${decodeDispatchError(this.api, result.asErr)}`);
+    }
+
+    // Result<Result<(), Error>, LangError>
+    const returned = output?.toJSON() as { ok?: { err?: RideEscrowErrorCode } | null; err?: string } | null;
+    const code = returned?.ok?.err;
+    if (code) throw new RideEscrowContractError(code, code);
+    if (returned?.err || result.asOk.flags.isRevert) {
+      throw new RideEscrowContractError(`${message} would fail: ${returned?.err ?? "reverted"}`);
+    }
+
+    return {
+      gasRequired: this.api.registry.createType("WeightV2", gasRequired),
+      storageDeposit: storageDeposit.isCharge ? storageDeposit.asCharge.toBn() : null,
+    };
+  }
+
+  // Build the message's extrinsic with the weight its dry-run needed, ready to sign
+  async tx<M extends RideEscrowTxMessage>(
+    caller: string,
+    message: M,
+    value: BN,
+    ...args: RideEscrowTxArgs[M]
+  ): Promise<SubmittableExtrinsic<"promise">> {
+    const { gasRequired, storageDeposit } = await this.estimate(caller, message, value, ...args);
+    return this.contract.tx[message]({ gasLimit: gasRequired, storageDepositLimit: storageDeposit, value }, ...args);
+  }
+
+  /**
+   * Sign and submit a transaction built by tx() and wait for it to be finalized, reporting each stage on the way.
+   * Pass a signer when the account's key lives in a wallet extension.
+   * Rejects with TransactionFailedError if it doesn't make it.
+   */
+  async send(
+    tx: SubmittableExtrinsic<"promise">,
+    account: AddressOrPair,
+    { signer, ...tracking }: TrackOptions & Pick<Partial<SignerOptions>, "signer">,
+  ): Promise<RideEscrowReceipt> {
+    const { txHash, blockHash, blockNumber, result } = await trackTransaction(this.api, tx, account, { signer }, tracking);
+    return {
+      txHash,
+      blockHash,
+      blockNumber,
+      events: this.decodeEvents(("contractEvents" in result ? result.contractEvents : undefined) as DecodedEvent[] | undefined),
+    };
+  }
+
+  /**
+   * Look up a transaction signed elsewhere, e.g. in the customer's wallet, by its hash and the block it went into.
+   * Resolves null unless that block is finalized and holds the transaction.
+   * Throws RideEscrowContractError if the transaction failed to dispatch.
+   */
+  async findReceipt(txHash: string, blockHash: string): Promise<RideEscrowReceipt | null> {
+    const [{ block }, finalizedHash] = await Promise.all([
+      this.api.rpc.chain.getBlock(blockHash),
+      this.api.rpc.chain.getFinalizedHead(),
+    ]);
+    const blockNumber = block.header.number.toNumber();
+    const [finalized, canonicalHash] = await Promise.all([
+      this.api.rpc.chain.getHeader(finalizedHash),
+      this.api.rpc.chain.getBlockHash(blockNumber),
+    ]);
+    if (blockNumber > finalized.number.toNumber() || !canonicalHash.eq(blockHash)) return null;
+
+    const index = block.extrinsics.findIndex((extrinsic) => extrinsic.hash.toHex() === txHash);
+    if (index === -1) return null;
+
+    const at = await this.api.at(blockHash);
+    const records = (await at.query.system.events())
+      .filter(({ phase }) => phase.isApplyExtrinsic && phase.asApplyExtrinsic.eqn(index));
+    for (const { event } of records) {
+      if (this.api.events.system.ExtrinsicFailed.is(event)) {
+        throw new RideEscrowContractError(`${txHash} failed: ${decodeDispatchError(this.api, event.data[0])}`);
+      }
+    }
+
+    const contractEvents = records
+      .filter(({ event }) => this.api.events.contracts.ContractEmitted.is(event) && event.data[0].eq(this.contract.address))
+      .map((record) => this.contract.abi.decodeEvent(record));
+    return { txHash, blockHash, blockNumber, events: this.decodeEvents(contractEvents) };
+  }
+
+  async getOrder(caller: string, rideId: string): Promise<RideEscrowOrder | null> {
+    const { result, output } = await this.dryRun(caller, "getOrder", BN_ZERO, [rideId]);
+    if (result.isErr) {
+      throw new RideEscrowContractError(`getOrder failed: ${decodeDispatchError(this.api, result.asErr)}`);
+    }
+
+    // Result<Option<Order>, LangError>
+    const order = (output?.toJSON() as { ok?: Record<string, string | number | null> | null } | null)?.ok;
+    if (!order) return null;
+    return {
+      customer: String(order.customer),
+      driver: order.driver ? String(order.driver) : null,
+      amount: new BN(String(order.amount)),
+      toDriver: new BN(String(order.toDriver)),
+      toCustomer: new BN(String(order.toCustomer)),
+      status: order.status as RideEscrowOrderStatus,
+    };
+  }
+
+  // The escrow events among a transaction's decoded contract events
+  decodeEvents(events: DecodedEvent[] = []): RideEscrowEvent[] {
+    return events
+      .map(toRideEscrowEvent)
+      .filter((event): event is RideEscrowEvent => event !== null);
+  }
+}
@@ -1,4 +1,6 @@
 import { z } from "zod";
+import { pgTable, varchar, text, doublePrecision, integer, jsonb, timestamp, index, uniqueIndex, check } from "drizzle-orm/pg-core";
+import { sql } from "drizzle-orm";
 
 // Location type for GPS coordinates
 export const locationSchema = z.object({
@@ -9,6 +11,187 @@ export const locationSchema = z.object({
 
 export type Location = z.infer<typeof locationSchema>;
 
+// Most intermediate stops a ride can have between pickup and dropoff
+export const MAX_RIDE_STOPS = 5;
+
+// "pool" rides share the car with other riders heading the same way, at a discount
+export const rideTypes = ["standard", "pool"] as const;
+export type RideType = typeof rideTypes[number];
+
+// Most seats one customer can book on a pool ride
+export const MAX_POOL_SEATS = 2;
+
+// Seats a car offers to pool riders at the same time
+export const POOL_CAPACITY = 3;
+
+// "parcel" trips carry a package from a sender to a recipient instead of the customer
+export const deliveryTypes = ["ride", "parcel"] as const;
+export type DeliveryType = typeof deliveryTypes[number];
+
+// Package classes, with the heaviest package each takes
+export const packageSizes = ["small", "medium", "large"] as const;
+export type PackageSize = typeof packageSizes[number];
+export const PACKAGE_WEIGHT_LIMITS_KG: Record<PackageSize, number> = {
+  small: 5,
+  medium: 15,
+  large: 30,
+};
+
+export const contactSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  phone: z.string().trim().regex(/^\+?[0-9 ()-]{7,20}$/, "Invalid phone number"),
+});
+export type Contact = z.infer<typeof contactSchema>;
+
+// What is being delivered and who hands it over and receives it
+export const parcelSchema = z.object({
+  size: z.enum(packageSizes),
+  weightKg: z.number().positive(),
+  sender: contactSchema,
+  recipient: contactSchema,
+  // Fragile, keep upright, leave with the concierge, ...
+  handlingNotes: z.string().trim().max(500).default(""),
+}).refine((parcel) => parcel.weightKg <= PACKAGE_WEIGHT_LIMITS_KG[parcel.size], {
+  message: "Package is too heavy for its size",
+  path: ["weightKg"],
+});
+export type Parcel = z.infer<typeof parcelSchema>;
+
+// Parcel details a driver sees before taking the job; contacts are shared once it's theirs
+export type ParcelSummary = Pick<Parcel, "size" | "weightKg" | "handlingNotes">;
+
+// Evidence a driver captures at the dropoff besides the recipient's PIN
+export const podArtifactTypes = ["photo", "signature"] as const;
+export type PodArtifactType = typeof podArtifactTypes[number];
+
+// A proof-of-delivery file, stored on the server's disk
+export const podArtifactSchema = z.object({
+  fileName: z.string(),
+  contentType: z.string(),
+  capturedAt: z.string(),
+});
+export type PodArtifact = z.infer<typeof podArtifactSchema>;
+
+export const proofOfDeliverySchema = z.object({
+  // When the driver entered the recipient's PIN, which completes the delivery
+  pinVerifiedAt: z.string().nullable(),
+  photo: podArtifactSchema.nullable(),
+  signature: podArtifactSchema.nullable(),
+});
+export type ProofOfDelivery = z.infer<typeof proofOfDeliverySchema>;
+
+// One-time PIN issued to a parcel's recipient when a driver takes the job. Only a keyed hash is kept,
+// apart from the ride, so neither the sender nor the driver can read it back
+export const deliveryPinSchema = z.object({
+  rideId: z.string(),
+  pinHash: z.string(),
+  issuedAt: z.string(),
+  // Entries the driver has made against this PIN
+  attempts: z.number(),
+});
+export type DeliveryPin = z.infer<typeof deliveryPinSchema>;
+
+// Why a ride was cancelled, as given by whoever cancelled it
+export const cancellationReasons = [
+  "changed_plans", "long_wait", "wrong_pickup", "driver_no_show",
+  "customer_no_show", "unsafe_pickup", "vehicle_issue",
+  "other",
+] as const;
+export type CancellationReason = typeof cancellationReasons[number];
+
+// Reasons each side may give; a no-show is only taken at its word once the policy's wait has passed
+export const cancellationReasonsByRole: Record<"customer" | "driver", CancellationReason[]> = {
+  customer: ["changed_plans", "long_wait", "wrong_pickup", "driver_no_show", "other"],
+  driver: ["customer_no_show", "unsafe_pickup", "vehicle_issue", "other"],
+};
+
+// Which rule of the cancellation policy applied
+export const cancellationOutcomes = [
+  "free", "after_accept", "after_arrival", "customer_no_show", "driver_cancelled", "driver_no_show",
+] as const;
+export type CancellationOutcome = typeof cancellationOutcomes[number];
+
+export const cancellationSchema = z.object({
+  cancelledBy: z.enum(["customer", "driver", "system"]),
+  reason: z.enum(cancellationReasons),
+  note: z.string().nullable(),
+  outcome: z.enum(cancellationOutcomes),
+  // Kept from the customer's stake and paid to the driver
+  fee: z.number(),
+  // Rest of the stake, returned to the customer
+  refund: z.number(),
+  // Party the policy holds responsible, whose reputation drops by reputationPenalty
+  atFault: z.enum(["customer", "driver"]).nullable(),
+  reputationPenalty: z.number(),
+});
+export type Cancellation = z.infer<typeof cancellationSchema>;
+
+// A confirmed call to the escrow contract
+export const chainReceiptSchema = z.object({
+  txHash: z.string(),
+  blockNumber: z.number(),
+});
+export type ChainReceipt = z.infer<typeof chainReceiptSchema>;
+
+// Stages of a transaction on its way into a finalized block; failed can follow any of the others
+export const chainTxStages = ["ready", "broadcast", "inBlock", "finalized", "failed"] as const;
+export type ChainTxStage = typeof chainTxStages[number];
+
+// Where a call to the escrow contract has got to
+export const chainTransactionSchema = z.object({
+  stage: z.enum(chainTxStages),
+  // Known once the transaction is signed
+  txHash: z.string().nullable(),
+  // Known once the transaction is in a block
+  blockNumber: z.number().nullable(),
+  // Why it failed, e.g. the decoded module error
+  error: z.string().nullable(),
+  updatedAt: z.string(),
+});
+export type ChainTransaction = z.infer<typeof chainTransactionSchema>;
+
+// An order found on chain for a ride whose stake was never confirmed; it goes back to the customer in full
+export const orphanedOrderSchema = z.object({
+  amount: z.number(),
+  flaggedAt: z.string(),
+});
+export type OrphanedOrder = z.infer<typeof orphanedOrderSchema>;
+
+// The ride's order in the escrow contract: locked when the stake is confirmed, then released to the driver or refunded.
+// Each call is the latest attempt at it, null until it is first made
+export const rideEscrowSchema = z.object({
+  created: chainTransactionSchema.nullable(),
+  released: chainTransactionSchema.nullable(),
+  refunded: chainTransactionSchema.nullable(),
+  orphaned: orphanedOrderSchema.nullable(),
+  // When reconciliation looked on chain for an order of a ride called off before its stake was confirmed
+  reconciledAt: z.string().nullable(),
+});
+export type RideEscrow = z.infer<typeof rideEscrowSchema>;
+export type EscrowAction = "created" | "released" | "refunded";
+
+// Pushed to the customer as each escrow call moves through its stages
+export interface EscrowTransactionUpdate {
+  rideId: string;
+  action: EscrowAction;
+  transaction: ChainTransaction;
+}
+
+export const escrowOrderStatuses = ["locked", "released", "refunded"] as const;
+export type EscrowOrderStatus = typeof escrowOrderStatuses[number];
+
+// A ride's order as the escrow contract holds it
+export interface EscrowOrder {
+  rideId: string;
+  customer: string;
+  driver: string | null;
+  amount: number;
+  // What the order paid out once it was released or refunded
+  toDriver: number;
+  toCustomer: number;
+  status: EscrowOrderStatus;
+}
+
 // User roles
 export type UserRole = "customer" | "driver";
 
@@ -20,33 +203,90 @@ export const userSchema = z.object({
   reputation: z.number().min(0).max(100),
   completedRides: z.number(),
   avgRating: z.number().min(0).max(5),
-  balance: z.number(),
   name: z.string().optional(),
 });
 
 export type User = z.infer<typeof userSchema>;
 
+// User as returned to its owner, with the available balance derived from the ledger
+export type UserProfile = User & { balance: number };
+
 export const insertUserSchema = userSchema.omit({ id: true });
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
 // Ride status types
-export type RideStatus = "waiting" | "accepted" | "in_progress" | "completed" | "cancelled";
+// "pending_stake" rides are drafts whose stake hasn't been confirmed yet; nobody but the customer sees them
+// "staking" drafts have one stake confirmation under way, so a second one sent at the same time is turned away
+// "scheduled" rides are booked for later and wait for the scheduler to release them into dispatch
+export const rideStatuses = ["pending_stake", "staking", "scheduled", "waiting", "accepted", "in_progress", "completed", "cancelled"] as const;
+export type RideStatus = typeof rideStatuses[number];
+
+// Final fare worked out at completion
+export const tripFareSchema = z.object({
+  distanceKm: z.number(),
+  durationMinutes: z.number(),
+  baseFare: z.number(),
+  distanceFare: z.number(),
+  timeFare: z.number(),
+  surgeMultiplier: z.number(),
+  // Taken off the fare for sharing the car (0 for standard rides)
+  poolDiscount: z.number(),
+  // Added for the package class on parcel deliveries (0 for rides)
+  parcelFee: z.number(),
+  fare: z.number(),
+  // "trace" when metered from the GPS trace, "quote" when the trace was too sparse to use
+  source: z.enum(["trace", "quote"]),
+  // The metered fare went over the stake and was cut down to it
+  cappedAtStake: z.boolean(),
+});
+
+export type TripFare = z.infer<typeof tripFareSchema>;
 
 // Ride schema
 export const rideSchema = z.object({
   id: z.string(),
   customerId: z.string(),
   driverId: z.string().nullable(),
+  rideType: z.enum(rideTypes),
+  // Seats booked; more than one only on pool rides
+  seats: z.number().int().min(1).max(MAX_POOL_SEATS),
+  // Pool rides driven together share the ID of the pool's first ride; null for standard rides
+  poolId: z.string().nullable(),
+  deliveryType: z.enum(deliveryTypes),
+  // Package and contacts for parcel deliveries, null for rides
+  parcel: parcelSchema.nullable(),
+  // Collected at the dropoff of parcel deliveries, null for rides
+  proofOfDelivery: proofOfDeliverySchema.nullable(),
   pickup: locationSchema,
+  // Intermediate stops between pickup and dropoff, in the order they are visited
+  stops: z.array(locationSchema).max(MAX_RIDE_STOPS),
   dropoff: locationSchema,
   estimatedFare: z.number(),
   stakedAmount: z.number(),
+  // Surge multiplier from the quote; also applies to the metered fare
+  surgeMultiplier: z.number(),
   actualFare: z.number().nullable(),
-  status: z.enum(["waiting", "accepted", "in_progress", "completed", "cancelled"]),
+  fareBreakdown: tripFareSchema.nullable(),
+  status: z.enum(rideStatuses),
   currentLocation: locationSchema.nullable(),
+  // How many of the stops the driver has reached so far
+  stopsReached: z.number(),
   createdAt: z.string(),
+  // When a driver took the ride, and when they reached the pickup
+  acceptedAt: z.string().nullable(),
+  driverArrivedAt: z.string().nullable(),
   startedAt: z.string().nullable(),
   completedAt: z.string().nullable(),
+  // Who cancelled, why, and what it cost them; null unless cancelled
+  cancellation: cancellationSchema.nullable(),
+  // On-chain escrow order holding the stake; null until the order is created
+  escrow: rideEscrowSchema.nullable(),
+  // Booked pickup time for scheduled rides, null for rides requested now
+  scheduledFor: z.string().nullable(),
+  // IANA time zone the customer booked in, for showing the pickup time in local time
+  timeZone: z.string().nullable(),
+  // When the pickup reminder went out to the customer and the reserved driver
+  reminderSentAt: z.string().nullable(),
   customerRating: z.number().min(1).max(5).nullable(),
   driverRating: z.number().min(1).max(5).nullable(),
   customerFeedback: z.string().nullable(),
@@ -58,12 +298,21 @@ export type Ride = z.infer<typeof rideSchema>;
 export const insertRideSchema = rideSchema.omit({ 
   id: true, 
   driverId: true, 
+  poolId: true,
+  proofOfDelivery: true,
   actualFare: true, 
+  fareBreakdown: true,
   status: true,
   currentLocation: true,
+  stopsReached: true,
   createdAt: true,
+  acceptedAt: true,
+  driverArrivedAt: true,
   startedAt: true,
   completedAt: true,
+  cancellation: true,
+  escrow: true,
+  reminderSentAt: true,
   customerRating: true,
   driverRating: true,
   customerFeedback: true,
@@ -71,37 +320,501 @@ export const insertRideSchema = rideSchema.omit({
 });
 export type InsertRide = z.infer<typeof insertRideSchema>;
 
+// Ride fields that may be changed without going through the lifecycle state machine
+export type RideUpdate = Partial<Omit<Ride, "id" | "customerId" | "status" | "createdAt">>;
+
+// Who triggered a ride lifecycle event
+export const rideActorRoles = ["customer", "driver", "system"] as const;
+export type RideActorRole = typeof rideActorRoles[number];
+
+// Ride lifecycle event (one entry in a ride's timeline)
+// offer/decline/timeout/release come from the dispatcher and don't change the ride's status
+// reserve/unreserve/activate/assign/reminder belong to scheduled rides
+// arrive marks the driver reaching the pickup, which the cancellation policy charges from
+// stop_reached marks the driver arriving at one of the ride's intermediate stops
+// pod_photo/pod_signature record proof of delivery captured at a parcel's dropoff
+// claim_stake/unclaim_stake hold a draft while its stake is confirmed and hand it back if nothing was locked
+// stake confirms a draft's stake and sends it out; expire calls off a draft whose stake never came
+// escrow_orphaned flags an order found on chain for a ride whose stake was never confirmed
+export const rideEventTypes = [
+  "request", "claim_stake", "unclaim_stake", "stake", "expire", "accept", "start", "complete", "cancel",
+  "offer", "decline", "timeout", "release",
+  "reserve", "unreserve", "activate", "assign", "reminder",
+  "arrive", "stop_reached",
+  "pod_photo", "pod_signature",
+  "escrow_create", "escrow_release", "escrow_refund", "escrow_failed", "escrow_orphaned",
+] as const;
+
+export const rideEventSchema = z.object({
+  id: z.string(),
+  rideId: z.string(),
+  type: z.enum(rideEventTypes),
+  fromStatus: rideSchema.shape.status.nullable(),
+  toStatus: rideSchema.shape.status.nullable(),
+  actorId: z.string().nullable(),
+  actorRole: z.enum(rideActorRoles),
+  data: z.record(z.any()).nullable(),
+  createdAt: z.string(),
+});
+
+export type RideEvent = z.infer<typeof rideEventSchema>;
+export type RideEventType = RideEvent["type"];
+
+export const insertRideEventSchema = rideEventSchema.omit({ id: true, createdAt: true });
+export type InsertRideEvent = z.infer<typeof insertRideEventSchema>;
+
+// Rating left by one party of a ride for the other
+export const ratingSchema = z.object({
+  id: z.string(),
+  rideId: z.string(),
+  raterId: z.string(),
+  rateeId: z.string(),
+  rating: z.number().min(1).max(5),
+  feedback: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export type Rating = z.infer<typeof ratingSchema>;
+
+export const insertRatingSchema = ratingSchema.omit({ id: true, createdAt: true });
+export type InsertRating = z.infer<typeof insertRatingSchema>;
+
+// Ledger accounts: "user:<id>" is a user's available balance, "escrow:<rideId>" holds a ride's stake,
+// "platform:fees" collects the platform's cut, "external:deposits" is where funds enter the system
+// and "external:withdrawals" where they leave it
+export const ledgerPostingTypes = [
+  "deposit", "stake_lock", "fare_release", "platform_fee", "stake_refund", "tip", "cancellation_fee", "withdrawal",
+] as const;
+export type LedgerPostingType = typeof ledgerPostingTypes[number];
+
+// One immutable double-entry posting: amount leaves fromAccount and enters toAccount
+export const ledgerPostingSchema = z.object({
+  id: z.string(),
+  type: z.enum(ledgerPostingTypes),
+  fromAccount: z.string(),
+  toAccount: z.string(),
+  amount: z.number().positive(),
+  rideId: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export type LedgerPosting = z.infer<typeof ledgerPostingSchema>;
+
+export const insertLedgerPostingSchema = ledgerPostingSchema.omit({ id: true, createdAt: true });
+export type InsertLedgerPosting = z.infer<typeof insertLedgerPostingSchema>;
+
+// A posting from one user's side: positive amounts came in, negative ones went out
+export interface UserTransaction {
+  id: string;
+  type: LedgerPostingType;
+  amount: number;
+  // The other account of the posting
+  counterparty: string;
+  rideId: string | null;
+  createdAt: string;
+}
+
+// Surge multiplier computed for one geohash cell, kept so disputes can see what price was shown
+export const surgeSnapshotSchema = z.object({
+  id: z.string(),
+  cell: z.string(),
+  multiplier: z.number(),
+  // Open ride requests in the cell over the sliding window
+  demand: z.number(),
+  // Idle online drivers in the cell
+  supply: z.number(),
+  createdAt: z.string(),
+  expiresAt: z.string(),
+});
+
+export type SurgeSnapshot = z.infer<typeof surgeSnapshotSchema>;
+
+export const insertSurgeSnapshotSchema = surgeSnapshotSchema.omit({ id: true, createdAt: true });
+export type InsertSurgeSnapshot = z.infer<typeof insertSurgeSnapshotSchema>;
+
+// One GPS point reported by the driver during a ride
+export const rideLocationSchema = z.object({
+  id: z.string(),
+  rideId: z.string(),
+  lat: z.number(),
+  lng: z.number(),
+  speed: z.number().nullable(),
+  // Leg of the ride the point belongs to: driving to the pickup, or the trip itself
+  rideStatus: z.enum(["accepted", "in_progress"]),
+  // Server receive time, so drivers can't stretch the trip by faking timestamps
+  recordedAt: z.string(),
+});
+
+export type RideLocation = z.infer<typeof rideLocationSchema>;
+
+export const insertRideLocationSchema = rideLocationSchema.omit({ id: true, recordedAt: true });
+export type InsertRideLocation = z.infer<typeof insertRideLocationSchema>;
+
+// A ride's GPS trace as a GeoJSON LineString, coordinates in [lng, lat] order
+export interface TraceLineString {
+  type: "Feature";
+  geometry: {
+    type: "LineString";
+    coordinates: [number, number][];
+  };
+  properties: {
+    rideId: string;
+    pointCount: number;
+    startedAt: string | null;
+    endedAt: string | null;
+  };
+}
+
+export interface RideTrace {
+  rideId: string;
+  points: RideLocation[];
+  geojson: TraceLineString;
+}
+
+// Database tables (used by DrizzleStorage and drizzle-kit migrations)
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey(),
+  walletAddress: text("wallet_address").notNull().unique(),
+  role: text("role", { enum: ["customer", "driver"] }).notNull(),
+  reputation: integer("reputation").notNull(),
+  completedRides: integer("completed_rides").notNull().default(0),
+  avgRating: doublePrecision("avg_rating").notNull(),
+  name: text("name"),
+});
+
+export const rides = pgTable("rides", {
+  id: varchar("id").primaryKey(),
+  customerId: varchar("customer_id").notNull().references(() => users.id),
+  driverId: varchar("driver_id").references(() => users.id),
+  rideType: text("ride_type", { enum: rideTypes }).notNull().default("standard"),
+  seats: integer("seats").notNull().default(1),
+  poolId: varchar("pool_id"),
+  deliveryType: text("delivery_type", { enum: deliveryTypes }).notNull().default("ride"),
+  parcel: jsonb("parcel").$type<Parcel>(),
+  proofOfDelivery: jsonb("proof_of_delivery").$type<ProofOfDelivery>(),
+  pickup: jsonb("pickup").$type<Location>().notNull(),
+  stops: jsonb("stops").$type<Location[]>().notNull().default([]),
+  dropoff: jsonb("dropoff").$type<Location>().notNull(),
+  estimatedFare: doublePrecision("estimated_fare").notNull(),
+  stakedAmount: doublePrecision("staked_amount").notNull(),
+  surgeMultiplier: doublePrecision("surge_multiplier").notNull().default(1),
+  actualFare: doublePrecision("actual_fare"),
+  fareBreakdown: jsonb("fare_breakdown").$type<TripFare>(),
+  status: text("status", { enum: rideStatuses }).notNull(),
+  currentLocation: jsonb("current_location").$type<Location>(),
+  stopsReached: integer("stops_reached").notNull().default(0),
+  // Geohash cell of the pickup point, used as a spatial index for the nearby-requests feed
+  pickupCell: varchar("pickup_cell", { length: 12 }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  acceptedAt: timestamp("accepted_at", { withTimezone: true }),
+  driverArrivedAt: timestamp("driver_arrived_at", { withTimezone: true }),
+  startedAt: timestamp("started_at", { withTimezone: true }),
+  completedAt: timestamp("completed_at", { withTimezone: true }),
+  cancellation: jsonb("cancellation").$type<Cancellation>(),
+  escrow: jsonb("escrow").$type<RideEscrow>(),
+  scheduledFor: timestamp("scheduled_for", { withTimezone: true }),
+  timeZone: text("time_zone"),
+  reminderSentAt: timestamp("reminder_sent_at", { withTimezone: true }),
+  customerRating: integer("customer_rating"),
+  driverRating: integer("driver_rating"),
+  customerFeedback: text("customer_feedback"),
+  driverFeedback: text("driver_feedback"),
+}, (table) => [
+  index("rides_status_idx").on(table.status),
+  index("rides_status_pickup_cell_idx").on(table.status, table.pickupCell),
+  index("rides_customer_idx").on(table.customerId),
+  index("rides_driver_idx").on(table.driverId),
+  index("rides_status_scheduled_for_idx").on(table.status, table.scheduledFor),
+  index("rides_pool_idx").on(table.poolId),
+  // A driver can hold at most one accepted or in-progress ride outside a pool
+  uniqueIndex("rides_one_active_per_driver_idx")
+    .on(table.driverId)
+    .where(sql`${table.status} in ('accepted', 'in_progress') and ${table.poolId} is null`),
+]);
+
+export const ratings = pgTable("ratings", {
+  id: varchar("id").primaryKey(),
+  rideId: varchar("ride_id").notNull().references(() => rides.id),
+  raterId: varchar("rater_id").notNull().references(() => users.id),
+  rateeId: varchar("ratee_id").notNull().references(() => users.id),
+  rating: integer("rating").notNull(),
+  feedback: text("feedback"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index("ratings_ratee_idx").on(table.rateeId),
+]);
+
+export const surgeSnapshots = pgTable("surge_snapshots", {
+  id: varchar("id").primaryKey(),
+  cell: varchar("cell", { length: 12 }).notNull(),
+  multiplier: doublePrecision("multiplier").notNull(),
+  demand: integer("demand").notNull(),
+  supply: integer("supply").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  expiresAt: timestamp("expires_at", { withTimezone: true }).notNull(),
+}, (table) => [
+  index("surge_snapshots_cell_idx").on(table.cell, table.createdAt),
+]);
+
+export const rideLocations = pgTable("ride_locations", {
+  id: varchar("id").primaryKey(),
+  rideId: varchar("ride_id").notNull().references(() => rides.id),
+  lat: doublePrecision("lat").notNull(),
+  lng: doublePrecision("lng").notNull(),
+  speed: doublePrecision("speed"),
+  rideStatus: text("ride_status", { enum: ["accepted", "in_progress"] }).notNull().default("in_progress"),
+  recordedAt: timestamp("recorded_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index("ride_locations_ride_idx").on(table.rideId, table.recordedAt),
+]);
+
+// Append-only; balances are sums over these rows and nothing updates or deletes them
+export const ledgerPostings = pgTable("ledger_postings", {
+  id: varchar("id").primaryKey(),
+  type: text("type", { enum: ledgerPostingTypes }).notNull(),
+  fromAccount: varchar("from_account").notNull(),
+  toAccount: varchar("to_account").notNull(),
+  amount: doublePrecision("amount").notNull(),
+  rideId: varchar("ride_id").references(() => rides.id),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index("ledger_postings_from_idx").on(table.fromAccount, table.createdAt),
+  index("ledger_postings_to_idx").on(table.toAccount, table.createdAt),
+  index("ledger_postings_ride_idx").on(table.rideId),
+  // A ride can be tipped once, however many tip requests race
+  uniqueIndex("ledger_postings_one_tip_per_ride_idx")
+    .on(table.rideId)
+    .where(sql`${table.type} = 'tip'`),
+  check("ledger_postings_amount_positive", sql`${table.amount} > 0`),
+]);
+
+// At most one live PIN per delivery; the row goes once the PIN is used
+export const deliveryPins = pgTable("delivery_pins", {
+  rideId: varchar("ride_id").primaryKey().references(() => rides.id),
+  pinHash: text("pin_hash").notNull(),
+  issuedAt: timestamp("issued_at", { withTimezone: true }).notNull().defaultNow(),
+  attempts: integer("attempts").notNull().default(0),
+});
+
+export const rideEvents = pgTable("ride_events", {
+  id: varchar("id").primaryKey(),
+  rideId: varchar("ride_id").notNull().references(() => rides.id),
+  type: text("type", { enum: rideEventTypes }).notNull(),
+  fromStatus: text("from_status", { enum: rideStatuses }),
+  toStatus: text("to_status", { enum: rideStatuses }),
+  actorId: varchar("actor_id"),
+  actorRole: text("actor_role", { enum: rideActorRoles }).notNull(),
+  data: jsonb("data").$type<Record<string, any>>(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index("ride_events_ride_idx").on(table.rideId, table.createdAt),
+]);
+
 // API request/response types
+export const authChallengeSchema = z.object({
+  walletAddress: z.string(),
+});
+export type AuthChallengeRequest = z.infer<typeof authChallengeSchema>;
+
+export interface AuthChallengeResponse {
+  nonce: string;
+  message: string;
+  expiresAt: string;
+}
+
 export const authConnectSchema = z.object({
   walletAddress: z.string(),
   role: z.enum(["customer", "driver"]),
+  // Nonce of the challenge from /api/auth/challenge, and the wallet's signature over its message
+  nonce: z.string(),
+  signature: z.string(),
 });
 export type AuthConnectRequest = z.infer<typeof authConnectSchema>;
 
-export const rideRequestSchema = z.object({
+export const fareQuoteRequestSchema = z.object({
   pickup: locationSchema,
+  // Visited in order between pickup and dropoff
+  stops: z.array(locationSchema).max(MAX_RIDE_STOPS).default([]),
   dropoff: locationSchema,
-  estimatedFare: z.number(),
-  stakedAmount: z.number(),
-  customerId: z.string(),
+  rideType: z.enum(rideTypes).default("standard"),
+  seats: z.number().int().min(1).max(MAX_POOL_SEATS).default(1),
+  deliveryType: z.enum(deliveryTypes).default("ride"),
+  parcel: parcelSchema.nullable().default(null),
+})
+  // Pool riders share the car, so they go straight from pickup to dropoff
+  .refine((quote) => quote.rideType !== "pool" || quote.stops.length === 0, {
+    message: "Pool rides can't have stops",
+    path: ["stops"],
+  })
+  .refine((quote) => quote.rideType === "pool" || quote.seats === 1, {
+    message: "Only pool rides book seats",
+    path: ["seats"],
+  })
+  .refine((quote) => (quote.deliveryType === "parcel") === (quote.parcel !== null), {
+    message: "Parcel details are required for parcel deliveries only",
+    path: ["parcel"],
+  })
+  .refine((quote) => quote.deliveryType === "ride" || quote.rideType === "standard", {
+    message: "Parcels can't be pooled",
+    path: ["rideType"],
+  });
+export type FareQuoteRequest = z.infer<typeof fareQuoteRequestSchema>;
+
+export interface FareBreakdown {
+  distanceKm: number;
+  durationMinutes: number;
+  baseFare: number;
+  distanceFare: number;
+  timeFare: number;
+  // Demand multiplier applied to the fare (1 when there is no surge)
+  surgeMultiplier: number;
+  // Taken off the fare for sharing the car (0 for standard rides)
+  poolDiscount: number;
+  // Added for the package class on parcel deliveries (0 for rides)
+  parcelFee: number;
+  fare: number;
+  // Amount the customer has to lock in escrow for this fare
+  stakeRequired: number;
+}
+
+export interface FareQuote extends FareBreakdown {
+  // Signed token to pass to /api/rides/request; encodes the route and price
+  quoteId: string;
+  rideType: RideType;
+  seats: number;
+  deliveryType: DeliveryType;
+  parcel: Parcel | null;
+  pickup: Location;
+  stops: Location[];
+  dropoff: Location;
+  expiresAt: string;
+  // The surge multiplier is guaranteed until this time; the quote itself may outlive it
+  surgeExpiresAt: string;
+  // Road route the fare was priced on
+  path: Location[];
+}
+
+export const directionsRequestSchema = z.object({
+  waypoints: z.array(locationSchema).min(2).max(10),
+});
+export type DirectionsRequest = z.infer<typeof directionsRequestSchema>;
+
+export interface RouteLeg {
+  distanceKm: number;
+  durationMinutes: number;
+  // "straight" when the leg couldn't be routed on the road graph and was estimated as the crow flies
+  source: "road" | "straight";
+  path: Location[];
+  // Expected speed on each segment of the path (one fewer than the points)
+  speedsKmh: number[];
+}
+
+export interface RoutePlan {
+  distanceKm: number;
+  durationMinutes: number;
+  // One leg per consecutive pair of waypoints
+  legs: RouteLeg[];
+  // All legs joined, for drawing
+  path: Location[];
+}
+
+// Surge area for the driver map overlay
+export interface SurgeCell {
+  cell: string;
+  multiplier: number;
+  expiresAt: string;
+  bounds: { south: number; west: number; north: number; east: number };
+}
+
+export const surgeAreaQuerySchema = z.object({
+  lat: z.coerce.number().min(-90).max(90),
+  lng: z.coerce.number().min(-180).max(180),
+  radiusKm: z.coerce.number().positive().max(50).default(10),
+});
+
+// IANA zone names such as "Europe/Berlin", as understood by Intl
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The caller's identity comes from the session token, never from the request body.
+// Route, fare and stake all come from the quote, so clients cannot price their own rides.
+// The ride is a pending_stake draft until its stake is confirmed through rideStakeSchema.
+// A scheduledFor time books the ride for later instead of dispatching it now.
+export const rideRequestSchema = z.object({
+  quoteId: z.string(),
+  // An absolute instant (with offset), so the server never has to guess the client's zone
+  scheduledFor: z.string().datetime({ offset: true }).optional(),
+  timeZone: z.string().refine(isValidTimeZone, "Unknown time zone").optional(),
 });
 export type RideRequestPayload = z.infer<typeof rideRequestSchema>;
 
-export const rideAcceptSchema = z.object({
-  driverId: z.string(),
+const chainHash = z.string().regex(/^0x[0-9a-fA-F]{64}$/, "Expected a 32-byte hex hash");
+
+// Confirms a requested ride's stake. With the hash and block of the customer's own createOrder transaction
+// the server checks that order on chain; without them it locks the stake from the customer's balance itself.
+export const rideStakeSchema = z.object({
+  txHash: chainHash,
+  blockHash: chainHash,
+}).partial().refine(
+  (stake) => (stake.txHash === undefined) === (stake.blockHash === undefined),
+  "txHash and blockHash must be sent together",
+);
+export type RideStakePayload = z.infer<typeof rideStakeSchema>;
+
+// Driver position for the nearby-requests feed (query string, so values arrive as strings)
+export const availableRidesQuerySchema = z.object({
+  lat: z.coerce.number().min(-90).max(90),
+  lng: z.coerce.number().min(-180).max(180),
+  radiusKm: z.coerce.number().positive().optional(),
 });
-export type RideAcceptPayload = z.infer<typeof rideAcceptSchema>;
+export type AvailableRidesQuery = z.infer<typeof availableRidesQuerySchema>;
 
 export const rideCompleteSchema = z.object({
-  completedBy: z.enum(["customer", "driver"]),
   rating: z.number().min(1).max(5).optional(),
   feedback: z.string().optional(),
+  // One-time PIN the recipient reads out; parcels can only be completed with it
+  deliveryPin: z.string().regex(/^\d{6}$/, "Delivery PIN must be 6 digits").optional(),
 });
 export type RideCompletePayload = z.infer<typeof rideCompleteSchema>;
 
+// A stake the customer's wallet failed to lock, reported as its draft is called off so the ride keeps why
+export const failedStakeSchema = z.object({
+  // Null when the wallet never signed it
+  txHash: chainHash.nullable(),
+  blockNumber: z.number().int().nonnegative().nullable(),
+  error: z.string().trim().min(1).max(500),
+});
+export type FailedStake = z.infer<typeof failedStakeSchema>;
+
+export const rideCancelSchema = z.object({
+  reason: z.enum(cancellationReasons),
+  note: z.string().trim().max(200).optional(),
+  failedStake: failedStakeSchema.optional(),
+});
+export type RideCancelPayload = z.infer<typeof rideCancelSchema>;
+
+// Largest tip a customer can leave on one ride
+export const MAX_TIP = 50;
+
+export const rideTipSchema = z.object({
+  amount: z.number().min(0.01).max(MAX_TIP),
+});
+export type RideTipPayload = z.infer<typeof rideTipSchema>;
+
+// Reason to price a cancellation with before confirming it (query string)
+export const cancellationTermsQuerySchema = z.object({
+  reason: z.enum(cancellationReasons),
+});
+
 // WebSocket message types
 export const wsMessageSchema = z.object({
-  type: z.enum(["location_update", "ride_status", "subscribe", "unsubscribe"]),
+  type: z.enum(["location_update", "ride_status", "subscribe", "unsubscribe", "driver_location"]),
   rideId: z.string().optional(),
   data: z.any().optional(),
 });
@@ -112,18 +825,71 @@ export const locationUpdateSchema = z.object({
   lng: z.number(),
   timestamp: z.number(),
   speed: z.number().optional(),
+  // Direction of travel in degrees clockwise from north
+  heading: z.number().optional(),
 });
 export type LocationUpdate = z.infer<typeof locationUpdateSchema>;
 
 // Available ride for drivers
 export interface AvailableRide {
   rideId: string;
+  rideType: RideType;
+  seats: number;
+  deliveryType: DeliveryType;
+  parcel: ParcelSummary | null;
   pickup: Location;
+  stops: Location[];
   dropoff: Location;
   fare: number;
   customerRating: number;
   customerName: string;
-  distance: number;
+  // Driver position to pickup, in km
+  pickupDistance: number;
+  // Pickup through the stops to dropoff, in km
+  tripDistance: number;
+}
+
+// Scheduled ride in a driver's "Upcoming" feed
+export interface UpcomingRide extends AvailableRide {
+  scheduledFor: string;
+  timeZone: string | null;
+  // Reserved by the driver viewing the feed
+  reserved: boolean;
+}
+
+// Exclusive, time-limited offer pushed to one driver by the dispatcher
+export interface RideOffer extends AvailableRide {
+  etaMinutes: number;
+  expiresAt: string;
+}
+
+// One customer's ride in the pool a driver is working, as shown to that driver
+export interface PoolRider {
+  rideId: string;
+  customerName: string;
+  seats: number;
+  status: RideStatus;
+  pickup: Location;
+  dropoff: Location;
+  estimatedFare: number;
+}
+
+// A parcel delivery as its recipient sees it through their tracking link
+export interface DeliveryTracking {
+  rideId: string;
+  status: RideStatus;
+  senderName: string;
+  recipientName: string;
+  size: PackageSize;
+  handlingNotes: string;
+  pickup: Location;
+  dropoff: Location;
+  driverName: string | null;
+  driverLocation: Location | null;
+  // Last digits of the phone the handover PIN was texted to, while the parcel is on its way.
+  // The PIN itself never appears here, since the sender can open this page too
+  pinSentTo: string | null;
+  completedAt: string | null;
 }
 
 // Ride with user details
@@ -139,4 +905,6 @@ export interface RideWithDetails extends Ride {
     address: string;
     rating: number;
   };
+  // Every active ride in the driver's pool, this one included; only sent to the driver
+  pool?: PoolRider[];
 }
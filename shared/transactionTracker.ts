@@ -0,0 +1,137 @@
+import type { ApiPromise } from "@polkadot/api";
+import type { AddressOrPair, SignerOptions, SubmittableExtrinsic } from "@polkadot/api/types";
+import type { DispatchError, Hash } from "@polkadot/types/interfaces";
+import type { SpRuntimeDispatchError } from "@polkadot/types/lookup";
+import type { ISubmittableResult } from "@polkadot/types/types";
+import type { ChainTxStage } from "./schema";
+
+// Where a submitted transaction has got to; each stage keeps what the earlier ones learned
+export interface TxProgress {
+  stage: ChainTxStage;
+  txHash: string | null;
+  blockHash: string | null;
+  blockNumber: number | null;
+  error: string | null;
+}
+
+export interface TrackOptions {
+  // Report failed, and stop waiting, if the transaction isn't finalized by then
+  timeoutMs: number;
+  onProgress?: (progress: TxProgress) => void;
+}
+
+export interface TrackedTransaction {
+  txHash: string;
+  blockHash: string;
+  blockNumber: number;
+  // The finalized result, with the block's events for the transaction
+  result: ISubmittableResult;
+}
+
+export class TransactionFailedError extends Error {
+  constructor(message: string, public progress: TxProgress) {
+    super(message);
+    this.name = "TransactionFailedError";
+  }
+}
+
+// "balances.InsufficientBalance: Balance too low to send value" rather than an index into the runtime
+export function decodeDispatchError(api: ApiPromise, error: DispatchError | SpRuntimeDispatchError): string {
+  if (error.isModule) {
+    const { section, name, docs } = api.registry.findMetaError(error.asModule);
+    return docs.length ? `${section}.${name}: ${docs.join(" ")}` : `${section}.${name}`;
+  }
+  return error.toString();
+}
+
+/**
+ * Sign and submit a transaction, reporting each stage through onProgress until it is finalized.
+ * Rejects with TransactionFailedError if the chain rejects it, it fails to dispatch,
+ * or it isn't finalized within the timeout.
+ */
+export function trackTransaction(
+  api: ApiPromise,
+  tx: SubmittableExtrinsic<"promise">,
+  account: AddressOrPair,
+  signerOptions: Partial<SignerOptions>,
+  { timeoutMs, onProgress }: TrackOptions,
+): Promise<TrackedTransaction> {
+  return new Promise<TrackedTransaction>((resolve, reject) => {
+    let progress: TxProgress = { stage: "ready", txHash: null, blockHash: null, blockNumber: null, error: null };
+    let unsubscribe: (() => void) | null = null;
+    let settled = false;
+    // Status callbacks look up block numbers, so they are handled one at a time in the order they arrive
+    let handling = Promise.resolve();
+
+    // Nothing is reported after the outcome, e.g. a block lookup that returns after the timeout
+    const report = (changes: Partial<TxProgress>) => {
+      if (settled) return;
+      progress = { ...progress, ...changes };
+      onProgress?.(progress);
+    };
+
+    const finish = () => {
+      settled = true;
+      clearTimeout(timer);
+      unsubscribe?.();
+    };
+
+    const fail = (error: string, changes: Partial<TxProgress> = {}) => {
+      if (settled) return;
+      report({ ...changes, stage: "failed", error });
+      finish();
+      reject(new TransactionFailedError(error, progress));
+    };
+
+    const blockNumberOf = async (blockHash: Hash) => (await api.rpc.chain.getHeader(blockHash)).number.toNumber();
+
+    const handle = async (result: ISubmittableResult) => {
+      if (settled) return;
+      const { status, dispatchError, txHash } = result;
+
+      if (dispatchError) {
+        // It made it into a block, but the call itself failed
+        const blockHash = status.isInBlock ? status.asInBlock : status.isFinalized ? status.asFinalized : null;
+        fail(decodeDispatchError(api, dispatchError), {
+          txHash: txHash.toHex(),
+          ...(blockHash && { blockHash: blockHash.toHex(), blockNumber: await blockNumberOf(blockHash) }),
+        });
+      } else if (status.isReady || status.isFuture) {
+        report({ stage: "ready", txHash: txHash.toHex() });
+      } else if (status.isBroadcast) {
+        report({ stage: "broadcast", txHash: txHash.toHex() });
+      } else if (status.isRetracted) {
+        // Its block was dropped from the best chain; the transaction goes back into the pool
+        report({ stage: "broadcast", blockHash: null, blockNumber: null });
+      } else if (status.isInBlock) {
+        const blockHash = status.asInBlock;
+        report({ stage: "inBlock", txHash: txHash.toHex(), blockHash: blockHash.toHex(), blockNumber: await blockNumberOf(blockHash) });
+      } else if (status.isFinalized) {
+        const blockHash = status.asFinalized;
+        const blockNumber = await blockNumberOf(blockHash);
+        if (settled) return;
+        report({ stage: "finalized", txHash: txHash.toHex(), blockHash: blockHash.toHex(), blockNumber });
+        finish();
+        resolve({ txHash: txHash.toHex(), blockHash: blockHash.toHex(), blockNumber, result });
+      } else if (status.isInvalid || status.isDropped || status.isUsurped || status.isFinalityTimeout) {
+        fail(`Transaction ${status.type.toLowerCase()}`);
+      }
+    };
+
+    const timer = setTimeout(() => {
+      fail(`Not finalized after ${timeoutMs / 1000}s (last seen ${progress.stage})`);
+    }, timeoutMs);
+
+    tx.signAndSend(account, signerOptions, (result) => {
+      handling = handling
+        .then(() => handle(result))
+        .catch((error) => fail(error instanceof Error ? error.message : String(error)));
+    })
+      .then((unsub) => {
+        unsubscribe = unsub;
+        if (settled) unsub();
+      })
+      // Signing was refused or the node turned the transaction away
+      .catch((error) => fail(error instanceof Error ? error.message : String(error)));
+  });
+}